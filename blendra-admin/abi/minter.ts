@@ -1,116 +0,0 @@
-export const MINTER_ABI = [
-  // View functions
-  {
-    name: 'paused',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'bool' }],
-  },
-  {
-    name: 'totalAssets',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'uint256' }],
-  },
-  {
-    name: 'tvlCap',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'uint256' }],
-  },
-  {
-    name: 'reserveBalance',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'uint256' }],
-  },
-  {
-    name: 'minReserveBalance',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'uint256' }],
-  },
-  {
-    name: 'userOperationCooldown',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'uint256' }],
-  },
-  {
-    name: 'feeRecipient',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'address' }],
-  },
-  {
-    name: 'owner',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ type: 'address' }],
-  },
-  // Admin functions
-  {
-    name: 'pause',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [],
-    outputs: [],
-  },
-  {
-    name: 'unpause',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [],
-    outputs: [],
-  },
-  {
-    name: 'setTVLCap',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'newCap', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    name: 'setMinReserveBalance',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: '_minReserve', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    name: 'setUserOperationCooldown',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'newCooldown', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    name: 'setFeeRecipient',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: '_feeRecipient', type: 'address' }],
-    outputs: [],
-  },
-  {
-    name: 'fundReserve',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'amount', type: 'uint256' }],
-    outputs: [],
-  },
-  {
-    name: 'rebalancePerp',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [],
-    outputs: [],
-  },
-] as const;
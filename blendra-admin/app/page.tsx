@@ -6,9 +6,12 @@ import { ProtocolStatus } from '@/components/ProtocolStatus';
 import { AdminActions } from '@/components/AdminActions';
 import { RevenueManagement } from '@/components/RevenueManagement';
 import { GovernanceActions } from '@/components/GovernanceActions';
+import { NetworkSwitcher } from '@/components/NetworkSwitcher';
+import { useDeployment } from '@/lib/useDeployment';
 
 export default function Home() {
   const { isConnected } = useAccount();
+  const { contracts, chain, explorerUrl } = useDeployment();
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
@@ -19,7 +22,10 @@ export default function Home() {
             <h1 className="text-3xl font-bold text-white">Blendra Admin</h1>
             <p className="text-gray-400 text-sm">Protocol Management Dashboard</p>
           </div>
-          <ConnectButton />
+          <div className="flex items-center gap-3">
+            <NetworkSwitcher />
+            <ConnectButton chainStatus="none" />
+          </div>
         </div>
       </header>
 
@@ -64,15 +70,20 @@ export default function Home() {
       {/* Footer */}
       <footer className="border-t border-gray-700 bg-gray-900/50 backdrop-blur-sm mt-16">
         <div className="container mx-auto px-4 py-6 text-center text-gray-400 text-sm">
-          <p>Blendra Protocol v1.0.0 • Arbitrum One •
-            <a
-              href={`https://arbiscan.io/address/${process.env.NEXT_PUBLIC_MINTER_ADDRESS}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary-400 hover:text-primary-300 ml-1"
-            >
-              View on Arbiscan
-            </a>
+          <p>Blendra Protocol v1.0.0 • {chain?.name}
+            {explorerUrl && (
+              <>
+                {' •'}
+                <a
+                  href={`${explorerUrl}/address/${contracts.minter}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary-400 hover:text-primary-300 ml-1"
+                >
+                  View on {chain?.blockExplorers?.default.name}
+                </a>
+              </>
+            )}
           </p>
         </div>
       </footer>
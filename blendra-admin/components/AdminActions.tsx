@@ -2,11 +2,13 @@
 
 import { useState } from 'react';
 import { useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
-import { CONTRACTS } from '@/lib/config';
-import { MINTER_ABI } from '@/abi/minter';
+import { MINTER_ABI } from '@/lib/config';
+import { useDeployment } from '@/lib/useDeployment';
 import { parseUnits } from 'viem';
+import { decodeBlendraError, formatUnitsFixed } from '@blendra/sdk';
 
 export function AdminActions() {
+  const { contracts, explorerUrl } = useDeployment();
   const [tvlCapInput, setTvlCapInput] = useState('');
   const [minReserveInput, setMinReserveInput] = useState('');
   const [fundAmount, setFundAmount] = useState('');
@@ -14,24 +16,26 @@ export function AdminActions() {
   const [showRebalanceModal, setShowRebalanceModal] = useState(false);
 
   const { data: paused } = useReadContract({
-    address: CONTRACTS.MINTER,
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'paused',
   });
 
   // Fetch health status for rebalance modal
   const { data: healthStatus } = useReadContract({
-    address: CONTRACTS.MINTER,
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'getHealthStatus',
   });
 
-  const { writeContract, data: hash, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, error: receiptError } = useWaitForTransactionReceipt({ hash });
+  const txError = writeError ?? receiptError;
+  const decodedError = txError ? decodeBlendraError(txError) : undefined;
 
   const handlePause = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'pause',
     });
@@ -39,7 +43,7 @@ export function AdminActions() {
 
   const handleUnpause = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'unpause',
     });
@@ -49,7 +53,7 @@ export function AdminActions() {
     if (!tvlCapInput) return;
     const amount = parseUnits(tvlCapInput, 6);
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'setTVLCap',
       args: [amount],
@@ -60,7 +64,7 @@ export function AdminActions() {
     if (!minReserveInput) return;
     const amount = parseUnits(minReserveInput, 6);
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'setMinReserveBalance',
       args: [amount],
@@ -71,7 +75,7 @@ export function AdminActions() {
     if (!fundAmount) return;
     const amount = parseUnits(fundAmount, 6);
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'fundReserve',
       args: [amount],
@@ -86,21 +90,21 @@ export function AdminActions() {
     const minTVL = minTVLAfterRebalance ? parseUnits(minTVLAfterRebalance, 6) : BigInt(0);
 
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'rebalancePerp',
-      args: [minTVL],
+      args: [minTVL, false],
     });
 
     setShowRebalanceModal(false);
   };
 
   const formatUSDC = (value: bigint) => {
-    return (Number(value) / 1e6).toFixed(2);
+    return formatUnitsFixed(value, 6, 2);
   };
 
   const formatBPS = (bps: bigint) => {
-    return (Number(bps) / 100).toFixed(1);
+    return formatUnitsFixed(bps, 2, 1);
   };
 
   return (
@@ -233,15 +237,15 @@ export function AdminActions() {
                 <div className="bg-gray-700/50 rounded-lg p-4 mb-4 space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-400">Current Health:</span>
-                    <span className={`font-bold ${Number(healthStatus[0]) < 5000 ? 'text-red-400' : 'text-yellow-400'}`}>
+                    <span className={`font-bold ${(healthStatus[0] as bigint) < 5000n ? 'text-red-400' : 'text-yellow-400'}`}>
                       {formatBPS(healthStatus[0] as bigint)}%
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-400">Perp PnL:</span>
-                    <span className={`font-bold ${Number(healthStatus[2]) < 0 ? 'text-red-400' : 'text-green-400'}`}>
-                      ${formatUSDC(BigInt(Math.abs(Number(healthStatus[2]))))}
-                      {Number(healthStatus[2]) < 0 ? ' (Loss)' : ' (Profit)'}
+                    <span className={`font-bold ${(healthStatus[2] as bigint) < 0n ? 'text-red-400' : 'text-green-400'}`}>
+                      ${formatUSDC((healthStatus[2] as bigint) < 0n ? -(healthStatus[2] as bigint) : (healthStatus[2] as bigint))}
+                      {(healthStatus[2] as bigint) < 0n ? ' (Loss)' : ' (Profit)'}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
@@ -300,7 +304,7 @@ export function AdminActions() {
         )}
 
         {/* Transaction Status */}
-        {(isPending || isConfirming || isSuccess) && (
+        {(isPending || isConfirming || isSuccess || decodedError) && (
           <div className="mt-4 p-3 rounded-lg bg-gray-700/50 border border-gray-600">
             {isPending && (
               <p className="text-sm text-yellow-400">⏳ Waiting for wallet confirmation...</p>
@@ -308,12 +312,18 @@ export function AdminActions() {
             {isConfirming && (
               <p className="text-sm text-blue-400">⏳ Transaction confirming...</p>
             )}
+            {decodedError && (
+              <>
+                <p className="text-sm text-red-400">❌ {decodedError.message}</p>
+                <p className="text-xs text-gray-400 mt-1">{decodedError.remediation}</p>
+              </>
+            )}
             {isSuccess && (
               <p className="text-sm text-green-400">✅ Transaction confirmed!</p>
             )}
-            {hash && (
+            {hash && explorerUrl && (
               <a
-                href={`https://arbiscan.io/tx/${hash}`}
+                href={`${explorerUrl}/tx/${hash}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-primary-400 hover:text-primary-300 block mt-1"
@@ -1,49 +1,55 @@
 'use client';
 
 import { useState } from 'react';
-import { useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
-import { CONTRACTS } from '@/lib/config';
-import { MINTER_ABI } from '@/abi/minter';
+import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useSimulateContract } from 'wagmi';
+import { MINTER_ABI } from '@/lib/config';
+import { useDeployment } from '@/lib/useDeployment';
 import { parseUnits } from 'viem';
+import { decodeBlendraError, formatUnitsFixed } from '@blendra/sdk';
 
 export function GovernanceActions() {
+  const { contracts, explorerUrl } = useDeployment();
   const [proposedLeverage, setProposedLeverage] = useState('');
   const [minHarvestInterval, setMinHarvestInterval] = useState('');
   const [minHarvestAmount, setMinHarvestAmount] = useState('');
 
   // Read current governance state
   const { data: currentLeverage } = useReadContract({
-    address: CONTRACTS.MINTER,
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'targetLeverage',
   });
 
   const { data: pendingLeverage } = useReadContract({
-    address: CONTRACTS.MINTER,
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'proposedLeverage',
   });
 
   const { data: leverageTimestamp } = useReadContract({
-    address: CONTRACTS.MINTER,
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'leverageChangeTimestamp',
   });
 
-  const { data: canHarvestData } = useReadContract({
-    address: CONTRACTS.MINTER,
+  // canHarvest() is non-view (it refreshes the yield snapshot), so read it via eth_call
+  const { data: canHarvestSimulation } = useSimulateContract({
+    address: contracts.minter,
     abi: MINTER_ABI,
     functionName: 'canHarvest',
   });
+  const canHarvestData = canHarvestSimulation?.result;
 
-  const { writeContract, data: hash, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, error: receiptError } = useWaitForTransactionReceipt({ hash });
+  const txError = writeError ?? receiptError;
+  const decodedError = txError ? decodeBlendraError(txError) : undefined;
 
   // Leverage Governance
   const handleProposeLeverage = () => {
     if (!proposedLeverage) return;
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'proposeLeverageChange',
       args: [BigInt(proposedLeverage)],
@@ -52,7 +58,7 @@ export function GovernanceActions() {
 
   const handleExecuteLeverage = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'executeLeverageChange',
     });
@@ -60,7 +66,7 @@ export function GovernanceActions() {
 
   const handleCancelLeverage = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'cancelLeverageProposal',
     });
@@ -69,7 +75,7 @@ export function GovernanceActions() {
   // Harvest Management
   const handleHarvestYield = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'harvestYield',
     });
@@ -83,7 +89,7 @@ export function GovernanceActions() {
     const minAmount = parseUnits(minHarvestAmount, 6);
 
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'setHarvestConfig',
       args: [intervalSeconds, minAmount],
@@ -93,7 +99,7 @@ export function GovernanceActions() {
   // Price Management
   const handleUpdatePrice = () => {
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'updateLastPrice',
     });
@@ -107,7 +113,7 @@ export function GovernanceActions() {
     if (!confirmed) return;
 
     writeContract({
-      address: CONTRACTS.MINTER,
+      address: contracts.minter,
       abi: MINTER_ABI,
       functionName: 'emergencyWithdrawStrategy',
     });
@@ -221,7 +227,7 @@ export function GovernanceActions() {
               <div>
                 <span className="text-gray-400">Net Yield:</span>
                 <span className="ml-2 font-bold text-white">
-                  ${(Number(canHarvestData[1]) / 1e6).toFixed(2)}
+                  ${formatUnitsFixed(canHarvestData[1], 6, 2)}
                 </span>
               </div>
               <div className="col-span-2">
@@ -313,7 +319,7 @@ export function GovernanceActions() {
       </div>
 
       {/* Transaction Status */}
-      {(isPending || isConfirming || isSuccess) && (
+      {(isPending || isConfirming || isSuccess || decodedError) && (
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-4 border border-gray-700">
           {isPending && (
             <p className="text-sm text-yellow-400">⏳ Waiting for wallet confirmation...</p>
@@ -321,12 +327,18 @@ export function GovernanceActions() {
           {isConfirming && (
             <p className="text-sm text-blue-400">⏳ Transaction confirming...</p>
           )}
+          {decodedError && (
+            <>
+              <p className="text-sm text-red-400">❌ {decodedError.message}</p>
+              <p className="text-xs text-gray-400 mt-1">{decodedError.remediation}</p>
+            </>
+          )}
           {isSuccess && (
             <p className="text-sm text-green-400">✅ Transaction confirmed!</p>
           )}
-          {hash && (
+          {hash && explorerUrl && (
             <a
-              href={`https://arbiscan.io/tx/${hash}`}
+              href={`${explorerUrl}/tx/${hash}`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-xs text-primary-400 hover:text-primary-300 block mt-1"
@@ -0,0 +1,34 @@
+'use client';
+
+import { useSwitchChain } from 'wagmi';
+import { getDeployment } from '@blendra/sdk';
+import { SUPPORTED_CHAINS, type SupportedChainId } from '@/lib/networks';
+import { useDeployment } from '@/lib/useDeployment';
+
+export function NetworkSwitcher() {
+  const { chainId, manifest, contracts } = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="text-right hidden md:block">
+        <div className="text-xs text-gray-400">Deployment: {manifest}</div>
+        <div className="text-xs text-gray-500 font-mono">
+          Minter {contracts.minter.slice(0, 6)}...{contracts.minter.slice(-4)}
+        </div>
+      </div>
+      <select
+        value={chainId}
+        disabled={isPending}
+        onChange={(e) => switchChain({ chainId: Number(e.target.value) as SupportedChainId })}
+        className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500"
+      >
+        {SUPPORTED_CHAINS.map((chain) => (
+          <option key={chain.id} value={chain.id}>
+            {chain.name} ({getDeployment(chain.id).manifest})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,46 +1,20 @@
 'use client';
 
-import { useReadContract } from 'wagmi';
-import { CONTRACTS } from '@/lib/config';
-import { MINTER_ABI } from '@/abi/minter';
+import { useDeployment } from '@/lib/useDeployment';
+import { useProtocolSnapshot } from '@/lib/useProtocolSnapshot';
 import { formatUnits } from 'viem';
 
 export function ProtocolStatus() {
-  const { data: paused } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'paused',
-  });
+  const { contracts, explorerUrl, feeDistributor } = useDeployment();
 
-  const { data: tvl } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'totalAssets',
-  });
-
-  const { data: tvlCap } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'tvlCap',
-  });
-
-  const { data: reserve } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'reserveBalance',
-  });
-
-  const { data: minReserve } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'minReserveBalance',
-  });
-
-  const { data: cooldown } = useReadContract({
-    address: CONTRACTS.MINTER,
-    abi: MINTER_ABI,
-    functionName: 'userOperationCooldown',
-  });
+  // One block-consistent read of every protocol value on this dashboard
+  const { data: snapshot } = useProtocolSnapshot();
+  const paused = snapshot?.paused;
+  const tvl = snapshot?.totalAssets;
+  const tvlCap = snapshot?.tvlCap;
+  const reserve = snapshot?.reserveBalance;
+  const minReserve = snapshot?.minReserveBalance;
+  const cooldown = snapshot?.userOperationCooldown;
 
   const formatUSDC = (value: bigint | undefined) => {
     if (!value) return '0';
@@ -54,7 +28,14 @@ export function ProtocolStatus() {
 
   return (
     <div>
-      <h2 className="text-2xl font-bold text-white mb-4">Protocol Status</h2>
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-2xl font-bold text-white">Protocol Status</h2>
+        {snapshot && (
+          <span className="text-xs text-gray-500">
+            Block {snapshot.blockNumber.toString()} · {new Date(snapshot.timestamp * 1000).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
       <div className="grid md:grid-cols-3 gap-4">
         {/* Status Card */}
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
@@ -84,13 +65,13 @@ export function ProtocolStatus() {
           <div className="text-sm text-gray-500">
             Cap: ${formatUSDC(tvlCap)}
           </div>
-          {tvl && tvlCap && (
+          {tvl !== undefined && tvlCap !== undefined && tvlCap > 0n && (
             <div className="mt-2">
               <div className="bg-gray-700 rounded-full h-2 overflow-hidden">
                 <div
                   className="bg-primary-500 h-full transition-all"
                   style={{
-                    width: `${Math.min((Number(tvl) / Number(tvlCap)) * 100, 100)}%`,
+                    width: `${tvl >= tvlCap ? 100 : Number((tvl * 10000n) / tvlCap) / 100}%`,
                   }}
                 />
               </div>
@@ -107,7 +88,7 @@ export function ProtocolStatus() {
           <div className="text-sm text-gray-500">
             Min: ${formatUSDC(minReserve)}
           </div>
-          {reserve && minReserve && Number(reserve) < Number(minReserve) && (
+          {reserve !== undefined && minReserve !== undefined && reserve < minReserve && (
             <div className="mt-2 text-xs text-yellow-400 flex items-center">
               ⚠️ Below minimum
             </div>
@@ -129,34 +110,34 @@ export function ProtocolStatus() {
             <div className="flex justify-between">
               <span className="text-gray-500">Minter:</span>
               <a
-                href={`https://arbiscan.io/address/${CONTRACTS.MINTER}`}
+                href={explorerUrl && `${explorerUrl}/address/${contracts.minter}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-primary-400 hover:text-primary-300 font-mono"
               >
-                {CONTRACTS.MINTER.slice(0, 6)}...{CONTRACTS.MINTER.slice(-4)}
+                {contracts.minter.slice(0, 6)}...{contracts.minter.slice(-4)}
               </a>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-500">GBPb Token:</span>
               <a
-                href={`https://arbiscan.io/address/${CONTRACTS.GBPB_TOKEN}`}
+                href={explorerUrl && `${explorerUrl}/address/${contracts.gbpb}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-primary-400 hover:text-primary-300 font-mono"
               >
-                {CONTRACTS.GBPB_TOKEN.slice(0, 6)}...{CONTRACTS.GBPB_TOKEN.slice(-4)}
+                {contracts.gbpb.slice(0, 6)}...{contracts.gbpb.slice(-4)}
               </a>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-500">Fee Distributor:</span>
               <a
-                href={`https://arbiscan.io/address/${CONTRACTS.FEE_DISTRIBUTOR}`}
+                href={explorerUrl && `${explorerUrl}/address/${feeDistributor}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-primary-400 hover:text-primary-300 font-mono"
               >
-                {CONTRACTS.FEE_DISTRIBUTOR.slice(0, 6)}...{CONTRACTS.FEE_DISTRIBUTOR.slice(-4)}
+                {feeDistributor?.slice(0, 6)}...{feeDistributor?.slice(-4)}
               </a>
             </div>
           </div>
@@ -2,41 +2,46 @@
 
 import { useState } from 'react';
 import { useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
-import { CONTRACTS } from '@/lib/config';
-import { FEE_DISTRIBUTOR_ABI } from '@/abi/feeDistributor';
+import { FEE_DISTRIBUTOR_ABI } from '@/lib/config';
+import { useDeployment } from '@/lib/useDeployment';
+import { decodeBlendraError } from '@blendra/sdk';
 
 export function RevenueManagement() {
+  const { explorerUrl, feeDistributor } = useDeployment();
   const [treasuryPercent, setTreasuryPercent] = useState('90');
   const [reservePercent, setReservePercent] = useState('10');
 
   const { data: treasuryBps } = useReadContract({
-    address: CONTRACTS.FEE_DISTRIBUTOR,
+    address: feeDistributor,
     abi: FEE_DISTRIBUTOR_ABI,
     functionName: 'treasuryShareBps',
   });
 
   const { data: reserveBps } = useReadContract({
-    address: CONTRACTS.FEE_DISTRIBUTOR,
+    address: feeDistributor,
     abi: FEE_DISTRIBUTOR_ABI,
     functionName: 'reserveShareBps',
   });
 
   const { data: treasury } = useReadContract({
-    address: CONTRACTS.FEE_DISTRIBUTOR,
+    address: feeDistributor,
     abi: FEE_DISTRIBUTOR_ABI,
     functionName: 'treasury',
   });
 
   const { data: reserveBuffer } = useReadContract({
-    address: CONTRACTS.FEE_DISTRIBUTOR,
+    address: feeDistributor,
     abi: FEE_DISTRIBUTOR_ABI,
     functionName: 'reserveBuffer',
   });
 
-  const { writeContract, data: hash, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const { writeContract, data: hash, isPending, error: writeError } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, error: receiptError } = useWaitForTransactionReceipt({ hash });
+  const txError = writeError ?? receiptError;
+  const decodedError = txError ? decodeBlendraError(txError) : undefined;
 
   const handleSetRevenueSplit = () => {
+    if (!feeDistributor) return;
     const treasuryBpsValue = BigInt(Number(treasuryPercent) * 100);
     const reserveBpsValue = BigInt(Number(reservePercent) * 100);
 
@@ -46,7 +51,7 @@ export function RevenueManagement() {
     }
 
     writeContract({
-      address: CONTRACTS.FEE_DISTRIBUTOR,
+      address: feeDistributor,
       abi: FEE_DISTRIBUTOR_ABI,
       functionName: 'setRevenueSplit',
       args: [treasuryBpsValue, reserveBpsValue],
@@ -54,16 +59,18 @@ export function RevenueManagement() {
   };
 
   const handleReleaseTreasury = () => {
+    if (!feeDistributor) return;
     writeContract({
-      address: CONTRACTS.FEE_DISTRIBUTOR,
+      address: feeDistributor,
       abi: FEE_DISTRIBUTOR_ABI,
       functionName: 'releaseTreasury',
     });
   };
 
   const handleReleaseReserve = () => {
+    if (!feeDistributor) return;
     writeContract({
-      address: CONTRACTS.FEE_DISTRIBUTOR,
+      address: feeDistributor,
       abi: FEE_DISTRIBUTOR_ABI,
       functionName: 'releaseReserve',
     });
@@ -78,6 +85,12 @@ export function RevenueManagement() {
     <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-gray-700">
       <h3 className="text-xl font-bold text-white mb-4">Revenue Management</h3>
 
+      {!feeDistributor && (
+        <div className="bg-yellow-900/20 border border-yellow-500/30 rounded-lg p-3 mb-4">
+          <p className="text-xs text-yellow-300">No fee distributor in this network&apos;s deployment manifest.</p>
+        </div>
+      )}
+
       <div className="space-y-4">
         {/* Current Split */}
         <div className="bg-gray-700/50 rounded-lg p-4">
@@ -131,7 +144,7 @@ export function RevenueManagement() {
           </div>
           <button
             onClick={handleSetRevenueSplit}
-            disabled={isPending || isConfirming}
+            disabled={!feeDistributor || isPending || isConfirming}
             className="w-full px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isPending || isConfirming ? 'Processing...' : 'Update Split'}
@@ -178,14 +191,14 @@ export function RevenueManagement() {
           <div className="grid grid-cols-2 gap-2">
             <button
               onClick={handleReleaseTreasury}
-              disabled={isPending || isConfirming}
+              disabled={!feeDistributor || isPending || isConfirming}
               className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Claim Treasury
             </button>
             <button
               onClick={handleReleaseReserve}
-              disabled={isPending || isConfirming}
+              disabled={!feeDistributor || isPending || isConfirming}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Claim Reserve
@@ -210,7 +223,7 @@ export function RevenueManagement() {
         </div>
 
         {/* Transaction Status */}
-        {(isPending || isConfirming || isSuccess) && (
+        {(isPending || isConfirming || isSuccess || decodedError) && (
           <div className="p-3 rounded-lg bg-gray-700/50 border border-gray-600">
             {isPending && (
               <p className="text-sm text-yellow-400">⏳ Waiting for wallet confirmation...</p>
@@ -218,12 +231,18 @@ export function RevenueManagement() {
             {isConfirming && (
               <p className="text-sm text-blue-400">⏳ Transaction confirming...</p>
             )}
+            {decodedError && (
+              <>
+                <p className="text-sm text-red-400">❌ {decodedError.message}</p>
+                <p className="text-xs text-gray-400 mt-1">{decodedError.remediation}</p>
+              </>
+            )}
             {isSuccess && (
               <p className="text-sm text-green-400">✅ Transaction confirmed!</p>
             )}
-            {hash && (
+            {hash && explorerUrl && (
               <a
-                href={`https://arbiscan.io/tx/${hash}`}
+                href={`${explorerUrl}/tx/${hash}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-primary-400 hover:text-primary-300 block mt-1"
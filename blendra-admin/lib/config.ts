@@ -1,12 +1,7 @@
-// Blendra Protocol Contract Addresses on Arbitrum
-export const CONTRACTS = {
-  GBPB_TOKEN: '0x59a7A23c1246713352B663690C3ac6D280a40176',
-  SGBPB_VAULT: '0x0D9Fdc66E774FDa67607D02c498d8dc3AD4F6683',
-  MINTER: '0x680A5F9d86accdcfd0aaCdaf533896A5B6c0F11d',
-  STRATEGY: '0x75A0403A8b9327C1163bF77Af0224107C2c99231',
-  PERP_MANAGER: '0xd7046325c9F798CE0CD16d7286738CA9F4865228',
-  FEE_DISTRIBUTOR: '0xD4A33F34E17C57587297C86b38049bd2B11b2964',
-  USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
-} as const;
+import { configurableFeeDistributorAbi, gbpbMinterAbi } from '@blendra/sdk';
 
-export const CHAIN_ID = 42161; // Arbitrum One
+// ABIs from @blendra/sdk; addresses depend on the selected chain, see useDeployment()
+export const MINTER_ABI = gbpbMinterAbi;
+
+// FeeDistributor and ConfigurableFeeDistributor share the revenue-split interface used here
+export const FEE_DISTRIBUTOR_ABI = configurableFeeDistributorAbi;
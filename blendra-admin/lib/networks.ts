@@ -0,0 +1,26 @@
+import { registerDeployment } from '@blendra/sdk';
+import type { Chain } from 'viem';
+import { anvil, arbitrum, arbitrumSepolia } from 'wagmi/chains';
+
+// deployments/local.json, inlined by next.config.js when present (anvil addresses change per deploy)
+const localManifest = process.env.NEXT_PUBLIC_LOCAL_DEPLOYMENT;
+
+if (localManifest) {
+  registerDeployment(JSON.parse(localManifest), 'local.json');
+}
+
+// Networks the app can switch between - each one has a deployment in @blendra/sdk
+export const SUPPORTED_CHAINS = localManifest
+  ? ([arbitrum, arbitrumSepolia, anvil] as const)
+  : ([arbitrum, arbitrumSepolia] as const);
+
+export type SupportedChainId = (typeof SUPPORTED_CHAINS)[number]['id'];
+
+export function getChain(chainId: number): Chain | undefined {
+  return (SUPPORTED_CHAINS as readonly Chain[]).find((chain) => chain.id === chainId);
+}
+
+// Block explorer base URL, undefined for chains without one (anvil)
+export function getExplorerUrl(chainId: number): string | undefined {
+  return getChain(chainId)?.blockExplorers?.default.url;
+}
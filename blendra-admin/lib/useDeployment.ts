@@ -0,0 +1,23 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { getDeployment } from '@blendra/sdk';
+import { getChain, getExplorerUrl } from './networks';
+
+// Deployment (addresses + manifest) for the chain selected in the wallet / network switcher
+export function useDeployment() {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    const deployment = getDeployment(chainId);
+
+    return {
+      ...deployment,
+      chain: getChain(chainId),
+      explorerUrl: getExplorerUrl(chainId),
+      // Revenue split is administered on the ConfigurableFeeDistributor where one is deployed
+      feeDistributor: deployment.contracts.configurableFeeDistributor ?? deployment.contracts.feeDistributor,
+    };
+  }, [chainId]);
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { readProtocolSnapshot, type ProtocolSnapshot } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// Arbitrum produces several blocks a second; refreshing per block would only burn RPC
+const SNAPSHOT_REFRESH_MS = 12_000;
+
+// Block-consistent protocol snapshot, shared by every dashboard panel through the query cache
+export function useProtocolSnapshot() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<ProtocolSnapshot>({
+    queryKey: ['protocolSnapshot', chainId, contracts.minter],
+    queryFn: () => readProtocolSnapshot(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: SNAPSHOT_REFRESH_MS,
+  });
+}
@@ -1,11 +1,11 @@
 'use client';
 
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { arbitrum } from 'wagmi/chains';
+import { SUPPORTED_CHAINS } from './networks';
 
 export const config = getDefaultConfig({
   appName: 'Blendra Admin',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'f57feadbcac85c350d63cc74b796a7a3', // Temporary fallback
-  chains: [arbitrum],
+  chains: SUPPORTED_CHAINS,
   ssr: true,
 });
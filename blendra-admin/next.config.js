@@ -1,9 +1,28 @@
+const { existsSync, readFileSync } = require('fs');
+const path = require('path');
+
+// Optional local anvil deployment (git-ignored), see packages/sdk/README.md
+const localManifest = path.join(__dirname, '../deployments/local.json');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  env: existsSync(localManifest)
+    ? { NEXT_PUBLIC_LOCAL_DEPLOYMENT: readFileSync(localManifest, 'utf8') }
+    : {},
+  // @blendra/sdk ships TypeScript sources
+  transpilePackages: ['@blendra/sdk'],
   webpack: (config) => {
     config.resolve.fallback = { fs: false, net: false, tls: false };
     config.externals.push('pino-pretty', 'lokijs', 'encoding');
+    config.resolve.alias = {
+      ...config.resolve.alias,
+      // One viem for the app and the linked SDK, even when packages/sdk has its own install for its tests;
+      // two copies would break decodeBlendraError()'s instanceof checks on errors thrown by wagmi
+      viem: path.join(__dirname, 'node_modules/viem'),
+    };
+    // Resolve the linked SDK's other imports from this app's node_modules
+    config.resolve.symlinks = false;
     return config;
   },
 };
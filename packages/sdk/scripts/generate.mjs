@@ -0,0 +1,108 @@
+// Regenerates the typed ABIs, runtime bytecode hashes and bundled deployment manifests
+// in src/ from the Foundry build output (out/) and the manifests in deployments/*.json.
+//
+// Run from packages/sdk after `forge build` or after a new deployment:
+//   npm install && npm run generate
+
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { keccak256 } from 'viem';
+
+const SDK_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const REPO_ROOT = resolve(SDK_ROOT, '../..');
+const OUT_DIR = join(REPO_ROOT, 'out');
+const DEPLOYMENTS_DIR = join(REPO_ROOT, 'deployments');
+
+const HEADER = '// Generated by scripts/generate.mjs - do not edit by hand.\n';
+
+// Foundry artifact name -> exported ABI constant
+const ARTIFACTS = [
+  ['GBPbMinter', 'gbpbMinterAbi'],
+  ['GBPb', 'gbpbAbi'],
+  ['sGBPb', 'sGbpbAbi'],
+  ['PerpPositionManager', 'perpPositionManagerAbi'],
+  ['OstiumPerpProvider', 'ostiumPerpProviderAbi'],
+  ['ChainlinkOracle', 'chainlinkOracleAbi'],
+  ['MorphoStrategyAdapter', 'morphoStrategyAdapterAbi'],
+  ['FeeDistributor', 'feeDistributorAbi'],
+  ['ConfigurableFeeDistributor', 'configurableFeeDistributorAbi'],
+  ['ERC20', 'erc20Abi'],
+  ['AggregatorV3Interface', 'aggregatorV3Abi'],
+];
+
+// Interfaces rather than deployed protocol contracts: ERC20 for USDC, AggregatorV3Interface for the Chainlink feeds
+const INTERFACE_ARTIFACTS = ['ERC20', 'AggregatorV3Interface'];
+
+// Protocol contracts whose deployed runtime code is checked against out/
+const VERIFIED_ARTIFACTS = ARTIFACTS.map(([artifact]) => artifact).filter((artifact) => !INTERFACE_ARTIFACTS.includes(artifact));
+
+// Developer-only manifest for a local anvil chain; never bundled (see README)
+const LOCAL_MANIFEST = 'local.json';
+
+function toFileName(constName) {
+  return constName.replace(/Abi$/, '');
+}
+
+function generateAbis() {
+  const exports = [];
+
+  for (const [artifact, constName] of ARTIFACTS) {
+    const path = join(OUT_DIR, `${artifact}.sol`, `${artifact}.json`);
+    const { abi } = JSON.parse(readFileSync(path, 'utf8'));
+    const file = toFileName(constName);
+
+    writeFileSync(
+      join(SDK_ROOT, 'src/abis', `${file}.ts`),
+      `${HEADER}\nexport const ${constName} = ${JSON.stringify(abi, null, 2)} as const;\n`
+    );
+    exports.push(`export { ${constName} } from './${file}';`);
+  }
+
+  writeFileSync(join(SDK_ROOT, 'src/abis/index.ts'), `${HEADER}\n${exports.join('\n')}\n`);
+}
+
+// Immutables are written into runtime code at deploy time, so the artifact has zeros there.
+// Record where they live and hash the code as built; src/verification zeroes the same
+// ranges in the deployed code before hashing it.
+function generateBytecodeHashes() {
+  const entries = {};
+
+  for (const artifact of VERIFIED_ARTIFACTS) {
+    const path = join(OUT_DIR, `${artifact}.sol`, `${artifact}.json`);
+    const { deployedBytecode } = JSON.parse(readFileSync(path, 'utf8'));
+    const immutables = Object.values(deployedBytecode.immutableReferences ?? {})
+      .flat()
+      .map(({ start, length }) => [start, length])
+      .sort((a, b) => a[0] - b[0]);
+
+    entries[artifact] = { codeHash: keccak256(deployedBytecode.object), immutables };
+  }
+
+  writeFileSync(
+    join(SDK_ROOT, 'src/verification/generated.ts'),
+    `${HEADER}
+export const artifacts: Record<string, { codeHash: \`0x\${string}\`; immutables: [number, number][] }> = ${JSON.stringify(entries, null, 2)};
+`
+  );
+}
+
+// Manifests are bundled verbatim; src/deployments resolves them into address books at runtime
+function generateDeployments() {
+  const manifests = {};
+
+  for (const file of readdirSync(DEPLOYMENTS_DIR).filter((f) => f.endsWith('.json')).sort()) {
+    if (file === LOCAL_MANIFEST) continue;
+    manifests[file] = JSON.parse(readFileSync(join(DEPLOYMENTS_DIR, file), 'utf8'));
+  }
+
+  writeFileSync(
+    join(SDK_ROOT, 'src/deployments/generated.ts'),
+    `${HEADER}\nexport const manifests: Record<string, unknown> = ${JSON.stringify(manifests, null, 2)};\n`
+  );
+}
+
+generateAbis();
+generateBytecodeHashes();
+generateDeployments();
+console.log('SDK sources regenerated');
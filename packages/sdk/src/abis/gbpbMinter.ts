@@ -1,4 +1,6 @@
-[
+// Generated by scripts/generate.mjs - do not edit by hand.
+
+export const gbpbMinterAbi = [
   {
     "type": "constructor",
     "inputs": [
@@ -90,6 +92,19 @@
     ],
     "stateMutability": "view"
   },
+  {
+    "type": "function",
+    "name": "MIN_MINT_AMOUNT",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
   {
     "type": "function",
     "name": "MIN_POSITION_SIZE",
@@ -2236,6 +2251,11 @@
     ],
     "anonymous": false
   },
+  {
+    "type": "error",
+    "name": "BelowMinimumMint",
+    "inputs": []
+  },
   {
     "type": "error",
     "name": "EnforcedPause",
@@ -2379,4 +2399,4 @@
     "name": "ZeroAmount",
     "inputs": []
   }
-]
+] as const;
@@ -0,0 +1,13 @@
+// Generated by scripts/generate.mjs - do not edit by hand.
+
+export { gbpbMinterAbi } from './gbpbMinter';
+export { gbpbAbi } from './gbpb';
+export { sGbpbAbi } from './sGbpb';
+export { perpPositionManagerAbi } from './perpPositionManager';
+export { ostiumPerpProviderAbi } from './ostiumPerpProvider';
+export { chainlinkOracleAbi } from './chainlinkOracle';
+export { morphoStrategyAdapterAbi } from './morphoStrategyAdapter';
+export { feeDistributorAbi } from './feeDistributor';
+export { configurableFeeDistributorAbi } from './configurableFeeDistributor';
+export { erc20Abi } from './erc20';
+export { aggregatorV3Abi } from './aggregatorV3';
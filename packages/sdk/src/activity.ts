@@ -0,0 +1,426 @@
+import {
+  formatLog,
+  isAddressEqual,
+  pad,
+  parseEventLogs,
+  toEventSelector,
+  toHex,
+  zeroAddress,
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import { chainlinkOracleAbi, gbpbMinterAbi, sGbpbAbi } from './abis';
+import { fetchSplittingRange } from './blocks';
+import type { AddressBook } from './deployments';
+import { quoteMint } from './quote';
+import { gbpb, priceE8, sGbpbShares, usdc, type Gbpb, type PriceE8, type SGbpbShares, type Usdc } from './units';
+
+interface ActivityBase {
+  /** `${transactionHash}:${logIndex}` of the event the entry was built from */
+  id: string;
+  transactionHash: Hash;
+  blockNumber: bigint;
+  logIndex: number;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** Oracle GBP/USD at the end of the block; undefined if the node has no history or the feed was stale */
+  gbpUsdPrice?: PriceE8;
+  /** When the feed last updated `gbpUsdPrice`, unix seconds; undefined if it came from the backup feed */
+  gbpUsdPriceUpdatedAt?: number;
+}
+
+export interface MintEntry extends ActivityBase {
+  kind: 'mint';
+  /** Minted.usdcAmount, everything that left the wallet */
+  usdcAmount: Usdc;
+  gbpbAmount: Gbpb;
+  /** Perp opening fee, recomputed from targetLeverage at that block */
+  fee?: Usdc;
+}
+
+export interface RedeemEntry extends ActivityBase {
+  kind: 'redeem';
+  /** Redeemed.usdcAmount, net of the fee */
+  usdcAmount: Usdc;
+  gbpbAmount: Gbpb;
+  /** FeeCollected in the same transaction */
+  fee?: Usdc;
+}
+
+export interface StakeEntry extends ActivityBase {
+  kind: 'stake';
+  shares: SGbpbShares;
+  /** Undefined if the GBPb transfer into the vault wasn't found */
+  gbpbAmount?: Gbpb;
+}
+
+export interface UnstakeEntry extends ActivityBase {
+  kind: 'unstake';
+  gbpbAmount: Gbpb;
+  /** Undefined if the share burn wasn't found */
+  shares?: SGbpbShares;
+}
+
+export interface ClaimEntry extends ActivityBase {
+  kind: 'claim';
+  gbpbAmount: Gbpb;
+}
+
+interface TransferBase extends ActivityBase {
+  kind: 'send' | 'receive';
+  counterparty: Address;
+}
+
+export interface GbpbTransferEntry extends TransferBase {
+  token: 'GBPb';
+  gbpbAmount: Gbpb;
+}
+
+export interface SGbpbTransferEntry extends TransferBase {
+  token: 'sGBPb';
+  shares: SGbpbShares;
+  /** What the shares were worth (convertToAssets) at that block; undefined if it couldn't be read */
+  gbpbAmount?: Gbpb;
+}
+
+/** One thing the user did (or had done to them), rebuilt from the events of a transaction */
+export type ActivityEntry =
+  | MintEntry
+  | RedeemEntry
+  | StakeEntry
+  | UnstakeEntry
+  | ClaimEntry
+  | GbpbTransferEntry
+  | SGbpbTransferEntry;
+
+export type ActivityKind = ActivityEntry['kind'];
+
+/** An entry before `enrich` has read its block; distributes over the union so each kind keeps its fields */
+type PendingEntry<Entry extends ActivityEntry = ActivityEntry> = Entry extends ActivityEntry ? Omit<Entry, 'timestamp'> : never;
+
+/** Where scanned pages are kept between sessions; see vault-ui's IndexedDB implementation */
+export interface ActivityCache {
+  get(key: string): Promise<ActivityEntry[] | undefined>;
+  set(key: string, entries: ActivityEntry[]): Promise<void>;
+}
+
+export interface ActivityScanOptions {
+  fromBlock: bigint;
+  toBlock: bigint;
+  cache?: ActivityCache;
+  /** Blocks per page; pages are aligned to multiples of this so cache keys stay stable */
+  pageSize?: bigint;
+  /** Pages ending this close to `toBlock` may still reorg and are never cached */
+  reorgMargin?: bigint;
+  /** Called after each page, newest first, with that page's entries */
+  onPage?: (entries: ActivityEntry[], progress: { scanned: bigint; total: bigint }) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_PAGE_SIZE = 500_000n;
+const DEFAULT_REORG_MARGIN = 1_000n;
+// Part of every cache key; bump when entries gain fields so pages cached by older builds are rescanned
+const CACHE_VERSION = 3;
+// Below this, a failing range is a real error rather than a provider's range or result limit
+const MIN_SPLIT = 2_000n;
+
+// sGBPb's ABI carries the ERC20 Transfer event for both tokens
+const ACTIVITY_ABI = [...gbpbMinterAbi, ...sGbpbAbi] as const;
+
+// Each of these has the user as its first indexed argument (Transfer's `from`); incoming
+// transfers are the only case with the user in a different topic
+const USER_EVENT_NAMES = ['Minted', 'Redeemed', 'FeeCollected', 'CooldownStarted', 'CooldownWithdraw', 'Transfer'] as const;
+
+const selector = (name: (typeof USER_EVENT_NAMES)[number]) =>
+  toEventSelector(ACTIVITY_ABI.find((item): item is AbiEvent & typeof item => item.type === 'event' && item.name === name)!);
+
+async function getLogsByTopics(
+  client: PublicClient,
+  address: Address[],
+  topics: (Hash | Hash[] | null)[],
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<Log[]> {
+  const logs = await client.request({
+    method: 'eth_getLogs',
+    params: [{ address, topics, fromBlock: toHex(fromBlock), toBlock: toHex(toBlock) }],
+  });
+  return logs.map((log) => formatLog(log));
+}
+
+/** The user's raw logs in a block range: two eth_getLogs calls, split in half while the provider refuses */
+function fetchUserLogs(
+  client: PublicClient,
+  addresses: AddressBook,
+  user: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<Log[]> {
+  const userTopic = pad(user);
+  return fetchSplittingRange(
+    fromBlock,
+    toBlock,
+    async (from, to) => {
+      const [outgoing, incoming] = await Promise.all([
+        getLogsByTopics(
+          client,
+          [addresses.minter, addresses.gbpb, addresses.sGBPb],
+          [USER_EVENT_NAMES.map(selector), userTopic],
+          from,
+          to
+        ),
+        getLogsByTopics(client, [addresses.gbpb, addresses.sGBPb], [selector('Transfer'), null, userTopic], from, to),
+      ]);
+      // A transfer to yourself matches both queries
+      const seen = new Set<string>();
+      return [...outgoing, ...incoming].filter((log) => {
+        const id = `${log.transactionHash}:${log.logIndex}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      });
+    },
+    MIN_SPLIT
+  );
+}
+
+const decode = (logs: Log[]) => parseEventLogs({ abi: ACTIVITY_ABI, eventName: [...USER_EVENT_NAMES], logs });
+type Decoded = ReturnType<typeof decode>[number];
+
+/**
+ * Turn one transaction's logs into entries. Minted/Redeemed/CooldownStarted/CooldownWithdraw and
+ * sGBPb mints are the primary events; the token movements they cause are consumed so only genuine
+ * sends and receives are left over.
+ */
+function entriesForTransaction(logs: Decoded[], addresses: AddressBook, user: Address): PendingEntry[] {
+  const transfers = logs.filter((log) => log.eventName === 'Transfer');
+  const used = new Set<Decoded>();
+  const consume = (match: (log: Decoded & { eventName: 'Transfer' }) => boolean) => {
+    const found = transfers.find((log) => !used.has(log) && match(log as Decoded & { eventName: 'Transfer' }));
+    if (found) used.add(found);
+    return found as (Decoded & { eventName: 'Transfer' }) | undefined;
+  };
+  const isToken = (log: Decoded, token: Address) => isAddressEqual(log.address, token);
+  const base = (log: Decoded) => ({
+    id: `${log.transactionHash}:${log.logIndex}`,
+    transactionHash: log.transactionHash!,
+    blockNumber: log.blockNumber!,
+    logIndex: log.logIndex!,
+  });
+
+  const entries: PendingEntry[] = [];
+  for (const log of logs) {
+    switch (log.eventName) {
+      case 'Minted':
+        consume((t) => isToken(t, addresses.gbpb) && t.args.from === zeroAddress && t.args.value === log.args.gbpAmount);
+        entries.push({ ...base(log), kind: 'mint', usdcAmount: usdc(log.args.usdcAmount), gbpbAmount: gbpb(log.args.gbpAmount) });
+        break;
+      case 'Redeemed': {
+        consume((t) => isToken(t, addresses.gbpb) && t.args.to === zeroAddress && t.args.value === log.args.gbpAmount);
+        const fee = logs.find((other) => other.eventName === 'FeeCollected' && other.transactionHash === log.transactionHash);
+        entries.push({
+          ...base(log),
+          kind: 'redeem',
+          usdcAmount: usdc(log.args.usdcAmount),
+          gbpbAmount: gbpb(log.args.gbpAmount),
+          fee: fee?.eventName === 'FeeCollected' ? usdc(fee.args.amount) : undefined,
+        });
+        break;
+      }
+      case 'CooldownStarted': {
+        const burn = consume((t) => isToken(t, addresses.sGBPb) && t.args.to === zeroAddress);
+        entries.push({
+          ...base(log),
+          kind: 'unstake',
+          gbpbAmount: gbpb(log.args.amount),
+          shares: burn ? sGbpbShares(burn.args.value) : undefined,
+        });
+        break;
+      }
+      case 'CooldownWithdraw':
+        consume((t) => isToken(t, addresses.gbpb) && isAddressEqual(t.args.from, addresses.sGBPb) && t.args.value === log.args.amount);
+        entries.push({ ...base(log), kind: 'claim', gbpbAmount: gbpb(log.args.amount) });
+        break;
+    }
+  }
+
+  // ERC4626 deposit: sGBPb minted to the user against GBPb sent to the vault
+  for (const log of transfers) {
+    if (used.has(log) || log.eventName !== 'Transfer') continue;
+    if (isToken(log, addresses.sGBPb) && log.args.from === zeroAddress && isAddressEqual(log.args.to, user)) {
+      used.add(log);
+      const deposit = consume((t) => isToken(t, addresses.gbpb) && isAddressEqual(t.args.to, addresses.sGBPb));
+      entries.push({
+        ...base(log),
+        kind: 'stake',
+        shares: sGbpbShares(log.args.value),
+        gbpbAmount: deposit ? gbpb(deposit.args.value) : undefined,
+      });
+    }
+  }
+
+  for (const log of transfers) {
+    if (used.has(log) || log.eventName !== 'Transfer') continue;
+    const { from, to, value } = log.args;
+    if (from === zeroAddress || to === zeroAddress) continue;
+    const outgoing = isAddressEqual(from, user);
+    const transfer = { ...base(log), kind: outgoing ? ('send' as const) : ('receive' as const), counterparty: outgoing ? to : from };
+    entries.push(
+      isToken(log, addresses.gbpb)
+        ? { ...transfer, token: 'GBPb', gbpbAmount: gbpb(value) }
+        : { ...transfer, token: 'sGBPb', shares: sGbpbShares(value) }
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * The oracle rate at a block, with the feed's own update time. getGBPUSDPriceWithTimestamp only reads
+ * the primary feed, so when that was stale fall back to getGBPUSDPrice, which may use the backup
+ */
+async function readPriceAt(
+  client: PublicClient,
+  oracle: Address,
+  blockNumber: bigint
+): Promise<{ price: PriceE8; updatedAt?: number } | undefined> {
+  try {
+    const [price, updatedAt] = await client.readContract({
+      address: oracle,
+      abi: chainlinkOracleAbi,
+      functionName: 'getGBPUSDPriceWithTimestamp',
+      blockNumber,
+    });
+    return { price: priceE8(price), updatedAt: Number(updatedAt) };
+  } catch {
+    const price = await client
+      .readContract({ address: oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice', blockNumber })
+      .catch(() => undefined);
+    return price === undefined ? undefined : { price: priceE8(price) };
+  }
+}
+
+/**
+ * Timestamps and the oracle rate at each entry's block, the mint opening fee, and what sGBPb
+ * transferred in or out was worth in GBPb at the time
+ */
+async function enrich(
+  client: PublicClient,
+  addresses: AddressBook,
+  entries: PendingEntry[]
+): Promise<ActivityEntry[]> {
+  const blocks = [...new Set(entries.map((entry) => entry.blockNumber))];
+  const [timestamps, prices] = await Promise.all([
+    Promise.all(
+      blocks.map(async (blockNumber) => [blockNumber, Number((await client.getBlock({ blockNumber })).timestamp)] as const)
+    ).then((pairs) => new Map(pairs)),
+    Promise.all(
+      blocks.map(async (blockNumber) => [blockNumber, await readPriceAt(client, addresses.oracle, blockNumber)] as const)
+    ).then((pairs) => new Map(pairs)),
+  ]);
+
+  return Promise.all(
+    entries.map(async (entry): Promise<ActivityEntry> => {
+      const enriched: ActivityEntry = {
+        ...entry,
+        timestamp: timestamps.get(entry.blockNumber)!,
+        gbpUsdPrice: prices.get(entry.blockNumber)?.price,
+        gbpUsdPriceUpdatedAt: prices.get(entry.blockNumber)?.updatedAt,
+      };
+
+      if (enriched.kind === 'mint' && enriched.gbpUsdPrice) {
+        const leverage = await client
+          .readContract({ address: addresses.minter, abi: gbpbMinterAbi, functionName: 'targetLeverage', blockNumber: entry.blockNumber })
+          .catch(() => undefined);
+        if (leverage !== undefined) {
+          enriched.fee = quoteMint(enriched.usdcAmount, enriched.gbpUsdPrice, leverage).openingFee;
+        }
+      }
+
+      if ((enriched.kind === 'send' || enriched.kind === 'receive') && enriched.token === 'sGBPb') {
+        const assets = await client
+          .readContract({
+            address: addresses.sGBPb,
+            abi: sGbpbAbi,
+            functionName: 'convertToAssets',
+            args: [enriched.shares],
+            blockNumber: entry.blockNumber,
+          })
+          .catch(() => undefined);
+        if (assets !== undefined) enriched.gbpbAmount = gbpb(assets);
+      }
+      return enriched;
+    })
+  );
+}
+
+async function scanPage(
+  client: PublicClient,
+  addresses: AddressBook,
+  user: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<ActivityEntry[]> {
+  const logs = decode(await fetchUserLogs(client, addresses, user, fromBlock, toBlock));
+
+  const byTransaction = new Map<Hash, Decoded[]>();
+  for (const log of logs.sort((a, b) => Number(a.blockNumber! - b.blockNumber!) || a.logIndex! - b.logIndex!)) {
+    const group = byTransaction.get(log.transactionHash!) ?? [];
+    group.push(log);
+    byTransaction.set(log.transactionHash!, group);
+  }
+
+  const entries = [...byTransaction.values()].flatMap((group) => entriesForTransaction(group, addresses, user));
+  return enrich(client, addresses, entries);
+}
+
+/**
+ * Scan a wallet's protocol history, newest page first. Settled pages come from `cache` when present
+ * and are written back after being scanned. Returns every entry, newest first.
+ */
+export async function scanActivity(
+  client: PublicClient,
+  chainId: number,
+  addresses: AddressBook,
+  user: Address,
+  {
+    fromBlock,
+    toBlock,
+    cache,
+    pageSize = DEFAULT_PAGE_SIZE,
+    reorgMargin = DEFAULT_REORG_MARGIN,
+    onPage,
+    signal,
+  }: ActivityScanOptions
+): Promise<ActivityEntry[]> {
+  const all: ActivityEntry[] = [];
+  const total = toBlock - fromBlock + 1n;
+
+  for (let pageStart = (toBlock / pageSize) * pageSize; pageStart + pageSize > fromBlock; pageStart -= pageSize) {
+    if (signal?.aborted) break;
+
+    const pageEnd = pageStart + pageSize - 1n;
+    const from = pageStart > fromBlock ? pageStart : fromBlock;
+    const to = pageEnd < toBlock ? pageEnd : toBlock;
+    // Only pages that end well behind the head are final; the newest page is always rescanned
+    const settled = pageEnd + reorgMargin <= toBlock;
+    const key = `v${CACHE_VERSION}:${chainId}:${addresses.minter}:${user.toLowerCase()}:${from}-${to}`;
+
+    let entries = settled ? await cache?.get(key) : undefined;
+    if (!entries) {
+      entries = await scanPage(client, addresses, user, from, to);
+      if (settled) await cache?.set(key, entries);
+    }
+
+    const newestFirst = [...entries].sort((a, b) => Number(b.blockNumber - a.blockNumber) || b.logIndex - a.logIndex);
+    all.push(...newestFirst);
+    const scanned = toBlock - from + 1n;
+    onPage?.(newestFirst, { scanned, total });
+    if (pageStart === 0n) break;
+  }
+
+  return all;
+}
@@ -0,0 +1,123 @@
+import type { PublicClient } from 'viem';
+import { gbpbMinterAbi, morphoStrategyAdapterAbi, sGbpbAbi } from './abis';
+import { fetchSplittingRange, findBlockAtTimestamp } from './blocks';
+import type { AddressBook } from './deployments';
+import { bps, gbpb, type Bps, type Gbpb } from './units';
+
+export type ApyWindow = '7d' | '30d' | 'inception';
+
+const WINDOW_SECONDS: Record<Exclude<ApyWindow, 'inception'>, number> = { '7d': 7 * 86400, '30d': 30 * 86400 };
+const YEAR_SECONDS = 365 * 86400;
+// Shorter than this, annualising a share price move mostly annualises noise
+const MIN_WINDOW_SECONDS = 86400;
+
+/** What sGBPb actually returned over a trailing window, from its share price */
+export interface RealisedApy {
+  window: ApyWindow;
+  /** Compounded annual rate implied by the share price move; undefined when the window is under a day */
+  apyBps?: Bps;
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Unix seconds; later than asked for when sGBPb is younger than the window */
+  fromTimestamp: number;
+  toTimestamp: number;
+  startSharePrice: Gbpb;
+  endSharePrice: Gbpb;
+  /** harvestYield() calls that minted GBPb into sGBPb during the window */
+  harvests: number;
+  gbpbHarvested: Gbpb;
+  /** sGBPb performance fees taken during the window (FeesHarvested.performanceFee) */
+  performanceFees: Gbpb;
+}
+
+export interface ApyReport {
+  windows: RealisedApy[];
+  /** Operator-set MorphoStrategyAdapter.currentAPY(), for comparison */
+  operatorApyBps: Bps;
+  /** Unix seconds of the latest YieldHarvested in the inception window */
+  lastHarvestAt?: number;
+}
+
+/** Compounded annual rate from a share price move over `seconds` */
+export function annualiseSharePrice(start: bigint, end: bigint, seconds: number): Bps | undefined {
+  if (start === 0n || seconds < MIN_WINDOW_SECONDS) return undefined;
+  // Growth to 12 decimals is plenty for a rate shown to 0.1%
+  const growth = Number((end * 10n ** 12n) / start) / 1e12;
+  return bps(BigInt(Math.round((growth ** (YEAR_SECONDS / seconds) - 1) * 10_000)));
+}
+
+/**
+ * Trailing 7d, 30d and since-inception realised APY of sGBPb from `pricePerShare()` read at each
+ * window's first block and at the latest block, with the harvests and fees that moved it. Needs an
+ * archive node; `inceptionBlock` is sGBPb's deployment block (see `findDeploymentBlock`). Throws before
+ * any read when it is 0, which is what a failed lookup returns, rather than scanning from genesis.
+ */
+export async function readRealisedApy(
+  client: PublicClient,
+  addresses: AddressBook,
+  inceptionBlock: bigint
+): Promise<ApyReport> {
+  if (inceptionBlock === 0n) throw new Error(`No deployment block for sGBPb ${addresses.sGBPb}; realised APY needs one`);
+
+  const head = await client.getBlock();
+  const [inception, operatorApy] = await Promise.all([
+    client.getBlock({ blockNumber: inceptionBlock }),
+    client.readContract({ address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'currentAPY' }),
+  ]);
+
+  const sharePriceAt = async (blockNumber: bigint) =>
+    gbpb(await client.readContract({ address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'pricePerShare', blockNumber }));
+
+  // One events query over the longest window serves all three
+  const [harvests, fees] = await Promise.all([
+    fetchSplittingRange(inceptionBlock, head.number, (fromBlock, toBlock) =>
+      client.getContractEvents({ address: addresses.minter, abi: gbpbMinterAbi, eventName: 'YieldHarvested', fromBlock, toBlock })
+    ),
+    fetchSplittingRange(inceptionBlock, head.number, (fromBlock, toBlock) =>
+      client.getContractEvents({ address: addresses.sGBPb, abi: sGbpbAbi, eventName: 'FeesHarvested', fromBlock, toBlock })
+    ),
+  ]);
+
+  const endSharePrice = await sharePriceAt(head.number);
+  const windows = await Promise.all(
+    (['7d', '30d', 'inception'] as const).map(async (window): Promise<RealisedApy> => {
+      let fromBlock = inceptionBlock;
+      let fromTimestamp = Number(inception.timestamp);
+      if (window !== 'inception') {
+        const start = head.timestamp - BigInt(WINDOW_SECONDS[window]);
+        if (start > inception.timestamp) {
+          fromBlock = await findBlockAtTimestamp(client, start);
+          fromTimestamp = Number((await client.getBlock({ blockNumber: fromBlock })).timestamp);
+        }
+      }
+
+      const inWindow = <T extends { blockNumber: bigint | null }>(log: T) => log.blockNumber! >= fromBlock;
+      const windowHarvests = harvests.filter(inWindow);
+      const startSharePrice = await sharePriceAt(fromBlock);
+      const toTimestamp = Number(head.timestamp);
+
+      return {
+        window,
+        apyBps: annualiseSharePrice(startSharePrice, endSharePrice, toTimestamp - fromTimestamp),
+        fromBlock,
+        toBlock: head.number,
+        fromTimestamp,
+        toTimestamp,
+        startSharePrice,
+        endSharePrice,
+        harvests: windowHarvests.length,
+        gbpbHarvested: gbpb(windowHarvests.reduce((sum, log) => sum + log.args.gbpbMinted!, 0n)),
+        performanceFees: gbpb(fees.filter(inWindow).reduce((sum, log) => sum + log.args.performanceFee!, 0n)),
+      };
+    })
+  );
+
+  const lastHarvest = harvests[harvests.length - 1];
+  return {
+    windows,
+    operatorApyBps: bps(operatorApy),
+    lastHarvestAt: lastHarvest
+      ? Number((await client.getBlock({ blockNumber: lastHarvest.blockNumber! })).timestamp)
+      : undefined,
+  };
+}
@@ -0,0 +1,71 @@
+import type { Address, PublicClient } from 'viem';
+
+/**
+ * First block whose timestamp is at or after `timestamp` (unix seconds), by binary search over
+ * block headers. Returns the latest block number if every block is older.
+ */
+export async function findBlockAtTimestamp(client: PublicClient, timestamp: bigint): Promise<bigint> {
+  const latest = await client.getBlock();
+  if (latest.timestamp < timestamp) return latest.number;
+
+  let low = 0n;
+  let high = latest.number;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    const block = await client.getBlock({ blockNumber: mid });
+    if (block.timestamp < timestamp) {
+      low = mid + 1n;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Block in which `address` was deployed, by binary search over getCode. Needs an archive node;
+ * returns 0 if the node cannot answer historical queries.
+ */
+export async function findDeploymentBlock(client: PublicClient, address: Address): Promise<bigint> {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await client.getCode({ address, blockNumber });
+    return !!code && code !== '0x';
+  };
+
+  let low = 0n;
+  let high = await client.getBlockNumber();
+  try {
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if (await hasCode(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+  } catch {
+    return 0n;
+  }
+  return low;
+}
+
+/**
+ * Run a log query over a block range, splitting the range in half while the provider refuses it
+ * (block range or result count limits). Below `minSpan` blocks a failure is a real error.
+ */
+export async function fetchSplittingRange<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  minSpan: bigint = 2_000n
+): Promise<T[]> {
+  try {
+    return await fetch(fromBlock, toBlock);
+  } catch (error) {
+    if (toBlock - fromBlock < minSpan) throw error;
+    const mid = (fromBlock + toBlock) / 2n;
+    const older = await fetchSplittingRange(fromBlock, mid, fetch, minSpan);
+    const newer = await fetchSplittingRange(mid + 1n, toBlock, fetch, minSpan);
+    return [...older, ...newer];
+  }
+}
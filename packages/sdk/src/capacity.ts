@@ -0,0 +1,94 @@
+import type { PublicClient } from 'viem';
+import { chainlinkOracleAbi, erc20Abi, gbpbMinterAbi, morphoStrategyAdapterAbi, perpPositionManagerAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { readAllAt, type Call } from './multicall';
+import { MINTER_CONSTANTS, mulDiv, usdcToGbpb } from './quote';
+import { gbpb, priceE8, usdc, type Gbpb, type PriceE8, type Usdc } from './units';
+
+const { BPS, LENDING_ALLOCATION_BPS, PERP_ALLOCATION_BPS, WITHDRAW_TOLERANCE_BPS } = MINTER_CONSTANTS;
+
+/** Which side of the 80/20 split runs out first */
+export type CapacityLimit = 'lending' | 'perp';
+
+/** How much can be redeemed in one transaction right now, and where it comes from, all read at the same block */
+export interface RedemptionCapacity {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** GBPbMinter.reserveBalance: the fee reserve, which redeem() never pays out */
+  reserveBalance: Usdc;
+  /** USDC sitting in the minter beyond the reserve; redeem() doesn't draw on it either */
+  idleUsdc: Usdc;
+  /** MorphoStrategyAdapter.maxWithdraw(minter): what Morpho will release right now */
+  lendingWithdrawable: Usdc;
+  /** What closing the whole hedge would return; 0 when it's too far underwater to pass redeem()'s 99% check */
+  perpWithdrawable: Usdc;
+  /** Largest gross USDC value a single redeem() can convert before one leg returns too little */
+  instantUsdc: Usdc;
+  limitedBy: CapacityLimit;
+  /** `instantUsdc` in GBPb at the oracle price; undefined when the oracle is unusable */
+  instantGbpb?: Gbpb;
+  gbpbSupply: Gbpb;
+  gbpUsdPrice?: PriceE8;
+}
+
+/**
+ * Gross USDC a single redeem() can convert. The minter takes 80% of it from the lending strategy and 20% from the
+ * perp hedge, reverting with InsufficientLiquidity if either returns under 99% of its share, so capacity is the
+ * smaller of the two legs scaled back up by its allocation. The perp leg closes proportionally and returns its
+ * share of collateral plus PnL, which only clears the check while the position is worth at least 99% of its
+ * collateral. The 1% tolerance is otherwise left out, keeping the estimate on the safe side.
+ */
+export function instantRedemptionUsdc(
+  lendingWithdrawable: Usdc,
+  perpCollateral: Usdc,
+  perpValue: Usdc
+): { instantUsdc: Usdc; limitedBy: CapacityLimit; perpWithdrawable: Usdc } {
+  const perpWithdrawable = usdc(perpValue * BPS >= perpCollateral * WITHDRAW_TOLERANCE_BPS ? perpValue : 0n);
+  const lendingLimit = mulDiv(lendingWithdrawable, BPS, LENDING_ALLOCATION_BPS);
+  const perpLimit = mulDiv(perpWithdrawable, BPS, PERP_ALLOCATION_BPS);
+
+  return perpLimit < lendingLimit
+    ? { instantUsdc: usdc(perpLimit), limitedBy: 'perp', perpWithdrawable }
+    : { instantUsdc: usdc(lendingLimit), limitedBy: 'lending', perpWithdrawable };
+}
+
+/** Estimate instant redemption capacity at `blockNumber`, or the latest block. Throws if a core read fails */
+export async function readRedemptionCapacity(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<RedemptionCapacity> {
+  const calls: Call[] = [
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'reserveBalance' },
+    { address: addresses.usdc, abi: erc20Abi, functionName: 'balanceOf', args: [addresses.minter] },
+    { address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'maxWithdraw', args: [addresses.minter] },
+    { address: addresses.perpManager, abi: perpPositionManagerAbi, functionName: 'currentCollateral' },
+    { address: addresses.perpManager, abi: perpPositionManagerAbi, functionName: 'getPositionValue' },
+    { address: addresses.gbpb, abi: erc20Abi, functionName: 'totalSupply' },
+    { address: addresses.oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice' },
+  ];
+
+  const { block, take, value } = await readAllAt(client, calls, blockNumber);
+
+  const reserveBalance = take<bigint>(0);
+  const minterBalance = take<bigint>(1);
+  const lendingWithdrawable = usdc(take(2));
+  const { instantUsdc, limitedBy, perpWithdrawable } = instantRedemptionUsdc(lendingWithdrawable, usdc(take(3)), usdc(take(4)));
+  const rawPrice = value<bigint>(6);
+  const price = rawPrice === undefined ? undefined : priceE8(rawPrice);
+
+  return {
+    blockNumber: block.number,
+    timestamp: Number(block.timestamp),
+    reserveBalance: usdc(reserveBalance),
+    idleUsdc: usdc(minterBalance > reserveBalance ? minterBalance - reserveBalance : 0n),
+    lendingWithdrawable,
+    perpWithdrawable,
+    instantUsdc,
+    limitedBy,
+    instantGbpb: price ? usdcToGbpb(instantUsdc, price) : undefined,
+    gbpbSupply: gbpb(take(5)),
+    gbpUsdPrice: price,
+  };
+}
@@ -0,0 +1,78 @@
+import { getContract, type Address, type Client } from 'viem';
+import {
+  chainlinkOracleAbi,
+  configurableFeeDistributorAbi,
+  erc20Abi,
+  feeDistributorAbi,
+  gbpbAbi,
+  gbpbMinterAbi,
+  morphoStrategyAdapterAbi,
+  ostiumPerpProviderAbi,
+  perpPositionManagerAbi,
+  sGbpbAbi,
+} from './abis';
+import { getAddressBook } from './deployments';
+
+/** `{ address, abi }` pair, spreadable straight into wagmi hooks and viem actions */
+export interface ContractConfig<TAbi> {
+  address: Address;
+  abi: TAbi;
+}
+
+function config<TAbi>(address: Address, abi: TAbi): ContractConfig<TAbi> {
+  return { address, abi };
+}
+
+/**
+ * Address + ABI for every protocol contract on a chain.
+ *
+ * @example
+ * const { minter } = getContractConfigs(chainId);
+ * useReadContract({ ...minter, functionName: 'totalAssets' });
+ */
+export function getContractConfigs(chainId: number) {
+  const book = getAddressBook(chainId);
+
+  return {
+    minter: config(book.minter, gbpbMinterAbi),
+    gbpb: config(book.gbpb, gbpbAbi),
+    sGBPb: config(book.sGBPb, sGbpbAbi),
+    usdc: config(book.usdc, erc20Abi),
+    oracle: config(book.oracle, chainlinkOracleAbi),
+    morphoStrategy: config(book.morphoStrategy, morphoStrategyAdapterAbi),
+    perpManager: config(book.perpManager, perpPositionManagerAbi),
+    ostiumProvider: config(book.ostiumProvider, ostiumPerpProviderAbi),
+    feeDistributor: book.feeDistributor ? config(book.feeDistributor, feeDistributorAbi) : undefined,
+    configurableFeeDistributor: book.configurableFeeDistributor
+      ? config(book.configurableFeeDistributor, configurableFeeDistributorAbi)
+      : undefined,
+  };
+}
+
+export type ContractConfigs = ReturnType<typeof getContractConfigs>;
+
+/**
+ * Typed viem contract instances (`.read.*`, `.write.*`, `.simulate.*`) bound to a client.
+ * Pass a public client for reads, or `{ public, wallet }` to enable writes.
+ */
+export function getBlendraContracts<TClient extends Client | { public: Client; wallet: Client }>(
+  chainId: number,
+  client: TClient
+) {
+  const configs = getContractConfigs(chainId);
+  const bind = <TAbi extends readonly unknown[]>({ address, abi }: ContractConfig<TAbi>) =>
+    getContract({ address, abi, client });
+
+  return {
+    minter: bind(configs.minter),
+    gbpb: bind(configs.gbpb),
+    sGBPb: bind(configs.sGBPb),
+    usdc: bind(configs.usdc),
+    oracle: bind(configs.oracle),
+    morphoStrategy: bind(configs.morphoStrategy),
+    perpManager: bind(configs.perpManager),
+    ostiumProvider: bind(configs.ostiumProvider),
+    feeDistributor: configs.feeDistributor && bind(configs.feeDistributor),
+    configurableFeeDistributor: configs.configurableFeeDistributor && bind(configs.configurableFeeDistributor),
+  };
+}
@@ -0,0 +1,73 @@
+import type { Address, Hash, PublicClient } from 'viem';
+import { sGbpbAbi } from './abis';
+import { findBlockAtTimestamp } from './blocks';
+import { gbpb, type Gbpb } from './units';
+
+// Arbitrum seals several blocks per second, so a handful can share the unstake's timestamp
+const SAME_TIMESTAMP_SPAN = 64n;
+
+/** GBPb waiting in sGBPb after unstake(), claimable with cooldownWithdraw() */
+export interface UnstakeCooldown {
+  /** Fixed at the share price when unstake() ran; earns nothing while it waits */
+  amount: Gbpb;
+  /** Unix seconds unstake() was called */
+  startedAt: number;
+  /** Unix seconds cooldownWithdraw() stops reverting with CooldownActive */
+  cooldownEnd: number;
+}
+
+export interface UnstakeState {
+  /** Current cooldownDuration(), seconds */
+  cooldownDuration: number;
+  /** Unclaimed cooldown; undefined when there is nothing to claim */
+  pending?: UnstakeCooldown;
+  /** Earliest unix time unstake() can be called again (lastUnstakeTime + cooldownDuration) */
+  nextUnstakeAt: number;
+}
+
+/**
+ * Find the unstake() transaction behind a cooldown from its CooldownStarted log. Costs a binary
+ * search over block headers, so callers should cache the result per cooldown.
+ */
+export async function findUnstakeTransaction(
+  client: PublicClient,
+  sGBPb: Address,
+  user: Address,
+  { startedAt, cooldownEnd }: UnstakeCooldown
+): Promise<Hash | undefined> {
+  const fromBlock = await findBlockAtTimestamp(client, BigInt(startedAt));
+  const logs = await client.getContractEvents({
+    address: sGBPb,
+    abi: sGbpbAbi,
+    eventName: 'CooldownStarted',
+    args: { user },
+    fromBlock,
+    toBlock: fromBlock + SAME_TIMESTAMP_SPAN,
+  });
+  return logs.find((log) => Number(log.args.cooldownEnd) === cooldownEnd)?.transactionHash ?? undefined;
+}
+
+/** Read a user's unstake cooldown and unstake rate limit from sGBPb */
+export async function readUnstakeState(client: PublicClient, sGBPb: Address, user: Address): Promise<UnstakeState> {
+  const [[cooldownEnd, underlyingAmount], lastUnstakeTime, cooldownDuration] = await Promise.all([
+    client.readContract({ address: sGBPb, abi: sGbpbAbi, functionName: 'cooldowns', args: [user] }),
+    client.readContract({ address: sGBPb, abi: sGbpbAbi, functionName: 'lastUnstakeTime', args: [user] }),
+    client.readContract({ address: sGBPb, abi: sGbpbAbi, functionName: 'cooldownDuration' }),
+  ]);
+
+  const state: UnstakeState = {
+    cooldownDuration: Number(cooldownDuration),
+    nextUnstakeAt: Number(lastUnstakeTime) + Number(cooldownDuration),
+  };
+  if (underlyingAmount === 0n) return state;
+
+  // unstake() overwrites the previous cooldown, so an unclaimed one always belongs to the last unstake
+  return {
+    ...state,
+    pending: {
+      amount: gbpb(underlyingAmount),
+      startedAt: Number(lastUnstakeTime),
+      cooldownEnd: Number(cooldownEnd),
+    },
+  };
+}
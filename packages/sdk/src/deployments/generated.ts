@@ -0,0 +1,83 @@
+// Generated by scripts/generate.mjs - do not edit by hand.
+
+export const manifests: Record<string, unknown> = {
+  "arbitrum-mainnet.json": {
+    "gbpb": "0xf04e200541c6E9Ec4499757653cD2f166Faf8F91",
+    "minter": "0x2339b63D3b9e9E246f8c8485Db90EABb88f44c61",
+    "sGBPb": "0xFeb31be5dB6A49d67Cd131e56C98d1ABcE52aED3",
+    "oracle": "0x85731548499ce2A9c771606cE736EDEd1CA9b136",
+    "morphoStrategy": "0x6d2e4C3B491C8DCCC79C5049087533B46187227F",
+    "ostiumProvider": "0xfD08f1C84deF1997521aF79AB653fF368322b269",
+    "perpManager": "0xEc791A81F5D54c89749313D256Dd7289C62A8B7E",
+    "feeDistributor": "0x7545c943A2dD2bFc3593810F96dEe4AD7CE9a913",
+    "configurableFeeDistributor": "0xD4A33F34E17C57587297C86b38049bd2B11b2964",
+    "usdc": "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+    "chainId": 42161,
+    "note": "Gas fix deployment - explicit gas forwarding at all call levels"
+  },
+  "arbitrum-sepolia.json": {
+    "network": "Arbitrum Sepolia",
+    "chainId": 421614,
+    "deployer": "0x5db104d7820Cb05b9214f053FFc23e99e9eCf65a",
+    "timestamp": "2026-02-03",
+    "targetLeverage": "10x",
+    "minCollateralRatio": "10%",
+    "mocks": {
+      "usdc": "0xEACE2c1eEA7A7025fDaDd5b7546Ffd0d65bc94e2",
+      "morphoVault": "0x138750472207dE26458C50Deaa6C919Ace8A453C",
+      "gbpUsdFeed": "0x63E9942151adE93B059d2B8B5425B6A68f1d4778",
+      "ostiumTrading": "0x51FdC2ff2a315f0dC52Ea846a9628558A9278E57",
+      "ostiumStorage": "0xc784e8feC8e8C320e31117E2c43b72D72C415B6e"
+    },
+    "tokens": {
+      "gbpb": "0x23589CA228Ce53004A4BCc1dbE73E185F7d6970E",
+      "sGBPb": "0x2B3E6243DBE7f59da34EAfc92475C24702eEAE8C"
+    },
+    "core": {
+      "minter": "0xC0e4e8925476ce02d015ceEaC0D3E03C471D2A76",
+      "feeDistributor": "0xA6Cc9D3ACd4E28CB117b44d1AacDEe4B89Ab8175"
+    },
+    "strategies": {
+      "morpho": "0xA56Af0ebA0dAC4C89761c4B2B1F86Cd104F96D3b",
+      "perpManager": "0x2F7432d1556bf44374ef3fc3aA2A0C38aD50D209",
+      "ostiumProvider": "0x21a0c3872F4A181301B6A5e9025E1dAaC4947028"
+    },
+    "oracles": {
+      "chainlink": "0x7983266bD7a3E86E28261d17E9722Bd98de5D22b"
+    },
+    "config": {
+      "treasury": "0x5db104d7820Cb05b9214f053FFc23e99e9eCf65a",
+      "reserve": "0x5db104d7820Cb05b9214f053FFc23e99e9eCf65a",
+      "tvlCap": "10000000000000",
+      "performanceFee": "2000",
+      "gbpUsdPrice": "127000000"
+    }
+  },
+  "sepolia.json": {
+    "network": "arbitrum-sepolia",
+    "chainId": 421614,
+    "deployedAt": "2026-01-29T22:15:26Z",
+    "deployer": "0x5db104d7820Cb05b9214f053FFc23e99e9eCf65a",
+    "mocks": {
+      "mockUSDC": "0xb286Fed46C39299299fEB270C61B8f859e0DF66B",
+      "mockKPKVault": "0x3B8939F2e5D017fa2a285d73C0435F652bD3B936",
+      "mockOstiumTrading": "0x99d87a8ec428674fF7E7Ea833eda8f0757b825f3",
+      "mockOstiumStorage": "0xE7Fd84b35dADE9754852582f30e3e72E9E6F628B",
+      "mockChainlinkFeed": "0x77260323956ff22B94549478f24981b42313fdb6"
+    },
+    "contracts": {
+      "vault": "0x41B77F5054FBcC01CD3b662fD2b9926EeC78Efef",
+      "kpkStrategy": "0xe2A8D027BA686eC4199E63577E796BBBFb0C323B",
+      "perpManager": "0x66e9d9055ddEDC8C4b4FFc2516332AEC7CaF3484",
+      "ostiumProvider": "0x3aD4c6F3929b3cD6a55C1589e860ef74491d10c3",
+      "chainlinkOracle": "0x3a2F3aecd4d89d6b0A19F5eFeE4464E0Dd4fC78A"
+    },
+    "configuration": {
+      "yieldAllocation": "9000",
+      "perpAllocation": "1000",
+      "targetLeverage": "10",
+      "pairIndex": "3",
+      "maxPriceAge": "3600"
+    }
+  }
+};
@@ -0,0 +1,150 @@
+import { isAddress, type Address } from 'viem';
+import { manifests } from './generated';
+
+/** Every protocol contract the apps talk to, keyed the same way on every chain. */
+export interface AddressBook {
+  minter: Address;
+  gbpb: Address;
+  sGBPb: Address;
+  usdc: Address;
+  oracle: Address;
+  morphoStrategy: Address;
+  perpManager: Address;
+  ostiumProvider: Address;
+  feeDistributor?: Address;
+  configurableFeeDistributor?: Address;
+}
+
+export type ContractName = keyof AddressBook;
+
+export interface Deployment {
+  chainId: number;
+  /** Manifest the address book was resolved from (a file under deployments/, or wherever a local one came from) */
+  manifest: string;
+  contracts: AddressBook;
+}
+
+// Manifest keys (at any nesting depth) -> address book entry.
+// The manifests were written by different deploy scripts, so the same
+// contract shows up under several names.
+const ADDRESS_ALIASES: Record<string, ContractName> = {
+  minter: 'minter',
+  gbpb: 'gbpb',
+  sGBPb: 'sGBPb',
+  usdc: 'usdc',
+  oracle: 'oracle',
+  chainlink: 'oracle',
+  chainlinkOracle: 'oracle',
+  morphoStrategy: 'morphoStrategy',
+  morpho: 'morphoStrategy',
+  perpManager: 'perpManager',
+  ostiumProvider: 'ostiumProvider',
+  feeDistributor: 'feeDistributor',
+  configurableFeeDistributor: 'configurableFeeDistributor',
+};
+
+const REQUIRED: ContractName[] = [
+  'minter',
+  'gbpb',
+  'sGBPb',
+  'usdc',
+  'oracle',
+  'morphoStrategy',
+  'perpManager',
+  'ostiumProvider',
+];
+
+function collectAddresses(node: object, found: Partial<AddressBook>): Partial<AddressBook> {
+  for (const [key, value] of Object.entries(node)) {
+    if (value && typeof value === 'object') {
+      collectAddresses(value, found);
+    } else if (typeof value === 'string' && ADDRESS_ALIASES[key] && isAddress(value, { strict: false })) {
+      found[ADDRESS_ALIASES[key]] ??= value;
+    }
+  }
+  return found;
+}
+
+/**
+ * Resolve a deployment manifest into an address book.
+ * Throws if the manifest has no chainId or is missing any required contract
+ * (e.g. the legacy single-vault layout in deployments/sepolia.json).
+ */
+export function resolveManifest(manifest: unknown, source: string): Deployment {
+  if (!manifest || typeof manifest !== 'object') {
+    throw new Error(`Deployment manifest ${source} is not an object`);
+  }
+
+  const chainId = Number((manifest as { chainId?: unknown }).chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`Deployment manifest ${source} has no chainId`);
+  }
+
+  const contracts = collectAddresses(manifest, {});
+  const missing = REQUIRED.filter((name) => !contracts[name]);
+  if (missing.length > 0) {
+    throw new Error(`Deployment manifest ${source} is missing ${missing.join(', ')}`);
+  }
+
+  return { chainId, manifest: source, contracts: contracts as AddressBook };
+}
+
+const registry = new Map<number, Deployment>();
+
+function addDeployment(deployment: Deployment): Deployment {
+  const existing = registry.get(deployment.chainId);
+
+  if (existing && existing.manifest !== deployment.manifest) {
+    throw new Error(
+      `Two manifests describe chain ${deployment.chainId} (${existing.manifest}, ${deployment.manifest})`
+    );
+  }
+
+  registry.set(deployment.chainId, deployment);
+  return deployment;
+}
+
+for (const [file, manifest] of Object.entries(manifests)) {
+  let deployment: Deployment;
+  try {
+    deployment = resolveManifest(manifest, file);
+  } catch {
+    // Bundled manifests in older layouts (no minter/GBPb) cannot drive the apps
+    continue;
+  }
+  addDeployment(deployment);
+}
+
+/**
+ * Add a deployment at runtime, e.g. a local anvil manifest that is not bundled.
+ * Throws if another manifest already claims the chain.
+ */
+export function registerDeployment(manifest: unknown, source: string): Deployment {
+  return addDeployment(resolveManifest(manifest, source));
+}
+
+/** Chain ids that currently have a usable deployment */
+export function getSupportedChainIds(): number[] {
+  return Array.from(registry.keys());
+}
+
+export function isSupportedChainId(chainId: number | undefined): boolean {
+  return chainId !== undefined && registry.has(chainId);
+}
+
+/**
+ * Look up the deployment for a chain.
+ * Throws for chains without a deployment manifest so a misconfigured app fails loudly
+ * instead of sending transactions to the wrong addresses.
+ */
+export function getDeployment(chainId: number): Deployment {
+  const deployment = registry.get(chainId);
+  if (!deployment) {
+    throw new Error(`No Blendra deployment for chain ${chainId}`);
+  }
+  return deployment;
+}
+
+export function getAddressBook(chainId: number): AddressBook {
+  return getDeployment(chainId).contracts;
+}
@@ -0,0 +1,451 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Abi,
+} from 'viem';
+import {
+  chainlinkOracleAbi,
+  configurableFeeDistributorAbi,
+  erc20Abi,
+  feeDistributorAbi,
+  gbpbAbi,
+  gbpbMinterAbi,
+  morphoStrategyAdapterAbi,
+  ostiumPerpProviderAbi,
+  perpPositionManagerAbi,
+  sGbpbAbi,
+} from './abis';
+import { USDC_DECIMALS, formatUnitsFixed, type Usdc } from './units';
+
+export type BlendraErrorCode =
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_GAS_FUNDS'
+  | 'BELOW_MINIMUM_MINT'
+  | 'TVL_CAP_EXCEEDED'
+  | 'USER_RATE_LIMITED'
+  | 'GLOBAL_RATE_LIMITED'
+  | 'HOLD_TIME_NOT_MET'
+  | 'MARKET_CLOSED'
+  | 'PAUSED'
+  | 'NOT_PAUSED'
+  | 'CIRCUIT_BREAKER'
+  | 'ORACLE_STALE'
+  | 'ORACLE_INVALID'
+  | 'UNREASONABLE_CONVERSION'
+  | 'SLIPPAGE_EXCEEDED'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'INSUFFICIENT_RESERVE'
+  | 'STRATEGY_UNDERWATER'
+  | 'STRATEGY_PRICE_DROP'
+  | 'PERP_LOSS_TOO_HIGH'
+  | 'POSITION_AT_RISK'
+  | 'POSITION_TOO_LARGE'
+  | 'DEADLINE_EXPIRED'
+  | 'INVALID_SHARE_RATIO'
+  | 'INVALID_SLIPPAGE'
+  | 'HEALTH_TOO_HIGH'
+  | 'REBALANCE_NOT_NEEDED'
+  | 'NO_ACTIVE_POSITION'
+  | 'TIMELOCK_NOT_EXPIRED'
+  | 'NOTHING_PROPOSED'
+  | 'UNSTAKE_COOLDOWN_ACTIVE'
+  | 'NO_UNSTAKE_COOLDOWN'
+  | 'EXCEEDS_MAXIMUM'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'UNAUTHORIZED'
+  | 'YIELD_BELOW_MINIMUM'
+  | 'NO_PAYMENT_DUE'
+  | 'ZERO_AMOUNT'
+  | 'INVALID_PARAMETER'
+  | 'UNKNOWN';
+
+/** What the app knows about the caller's situation, used to make remediation concrete */
+export interface ErrorContext {
+  /** Seconds until the caller's rate limit, hold time or unstake cooldown ends */
+  retryInSeconds?: number;
+  /** FeeSchedule.minMintAmount */
+  minMintAmount?: Usdc;
+  /** OperationLimits.minHoldTime, seconds */
+  minHoldTime?: number;
+}
+
+export interface DecodedError {
+  code: BlendraErrorCode;
+  /** Custom error name or require string the code was decoded from */
+  source?: string;
+  args?: readonly unknown[];
+  /** What went wrong, one line */
+  message: string;
+  /** What the user can do about it */
+  remediation: string;
+}
+
+interface CatalogueEntry {
+  message: string;
+  remediation: string | ((context: ErrorContext) => string);
+}
+
+/** "42s", "3m 5s", "5h 12m" */
+export function formatWait(seconds: number): string {
+  const s = Math.max(0, Math.ceil(seconds));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+}
+
+/** Whole hours as "24 hours", anything else as formatWait() does */
+function formatHold(seconds: number): string {
+  const hours = seconds / 3600;
+  return Number.isInteger(hours) && hours > 0 ? `${hours} hour${hours === 1 ? '' : 's'}` : formatWait(seconds);
+}
+
+const retryIn = (action: string, fallback: string | ((context: ErrorContext) => string)) => (context: ErrorContext) =>
+  context.retryInSeconds !== undefined && context.retryInSeconds > 0
+    ? `You can ${action} again in ${formatWait(context.retryInSeconds)}.`
+    : typeof fallback === 'function'
+      ? fallback(context)
+      : fallback;
+
+export const ERROR_CATALOGUE: Record<BlendraErrorCode, CatalogueEntry> = {
+  USER_REJECTED: {
+    message: 'Transaction rejected',
+    remediation: 'You declined the request in your wallet. Nothing was sent.',
+  },
+  INSUFFICIENT_GAS_FUNDS: {
+    message: 'Not enough ETH for gas',
+    remediation: 'Top up ETH on this network to pay the transaction fee.',
+  },
+  BELOW_MINIMUM_MINT: {
+    message: 'Amount is below the minimum mint',
+    remediation: ({ minMintAmount }) =>
+      minMintAmount !== undefined
+        ? `Mint at least ${formatUnitsFixed(minMintAmount, USDC_DECIMALS)} USDC.`
+        : 'Mint at least the minimum amount.',
+  },
+  TVL_CAP_EXCEEDED: {
+    message: 'Vault is at its TVL cap',
+    remediation: 'Try a smaller amount, or wait for the cap to be raised.',
+  },
+  USER_RATE_LIMITED: {
+    message: 'You operated too recently',
+    remediation: retryIn('mint or redeem', 'Wait for your per-wallet cooldown to expire and try again.'),
+  },
+  GLOBAL_RATE_LIMITED: {
+    message: 'Protocol is rate limited',
+    remediation: retryIn('mint or redeem', 'Another operation was just processed. Try again in a few seconds.'),
+  },
+  HOLD_TIME_NOT_MET: {
+    message: 'GBPb is still within its minimum hold time',
+    remediation: retryIn('redeem', ({ minHoldTime }) =>
+      minHoldTime !== undefined
+        ? `GBPb must be held for ${formatHold(minHoldTime)} after minting before it can be redeemed.`
+        : 'GBPb must be held for the minimum hold time after minting before it can be redeemed.'
+    ),
+  },
+  MARKET_CLOSED: {
+    message: 'FX market is closed',
+    remediation: 'Minting and redeeming reopen when the GBP/USD market opens on Sunday evening (UTC).',
+  },
+  PAUSED: {
+    message: 'Protocol is paused',
+    remediation: 'Operations are suspended by the team. Check the status page and try again later.',
+  },
+  NOT_PAUSED: {
+    message: 'Protocol is not paused',
+    remediation: 'This action is only available while the protocol is paused.',
+  },
+  CIRCUIT_BREAKER: {
+    message: 'Circuit breaker tripped',
+    remediation: 'GBP/USD moved too far since the last update. Wait for the price to settle and try again.',
+  },
+  ORACLE_STALE: {
+    message: 'Oracle price is stale',
+    remediation: 'The Chainlink GBP/USD feed has not updated recently. Try again once it refreshes.',
+  },
+  ORACLE_INVALID: {
+    message: 'Oracle price is invalid',
+    remediation: 'The GBP/USD feed returned a price outside its bounds. Operations resume when it recovers.',
+  },
+  UNREASONABLE_CONVERSION: {
+    message: 'Conversion rate out of range',
+    remediation: 'The oracle price would mint an unexpected amount of GBPb. Try again once the price is valid.',
+  },
+  SLIPPAGE_EXCEEDED: {
+    message: 'Price moved past your slippage tolerance',
+    remediation: 'Refresh the quote, or raise your slippage tolerance.',
+  },
+  INSUFFICIENT_LIQUIDITY: {
+    message: 'Not enough liquidity to redeem',
+    remediation: 'The lending strategy cannot release this much USDC right now. Try a smaller amount or retry later.',
+  },
+  INSUFFICIENT_RESERVE: {
+    message: 'Reserve too low',
+    remediation: 'The reserve cannot cover this operation. Fund the reserve or try a smaller amount.',
+  },
+  STRATEGY_UNDERWATER: {
+    message: 'Lending vault is underwater',
+    remediation: 'The Morpho vault has lost more than 5% of its value, so deposits into it are stopped. Try again later.',
+  },
+  STRATEGY_PRICE_DROP: {
+    message: 'Lending vault share price dropped',
+    remediation: 'The Morpho vault share price fell over 5% since the last deposit, a sign of an exploit. Try again later.',
+  },
+  PERP_LOSS_TOO_HIGH: {
+    message: 'Hedge loss too high',
+    remediation: 'The perp position is in too large a loss for this operation. Wait for it to recover or rebalance.',
+  },
+  POSITION_AT_RISK: {
+    message: 'Hedge position is near liquidation',
+    remediation: 'Add collateral or rebalance the perp position first.',
+  },
+  POSITION_TOO_LARGE: {
+    message: 'Hedge position too large',
+    remediation: 'The perp provider caps position size. Try a smaller amount or lower the leverage.',
+  },
+  DEADLINE_EXPIRED: {
+    message: 'Hedge trade deadline passed',
+    remediation: 'The transaction was mined after its perp trade deadline. Send it again.',
+  },
+  INVALID_SHARE_RATIO: {
+    message: 'Hedge reduction too large',
+    remediation: 'More than the whole perp position was asked to close. Refresh and try a smaller amount.',
+  },
+  INVALID_SLIPPAGE: {
+    message: 'Invalid slippage setting',
+    remediation: 'Perp slippage must be above 0 and at most 20% (2000 bps).',
+  },
+  HEALTH_TOO_HIGH: {
+    message: 'Position is healthy',
+    remediation: 'Rebalancing is only allowed when perp health is low. Use force if you really need it.',
+  },
+  REBALANCE_NOT_NEEDED: {
+    message: 'Rebalance not needed',
+    remediation: 'The perp allocation is already within range.',
+  },
+  NO_ACTIVE_POSITION: {
+    message: 'No open hedge position',
+    remediation: 'There is no perp position to act on.',
+  },
+  TIMELOCK_NOT_EXPIRED: {
+    message: 'Timelock has not expired',
+    remediation: retryIn('execute the change', 'Wait for the proposal timelock to expire before executing.'),
+  },
+  NOTHING_PROPOSED: {
+    message: 'Nothing to execute',
+    remediation: 'Propose the change first, then execute it after the timelock.',
+  },
+  UNSTAKE_COOLDOWN_ACTIVE: {
+    message: 'Unstake cooldown in progress',
+    remediation: retryIn('claim', 'Wait for your current cooldown to finish and claim it before unstaking more.'),
+  },
+  NO_UNSTAKE_COOLDOWN: {
+    message: 'No unstake to claim',
+    remediation: 'Start an unstake first. Your GBPb can be claimed once its cooldown ends.',
+  },
+  EXCEEDS_MAXIMUM: {
+    message: 'Amount exceeds the maximum',
+    remediation: 'Enter an amount no larger than your available balance.',
+  },
+  INSUFFICIENT_BALANCE: {
+    message: 'Insufficient balance',
+    remediation: 'Lower the amount to what you hold.',
+  },
+  INSUFFICIENT_ALLOWANCE: {
+    message: 'Insufficient allowance',
+    remediation: 'Approve at least this amount before continuing.',
+  },
+  UNAUTHORIZED: {
+    message: 'Not authorised',
+    remediation: 'Connect the wallet that owns this contract.',
+  },
+  YIELD_BELOW_MINIMUM: {
+    message: 'Yield below harvest minimum',
+    remediation: 'Not enough yield has accrued yet. Try again after more has built up.',
+  },
+  NO_PAYMENT_DUE: {
+    message: 'Nothing to release',
+    remediation: 'The fee distributor has no balance owed to this recipient.',
+  },
+  ZERO_AMOUNT: {
+    message: 'Amount is zero',
+    remediation: 'Enter an amount greater than zero.',
+  },
+  INVALID_PARAMETER: {
+    message: 'Invalid parameter',
+    remediation: 'Check the value entered against the allowed range.',
+  },
+  UNKNOWN: {
+    message: 'Transaction would fail',
+    remediation: 'Try again, or contact support if this keeps happening.',
+  },
+};
+
+// Custom error name -> code, across every protocol contract
+const CUSTOM_ERRORS: Record<string, BlendraErrorCode> = {
+  BelowMinimumMint: 'BELOW_MINIMUM_MINT',
+  TVLCapExceeded: 'TVL_CAP_EXCEEDED',
+  RateLimitActive: 'USER_RATE_LIMITED',
+  GlobalRateLimitActive: 'GLOBAL_RATE_LIMITED',
+  MinimumHoldTimeNotMet: 'HOLD_TIME_NOT_MET',
+  UnsafeForWeekend: 'MARKET_CLOSED',
+  OstiumMarketClosed: 'MARKET_CLOSED',
+  EnforcedPause: 'PAUSED',
+  ExpectedPause: 'NOT_PAUSED',
+  PriceChangeTooLarge: 'CIRCUIT_BREAKER',
+  StalePrice: 'ORACLE_STALE',
+  FeedNotResponsive: 'ORACLE_STALE',
+  InvalidPrice: 'ORACLE_INVALID',
+  PriceOutOfBounds: 'ORACLE_INVALID',
+  DecimalsMismatch: 'ORACLE_INVALID',
+  UnreasonableConversion: 'UNREASONABLE_CONVERSION',
+  SlippageExceeded: 'SLIPPAGE_EXCEEDED',
+  SlippageTooHigh: 'SLIPPAGE_EXCEEDED',
+  InsufficientLiquidity: 'INSUFFICIENT_LIQUIDITY',
+  WithdrawFailed: 'INSUFFICIENT_LIQUIDITY',
+  InsufficientReserve: 'INSUFFICIENT_RESERVE',
+  VaultUnderwater: 'STRATEGY_UNDERWATER',
+  SuspiciousActivity: 'STRATEGY_PRICE_DROP',
+  PerpLossTooHigh: 'PERP_LOSS_TOO_HIGH',
+  PositionNearLiquidation: 'POSITION_AT_RISK',
+  InsufficientCollateralRatio: 'POSITION_AT_RISK',
+  PositionTooLarge: 'POSITION_TOO_LARGE',
+  DeadlineExpired: 'DEADLINE_EXPIRED',
+  InvalidShareRatio: 'INVALID_SHARE_RATIO',
+  InvalidSlippage: 'INVALID_SLIPPAGE',
+  HealthTooHigh: 'HEALTH_TOO_HIGH',
+  RebalanceNotNeeded: 'REBALANCE_NOT_NEEDED',
+  NoActivePosition: 'NO_ACTIVE_POSITION',
+  TimelockNotExpired: 'TIMELOCK_NOT_EXPIRED',
+  ProposalCooldownActive: 'TIMELOCK_NOT_EXPIRED',
+  NoStrategyProposed: 'NOTHING_PROPOSED',
+  NoPendingProvider: 'NOTHING_PROPOSED',
+  CooldownActive: 'UNSTAKE_COOLDOWN_ACTIVE',
+  NoCooldownInProgress: 'NO_UNSTAKE_COOLDOWN',
+  ERC4626ExceededMaxDeposit: 'EXCEEDS_MAXIMUM',
+  ERC4626ExceededMaxMint: 'EXCEEDS_MAXIMUM',
+  ERC4626ExceededMaxRedeem: 'EXCEEDS_MAXIMUM',
+  ERC4626ExceededMaxWithdraw: 'EXCEEDS_MAXIMUM',
+  ERC20InsufficientBalance: 'INSUFFICIENT_BALANCE',
+  ERC20InsufficientAllowance: 'INSUFFICIENT_ALLOWANCE',
+  OwnableUnauthorizedAccount: 'UNAUTHORIZED',
+  OnlyMinter: 'UNAUTHORIZED',
+  OnlyMinterOrCollector: 'UNAUTHORIZED',
+  OnlyVault: 'UNAUTHORIZED',
+  NoPaymentDue: 'NO_PAYMENT_DUE',
+  ZeroAmount: 'ZERO_AMOUNT',
+  InvalidSplit: 'INVALID_PARAMETER',
+  InvalidLeverage: 'INVALID_PARAMETER',
+  LeverageTooHigh: 'INVALID_PARAMETER',
+  FeeTooHigh: 'INVALID_PARAMETER',
+  ZeroAddress: 'INVALID_PARAMETER',
+  InvalidMaxAge: 'INVALID_PARAMETER',
+};
+
+// require() strings -> code, for the paths that still revert with a string
+const REQUIRE_STRINGS: Record<string, BlendraErrorCode> = {
+  'Insufficient Morpho liquidity - try again later': 'INSUFFICIENT_LIQUIDITY',
+  'Insufficient withdrawal': 'INSUFFICIENT_LIQUIDITY',
+  'Would breach minimum reserve': 'INSUFFICIENT_RESERVE',
+  'Cannot withdraw reserve during low health': 'INSUFFICIENT_RESERVE',
+  'Yield below minimum': 'YIELD_BELOW_MINIMUM',
+  'Insufficient balance': 'INSUFFICIENT_BALANCE',
+  'ERC20: transfer amount exceeds balance': 'INSUFFICIENT_BALANCE',
+  'ERC20: transfer amount exceeds allowance': 'INSUFFICIENT_ALLOWANCE',
+  'Cannot redeem 0': 'ZERO_AMOUNT',
+  'Zero shares': 'ZERO_AMOUNT',
+  'Zero assets': 'ZERO_AMOUNT',
+  'Zero deposit': 'ZERO_AMOUNT',
+  'Timelock not expired': 'TIMELOCK_NOT_EXPIRED',
+  'No leverage proposed': 'NOTHING_PROPOSED',
+  'No pending proposal': 'NOTHING_PROPOSED',
+  'Leverage must be 2-10x': 'INVALID_PARAMETER',
+  'Already at this leverage': 'INVALID_PARAMETER',
+  'Interval too short': 'INVALID_PARAMETER',
+  'Interval too long': 'INVALID_PARAMETER',
+  'Amount too small': 'INVALID_PARAMETER',
+};
+
+// A call into the minter can revert inside GBPb, the strategies, the perp stack or the oracle,
+// so decode against the union of every contract's errors rather than the ABI the call was made with.
+const ERROR_ABI = [
+  ...gbpbMinterAbi,
+  ...gbpbAbi,
+  ...sGbpbAbi,
+  ...perpPositionManagerAbi,
+  ...ostiumPerpProviderAbi,
+  ...chainlinkOracleAbi,
+  ...morphoStrategyAdapterAbi,
+  ...feeDistributorAbi,
+  ...configurableFeeDistributorAbi,
+  ...erc20Abi,
+].filter((item) => item.type === 'error') as Abi;
+
+function build(
+  code: BlendraErrorCode,
+  context: ErrorContext,
+  source?: string,
+  args?: readonly unknown[]
+): DecodedError {
+  const { message, remediation } = ERROR_CATALOGUE[code];
+  return {
+    code,
+    source,
+    args,
+    message,
+    remediation: typeof remediation === 'function' ? remediation(context) : remediation,
+  };
+}
+
+/** Catalogue entry for a condition the app detects before sending anything, e.g. a known rate limit */
+export function describeErrorCode(code: BlendraErrorCode, context: ErrorContext = {}): DecodedError {
+  return build(code, context);
+}
+
+/**
+ * Decode anything thrown by a wagmi/viem simulation, write or receipt wait into a catalogue entry.
+ * Custom errors are matched by name across all protocol ABIs; require strings by exact text.
+ * Unrecognised reverts come back as UNKNOWN with the raw reason as the message.
+ */
+export function decodeBlendraError(error: unknown, context: ErrorContext = {}): DecodedError {
+  if (!(error instanceof BaseError)) {
+    return { ...build('UNKNOWN', context), message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+    return build('USER_REJECTED', context);
+  }
+  if (error.walk((e) => e instanceof InsufficientFundsError)) {
+    return build('INSUFFICIENT_GAS_FUNDS', context);
+  }
+
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    let errorName = revert.data?.errorName;
+    let args = revert.data?.args;
+    if (!errorName && revert.raw) {
+      try {
+        ({ errorName, args } = decodeErrorResult({ abi: ERROR_ABI, data: revert.raw }));
+      } catch {
+        // Not one of ours
+      }
+    }
+
+    if (errorName && CUSTOM_ERRORS[errorName]) {
+      return build(CUSTOM_ERRORS[errorName], context, errorName, args);
+    }
+    if (revert.reason && REQUIRE_STRINGS[revert.reason]) {
+      return build(REQUIRE_STRINGS[revert.reason], context, revert.reason);
+    }
+
+    const source = revert.reason ?? errorName;
+    if (source) {
+      return { ...build('UNKNOWN', context, source, args), message: source };
+    }
+  }
+
+  return { ...build('UNKNOWN', context), message: error.shortMessage };
+}
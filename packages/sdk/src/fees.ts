@@ -0,0 +1,57 @@
+import type { PublicClient } from 'viem';
+import { gbpbMinterAbi, sGbpbAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { readAllAt, type Call } from './multicall';
+import { bps, gbpb, usdc, type Bps, type Gbpb, type Usdc } from './units';
+
+/** What minting, redeeming and staking cost, as the deployed contracts define it, all read at the same block */
+export interface FeeSchedule {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** GBPbMinter.MINT_FEE_BPS; mints separately pay the perp opening fee on notional */
+  mintFeeBps: Bps;
+  /** GBPbMinter.REDEEM_FEE_BPS, charged on the USDC withdrawn and rounded up */
+  redeemFeeBps: Bps;
+  /** GBPbMinter.MIN_MINT_AMOUNT: mint() reverts with BelowMinimumMint under this */
+  minMintAmount: Usdc;
+  /** sGBPb.performanceFeeBPS: share of each harvest's gain above the high-water mark */
+  performanceFeeBps: Bps;
+  /** sGBPb.highWaterMark(): GBPb per 1e18 shares; no performance fee is taken until the share price passes it */
+  highWaterMark: Gbpb;
+  /** sGBPb.pricePerShare() at the same block, for comparing against `highWaterMark` */
+  pricePerShare: Gbpb;
+  /** sGBPb.cooldownDuration(), seconds between unstake() and cooldownWithdraw() */
+  cooldownDuration: number;
+}
+
+/** Read the live fee schedule at `blockNumber`, or the latest block. Throws if any of it can't be read */
+export async function readFeeSchedule(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<FeeSchedule> {
+  const calls: Call[] = [
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'MINT_FEE_BPS' },
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'REDEEM_FEE_BPS' },
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'MIN_MINT_AMOUNT' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'performanceFeeBPS' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'highWaterMark' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'cooldownDuration' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'pricePerShare' },
+  ];
+
+  const { block, take } = await readAllAt(client, calls, blockNumber);
+
+  return {
+    blockNumber: block.number,
+    timestamp: Number(block.timestamp),
+    mintFeeBps: bps(take(0)),
+    redeemFeeBps: bps(take(1)),
+    minMintAmount: usdc(take(2)),
+    performanceFeeBps: bps(take(3)),
+    highWaterMark: gbpb(take(4)),
+    pricePerShare: gbpb(take(6)),
+    cooldownDuration: take<number>(5),
+  };
+}
@@ -0,0 +1,141 @@
+import type { PublicClient } from 'viem';
+import { gbpbMinterAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { readAllAt, type Call } from './multicall';
+import { bps, usdc, type Bps, type Usdc } from './units';
+
+/** verifyGBPbBacking(): USDC backing against GBPb supply at the oracle price */
+export interface BackingStatus {
+  /** At least 100% */
+  isBackedProperly: boolean;
+  backingRatioBps: Bps;
+  /** totalAssets(): Morpho plus the perp position */
+  totalBacking: Usdc;
+  /** GBPb supply converted at the oracle price */
+  gbpbValue: Usdc;
+}
+
+/** getHealthStatus(): the perp hedge as the minter judges it */
+export interface HedgeHealth {
+  /** Position value over collateral; 10000 when there is no position, 0 once underwater */
+  healthFactorBps: Bps;
+  /** Below REBALANCE_HEALTH_THRESHOLD_BPS, so rebalance() would go ahead */
+  needsRebalance: boolean;
+  /** Unrealised perp PnL in USDC, signed */
+  perpPnl: Usdc;
+  /** The loss side of `perpPnl`; 0 when in profit */
+  estimatedLoss: Usdc;
+  tvl: Usdc;
+}
+
+/** getReserveAccounting() and isReserveHealthy(): the fee reserve that absorbs perp opening costs */
+export interface ReserveStatus {
+  currentReserve: Usdc;
+  minReserve: Usdc;
+  openingFeesPaid: Usdc;
+  redemptionFeesCollected: Usdc;
+  /** Redemption fees less opening fees, signed */
+  netRevenue: Usdc;
+  /** Yield the reserve took from stakers to cover a shortfall and still owes back */
+  yieldBorrowed: Usdc;
+  totalContributed: Usdc;
+  /** At or above the minimum with nothing borrowed */
+  isHealthy: boolean;
+}
+
+/** getMarginDeficitStatus(): days perp margin costs have outrun Morpho yield */
+export interface MarginDeficitStatus {
+  isDeficit: boolean;
+  consecutiveDays: number;
+  /** Three days or more: the owner is expected to close the position and cover the deficit */
+  requiresIntervention: boolean;
+  /** Margin cost over yield since the last harvest */
+  currentDeficit: Usdc;
+}
+
+/** The minter's own health views, read at one block. A section is undefined when its view reverted */
+export interface ProtocolHealth {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** Undefined when the oracle price is unusable */
+  backing?: BackingStatus;
+  /** Undefined when the perp provider can't be read */
+  hedge?: HedgeHealth;
+  reserve?: ReserveStatus;
+  deficit?: MarginDeficitStatus;
+  /** REBALANCE_HEALTH_THRESHOLD_BPS: below this the hedge needs a rebalance */
+  rebalanceThresholdBps: Bps;
+  /** MIN_WEEKEND_HEALTH_BPS: the health the hedge should hold to ride out a weekend close */
+  minWeekendHealthBps: Bps;
+}
+
+/** Read every GBPbMinter health view at `blockNumber`, or the latest block */
+export async function readProtocolHealth(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<ProtocolHealth> {
+  const minter = (functionName: string): Call => ({ address: addresses.minter, abi: gbpbMinterAbi, functionName });
+  const calls: Call[] = [
+    minter('verifyGBPbBacking'),
+    minter('getHealthStatus'),
+    minter('getReserveAccounting'),
+    minter('isReserveHealthy'),
+    minter('getMarginDeficitStatus'),
+    minter('REBALANCE_HEALTH_THRESHOLD_BPS'),
+    minter('MIN_WEEKEND_HEALTH_BPS'),
+  ];
+
+  const { block, value } = await readAllAt(client, calls, blockNumber);
+
+  const backing = value<readonly [boolean, bigint, bigint, bigint]>(0);
+  const hedge = value<readonly [bigint, boolean, bigint, bigint, bigint]>(1);
+  const reserve = value<readonly [bigint, bigint, bigint, bigint, bigint, bigint, bigint]>(2);
+  const isReserveHealthy = value<boolean>(3);
+  const deficit = value<readonly [boolean, bigint, boolean, bigint]>(4);
+  const rebalanceThreshold = value<bigint>(5);
+  const minWeekendHealth = value<bigint>(6);
+  if (rebalanceThreshold === undefined || minWeekendHealth === undefined) {
+    throw new Error(`Health read on ${addresses.minter} failed: not a GBPbMinter with health views`);
+  }
+
+  return {
+    blockNumber: block.number,
+    timestamp: Number(block.timestamp),
+    backing: backing && {
+      isBackedProperly: backing[0],
+      backingRatioBps: bps(backing[1]),
+      totalBacking: usdc(backing[2]),
+      gbpbValue: usdc(backing[3]),
+    },
+    hedge: hedge && {
+      healthFactorBps: bps(hedge[0]),
+      needsRebalance: hedge[1],
+      perpPnl: usdc(hedge[2]),
+      estimatedLoss: usdc(hedge[3]),
+      tvl: usdc(hedge[4]),
+    },
+    reserve:
+      reserve && isReserveHealthy !== undefined
+        ? {
+            currentReserve: usdc(reserve[0]),
+            minReserve: usdc(reserve[1]),
+            openingFeesPaid: usdc(reserve[2]),
+            redemptionFeesCollected: usdc(reserve[3]),
+            netRevenue: usdc(reserve[4]),
+            yieldBorrowed: usdc(reserve[5]),
+            totalContributed: usdc(reserve[6]),
+            isHealthy: isReserveHealthy,
+          }
+        : undefined,
+    deficit: deficit && {
+      isDeficit: deficit[0],
+      consecutiveDays: Number(deficit[1]),
+      requiresIntervention: deficit[2],
+      currentDeficit: usdc(deficit[3]),
+    },
+    rebalanceThresholdBps: bps(rebalanceThreshold),
+    minWeekendHealthBps: bps(minWeekendHealth),
+  };
+}
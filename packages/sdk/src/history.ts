@@ -0,0 +1,151 @@
+import type { PublicClient } from 'viem';
+import { chainlinkOracleAbi, erc20Abi, gbpbMinterAbi, morphoStrategyAdapterAbi, perpPositionManagerAbi, sGbpbAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { instantRedemptionUsdc } from './capacity';
+import { readAll, type Call } from './multicall';
+import { usdcToGbpb } from './quote';
+import { bps, gbpb, priceE8, usdc, type Bps, type Gbpb, type PriceE8, type Usdc } from './units';
+
+/** Protocol state at one historical block, for charts */
+export interface HistoryPoint {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** GBPbMinter.totalAssets() */
+  totalAssets: Usdc;
+  /** sGBPb.pricePerShare(), GBPb per 1e18 shares */
+  sharePrice: Gbpb;
+  gbpbSupply: Gbpb;
+  /** verifyGBPbBacking().backingRatioBPS; undefined when it reverted (stale oracle) */
+  backingRatioBps?: Bps;
+  morphoBalance: Usdc;
+  perpCollateral: Usdc;
+  /** Undefined when the oracle reverted at that block */
+  gbpUsdPrice?: PriceE8;
+  /** Instant redemption capacity in GBPb (see `instantRedemptionUsdc`); undefined without an oracle price */
+  redemptionCapacity?: Gbpb;
+}
+
+/** Where sampled points are kept between sessions; see vault-ui's IndexedDB implementation */
+export interface HistoryCache {
+  get(key: string): Promise<HistoryPoint | undefined>;
+  set(key: string, point: HistoryPoint): Promise<void>;
+}
+
+export interface HistoryOptions {
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Roughly how many points to sample; the real count depends on block alignment */
+  points?: number;
+  cache?: HistoryCache;
+  /** Points this close to `toBlock` may still reorg and are never cached */
+  reorgMargin?: bigint;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_POINTS = 90;
+const DEFAULT_REORG_MARGIN = 1_000n;
+// Bumped whenever HistoryPoint gains a field, so points cached without it are read again
+const POINT_VERSION = 2;
+// Archive reads are slow; a few at a time keeps the RPC from rate limiting us
+const CONCURRENCY = 6;
+
+/**
+ * Blocks to sample between `fromBlock` and `toBlock`: multiples of a power-of-two step, so the
+ * same blocks (and cache keys) come back as the head moves, plus `toBlock` itself for the latest value
+ */
+export function historyBlocks(fromBlock: bigint, toBlock: bigint, points: number = DEFAULT_POINTS): bigint[] {
+  if (toBlock <= fromBlock) return [toBlock];
+
+  const target = (toBlock - fromBlock) / BigInt(points);
+  let step = 1n;
+  while (step < target) step *= 2n;
+
+  const blocks: bigint[] = [];
+  for (let block = ((fromBlock + step - 1n) / step) * step; block < toBlock; block += step) blocks.push(block);
+  blocks.push(toBlock);
+  return blocks;
+}
+
+/** Read one history point; undefined if a core contract didn't exist yet or the node has no state for the block */
+export async function readHistoryPoint(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber: bigint
+): Promise<HistoryPoint | undefined> {
+  const calls: Call[] = [
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'totalAssets' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'pricePerShare' },
+    { address: addresses.gbpb, abi: erc20Abi, functionName: 'totalSupply' },
+    { address: addresses.minter, abi: gbpbMinterAbi, functionName: 'verifyGBPbBacking' },
+    { address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'totalAssets' },
+    { address: addresses.perpManager, abi: perpPositionManagerAbi, functionName: 'currentCollateral' },
+    { address: addresses.oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice' },
+    { address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'maxWithdraw', args: [addresses.minter] },
+    { address: addresses.perpManager, abi: perpPositionManagerAbi, functionName: 'getPositionValue' },
+  ];
+
+  const [block, results] = await Promise.all([client.getBlock({ blockNumber }), readAll(client, calls, blockNumber)]);
+  const value = <T>(index: number): T | undefined =>
+    results[index].status === 'success' ? (results[index].result as T) : undefined;
+
+  const totalAssets = value<bigint>(0);
+  const sharePrice = value<bigint>(1);
+  const gbpbSupply = value<bigint>(2);
+  if (totalAssets === undefined || sharePrice === undefined || gbpbSupply === undefined) return undefined;
+
+  const backing = value<readonly [boolean, bigint, bigint, bigint]>(3);
+  const price = value<bigint>(6);
+  const { instantUsdc } = instantRedemptionUsdc(
+    usdc(value<bigint>(7) ?? 0n),
+    usdc(value<bigint>(5) ?? 0n),
+    usdc(value<bigint>(8) ?? 0n)
+  );
+  return {
+    blockNumber,
+    timestamp: Number(block.timestamp),
+    totalAssets: usdc(totalAssets),
+    sharePrice: gbpb(sharePrice),
+    gbpbSupply: gbpb(gbpbSupply),
+    backingRatioBps: backing ? bps(backing[1]) : undefined,
+    // A strategy swapped in later has no state before it was deployed; it held nothing then
+    morphoBalance: usdc(value<bigint>(4) ?? 0n),
+    perpCollateral: usdc(value<bigint>(5) ?? 0n),
+    gbpUsdPrice: price ? priceE8(price) : undefined,
+    redemptionCapacity: price ? usdcToGbpb(instantUsdc, priceE8(price)) : undefined,
+  };
+}
+
+/**
+ * Sample protocol history between two blocks (see `historyBlocks`). Settled points come from
+ * `cache` when present and are written back after being read. Returns points oldest first.
+ */
+export async function sampleHistory(
+  client: PublicClient,
+  chainId: number,
+  addresses: AddressBook,
+  { fromBlock, toBlock, points, cache, reorgMargin = DEFAULT_REORG_MARGIN, signal }: HistoryOptions
+): Promise<HistoryPoint[]> {
+  const blocks = historyBlocks(fromBlock, toBlock, points);
+  const sampled: (HistoryPoint | undefined)[] = new Array(blocks.length);
+
+  for (let i = 0; i < blocks.length; i += CONCURRENCY) {
+    if (signal?.aborted) break;
+
+    await Promise.all(
+      blocks.slice(i, i + CONCURRENCY).map(async (blockNumber, j) => {
+        const settled = blockNumber + reorgMargin <= toBlock;
+        const key = `${chainId}:${addresses.minter}:${blockNumber}:v${POINT_VERSION}`;
+
+        let point = settled ? await cache?.get(key) : undefined;
+        if (!point) {
+          point = await readHistoryPoint(client, addresses, blockNumber).catch(() => undefined);
+          if (point && settled) await cache?.set(key, point);
+        }
+        sampled[i + j] = point;
+      })
+    );
+  }
+
+  return sampled.filter((point): point is HistoryPoint => point !== undefined);
+}
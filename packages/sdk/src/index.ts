@@ -0,0 +1,24 @@
+export * from './abis';
+export * from './activity';
+export * from './apy';
+export * from './blocks';
+export * from './capacity';
+export * from './contracts';
+export * from './cooldown';
+export * from './deployments';
+export * from './errors';
+export * from './fees';
+export * from './health';
+export * from './history';
+export * from './limits';
+export * from './market';
+export * from './oracle';
+export * from './permit';
+export * from './perp';
+export * from './portfolio';
+export * from './quote';
+export * from './snapshot';
+export * from './tax';
+export * from './units';
+export * from './verification';
+export * from './zap';
@@ -0,0 +1,71 @@
+import type { Address, PublicClient } from 'viem';
+import { gbpbAbi, gbpbMinterAbi } from './abis';
+import type { AddressBook } from './deployments';
+import type { BlendraErrorCode } from './errors';
+
+/** The minter's per-wallet and protocol-wide timing rules, in unix seconds */
+export interface OperationLimits {
+  userOperationCooldown: number;
+  globalOperationCooldown: number;
+  lastUserOperation: number;
+  lastGlobalOperation: number;
+  /** GBPb.mintTime(user): the user's latest mint. Transfers in or out never change it */
+  mintTime: number;
+  minHoldTime: number;
+}
+
+export interface OperationWindow {
+  /** Unix seconds from which the operation stops reverting for timing reasons */
+  availableAt: number;
+  /** The revert the minter would raise before then */
+  blockedBy?: BlendraErrorCode;
+}
+
+/** Read every timing rule mint and redeem enforce for `user` */
+export async function readOperationLimits(
+  client: PublicClient,
+  addresses: AddressBook,
+  user: Address
+): Promise<OperationLimits> {
+  const minter = { address: addresses.minter, abi: gbpbMinterAbi } as const;
+  const [userCooldown, globalCooldown, lastUser, lastGlobal, mintTime, minHoldTime] = await Promise.all([
+    client.readContract({ ...minter, functionName: 'userOperationCooldown' }),
+    client.readContract({ ...minter, functionName: 'globalOperationCooldown' }),
+    client.readContract({ ...minter, functionName: 'lastUserOperation', args: [user] }),
+    client.readContract({ ...minter, functionName: 'lastGlobalOperation' }),
+    client.readContract({ address: addresses.gbpb, abi: gbpbAbi, functionName: 'mintTime', args: [user] }),
+    client.readContract({ ...minter, functionName: 'MIN_HOLD_TIME' }),
+  ]);
+
+  return {
+    userOperationCooldown: Number(userCooldown),
+    globalOperationCooldown: Number(globalCooldown),
+    lastUserOperation: Number(lastUser),
+    lastGlobalOperation: Number(lastGlobal),
+    mintTime: Number(mintTime),
+    minHoldTime: Number(minHoldTime),
+  };
+}
+
+/**
+ * When mint() next passes _checkRateLimit(): the global cooldown is checked first, then the user's.
+ * Redeem is not rate limited.
+ */
+export function mintWindow(limits: OperationLimits, timestamp: number): OperationWindow {
+  const globalReady = limits.lastGlobalOperation + limits.globalOperationCooldown;
+  const userReady = limits.lastUserOperation + limits.userOperationCooldown;
+  const availableAt = Math.max(globalReady, userReady);
+
+  if (timestamp < globalReady) return { availableAt, blockedBy: 'GLOBAL_RATE_LIMITED' };
+  if (timestamp < userReady) return { availableAt, blockedBy: 'USER_RATE_LIMITED' };
+  return { availableAt };
+}
+
+/**
+ * When redeem() next passes the hold check: MIN_HOLD_TIME after the user's own latest mint.
+ * A wallet that only ever received GBPb by transfer has mintTime 0 and can redeem straight away.
+ */
+export function redeemWindow(limits: OperationLimits, timestamp: number): OperationWindow {
+  const availableAt = limits.mintTime + limits.minHoldTime;
+  return timestamp < availableAt ? { availableAt, blockedBy: 'HOLD_TIME_NOT_MET' } : { availableAt };
+}
@@ -0,0 +1,130 @@
+import type { Address, PublicClient } from 'viem';
+import { gbpbMinterAbi } from './abis';
+
+const DAY = 86_400;
+const WEEK = 7 * DAY;
+const SIX_HOURS = 6 * 3_600;
+// The unix epoch was a Thursday; the minter shifts by three days so 0 is Monday 00:00 UTC
+const EPOCH_OFFSET = 3 * DAY;
+
+/** GBPbMinter's weekend window, in seconds since Monday 00:00 UTC */
+export interface WeekendConfig {
+  enabled: boolean;
+  closeTime: number;
+  openTime: number;
+}
+
+export interface FxHoliday {
+  /** UTC calendar date, YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+/**
+ * Days the GBP/USD market is shut outside the weekend. The minter does not know about these, so
+ * they never block a mint or redeem on-chain, but the hedge may not trade.
+ */
+export const FX_HOLIDAYS: FxHoliday[] = [
+  { date: '2026-01-01', name: "New Year's Day" },
+  { date: '2026-04-03', name: 'Good Friday' },
+  { date: '2026-12-25', name: 'Christmas Day' },
+  { date: '2027-01-01', name: "New Year's Day" },
+  { date: '2027-03-26', name: 'Good Friday' },
+  { date: '2028-04-14', name: 'Good Friday' },
+  { date: '2028-12-25', name: 'Christmas Day' },
+];
+
+export interface MarketStatus {
+  /** The minter reverts mint and redeem with OstiumMarketClosed */
+  isClosed: boolean;
+  /** Within six hours of the weekend close, as isApproachingWeekend() */
+  isApproachingClose: boolean;
+  /** Unix seconds at which isClosed next flips; undefined when the schedule never changes */
+  nextChange?: number;
+  /** Holiday in effect now */
+  holiday?: FxHoliday;
+  /** Next holiday starting within a week */
+  upcomingHoliday?: FxHoliday;
+}
+
+function secondsSinceMonday(timestamp: number): number {
+  return (timestamp + EPOCH_OFFSET) % WEEK;
+}
+
+/** Mirror of GBPbMinter.isWeekend() at a unix timestamp */
+export function isWeekendAt(config: WeekendConfig, timestamp: number): boolean {
+  if (!config.enabled) return false;
+  const s = secondsSinceMonday(timestamp);
+  return s >= config.closeTime || s < config.openTime;
+}
+
+/** Mirror of GBPbMinter.isApproachingWeekend() at a unix timestamp */
+export function isApproachingWeekendAt(config: WeekendConfig, timestamp: number): boolean {
+  if (!config.enabled || config.closeTime < SIX_HOURS) return false;
+  const s = secondsSinceMonday(timestamp);
+  return s >= config.closeTime - SIX_HOURS && s < config.closeTime;
+}
+
+/** Next unix timestamp at which isWeekendAt() changes value, or undefined if it never does */
+export function nextWeekendTransition(config: WeekendConfig, timestamp: number): number | undefined {
+  if (!config.enabled) return undefined;
+
+  // The answer can only change at the two configured boundaries; try the nearer one first
+  const s = secondsSinceMonday(timestamp);
+  const closed = isWeekendAt(config, timestamp);
+  const candidates = [config.closeTime, config.openTime]
+    .map((boundary) => (boundary - s + WEEK) % WEEK || WEEK)
+    .sort((a, b) => a - b);
+
+  for (const wait of candidates) {
+    if (isWeekendAt(config, timestamp + wait) !== closed) return timestamp + wait;
+  }
+  return undefined;
+}
+
+/** Holidays close with the weekend convention: 22:00 UTC the evening before to 22:00 UTC on the day */
+export function holidayWindow(holiday: FxHoliday): { start: number; end: number } {
+  const start = Date.parse(`${holiday.date}T00:00:00Z`) / 1_000 - 2 * 3_600;
+  return { start, end: start + DAY };
+}
+
+export function getMarketStatus(
+  config: WeekendConfig,
+  timestamp: number,
+  holidays: FxHoliday[] = FX_HOLIDAYS
+): MarketStatus {
+  const holiday = holidays.find((h) => {
+    const { start, end } = holidayWindow(h);
+    return timestamp >= start && timestamp < end;
+  });
+  const upcomingHoliday = holidays.find((h) => {
+    const { start } = holidayWindow(h);
+    return start > timestamp && start - timestamp <= WEEK;
+  });
+
+  return {
+    isClosed: isWeekendAt(config, timestamp),
+    isApproachingClose: isApproachingWeekendAt(config, timestamp),
+    nextChange: nextWeekendTransition(config, timestamp),
+    holiday,
+    upcomingHoliday,
+  };
+}
+
+/** Read the weekend window the minter is enforcing */
+export async function readWeekendConfig(client: PublicClient, minter: Address): Promise<WeekendConfig> {
+  const read = (functionName: 'weekendCheckEnabled' | 'weekendCloseTime' | 'weekendOpenTime') =>
+    client.readContract({ address: minter, abi: gbpbMinterAbi, functionName });
+
+  const [enabled, closeTime, openTime] = await Promise.all([
+    read('weekendCheckEnabled'),
+    read('weekendCloseTime'),
+    read('weekendOpenTime'),
+  ]);
+
+  return {
+    enabled: enabled as boolean,
+    closeTime: Number(closeTime),
+    openTime: Number(openTime),
+  };
+}
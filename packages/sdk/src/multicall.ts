@@ -0,0 +1,55 @@
+// Block-pinned batch reads shared by the SDK's readers; not part of the public API
+
+import type { Abi, Address, Block, PublicClient } from 'viem';
+
+export interface Call {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export type CallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+// Multicall3 where the chain has one; otherwise (local anvil) the same reads one by one.
+// Either way every call is pinned to `blockNumber`, which is what keeps the values consistent.
+export async function readAll(client: PublicClient, calls: Call[], blockNumber: bigint): Promise<CallResult[]> {
+  if (client.chain?.contracts?.multicall3) {
+    return (await client.multicall({ contracts: calls, blockNumber, allowFailure: true })) as CallResult[];
+  }
+
+  const settled = await Promise.allSettled(calls.map((call) => client.readContract({ ...call, blockNumber })));
+  return settled.map((outcome): CallResult =>
+    outcome.status === 'fulfilled'
+      ? { status: 'success', result: outcome.value }
+      : { status: 'failure', error: outcome.reason as Error }
+  );
+}
+
+/** readAll() at `blockNumber`, or the latest block, with the block itself and accessors for the results */
+export interface BlockReads {
+  block: Block<bigint, false, 'latest'>;
+  results: CallResult[];
+  /** The result of call `index`; throws naming the call if it failed */
+  take: <T>(index: number) => T;
+  /** The result of call `index`, or undefined if it failed */
+  value: <T>(index: number) => T | undefined;
+}
+
+export async function readAllAt(client: PublicClient, calls: Call[], blockNumber?: bigint): Promise<BlockReads> {
+  const block = await client.getBlock(blockNumber === undefined ? {} : { blockNumber });
+  const results = await readAll(client, calls, block.number);
+
+  const take = <T>(index: number): T => {
+    const outcome = results[index];
+    if (outcome.status === 'failure') {
+      const { address, functionName } = calls[index];
+      throw new Error(`Read ${functionName}() on ${address} failed: ${outcome.error.message}`);
+    }
+    return outcome.result as T;
+  };
+  const value = <T>(index: number): T | undefined =>
+    results[index].status === 'success' ? (results[index].result as T) : undefined;
+
+  return { block, results, take, value };
+}
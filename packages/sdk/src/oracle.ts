@@ -0,0 +1,111 @@
+import { zeroAddress, type Address, type PublicClient } from 'viem';
+import { aggregatorV3Abi, chainlinkOracleAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { decodeBlendraError, type BlendraErrorCode } from './errors';
+import { readAllAt, type Call } from './multicall';
+import { priceE8, type PriceE8 } from './units';
+
+/**
+ * - `live`: the primary feed passes every check
+ * - `backup`: the primary feed fails, and the minter is pricing off the backup feed instead
+ * - `stale` / `invalid`: no feed gives a usable price, so mint and redeem revert
+ */
+export type OracleState = 'live' | 'backup' | 'stale' | 'invalid';
+
+/** ChainlinkOracle as the minter sees it, all read at the same block */
+export interface OracleStatus {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  state: OracleState;
+  /** getGBPUSDPrice(): what mint and redeem settle at, from either feed; undefined when it reverts */
+  price?: PriceE8;
+  /** Primary feed's latestRoundData() round time, read from the feed so it is there when the price is stale too */
+  updatedAt?: number;
+  /** Seconds between `updatedAt` and the block */
+  age?: number;
+  /** Oldest round either feed may serve, in seconds */
+  maxPriceAge: number;
+  minPrice: PriceE8;
+  maxPrice: PriceE8;
+  /** Undefined when no backup feed is configured */
+  backupFeed?: Address;
+  /** The owner's useBackup switch; the backup is only consulted when this is on */
+  isBackupEnabled: boolean;
+  /** Why getGBPUSDPriceWithValidation() rejects the primary feed */
+  primaryError?: BlendraErrorCode;
+  /** Why mint and redeem revert on the price right now; undefined when they don't */
+  blockedBy?: BlendraErrorCode;
+}
+
+function oracleErrorCode(error: Error): BlendraErrorCode {
+  return decodeBlendraError(error).code === 'ORACLE_STALE' ? 'ORACLE_STALE' : 'ORACLE_INVALID';
+}
+
+/**
+ * Read the oracle's price, freshness, bounds and backup feed at `blockNumber`, or the latest block.
+ * getGBPUSDPriceWithValidation() covers the primary feed's checks including bounds; the revert from
+ * getGBPUSDPriceWithTimestamp() says which one failed. The price itself comes from getGBPUSDPrice(),
+ * the same call the minter makes, so `blockedBy` is set exactly when mint and redeem would revert on it.
+ */
+export async function readOracleStatus(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<OracleStatus> {
+  const oracle = (functionName: string): Call => ({ address: addresses.oracle, abi: chainlinkOracleAbi, functionName });
+  const calls: Call[] = [
+    oracle('getGBPUSDPriceWithValidation'),
+    oracle('getGBPUSDPriceWithTimestamp'),
+    oracle('getGBPUSDPrice'),
+    oracle('maxPriceAge'),
+    oracle('minPrice'),
+    oracle('maxPrice'),
+    oracle('backupFeed'),
+    oracle('useBackup'),
+    oracle('gbpUsdFeed'),
+  ];
+
+  const { block, results, take } = await readAllAt(client, calls, blockNumber);
+
+  const [, isPrimaryValid] = take<readonly [bigint, boolean]>(0);
+  const withTimestamp = results[1];
+  const effective = results[2];
+  const timestamp = Number(block.timestamp);
+
+  // Straight from the feed at the same block: the oracle's own getters revert StalePrice just when the age matters
+  const round = await client
+    .readContract({ address: take<Address>(8), abi: aggregatorV3Abi, functionName: 'latestRoundData', blockNumber: block.number })
+    .catch(() => undefined);
+  const updatedAt = round && round[3] > 0n ? Number(round[3]) : undefined;
+
+  // getGBPUSDPriceWithTimestamp() doesn't check bounds, so a primary that passes it but fails validation is out of bounds
+  const primaryError: BlendraErrorCode | undefined = isPrimaryValid
+    ? undefined
+    : withTimestamp.status === 'failure'
+      ? oracleErrorCode(withTimestamp.error)
+      : 'ORACLE_INVALID';
+
+  const price = effective.status === 'success' ? priceE8(effective.result as bigint) : undefined;
+  // With no backup, getGBPUSDPrice() reverts InvalidPrice whatever the cause; the primary's own failure says more
+  const blockedBy =
+    effective.status === 'failure' ? (primaryError ?? oracleErrorCode(effective.error)) : undefined;
+
+  const backupFeed = take<Address>(6);
+
+  return {
+    blockNumber: block.number,
+    timestamp,
+    state: price === undefined ? (blockedBy === 'ORACLE_STALE' ? 'stale' : 'invalid') : primaryError ? 'backup' : 'live',
+    price,
+    updatedAt,
+    age: updatedAt !== undefined ? timestamp - updatedAt : undefined,
+    maxPriceAge: Number(take<bigint>(3)),
+    minPrice: priceE8(take(4)),
+    maxPrice: priceE8(take(5)),
+    backupFeed: backupFeed === zeroAddress ? undefined : backupFeed,
+    isBackupEnabled: take<boolean>(7),
+    primaryError,
+    blockedBy,
+  };
+}
@@ -0,0 +1,154 @@
+import {
+  domainSeparator,
+  encodeAbiParameters,
+  encodeFunctionData,
+  keccak256,
+  maxUint256,
+  numberToHex,
+  parseSignature,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type StateOverride,
+  type TypedDataDomain,
+} from 'viem';
+import { erc20Abi } from './abis';
+
+/** The EIP-2612 surface of a token; not in the generated ABIs since no protocol contract calls it */
+export const eip2612Abi = [
+  {
+    type: 'function',
+    name: 'permit',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'v', type: 'uint8' },
+      { name: 'r', type: 'bytes32' },
+      { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'nonces',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'DOMAIN_SEPARATOR',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'version',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+] as const;
+
+/**
+ * How a wallet approves the USDC a mint spends: `exact` approves each mint's amount, `unlimited` approves
+ * once for good, `permit` signs an EIP-2612 permit that goes on chain in the same batch as the mint
+ */
+export type ApprovalStrategy = 'exact' | 'unlimited' | 'permit';
+
+export interface PermitParams {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  /** Unix seconds after which the permit is rejected */
+  deadline: bigint;
+}
+
+// Tokens without a version() getter almost always sign with "1"
+const FALLBACK_VERSION = '1';
+
+/**
+ * EIP-712 domain of an EIP-2612 token, checked against its DOMAIN_SEPARATOR() so a signature made
+ * with it is one the token accepts. Undefined when the token has no permit (e.g. testnet mock USDC).
+ */
+export async function readPermitDomain(client: PublicClient, token: Address): Promise<TypedDataDomain | undefined> {
+  try {
+    const [name, separator, chainId] = await Promise.all([
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'name' }),
+      client.readContract({ address: token, abi: eip2612Abi, functionName: 'DOMAIN_SEPARATOR' }),
+      client.getChainId(),
+    ]);
+    const version = await client
+      .readContract({ address: token, abi: eip2612Abi, functionName: 'version' })
+      .catch(() => FALLBACK_VERSION);
+
+    const domain: TypedDataDomain = { name, version, chainId, verifyingContract: token };
+    return domainSeparator({ domain }) === separator ? domain : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Typed data for the wallet to sign; `nonce` is the token's current nonces(owner) */
+export function permitTypedData(domain: TypedDataDomain, { owner, spender, value, deadline }: PermitParams, nonce: bigint) {
+  return {
+    domain,
+    types: {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    primaryType: 'Permit',
+    message: { owner, spender, value, nonce, deadline },
+  } as const;
+}
+
+/** The permit() call carrying a signature, in the `{ to, data }` shape batches take */
+export function permitCall(token: Address, { owner, spender, value, deadline }: PermitParams, signature: Hex) {
+  const { v, r, s, yParity } = parseSignature(signature);
+  return {
+    to: token,
+    data: encodeFunctionData({
+      abi: eip2612Abi,
+      functionName: 'permit',
+      args: [owner, spender, value, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+    }),
+  };
+}
+
+// Storage slot of the allowance mapping in the tokens the minter runs against: Circle's FiatToken keeps
+// `allowed` at 10, OpenZeppelin's ERC20 (the testnet mocks) keeps `_allowances` at 1
+const ALLOWANCE_SLOTS = [10n, 1n];
+
+/** Storage key of `allowance[owner][spender]` for a mapping declared at `slot` */
+function allowanceKey(slot: bigint, owner: Address, spender: Address): Hex {
+  const inner = keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'uint256' }], [owner, slot]));
+  return keccak256(encodeAbiParameters([{ type: 'address' }, { type: 'bytes32' }], [spender, inner]));
+}
+
+/**
+ * State override that gives `spender` an allowance of `value` from `owner` for one eth_call, so a mint can be
+ * simulated before the permit that would grant it is signed. Writes every known layout's key; on a token laid
+ * out otherwise the simulation fails on allowance, as it would without the override.
+ */
+export function permitAllowanceOverride(token: Address, { owner, spender, value }: Omit<PermitParams, 'deadline'>): StateOverride {
+  return [
+    {
+      address: token,
+      stateDiff: ALLOWANCE_SLOTS.map((slot) => ({ slot: allowanceKey(slot, owner, spender), value: numberToHex(value, { size: 32 }) })),
+    },
+  ];
+}
+
+/** What an approve() sends under a strategy */
+export function approvalAmount(strategy: Exclude<ApprovalStrategy, 'permit'>, amount: bigint): bigint {
+  return strategy === 'unlimited' ? maxUint256 : amount;
+}
@@ -0,0 +1,184 @@
+import { parseEventLogs, type Hash, type PublicClient } from 'viem';
+import { chainlinkOracleAbi, perpPositionManagerAbi } from './abis';
+import { fetchSplittingRange, findBlockAtTimestamp } from './blocks';
+import type { AddressBook } from './deployments';
+import { readAllAt, type Call } from './multicall';
+import { bps, priceE8, usdc, type Bps, type PriceE8, type Usdc } from './units';
+
+const BPS = 10_000n;
+
+/** The GBP/USD long held by PerpPositionManager, all read at the same block */
+export interface PerpPosition {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+  /** currentNotional: the manager's own record, synced from the provider after each change */
+  notional: Usdc;
+  collateral: Usdc;
+  /** Notional as the perp provider reports it right now */
+  size: Usdc;
+  /** getPositionPnL(): unrealised, signed, net of estimated closing fees when in profit */
+  pnl: Usdc;
+  /** getPositionValue(): collateral plus PnL, floored at 0 */
+  value: Usdc;
+  /** getHealthFactor(): value over collateral; 10000 when there is no position */
+  healthFactorBps: Bps;
+  /** Notional over value, in bps (50000 = 5x); undefined with no position or when underwater */
+  effectiveLeverageBps?: Bps;
+  /** Oracle price the PnL was marked at; undefined when the oracle is unusable */
+  gbpUsdPrice?: PriceE8;
+  /** LIQUIDATION_WARNING_THRESHOLD_BPS: at or below this health the manager emits LiquidationWarning */
+  liquidationThresholdBps: Bps;
+  /** MIN_COLLATERAL_RATIO_BPS: below this health, changes that make it worse revert */
+  minCollateralRatioBps: Bps;
+}
+
+interface PerpEventBase {
+  blockNumber: bigint;
+  /** Unix seconds */
+  timestamp: number;
+  transactionHash: Hash;
+}
+
+export interface PerpIncreasedEvent extends PerpEventBase {
+  kind: 'increased';
+  /** Notional requested */
+  notional: Usdc;
+  /** Collateral added */
+  collateral: Usdc;
+}
+
+export interface PerpDecreasedEvent extends PerpEventBase {
+  kind: 'decreased';
+  /** Share of the position closed, 1e18 = all of it */
+  shareRatio: bigint;
+  /** Notional closed */
+  notional: Usdc;
+  /** Collateral released */
+  collateral: Usdc;
+}
+
+export interface PerpLiquidationWarningEvent extends PerpEventBase {
+  kind: 'liquidationWarning';
+  healthFactorBps: Bps;
+  /** Signed */
+  pnl: Usdc;
+  /** Collateral at the time */
+  collateral: Usdc;
+}
+
+export type PerpEvent = PerpIncreasedEvent | PerpDecreasedEvent | PerpLiquidationWarningEvent;
+
+export type PerpEventKind = PerpEvent['kind'];
+
+const PERP_EVENT_NAMES = ['PositionIncreased', 'PositionDecreased', 'LiquidationWarning'] as const;
+
+/** Read the hedge position at `blockNumber`, or the latest block. Throws if the manager can't be read */
+export async function readPerpPosition(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<PerpPosition> {
+  const manager = (functionName: string): Call => ({ address: addresses.perpManager, abi: perpPositionManagerAbi, functionName });
+  const calls: Call[] = [
+    manager('getPositionDetails'),
+    manager('getPositionPnL'),
+    manager('getPositionValue'),
+    manager('getHealthFactor'),
+    manager('LIQUIDATION_WARNING_THRESHOLD_BPS'),
+    manager('MIN_COLLATERAL_RATIO_BPS'),
+    { address: addresses.oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice' },
+  ];
+
+  const { block, results, take } = await readAllAt(client, calls, blockNumber);
+
+  const [notional, collateral, size] = take<readonly [bigint, bigint, bigint]>(0);
+  const value = take<bigint>(2);
+  const price = results[6].status === 'success' ? (results[6].result as bigint) : 0n;
+
+  return {
+    blockNumber: block.number,
+    timestamp: Number(block.timestamp),
+    notional: usdc(notional),
+    collateral: usdc(collateral),
+    size: usdc(size),
+    pnl: usdc(take(1)),
+    value: usdc(value),
+    healthFactorBps: bps(take(3)),
+    effectiveLeverageBps: notional > 0n && value > 0n ? bps((notional * BPS) / value) : undefined,
+    gbpUsdPrice: price > 0n ? priceE8(price) : undefined,
+    liquidationThresholdBps: bps(take(4)),
+    minCollateralRatioBps: bps(take(5)),
+  };
+}
+
+/**
+ * GBP/USD price at which the long's health falls to `thresholdBps` (by default the liquidation threshold).
+ * The provider marks PnL as `size * (price - open) / open`, so health is linear in price and the open price
+ * cancels out. Profit is reported net of estimated fees, which makes the estimate err on the high (safe) side.
+ * Undefined with no position, without an oracle price, or when no price gets there.
+ */
+export function liquidationPrice(position: PerpPosition, thresholdBps: Bps = position.liquidationThresholdBps): PriceE8 | undefined {
+  const { size, collateral, pnl, gbpUsdPrice } = position;
+  if (size === 0n || collateral === 0n || !gbpUsdPrice) return undefined;
+
+  // PnL at which (collateral + pnl) / collateral == threshold
+  const targetPnl = (collateral * (thresholdBps - BPS)) / BPS;
+  const now = size + pnl;
+  const then = size + targetPnl;
+  if (now <= 0n || then <= 0n) return undefined;
+  return priceE8((gbpUsdPrice * then) / now);
+}
+
+/**
+ * PositionIncreased, PositionDecreased and LiquidationWarning from the last `days`, newest first,
+ * at most `limit` of them
+ */
+export async function readRecentPerpEvents(
+  client: PublicClient,
+  addresses: AddressBook,
+  days: number = 30,
+  limit: number = 20
+): Promise<PerpEvent[]> {
+  const head = await client.getBlock();
+  const fromBlock = await findBlockAtTimestamp(client, head.timestamp - BigInt(days * 86_400));
+
+  const logs = await fetchSplittingRange(fromBlock, head.number, (from, to) =>
+    client.getLogs({ address: addresses.perpManager, fromBlock: from, toBlock: to })
+  );
+
+  const recent = parseEventLogs({ abi: perpPositionManagerAbi, eventName: [...PERP_EVENT_NAMES], logs })
+    .reverse()
+    .slice(0, limit);
+
+  const timestamps = new Map<bigint, number>();
+  await Promise.all(
+    [...new Set(recent.map((log) => log.blockNumber!))].map(async (blockNumber) => {
+      timestamps.set(blockNumber, Number((await client.getBlock({ blockNumber })).timestamp));
+    })
+  );
+
+  return recent.map((log): PerpEvent => {
+    const base = { blockNumber: log.blockNumber!, timestamp: timestamps.get(log.blockNumber!)!, transactionHash: log.transactionHash! };
+    switch (log.eventName) {
+      case 'PositionIncreased':
+        return { ...base, kind: 'increased', notional: usdc(log.args.notionalSize), collateral: usdc(log.args.collateral) };
+      case 'PositionDecreased':
+        return {
+          ...base,
+          kind: 'decreased',
+          shareRatio: log.args.shareRatio,
+          notional: usdc(log.args.notionalReduced),
+          collateral: usdc(log.args.collateralReduced),
+        };
+      case 'LiquidationWarning':
+        return {
+          ...base,
+          kind: 'liquidationWarning',
+          healthFactorBps: bps(log.args.healthFactor),
+          pnl: usdc(log.args.pnl),
+          collateral: usdc(log.args.collateral),
+        };
+    }
+  });
+}
@@ -0,0 +1,346 @@
+import type { Address, PublicClient } from 'viem';
+import { chainlinkOracleAbi, erc20Abi, sGbpbAbi } from './abis';
+import type { ActivityEntry } from './activity';
+import type { AddressBook } from './deployments';
+import { gbpbToUsdc, mulDiv, usdcToGbpb } from './quote';
+import { gbpb, priceE8, sGbpbShares, usdc, type Gbpb, type PriceE8, type SGbpbShares, type Usdc } from './units';
+
+const SHARE_UNIT = 10n ** 18n;
+
+/** What a holding cost, tracked at average cost as GBPb moves between wallet, vault and cooldown */
+export interface CostBasis {
+  /** GBPb acquired (minted, received, or earned and locked in by unstaking) */
+  units: Gbpb;
+  /** USDC paid for it, including mint fees */
+  usd: Usdc;
+  /** The same payment in GBP at the oracle rate of the day */
+  gbp: Gbpb;
+  /** `units` at the oracle rate when acquired - the USD value before any fees */
+  usdAtEntry: Usdc;
+}
+
+/**
+ * PnL split into its sources. Signed: `total = yield + fx - costs` in each currency.
+ * In GBP there is no FX term, since GBPb is GBP; the USD view adds the move in GBP/USD.
+ */
+export interface PnlBreakdown {
+  /** GBPb earned by the sGBPb share price rising */
+  yieldGbp: Gbpb;
+  yieldUsd: Usdc;
+  /** GBP/USD moving between acquisition and today (or redemption) */
+  fxUsd: Usdc;
+  /** Mint opening fees and redeem fees, against the oracle rate */
+  costsGbp: Gbpb;
+  costsUsd: Usdc;
+  totalGbp: Gbpb;
+  totalUsd: Usdc;
+}
+
+export type HoldingKind = 'wallet' | 'staked' | 'cooldown';
+
+export interface PortfolioHolding {
+  kind: HoldingKind;
+  /** Current value in GBPb - sGBPb is valued through convertToAssets */
+  value: Gbpb;
+  valueUsd: Usdc;
+  /** staked only */
+  shares?: SGbpbShares;
+  basis: CostBasis;
+  unrealised: PnlBreakdown;
+}
+
+/** Balances the ledger is reconciled against, all read at one block */
+export interface PortfolioBalances {
+  blockNumber: bigint;
+  gbpbBalance: Gbpb;
+  shares: SGbpbShares;
+  /** sGBPb.convertToAssets(shares) */
+  stakedValue: Gbpb;
+  /** sGBPb.convertToAssets(1e18), for shares the history can't account for */
+  sharePrice: Gbpb;
+  /** Unclaimed unstake cooldown */
+  cooldown: Gbpb;
+  gbpUsdPrice: PriceE8;
+}
+
+export interface Portfolio {
+  holdings: PortfolioHolding[];
+  value: Gbpb;
+  valueUsd: Usdc;
+  basis: CostBasis;
+  unrealised: PnlBreakdown;
+  /** From redemptions, yield locked in by unstaking, and cooldowns forfeited by a second unstake */
+  realised: PnlBreakdown;
+  gbpUsdPrice: PriceE8;
+  /** GBPb held today that the history doesn't explain, given a basis at today's rate (no PnL) */
+  untracked: Gbpb;
+  /** Entries whose block had no readable oracle rate and were valued at today's rate instead */
+  estimatedEntries: number;
+}
+
+const ZERO_BASIS: CostBasis = { units: gbpb(0n), usd: usdc(0n), gbp: gbpb(0n), usdAtEntry: usdc(0n) };
+
+const ZERO_PNL: PnlBreakdown = {
+  yieldGbp: gbpb(0n),
+  yieldUsd: usdc(0n),
+  fxUsd: usdc(0n),
+  costsGbp: gbpb(0n),
+  costsUsd: usdc(0n),
+  totalGbp: gbpb(0n),
+  totalUsd: usdc(0n),
+};
+
+function addBasis(a: CostBasis, b: CostBasis): CostBasis {
+  return {
+    units: gbpb(a.units + b.units),
+    usd: usdc(a.usd + b.usd),
+    gbp: gbpb(a.gbp + b.gbp),
+    usdAtEntry: usdc(a.usdAtEntry + b.usdAtEntry),
+  };
+}
+
+/** `part / whole` of a basis, pro rata on every field */
+function scaleBasis(basis: CostBasis, part: bigint, whole: bigint): CostBasis {
+  if (whole === 0n || part >= whole) return basis;
+  return {
+    units: gbpb(mulDiv(basis.units, part, whole)),
+    usd: usdc(mulDiv(basis.usd, part, whole)),
+    gbp: gbpb(mulDiv(basis.gbp, part, whole)),
+    usdAtEntry: usdc(mulDiv(basis.usdAtEntry, part, whole)),
+  };
+}
+
+function subtractBasis(a: CostBasis, b: CostBasis): CostBasis {
+  return {
+    units: gbpb(a.units - b.units),
+    usd: usdc(a.usd - b.usd),
+    gbp: gbpb(a.gbp - b.gbp),
+    usdAtEntry: usdc(a.usdAtEntry - b.usdAtEntry),
+  };
+}
+
+/** GBPb acquired at the going rate with no fee (received, or earned) */
+function marketBasis(amount: Gbpb, price: PriceE8): CostBasis {
+  const usd = gbpbToUsdc(amount, price);
+  return { units: amount, usd, gbp: amount, usdAtEntry: usd };
+}
+
+function addPnl(a: PnlBreakdown, b: PnlBreakdown): PnlBreakdown {
+  return {
+    yieldGbp: gbpb(a.yieldGbp + b.yieldGbp),
+    yieldUsd: usdc(a.yieldUsd + b.yieldUsd),
+    fxUsd: usdc(a.fxUsd + b.fxUsd),
+    costsGbp: gbpb(a.costsGbp + b.costsGbp),
+    costsUsd: usdc(a.costsUsd + b.costsUsd),
+    totalGbp: gbpb(a.totalGbp + b.totalGbp),
+    totalUsd: usdc(a.totalUsd + b.totalUsd),
+  };
+}
+
+function pnl(yieldGbp: Gbpb, yieldUsd: Usdc, fxUsd: Usdc, costsGbp: Gbpb, costsUsd: Usdc): PnlBreakdown {
+  return {
+    yieldGbp,
+    yieldUsd,
+    fxUsd,
+    costsGbp,
+    costsUsd,
+    totalGbp: gbpb(yieldGbp - costsGbp),
+    totalUsd: usdc(yieldUsd + fxUsd - costsUsd),
+  };
+}
+
+/** A pool of GBPb (or sGBPb shares) and the basis behind it */
+interface Pool {
+  held: bigint;
+  basis: CostBasis;
+}
+
+/** Take `amount` out of a pool at average cost; anything beyond what the pool holds comes back as `shortfall` */
+function withdraw(pool: Pool, amount: bigint): { taken: CostBasis; shortfall: bigint } {
+  const covered = amount < pool.held ? amount : pool.held;
+  const taken = scaleBasis(pool.basis, covered, pool.held);
+  pool.basis = covered === pool.held ? ZERO_BASIS : subtractBasis(pool.basis, taken);
+  pool.held -= covered;
+  return { taken, shortfall: amount - covered };
+}
+
+function deposit(pool: Pool, amount: bigint, basis: CostBasis) {
+  pool.held += amount;
+  pool.basis = addBasis(pool.basis, basis);
+}
+
+/**
+ * Replay a wallet's activity into average-cost pools for wallet GBPb, staked sGBPb and the unstake
+ * cooldown, then value them against `balances`. Transfers out leave at cost (no PnL); transfers in,
+ * and anything the history can't account for, come in at the rate of the day.
+ */
+export function buildPortfolio(entries: ActivityEntry[], balances: PortfolioBalances): Portfolio {
+  const price = balances.gbpUsdPrice;
+  const wallet: Pool = { held: 0n, basis: ZERO_BASIS };
+  const staked: Pool = { held: 0n, basis: ZERO_BASIS };
+  const cooldown: Pool = { held: 0n, basis: ZERO_BASIS };
+  let realised = ZERO_PNL;
+  let estimatedEntries = 0;
+
+  const oldestFirst = [...entries].sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+  for (const entry of oldestFirst) {
+    const rate = entry.gbpUsdPrice ?? price;
+    if (!entry.gbpUsdPrice) estimatedEntries++;
+    const amount = entry.gbpbAmount ?? gbpb(0n);
+
+    switch (entry.kind) {
+      case 'mint': {
+        const paid = entry.usdcAmount;
+        deposit(wallet, amount, {
+          units: amount,
+          usd: paid,
+          gbp: usdcToGbpb(paid, rate),
+          usdAtEntry: gbpbToUsdc(amount, rate),
+        });
+        break;
+      }
+      case 'redeem': {
+        const { taken, shortfall } = withdraw(wallet, amount);
+        const cost = addBasis(taken, marketBasis(gbpb(shortfall), rate));
+        const proceeds = entry.usdcAmount;
+        const atRate = gbpbToUsdc(amount, rate);
+        realised = addPnl(
+          realised,
+          pnl(
+            gbpb(0n),
+            usdc(0n),
+            usdc(atRate - cost.usdAtEntry),
+            gbpb(cost.gbp - usdcToGbpb(proceeds, rate)),
+            usdc(cost.usd - cost.usdAtEntry + atRate - proceeds)
+          )
+        );
+        break;
+      }
+      case 'stake': {
+        const { taken, shortfall } = withdraw(wallet, amount);
+        deposit(staked, entry.shares, addBasis(taken, marketBasis(gbpb(shortfall), rate)));
+        break;
+      }
+      case 'unstake': {
+        // unstake() overwrites cooldowns[user], so anything still waiting there is gone
+        if (cooldown.held > 0n) {
+          const lost = cooldown.basis;
+          realised = addPnl(realised, pnl(gbpb(0n), usdc(0n), usdc(0n), lost.gbp, lost.usd));
+          cooldown.held = 0n;
+          cooldown.basis = ZERO_BASIS;
+        }
+
+        const shares = entry.shares ?? sGbpbShares(0n);
+        const { taken, shortfall } = withdraw(staked, shares);
+        const untraced = shares > 0n ? mulDiv(amount, shortfall, shares) : amount;
+        const principal = addBasis(taken, marketBasis(gbpb(untraced), rate));
+        // The share price gain is fixed once the shares are burned: realise it as income, which
+        // then forms part of the cooldown's basis at the rate of the day
+        const earned = gbpb(amount - principal.units);
+        const earnedUsd = gbpbToUsdc(earned, rate);
+        realised = addPnl(realised, pnl(earned, earnedUsd, usdc(0n), gbpb(0n), usdc(0n)));
+        deposit(cooldown, amount, addBasis(principal, { units: earned, usd: earnedUsd, gbp: earned, usdAtEntry: earnedUsd }));
+        break;
+      }
+      case 'claim': {
+        const { taken, shortfall } = withdraw(cooldown, amount);
+        deposit(wallet, amount, addBasis(taken, marketBasis(gbpb(shortfall), rate)));
+        break;
+      }
+      case 'receive':
+        if (entry.token === 'GBPb') {
+          deposit(wallet, amount, marketBasis(amount, rate));
+        } else {
+          const value = entry.gbpbAmount ?? gbpb(mulDiv(entry.shares, balances.sharePrice, SHARE_UNIT));
+          deposit(staked, entry.shares, marketBasis(value, rate));
+        }
+        break;
+      case 'send':
+        if (entry.token === 'GBPb') {
+          withdraw(wallet, amount);
+        } else {
+          withdraw(staked, entry.shares);
+        }
+        break;
+    }
+  }
+
+  // The chain is the source of truth for what's held. Extra balance the history can't explain
+  // (a scan that didn't reach the deployment block, rounding) is given a basis at today's rate
+  let untracked = 0n;
+  const reconcile = (pool: Pool, actual: bigint, toGbpb: (amount: bigint) => bigint): CostBasis => {
+    if (actual <= pool.held) return scaleBasis(pool.basis, actual, pool.held);
+    const extra = toGbpb(actual - pool.held);
+    untracked += extra;
+    return addBasis(pool.basis, marketBasis(gbpb(extra), price));
+  };
+  const sharesToGbpb = (shares: bigint) => mulDiv(shares, balances.sharePrice, SHARE_UNIT);
+
+  const holdings = (
+    [
+      ['wallet', balances.gbpbBalance, reconcile(wallet, balances.gbpbBalance, (x) => x)],
+      ['staked', balances.stakedValue, reconcile(staked, balances.shares, sharesToGbpb)],
+      ['cooldown', balances.cooldown, reconcile(cooldown, balances.cooldown, (x) => x)],
+    ] as const
+  ).map(([kind, value, basis]): PortfolioHolding => {
+    const yieldGbp = gbpb(value - basis.units);
+    return {
+      kind,
+      value,
+      valueUsd: gbpbToUsdc(value, price),
+      shares: kind === 'staked' ? balances.shares : undefined,
+      basis,
+      unrealised: pnl(
+        yieldGbp,
+        gbpbToUsdc(yieldGbp, price),
+        usdc(gbpbToUsdc(basis.units, price) - basis.usdAtEntry),
+        gbpb(basis.gbp - basis.units),
+        usdc(basis.usd - basis.usdAtEntry)
+      ),
+    };
+  });
+
+  return {
+    holdings,
+    value: gbpb(holdings.reduce((sum, holding) => sum + holding.value, 0n)),
+    valueUsd: usdc(holdings.reduce((sum, holding) => sum + holding.valueUsd, 0n)),
+    basis: holdings.reduce((sum, holding) => addBasis(sum, holding.basis), ZERO_BASIS),
+    unrealised: holdings.reduce((sum, holding) => addPnl(sum, holding.unrealised), ZERO_PNL),
+    realised,
+    gbpUsdPrice: price,
+    untracked: gbpb(untracked),
+    estimatedEntries,
+  };
+}
+
+/** Read the balances `buildPortfolio` values the ledger against, at the latest block */
+export async function readPortfolioBalances(
+  client: PublicClient,
+  addresses: AddressBook,
+  user: Address
+): Promise<PortfolioBalances> {
+  const blockNumber = await client.getBlockNumber();
+  const read = { blockNumber } as const;
+
+  const [gbpbBalance, shares, sharePrice, [, cooldown], gbpUsdPrice] = await Promise.all([
+    client.readContract({ address: addresses.gbpb, abi: erc20Abi, functionName: 'balanceOf', args: [user], ...read }),
+    client.readContract({ address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'balanceOf', args: [user], ...read }),
+    client.readContract({ address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'convertToAssets', args: [SHARE_UNIT], ...read }),
+    client.readContract({ address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'cooldowns', args: [user], ...read }),
+    client.readContract({ address: addresses.oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice', ...read }),
+  ]);
+  const stakedValue =
+    shares > 0n
+      ? await client.readContract({ address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'convertToAssets', args: [shares], ...read })
+      : 0n;
+
+  return {
+    blockNumber,
+    gbpbBalance: gbpb(gbpbBalance),
+    shares: sGbpbShares(shares),
+    stakedValue: gbpb(stakedValue),
+    sharePrice: gbpb(sharePrice),
+    cooldown: gbpb(cooldown),
+    gbpUsdPrice: priceE8(gbpUsdPrice),
+  };
+}
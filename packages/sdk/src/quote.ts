@@ -0,0 +1,185 @@
+import {
+  bps,
+  gbpb,
+  usdc,
+  type Bps,
+  type Gbpb,
+  type PriceE8,
+  type SGbpbShares,
+  type Usdc,
+} from './units';
+
+// Integer mirror of the protocol's conversion and fee maths. Every function here
+// reproduces the Solidity expression it names, including the rounding direction,
+// so previews equal what the contracts settle for the same inputs.
+
+/** GBPbMinter constants (see src/tokens/GBPbMinter.sol) */
+export const MINTER_CONSTANTS = {
+  BPS: 10_000n,
+  LENDING_ALLOCATION_BPS: bps(8_000n),
+  PERP_ALLOCATION_BPS: bps(2_000n),
+  REDEEM_FEE_BPS: bps(20n),
+  MINT_FEE_BPS: bps(0n),
+  /** Perp opening fee charged on notional, 3 bps */
+  OPENING_FEE_BPS: bps(3n),
+  MIN_MINT_AMOUNT: usdc(125_000_000n),
+  /** Strategies may return 1% less than requested before redeem reverts with InsufficientLiquidity */
+  WITHDRAW_TOLERANCE_BPS: bps(9_900n),
+} as const;
+
+const PRICE_PRECISION = 100_000_000n; // NAVCalculator.PRICE_PRECISION
+const SHARE_PRECISION = 10n ** 18n; // NAVCalculator.SHARE_PRECISION
+const USDC_TO_GBPB_SCALE = 10n ** 20n; // 1e12 decimal shift * 1e8 price precision
+
+export type Rounding = 'floor' | 'ceil';
+
+/** OpenZeppelin Math.mulDiv for non-negative operands (bigint has no overflow) */
+export function mulDiv(x: bigint, y: bigint, denominator: bigint, rounding: Rounding = 'floor'): bigint {
+  if (denominator === 0n) {
+    throw new RangeError('mulDiv: division by zero');
+  }
+  const product = x * y;
+  const result = product / denominator;
+  return rounding === 'ceil' && product % denominator !== 0n ? result + 1n : result;
+}
+
+// ============ NAVCalculator ============
+
+/** NAVCalculator.convertUSDtoGBP - keeps the input's decimals */
+export function convertUSDtoGBP(usdAmount: bigint, gbpUsdPrice: PriceE8): bigint {
+  return (usdAmount * PRICE_PRECISION) / gbpUsdPrice;
+}
+
+/** NAVCalculator.convertGBPtoUSD - keeps the input's decimals */
+export function convertGBPtoUSD(gbpValue: bigint, gbpUsdPrice: PriceE8): bigint {
+  return (gbpValue * gbpUsdPrice) / PRICE_PRECISION;
+}
+
+/** NAVCalculator.calculateSharePrice - GBP per share, 1e18 precision */
+export function calculateSharePrice(totalAssetsUSD: bigint, totalShares: bigint, gbpUsdPrice: PriceE8): bigint {
+  if (totalShares === 0n) return SHARE_PRECISION;
+  return (convertUSDtoGBP(totalAssetsUSD, gbpUsdPrice) * SHARE_PRECISION) / totalShares;
+}
+
+// ============ GBPbMinter ============
+
+/** GBPbMinter._convertUSDtoGBPb */
+export function usdcToGbpb(amount: Usdc, gbpUsdPrice: PriceE8): Gbpb {
+  return gbpb(mulDiv(amount, USDC_TO_GBPB_SCALE, gbpUsdPrice, 'floor'));
+}
+
+/** GBPbMinter._convertGBPbtoUSD */
+export function gbpbToUsdc(amount: Gbpb, gbpUsdPrice: PriceE8): Usdc {
+  return usdc(mulDiv(amount, gbpUsdPrice, USDC_TO_GBPB_SCALE, 'floor'));
+}
+
+/** Apply a fee in bps, rounded up in the protocol's favour */
+export function feeOf(amount: Usdc, feeBps: Bps): Usdc {
+  return usdc(mulDiv(amount, feeBps, MINTER_CONSTANTS.BPS, 'ceil'));
+}
+
+export interface MintQuote {
+  usdcAmount: Usdc;
+  /** Perp notional opened for this deposit (USDC) */
+  notionalSize: Usdc;
+  /** Perp opening fee paid by the minter (USDC, rounded up) */
+  openingFee: Usdc;
+  /** Deposit minus opening fee - the USDC actually backing the new GBPb */
+  backingAmount: Usdc;
+  lendingAmount: Usdc;
+  perpAmount: Usdc;
+  gbpAmount: Gbpb;
+  /** False when mint() would revert with UnreasonableConversion (GBPb outside 0.70-0.90x of USDC) */
+  isReasonable: boolean;
+}
+
+/** Mirror of GBPbMinter.mint() amount maths */
+export function quoteMint(usdcAmount: Usdc, gbpUsdPrice: PriceE8, targetLeverage: bigint): MintQuote {
+  const { BPS, PERP_ALLOCATION_BPS, LENDING_ALLOCATION_BPS, OPENING_FEE_BPS } = MINTER_CONSTANTS;
+
+  const notionalSize = usdc(((usdcAmount * PERP_ALLOCATION_BPS) / BPS) * targetLeverage);
+  const openingFee = usdc(mulDiv(notionalSize, OPENING_FEE_BPS, BPS, 'ceil'));
+  const backingAmount = usdc(usdcAmount - openingFee);
+  const lendingAmount = usdc((backingAmount * LENDING_ALLOCATION_BPS) / BPS);
+  const perpAmount = usdc(backingAmount - lendingAmount);
+  const gbpAmount = usdcToGbpb(backingAmount, gbpUsdPrice);
+
+  const expectedMin = (usdcAmount * 70n * 10n ** 16n) / 1_000_000n;
+  const expectedMax = (usdcAmount * 90n * 10n ** 16n) / 1_000_000n;
+
+  return {
+    usdcAmount,
+    notionalSize,
+    openingFee,
+    backingAmount,
+    lendingAmount,
+    perpAmount,
+    gbpAmount,
+    isReasonable: gbpAmount >= expectedMin && gbpAmount <= expectedMax,
+  };
+}
+
+export interface RedeemQuote {
+  gbpAmount: Gbpb;
+  /** GBPb converted at the oracle price, before fee */
+  usdcGross: Usdc;
+  lendingAmount: Usdc;
+  perpAmount: Usdc;
+  /** Redemption fee (rounded up) */
+  fee: Usdc;
+  /** USDC sent to the user */
+  usdcAmount: Usdc;
+}
+
+/**
+ * Mirror of GBPbMinter.redeem() amount maths, assuming both strategies return exactly
+ * what is requested (they may return up to 1% less, see WITHDRAW_TOLERANCE_BPS).
+ */
+export function quoteRedeem(
+  gbpAmount: Gbpb,
+  gbpUsdPrice: PriceE8,
+  redeemFeeBps: Bps = MINTER_CONSTANTS.REDEEM_FEE_BPS
+): RedeemQuote {
+  const { BPS, LENDING_ALLOCATION_BPS, PERP_ALLOCATION_BPS } = MINTER_CONSTANTS;
+
+  const usdcGross = gbpbToUsdc(gbpAmount, gbpUsdPrice);
+  const lendingAmount = usdc((usdcGross * LENDING_ALLOCATION_BPS) / BPS);
+  const perpAmount = usdc((usdcGross * PERP_ALLOCATION_BPS) / BPS);
+  const totalWithdrawn = usdc(lendingAmount + perpAmount);
+  const fee = feeOf(totalWithdrawn, redeemFeeBps);
+
+  return {
+    gbpAmount,
+    usdcGross,
+    lendingAmount,
+    perpAmount,
+    fee,
+    usdcAmount: usdc(totalWithdrawn - fee),
+  };
+}
+
+// ============ sGBPb ============
+
+/** sGBPb._getPricePerShare - GBPb per share, 1e18 precision */
+export function sGbpbPricePerShare(totalAssets: Gbpb, totalSupply: SGbpbShares): bigint {
+  if (totalSupply === 0n) return SHARE_PRECISION;
+  return (totalAssets * SHARE_PRECISION) / totalSupply;
+}
+
+/** `part / whole` in bps, floored; 0 when `whole` is 0 */
+export function ratioBps(part: bigint, whole: bigint): Bps {
+  return bps(whole === 0n ? 0n : (part * MINTER_CONSTANTS.BPS) / whole);
+}
+
+// ============ Slippage ============
+// Not protocol maths: the floor the UI passes as a call's minimum output.
+
+/** Tolerance used until the user picks one, 1% */
+export const DEFAULT_SLIPPAGE_BPS = bps(100n);
+/** Past this a minimum output no longer protects anything worth protecting, 5% */
+export const MAX_SLIPPAGE_BPS = bps(500n);
+
+/** Least of `amount` a call may settle for within `slippageBps`, floored */
+export function minimumOut<T extends bigint>(amount: T, slippageBps: Bps): T {
+  return mulDiv(amount, MINTER_CONSTANTS.BPS - slippageBps, MINTER_CONSTANTS.BPS) as T;
+}
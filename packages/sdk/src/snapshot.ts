@@ -0,0 +1,97 @@
+import type { PublicClient } from 'viem';
+import { chainlinkOracleAbi, erc20Abi, gbpbMinterAbi, morphoStrategyAdapterAbi, perpPositionManagerAbi, sGbpbAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { readAllAt, type Call } from './multicall';
+import {
+  bps,
+  gbpb,
+  priceE8,
+  sGbpbShares,
+  usdc,
+  type Bps,
+  type Gbpb,
+  type PriceE8,
+  type SGbpbShares,
+  type Usdc,
+} from './units';
+
+/** Every protocol-level value the apps display, all read at the same block */
+export interface ProtocolSnapshot {
+  blockNumber: bigint;
+  /** Block timestamp, unix seconds */
+  timestamp: number;
+
+  // GBPbMinter
+  totalAssets: Usdc;
+  tvlCap: Usdc;
+  reserveBalance: Usdc;
+  minReserveBalance: Usdc;
+  paused: boolean;
+  targetLeverage: bigint;
+  userOperationCooldown: bigint;
+
+  // Tokens
+  gbpbSupply: Gbpb;
+  sGbpbTotalAssets: Gbpb;
+  sGbpbSupply: SGbpbShares;
+
+  // Strategies
+  morphoBalance: Usdc;
+  /** Operator-set Morpho APY */
+  morphoAPYBps: Bps;
+  perpCollateral: Usdc;
+
+  /** Undefined when the oracle reverts (stale or invalid feed) */
+  gbpUsdPrice: PriceE8 | undefined;
+}
+
+/**
+ * Read a block-consistent snapshot of the protocol. Reads at `blockNumber`, or the latest block.
+ * Throws if any read other than the oracle price fails.
+ */
+export async function readProtocolSnapshot(
+  client: PublicClient,
+  addresses: AddressBook,
+  blockNumber?: bigint
+): Promise<ProtocolSnapshot> {
+  const minter = (functionName: string): Call => ({ address: addresses.minter, abi: gbpbMinterAbi, functionName });
+  const calls: Call[] = [
+    minter('totalAssets'),
+    minter('tvlCap'),
+    minter('reserveBalance'),
+    minter('minReserveBalance'),
+    minter('paused'),
+    minter('targetLeverage'),
+    minter('userOperationCooldown'),
+    { address: addresses.gbpb, abi: erc20Abi, functionName: 'totalSupply' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'totalAssets' },
+    { address: addresses.sGBPb, abi: sGbpbAbi, functionName: 'totalSupply' },
+    { address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'totalAssets' },
+    { address: addresses.morphoStrategy, abi: morphoStrategyAdapterAbi, functionName: 'currentAPY' },
+    { address: addresses.perpManager, abi: perpPositionManagerAbi, functionName: 'currentCollateral' },
+    { address: addresses.oracle, abi: chainlinkOracleAbi, functionName: 'getGBPUSDPrice' },
+  ];
+
+  const { block, take, value } = await readAllAt(client, calls, blockNumber);
+
+  const price = value<bigint>(13) ?? 0n;
+
+  return {
+    blockNumber: block.number,
+    timestamp: Number(block.timestamp),
+    totalAssets: usdc(take(0)),
+    tvlCap: usdc(take(1)),
+    reserveBalance: usdc(take(2)),
+    minReserveBalance: usdc(take(3)),
+    paused: take<boolean>(4),
+    targetLeverage: take<bigint>(5),
+    userOperationCooldown: take<bigint>(6),
+    gbpbSupply: gbpb(take(7)),
+    sGbpbTotalAssets: gbpb(take(8)),
+    sGbpbSupply: sGbpbShares(take(9)),
+    morphoBalance: usdc(take(10)),
+    morphoAPYBps: bps(take(11)),
+    perpCollateral: usdc(take(12)),
+    gbpUsdPrice: price > 0n ? priceE8(price) : undefined,
+  };
+}
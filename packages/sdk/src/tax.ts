@@ -0,0 +1,312 @@
+import type { Address, Hash } from 'viem';
+import type { ActivityEntry, ActivityKind } from './activity';
+import { mulDiv, usdcToGbpb } from './quote';
+import { gbpb, usdc, type Gbpb, type PriceE8, type Usdc } from './units';
+
+// Sterling amounts below are 18-decimal bigints typed as Gbpb: GBPb is redeemable at £1, so its
+// quantity is its sterling value, and USDC legs are converted at the oracle rate of their block
+
+export type TaxAsset = 'GBPb' | 'sGBPb';
+
+/** HMRC share-matching rules, applied in this order (TCGA 1992 s105, s106A, s104) */
+export type MatchingRule = 'same-day' | 'bed-and-breakfast' | 'section-104';
+
+export interface TaxMatch {
+  rule: MatchingRule;
+  quantity: bigint;
+  /** Allowable cost of the acquisitions matched, sterling */
+  cost: Gbpb;
+  /** Bed and breakfast only: the UK date of the acquisition matched */
+  acquiredOn?: string;
+}
+
+/** One acquisition or disposal of GBPb or sGBPb. A stake or unstake is a disposal of one and an acquisition of the other */
+export interface TaxRow {
+  /** `${entry id}:${asset}` */
+  id: string;
+  /** UK calendar date, yyyy-mm-dd */
+  date: string;
+  /** Unix seconds */
+  timestamp: number;
+  /** "2026/27" */
+  taxYear: string;
+  kind: ActivityKind;
+  transactionHash: Hash;
+  blockNumber: bigint;
+  asset: TaxAsset;
+  type: 'acquisition' | 'disposal';
+  /** Token amount, 18 decimals */
+  quantity: bigint;
+  /** Sterling consideration before fees: paid for acquisitions, received for disposals */
+  value: Gbpb;
+  /** Incidental costs (mint opening fee, redeem fee), sterling */
+  fee: Gbpb;
+  feeUsd?: Usdc;
+  /** Oracle GBP/USD at the block; undefined when it couldn't be read and USDC legs have no sterling value */
+  gbpUsdPrice?: PriceE8;
+  gbpUsdPriceUpdatedAt?: number;
+  counterparty?: Address;
+
+  /** Disposals only */
+  matches?: TaxMatch[];
+  cost?: Gbpb;
+  /** `value - fee - cost` */
+  gain?: Gbpb;
+  /** Quantity no acquisition could be found for (history before the scan, untraced transfers), costed at zero */
+  unmatched?: bigint;
+}
+
+export interface TaxYearSummary {
+  /** "2026/27" */
+  taxYear: string;
+  /** 6 April */
+  start: string;
+  /** 5 April the following year */
+  end: string;
+  rows: TaxRow[];
+  disposals: number;
+  proceeds: Gbpb;
+  /** Matched cost plus fees on disposals */
+  allowableCosts: Gbpb;
+  gains: Gbpb;
+  losses: Gbpb;
+  net: Gbpb;
+}
+
+export interface TaxReport {
+  years: TaxYearSummary[];
+  /** Entries with USDC legs but no oracle rate; their rows carry zero sterling value */
+  unpricedEntries: number;
+}
+
+const londonDate = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/London',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/** UK calendar day of a unix timestamp, yyyy-mm-dd */
+export function ukDate(timestamp: number): string {
+  return londonDate.format(new Date(timestamp * 1000));
+}
+
+/** UK tax year (6 April - 5 April) a yyyy-mm-dd date falls in, as "2026/27" */
+export function ukTaxYear(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const startYear = month > 4 || (month === 4 && day >= 6) ? year : year - 1;
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+const DAY_MS = 86_400_000;
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/** The sterling legs of one activity entry */
+function rowsForEntry(entry: ActivityEntry): TaxRow[] {
+  const date = ukDate(entry.timestamp);
+  const base = {
+    date,
+    timestamp: entry.timestamp,
+    taxYear: ukTaxYear(date),
+    kind: entry.kind,
+    transactionHash: entry.transactionHash,
+    blockNumber: entry.blockNumber,
+    fee: gbpb(0n),
+    gbpUsdPrice: entry.gbpUsdPrice,
+    gbpUsdPriceUpdatedAt: entry.gbpUsdPriceUpdatedAt,
+  };
+  const toSterling = (amount: Usdc) => (entry.gbpUsdPrice ? usdcToGbpb(amount, entry.gbpUsdPrice) : gbpb(0n));
+  const amount = entry.gbpbAmount ?? gbpb(0n);
+  const row = (asset: TaxAsset, type: TaxRow['type'], quantity: bigint, value: Gbpb, extra: Partial<TaxRow> = {}): TaxRow => ({
+    ...base,
+    id: `${entry.id}:${asset}`,
+    asset,
+    type,
+    quantity,
+    value,
+    ...extra,
+  });
+
+  switch (entry.kind) {
+    case 'mint': {
+      // Minted.usdcAmount is what left the wallet; the opening fee came out of it
+      const fee = entry.fee ?? usdc(0n);
+      return [
+        row('GBPb', 'acquisition', amount, toSterling(usdc(entry.usdcAmount - fee)), {
+          fee: toSterling(fee),
+          feeUsd: entry.fee,
+        }),
+      ];
+    }
+    case 'redeem': {
+      // Redeemed.usdcAmount is net of the redeem fee; the disposal is for the gross amount
+      const fee = entry.fee ?? usdc(0n);
+      return [
+        row('GBPb', 'disposal', amount, toSterling(usdc(entry.usdcAmount + fee)), {
+          fee: toSterling(fee),
+          feeUsd: entry.fee,
+        }),
+      ];
+    }
+    case 'stake':
+      return [row('GBPb', 'disposal', amount, amount), row('sGBPb', 'acquisition', entry.shares, amount)];
+    case 'unstake':
+      // The GBPb is fixed when the shares burn; claiming it later moves nothing new
+      return [row('sGBPb', 'disposal', entry.shares ?? 0n, amount), row('GBPb', 'acquisition', amount, amount)];
+    case 'claim':
+      return [];
+    case 'send':
+    case 'receive': {
+      const quantity = entry.token === 'GBPb' ? amount : entry.shares;
+      return [
+        row(entry.token, entry.kind === 'send' ? 'disposal' : 'acquisition', quantity, amount, {
+          counterparty: entry.counterparty,
+        }),
+      ];
+    }
+  }
+}
+
+interface Day {
+  date: string;
+  acquisitions: TaxRow[];
+  disposals: TaxRow[];
+  acquired: bigint;
+  acquiredCost: bigint;
+  disposed: bigint;
+  matches: TaxMatch[];
+  unmatched: bigint;
+}
+
+/** Split `part / whole` of each day-level match onto one disposal row */
+function allocate(day: Day, row: TaxRow) {
+  const share = (value: bigint) => mulDiv(value, row.quantity, day.disposed);
+  row.matches = day.matches.map((match) => ({ ...match, quantity: share(match.quantity), cost: gbpb(share(match.cost)) }));
+  row.cost = gbpb(row.matches.reduce((sum, match) => sum + match.cost, 0n));
+  row.gain = gbpb(row.value - row.fee - row.cost);
+  if (day.unmatched > 0n) row.unmatched = share(day.unmatched);
+}
+
+/** Match one asset's disposals to its acquisitions, day by day as HMRC treats same-day transactions as one */
+function matchAsset(rows: TaxRow[]) {
+  const days = new Map<string, Day>();
+  for (const row of rows) {
+    const day = days.get(row.date) ?? {
+      date: row.date,
+      acquisitions: [],
+      disposals: [],
+      acquired: 0n,
+      acquiredCost: 0n,
+      disposed: 0n,
+      matches: [],
+      unmatched: 0n,
+    };
+    if (row.type === 'acquisition') {
+      day.acquisitions.push(row);
+      day.acquired += row.quantity;
+      day.acquiredCost += row.value + row.fee;
+    } else {
+      day.disposals.push(row);
+      day.disposed += row.quantity;
+    }
+    days.set(row.date, day);
+  }
+  const ordered = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+  // What each day still has to match once earlier rules have taken their share
+  const acquiredLeft = new Map(ordered.map((day) => [day, day.acquired]));
+  const costLeft = new Map(ordered.map((day) => [day, day.acquiredCost]));
+  const disposedLeft = new Map(ordered.map((day) => [day, day.disposed]));
+  const take = (day: Day, quantity: bigint) => {
+    const cost = mulDiv(costLeft.get(day)!, quantity, acquiredLeft.get(day)!);
+    acquiredLeft.set(day, acquiredLeft.get(day)! - quantity);
+    costLeft.set(day, costLeft.get(day)! - cost);
+    return gbpb(cost);
+  };
+  const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+  // 1. Same day
+  for (const day of ordered) {
+    const quantity = min(day.acquired, day.disposed);
+    if (quantity === 0n) continue;
+    day.matches.push({ rule: 'same-day', quantity, cost: take(day, quantity) });
+    disposedLeft.set(day, day.disposed - quantity);
+  }
+
+  // 2. Acquisitions in the 30 days after the disposal, earliest first
+  for (const [i, day] of ordered.entries()) {
+    for (const later of ordered.slice(i + 1)) {
+      if (disposedLeft.get(day)! === 0n || daysBetween(day.date, later.date) > 30) break;
+      const quantity = min(disposedLeft.get(day)!, acquiredLeft.get(later)!);
+      if (quantity === 0n) continue;
+      day.matches.push({ rule: 'bed-and-breakfast', quantity, cost: take(later, quantity), acquiredOn: later.date });
+      disposedLeft.set(day, disposedLeft.get(day)! - quantity);
+    }
+  }
+
+  // 3. Section 104 pool at average cost
+  const pool = { quantity: 0n, cost: 0n };
+  for (const day of ordered) {
+    pool.quantity += acquiredLeft.get(day)!;
+    pool.cost += costLeft.get(day)!;
+
+    const left = disposedLeft.get(day)!;
+    if (left === 0n) continue;
+    const quantity = min(left, pool.quantity);
+    if (quantity > 0n) {
+      const cost = mulDiv(pool.cost, quantity, pool.quantity);
+      pool.quantity -= quantity;
+      pool.cost -= cost;
+      day.matches.push({ rule: 'section-104', quantity, cost: gbpb(cost) });
+    }
+    day.unmatched = left - quantity;
+  }
+
+  for (const day of ordered) {
+    for (const row of day.disposals) allocate(day, row);
+  }
+}
+
+/**
+ * Build a UK capital gains ledger from a wallet's activity: every GBPb and sGBPb acquisition and
+ * disposal in sterling, disposals matched under the same-day, 30-day and section 104 rules, grouped
+ * by tax year. USDC itself is not pooled - a mint's USDC disposal is left to the user's other records.
+ */
+export function buildTaxReport(entries: ActivityEntry[]): TaxReport {
+  const oldestFirst = [...entries].sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+  const rows = oldestFirst.flatMap(rowsForEntry);
+  const unpricedEntries = oldestFirst.filter(
+    (entry) => (entry.kind === 'mint' || entry.kind === 'redeem') && !entry.gbpUsdPrice
+  ).length;
+
+  for (const asset of ['GBPb', 'sGBPb'] as const) {
+    matchAsset(rows.filter((row) => row.asset === asset));
+  }
+
+  const byYear = new Map<string, TaxRow[]>();
+  for (const row of rows) byYear.set(row.taxYear, [...(byYear.get(row.taxYear) ?? []), row]);
+
+  const years = [...byYear.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([taxYear, yearRows]): TaxYearSummary => {
+      const disposals = yearRows.filter((row) => row.type === 'disposal');
+      const sum = (values: bigint[]) => gbpb(values.reduce((total, value) => total + value, 0n));
+      const gains = sum(disposals.map((row) => (row.gain! > 0n ? row.gain! : 0n)));
+      const losses = sum(disposals.map((row) => (row.gain! < 0n ? -row.gain! : 0n)));
+      const startYear = Number(taxYear.slice(0, 4));
+      return {
+        taxYear,
+        start: `${startYear}-04-06`,
+        end: `${startYear + 1}-04-05`,
+        rows: yearRows,
+        disposals: disposals.length,
+        proceeds: sum(disposals.map((row) => row.value)),
+        allowableCosts: sum(disposals.map((row) => row.cost! + row.fee)),
+        gains,
+        losses,
+        net: gbpb(gains - losses),
+      };
+    });
+
+  return { years, unpricedEntries };
+}
@@ -0,0 +1,52 @@
+import { parseUnits } from 'viem';
+
+declare const unit: unique symbol;
+
+/** bigint tagged with the on-chain unit it is denominated in, so amounts of different scales can't be mixed */
+type Amount<TUnit extends string> = bigint & { readonly [unit]: TUnit };
+
+/** USDC, 6 decimals */
+export type Usdc = Amount<'USDC'>;
+/** GBPb, 18 decimals */
+export type Gbpb = Amount<'GBPb'>;
+/** sGBPb shares, 18 decimals */
+export type SGbpbShares = Amount<'sGBPb'>;
+/** Chainlink GBP/USD answer, 8 decimals (1.27 = 127_000_000) */
+export type PriceE8 = Amount<'PriceE8'>;
+/** Basis points (10_000 = 100%) */
+export type Bps = Amount<'bps'>;
+
+export const USDC_DECIMALS = 6;
+export const GBPB_DECIMALS = 18;
+export const PRICE_DECIMALS = 8;
+
+export const usdc = (value: bigint) => value as Usdc;
+export const gbpb = (value: bigint) => value as Gbpb;
+export const sGbpbShares = (value: bigint) => value as SGbpbShares;
+export const priceE8 = (value: bigint) => value as PriceE8;
+export const bps = (value: bigint) => value as Bps;
+
+/** Parse user input ("125.5") into USDC base units; throws on malformed input */
+export const parseUsdc = (value: string) => usdc(parseUnits(value, USDC_DECIMALS));
+/** Parse user input into GBPb base units; throws on malformed input */
+export const parseGbpb = (value: string) => gbpb(parseUnits(value, GBPB_DECIMALS));
+/** Parse user input into sGBPb share base units; throws on malformed input */
+export const parseSGbpbShares = (value: string) => sGbpbShares(parseUnits(value, GBPB_DECIMALS));
+
+/**
+ * Format a fixed-point amount for display without going through Number.
+ * Truncates (never rounds up) so a preview never shows more than the contract pays.
+ */
+export function formatUnitsFixed(value: bigint, decimals: number, displayDecimals: number = 2): string {
+  const negative = value < 0n;
+  let abs = negative ? -value : value;
+  abs =
+    displayDecimals <= decimals
+      ? abs / 10n ** BigInt(decimals - displayDecimals)
+      : abs * 10n ** BigInt(displayDecimals - decimals);
+
+  const unit = 10n ** BigInt(displayDecimals);
+  const whole = new Intl.NumberFormat('en-US').format(abs / unit);
+  const fraction = displayDecimals > 0 ? `.${(abs % unit).toString().padStart(displayDecimals, '0')}` : '';
+  return `${negative ? '-' : ''}${whole}${fraction}`;
+}
@@ -0,0 +1,456 @@
+// Generated by scripts/generate.mjs - do not edit by hand.
+
+export const artifacts: Record<string, { codeHash: `0x${string}`; immutables: [number, number][] }> = {
+  "GBPbMinter": {
+    "codeHash": "0xab3e5b2d5db05286e30d2fd0414061a7458917b3841e45d470989b41e567a88b",
+    "immutables": [
+      [
+        2147,
+        32
+      ],
+      [
+        2358,
+        32
+      ],
+      [
+        2778,
+        32
+      ],
+      [
+        3021,
+        32
+      ],
+      [
+        6703,
+        32
+      ],
+      [
+        7519,
+        32
+      ],
+      [
+        8768,
+        32
+      ],
+      [
+        10123,
+        32
+      ],
+      [
+        10673,
+        32
+      ],
+      [
+        12586,
+        32
+      ],
+      [
+        15766,
+        32
+      ],
+      [
+        15952,
+        32
+      ],
+      [
+        16666,
+        32
+      ],
+      [
+        16913,
+        32
+      ],
+      [
+        18187,
+        32
+      ],
+      [
+        18778,
+        32
+      ],
+      [
+        20269,
+        32
+      ]
+    ]
+  },
+  "GBPb": {
+    "codeHash": "0x876f2ab88a96d19fcd03ddf02986ab95528d6c7c39e876b837bd210c9a98ffd7",
+    "immutables": []
+  },
+  "sGBPb": {
+    "codeHash": "0x2d313359ea5636a3df375995f0df544ecdc9edc1744fc0c053dc9c2e2138989d",
+    "immutables": [
+      [
+        2581,
+        32
+      ],
+      [
+        2719,
+        32
+      ],
+      [
+        2881,
+        32
+      ],
+      [
+        5496,
+        32
+      ],
+      [
+        6114,
+        32
+      ]
+    ]
+  },
+  "PerpPositionManager": {
+    "codeHash": "0xfb72a13ae16f30fc45cb1bb991b4284445bb1be84679603563e6fd69ebc9078d",
+    "immutables": [
+      [
+        383,
+        32
+      ],
+      [
+        657,
+        32
+      ],
+      [
+        919,
+        32
+      ],
+      [
+        1034,
+        32
+      ],
+      [
+        1263,
+        32
+      ],
+      [
+        2007,
+        32
+      ],
+      [
+        2222,
+        32
+      ],
+      [
+        2755,
+        32
+      ],
+      [
+        3177,
+        32
+      ],
+      [
+        3320,
+        32
+      ],
+      [
+        3548,
+        32
+      ],
+      [
+        4067,
+        32
+      ],
+      [
+        4673,
+        32
+      ],
+      [
+        5150,
+        32
+      ],
+      [
+        5408,
+        32
+      ],
+      [
+        5723,
+        32
+      ],
+      [
+        5789,
+        32
+      ],
+      [
+        6050,
+        32
+      ],
+      [
+        6882,
+        32
+      ],
+      [
+        6958,
+        32
+      ],
+      [
+        7046,
+        32
+      ]
+    ]
+  },
+  "OstiumPerpProvider": {
+    "codeHash": "0x0f5ad44369e5abc3fbff10bd16b453ecf227c536e9cc6a8029baefe8c7f3a20f",
+    "immutables": [
+      [
+        377,
+        32
+      ],
+      [
+        952,
+        32
+      ],
+      [
+        1049,
+        32
+      ],
+      [
+        1180,
+        32
+      ],
+      [
+        1613,
+        32
+      ],
+      [
+        1684,
+        32
+      ],
+      [
+        1818,
+        32
+      ],
+      [
+        2101,
+        32
+      ],
+      [
+        2229,
+        32
+      ],
+      [
+        2470,
+        32
+      ],
+      [
+        2540,
+        32
+      ],
+      [
+        2606,
+        32
+      ],
+      [
+        3168,
+        32
+      ],
+      [
+        3464,
+        32
+      ],
+      [
+        3568,
+        32
+      ],
+      [
+        3629,
+        32
+      ],
+      [
+        3694,
+        32
+      ],
+      [
+        5025,
+        32
+      ],
+      [
+        5093,
+        32
+      ],
+      [
+        5202,
+        32
+      ],
+      [
+        5399,
+        32
+      ],
+      [
+        5969,
+        32
+      ],
+      [
+        6031,
+        32
+      ],
+      [
+        6098,
+        32
+      ],
+      [
+        6542,
+        32
+      ],
+      [
+        6600,
+        32
+      ],
+      [
+        6665,
+        32
+      ]
+    ]
+  },
+  "ChainlinkOracle": {
+    "codeHash": "0x8d7dbb9bb7e958dd7db483c878f29311e73fbd425c7c0d2c18208839cf4e146a",
+    "immutables": [
+      [
+        754,
+        32
+      ],
+      [
+        1287,
+        32
+      ],
+      [
+        2408,
+        32
+      ],
+      [
+        2642,
+        32
+      ],
+      [
+        3217,
+        32
+      ],
+      [
+        3615,
+        32
+      ]
+    ]
+  },
+  "MorphoStrategyAdapter": {
+    "codeHash": "0x141acc50119c58df894b3f19d45504b32cd288a74db2d29740e27b3771d3be99",
+    "immutables": [
+      [
+        249,
+        32
+      ],
+      [
+        674,
+        32
+      ],
+      [
+        841,
+        32
+      ],
+      [
+        1166,
+        32
+      ],
+      [
+        1225,
+        32
+      ],
+      [
+        1291,
+        32
+      ],
+      [
+        2636,
+        32
+      ],
+      [
+        2961,
+        32
+      ],
+      [
+        3029,
+        32
+      ],
+      [
+        3098,
+        32
+      ],
+      [
+        3619,
+        32
+      ],
+      [
+        3727,
+        32
+      ],
+      [
+        4032,
+        32
+      ],
+      [
+        4127,
+        32
+      ],
+      [
+        4382,
+        32
+      ],
+      [
+        4607,
+        32
+      ],
+      [
+        4704,
+        32
+      ]
+    ]
+  },
+  "FeeDistributor": {
+    "codeHash": "0xff05e366d3d0f5e70d8703c285949119dfdc20d76d4dd4ef0351d9d9ed51f1d3",
+    "immutables": [
+      [
+        698,
+        32
+      ],
+      [
+        1254,
+        32
+      ],
+      [
+        1468,
+        32
+      ],
+      [
+        2671,
+        32
+      ],
+      [
+        2877,
+        32
+      ]
+    ]
+  },
+  "ConfigurableFeeDistributor": {
+    "codeHash": "0x610dc71ecaa2abf9a272f733fd250d1517da9e5aa525eb0b16a593c6e2baf62d",
+    "immutables": [
+      [
+        816,
+        32
+      ],
+      [
+        1419,
+        32
+      ],
+      [
+        1800,
+        32
+      ],
+      [
+        2224,
+        32
+      ]
+    ]
+  }
+};
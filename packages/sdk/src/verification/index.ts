@@ -0,0 +1,170 @@
+import { BaseError, isAddressEqual, keccak256, type Abi, type Address, type Hex, type PublicClient } from 'viem';
+import {
+  chainlinkOracleAbi,
+  configurableFeeDistributorAbi,
+  erc20Abi,
+  feeDistributorAbi,
+  gbpbAbi,
+  gbpbMinterAbi,
+  morphoStrategyAdapterAbi,
+  ostiumPerpProviderAbi,
+  perpPositionManagerAbi,
+  sGbpbAbi,
+} from '../abis';
+import type { AddressBook, ContractName } from '../deployments';
+import { artifacts } from './generated';
+
+// Address book entry -> Foundry artifact its runtime code must match.
+// USDC is external, so it is only checked for code and 6 decimals.
+const ARTIFACT_FOR: Record<ContractName, string | undefined> = {
+  minter: 'GBPbMinter',
+  gbpb: 'GBPb',
+  sGBPb: 'sGBPb',
+  usdc: undefined,
+  oracle: 'ChainlinkOracle',
+  morphoStrategy: 'MorphoStrategyAdapter',
+  perpManager: 'PerpPositionManager',
+  ostiumProvider: 'OstiumPerpProvider',
+  feeDistributor: 'FeeDistributor',
+  configurableFeeDistributor: 'ConfigurableFeeDistributor',
+};
+
+const ABI_FOR: Record<ContractName, Abi> = {
+  minter: gbpbMinterAbi,
+  gbpb: gbpbAbi,
+  sGBPb: sGbpbAbi,
+  usdc: erc20Abi,
+  oracle: chainlinkOracleAbi,
+  morphoStrategy: morphoStrategyAdapterAbi,
+  perpManager: perpPositionManagerAbi,
+  ostiumProvider: ostiumPerpProviderAbi,
+  feeDistributor: feeDistributorAbi,
+  configurableFeeDistributor: configurableFeeDistributorAbi,
+};
+
+interface Wire {
+  contract: ContractName;
+  getter: string;
+  expected: ContractName;
+}
+
+/** Address pointers each contract must hold for the protocol to work as deployed */
+const WIRING: Wire[] = [
+  { contract: 'gbpb', getter: 'minter', expected: 'minter' },
+  { contract: 'sGBPb', getter: 'minter', expected: 'minter' },
+  { contract: 'sGBPb', getter: 'asset', expected: 'gbpb' },
+  { contract: 'minter', getter: 'gbpbToken', expected: 'gbpb' },
+  { contract: 'minter', getter: 'usdc', expected: 'usdc' },
+  { contract: 'minter', getter: 'oracle', expected: 'oracle' },
+  { contract: 'minter', getter: 'sGBPbVault', expected: 'sGBPb' },
+  { contract: 'minter', getter: 'perpManager', expected: 'perpManager' },
+  { contract: 'minter', getter: 'activeStrategy', expected: 'morphoStrategy' },
+  { contract: 'perpManager', getter: 'vault', expected: 'minter' },
+  { contract: 'perpManager', getter: 'perpProvider', expected: 'ostiumProvider' },
+  { contract: 'morphoStrategy', getter: 'vault', expected: 'minter' },
+];
+
+export interface VerificationCheck {
+  /** e.g. "runtime bytecode", "minter() is minter" */
+  label: string;
+  ok: boolean;
+  expected?: string;
+  actual?: string;
+}
+
+export interface ContractReport {
+  name: ContractName;
+  /** Foundry artifact the code was compared against */
+  artifact?: string;
+  address: Address;
+  checks: VerificationCheck[];
+  isValid: boolean;
+}
+
+export interface DeploymentReport {
+  contracts: ContractReport[];
+  isValid: boolean;
+}
+
+/** Zero the immutable ranges (byte offsets) so deployed code hashes like the artifact it came from */
+export function maskImmutables(code: Hex, immutables: readonly [number, number][]): Hex {
+  let masked = code.slice(2);
+  for (const [start, length] of immutables) {
+    masked = masked.slice(0, start * 2) + '0'.repeat(length * 2) + masked.slice((start + length) * 2);
+  }
+  return `0x${masked}`;
+}
+
+function describe(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function checkCode(client: PublicClient, name: ContractName, address: Address): Promise<VerificationCheck[]> {
+  const code = await client.getCode({ address });
+  if (!code || code === '0x') {
+    return [{ label: 'contract code', ok: false, actual: 'no code at address' }];
+  }
+
+  const artifactName = ARTIFACT_FOR[name];
+  if (!artifactName) {
+    const decimals = await client.readContract({ address, abi: erc20Abi, functionName: 'decimals' });
+    return [{ label: 'decimals()', ok: decimals === 6, expected: '6', actual: String(decimals) }];
+  }
+
+  const artifact = artifacts[artifactName];
+  const codeHash = keccak256(maskImmutables(code, artifact.immutables));
+  return [{ label: 'runtime bytecode', ok: codeHash === artifact.codeHash, expected: artifact.codeHash, actual: codeHash }];
+}
+
+async function checkWire(client: PublicClient, addresses: AddressBook, wire: Wire): Promise<VerificationCheck> {
+  const expected = addresses[wire.expected]!;
+  const label = `${wire.getter}() is ${wire.expected}`;
+  try {
+    const actual = (await client.readContract({
+      address: addresses[wire.contract]!,
+      abi: ABI_FOR[wire.contract],
+      functionName: wire.getter,
+    })) as Address;
+    return { label, ok: isAddressEqual(actual, expected), expected, actual };
+  } catch (error) {
+    return { label, ok: false, expected, actual: describe(error) };
+  }
+}
+
+/**
+ * Verify every contract in an address book: runtime bytecode against the Foundry artifacts
+ * in out/ (immutables masked) and the address pointers between contracts.
+ * Never throws; RPC failures are reported as failed checks on the contract they hit.
+ */
+export async function verifyDeployment(client: PublicClient, addresses: AddressBook): Promise<DeploymentReport> {
+  const names = (Object.keys(ARTIFACT_FOR) as ContractName[]).filter((name) => addresses[name]);
+
+  const contracts = await Promise.all(
+    names.map(async (name): Promise<ContractReport> => {
+      const address = addresses[name]!;
+      let checks: VerificationCheck[];
+      try {
+        checks = await checkCode(client, name, address);
+      } catch (error) {
+        checks = [{ label: 'contract code', ok: false, actual: describe(error) }];
+      }
+
+      // Wiring is still worth reading when only the bytecode hash differs, but not without code
+      if (checks[0].label !== 'contract code') {
+        const wires = WIRING.filter((wire) => wire.contract === name && addresses[wire.expected]);
+        checks.push(...(await Promise.all(wires.map((wire) => checkWire(client, addresses, wire)))));
+      }
+
+      return {
+        name,
+        artifact: ARTIFACT_FOR[name],
+        address,
+        checks,
+        isValid: checks.every((check) => check.ok),
+      };
+    })
+  );
+
+  return { contracts, isValid: contracts.every((contract) => contract.isValid) };
+}
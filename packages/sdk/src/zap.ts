@@ -0,0 +1,124 @@
+import { encodeFunctionData, parseEventLogs, type Address, type Hex, type Log } from 'viem';
+import { erc20Abi, gbpbMinterAbi, sGbpbAbi } from './abis';
+import type { AddressBook } from './deployments';
+import { gbpb, type Gbpb, type Usdc } from './units';
+
+// A zap is the same calls the mint and staking pages send one by one, in the order they must land.
+// Wallets with EIP-5792 atomic batching take the list in one wallet_sendCalls; others get it step by step.
+
+export type ZapInStep = 'approveUsdc' | 'mint' | 'approveGbpb' | 'deposit';
+export type ZapOutStep = 'cooldownWithdraw' | 'approveGbpbForRedeem' | 'redeem';
+
+/** USDC -> sGBPb, in execution order */
+export const ZAP_IN_STEPS: readonly ZapInStep[] = ['approveUsdc', 'mint', 'approveGbpb', 'deposit'];
+/** Claimed cooldown -> USDC, in execution order */
+export const ZAP_OUT_STEPS: readonly ZapOutStep[] = ['cooldownWithdraw', 'approveGbpbForRedeem', 'redeem'];
+
+/** One call of a zap, in the `{ to, data }` shape `wallet_sendCalls` and `sendTransaction` take */
+export interface ZapCall<Step extends string = string> {
+  step: Step;
+  to: Address;
+  data: Hex;
+}
+
+export interface ZapInAmounts {
+  usdcAmount: Usdc;
+  /** Slippage floor passed to mint() */
+  minGbpAmount: Gbpb;
+  /** GBPb approved and deposited; the exact minted amount when known, otherwise `minGbpAmount` */
+  gbpbAmount: Gbpb;
+  receiver: Address;
+}
+
+/** Encode a single zap-in step */
+export function zapInCall(
+  addresses: AddressBook,
+  step: ZapInStep,
+  { usdcAmount, minGbpAmount, gbpbAmount, receiver }: ZapInAmounts
+): ZapCall<ZapInStep> {
+  switch (step) {
+    case 'approveUsdc':
+      return {
+        step,
+        to: addresses.usdc,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [addresses.minter, usdcAmount] }),
+      };
+    case 'mint':
+      return {
+        step,
+        to: addresses.minter,
+        data: encodeFunctionData({ abi: gbpbMinterAbi, functionName: 'mint', args: [usdcAmount, minGbpAmount] }),
+      };
+    case 'approveGbpb':
+      return {
+        step,
+        to: addresses.gbpb,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [addresses.sGBPb, gbpbAmount] }),
+      };
+    case 'deposit':
+      return {
+        step,
+        to: addresses.sGBPb,
+        data: encodeFunctionData({ abi: sGbpbAbi, functionName: 'deposit', args: [gbpbAmount, receiver] }),
+      };
+  }
+}
+
+/**
+ * The full zap-in as one batch. A batch is signed before mint() runs, so it can only stake the
+ * guaranteed `minGbpAmount`; anything minted above the floor stays in the wallet as GBPb.
+ * Approvals already covered by `allowances` are left out.
+ */
+export function zapInCalls(
+  addresses: AddressBook,
+  amounts: Omit<ZapInAmounts, 'gbpbAmount'>,
+  allowances: { usdc?: bigint; gbpb?: bigint } = {}
+): ZapCall<ZapInStep>[] {
+  const full = { ...amounts, gbpbAmount: amounts.minGbpAmount };
+  return ZAP_IN_STEPS.filter(
+    (step) =>
+      !(step === 'approveUsdc' && (allowances.usdc ?? 0n) >= amounts.usdcAmount) &&
+      !(step === 'approveGbpb' && (allowances.gbpb ?? 0n) >= amounts.minGbpAmount)
+  ).map((step) => zapInCall(addresses, step, full));
+}
+
+/**
+ * Encode a single zap-out step; `gbpAmount` is the pending cooldown amount cooldownWithdraw() pays out.
+ * redeem() burns through GBPb.burnFrom, which spends the wallet's allowance to the minter.
+ */
+export function zapOutCall(addresses: AddressBook, step: ZapOutStep, gbpAmount: Gbpb): ZapCall<ZapOutStep> {
+  switch (step) {
+    case 'cooldownWithdraw':
+      return { step, to: addresses.sGBPb, data: encodeFunctionData({ abi: sGbpbAbi, functionName: 'cooldownWithdraw' }) };
+    case 'approveGbpbForRedeem':
+      return {
+        step,
+        to: addresses.gbpb,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [addresses.minter, gbpAmount] }),
+      };
+    case 'redeem':
+      return {
+        step,
+        to: addresses.minter,
+        data: encodeFunctionData({ abi: gbpbMinterAbi, functionName: 'redeem', args: [gbpAmount] }),
+      };
+  }
+}
+
+/**
+ * Claim a finished unstake cooldown and redeem it straight to USDC. The GBPb approval is left out
+ * when `allowances.gbpb` (the wallet's GBPb allowance to the minter) already covers it.
+ */
+export function zapOutCalls(addresses: AddressBook, gbpAmount: Gbpb, allowances: { gbpb?: bigint } = {}): ZapCall<ZapOutStep>[] {
+  return ZAP_OUT_STEPS.filter((step) => !(step === 'approveGbpbForRedeem' && (allowances.gbpb ?? 0n) >= gbpAmount)).map(
+    (step) => zapOutCall(addresses, step, gbpAmount)
+  );
+}
+
+/** GBPb minted to `user` according to the minter's Minted log in a receipt; undefined if there is none */
+export function mintedAmount(logs: Log[], minter: Address, user: Address): Gbpb | undefined {
+  const minted = parseEventLogs({ abi: gbpbMinterAbi, eventName: 'Minted', logs }).find(
+    (log) => log.address.toLowerCase() === minter.toLowerCase() && log.args.user.toLowerCase() === user.toLowerCase()
+  );
+  return minted ? gbpb(minted.args.gbpAmount) : undefined;
+}
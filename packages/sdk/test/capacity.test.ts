@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { instantRedemptionUsdc } from '../src/capacity';
+import { usdc } from '../src/units';
+
+// GBPbMinter: LENDING_ALLOCATION_BPS = 8000, PERP_ALLOCATION_BPS = 2000, and each leg must return 99% of its share
+describe('instantRedemptionUsdc', () => {
+  it('scales the lending leg back up by 80% when Morpho runs out first', () => {
+    // 80 USDC from Morpho covers a 100 USDC redeem; the perp's 30 would cover 150
+    expect(instantRedemptionUsdc(usdc(80_000_000n), usdc(20_000_000n), usdc(30_000_000n))).toEqual({
+      instantUsdc: 100_000_000n,
+      limitedBy: 'lending',
+      perpWithdrawable: 30_000_000n,
+    });
+    // Floored: 80.000001 / 0.8 = 100.00000125
+    expect(instantRedemptionUsdc(usdc(80_000_001n), usdc(20_000_000n), usdc(30_000_000n)).instantUsdc).toBe(100_000_001n);
+  });
+
+  it('scales the perp leg back up by 20% when the hedge runs out first', () => {
+    expect(instantRedemptionUsdc(usdc(800_000_000n), usdc(20_000_000n), usdc(20_000_000n))).toEqual({
+      instantUsdc: 100_000_000n,
+      limitedBy: 'perp',
+      perpWithdrawable: 20_000_000n,
+    });
+  });
+
+  it('counts the hedge as nothing once it is worth under 99% of its collateral', () => {
+    // Exactly 99% of 20 USDC still passes redeem()'s check
+    expect(instantRedemptionUsdc(usdc(800_000_000n), usdc(20_000_000n), usdc(19_800_000n))).toEqual({
+      instantUsdc: 99_000_000n,
+      limitedBy: 'perp',
+      perpWithdrawable: 19_800_000n,
+    });
+    // One unit under and any redeem would revert InsufficientLiquidity
+    expect(instantRedemptionUsdc(usdc(800_000_000n), usdc(20_000_000n), usdc(19_799_999n))).toEqual({
+      instantUsdc: 0n,
+      limitedBy: 'perp',
+      perpWithdrawable: 0n,
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { liquidationPrice, type PerpPosition } from '../src/perp';
+import { bps, priceE8, usdc } from '../src/units';
+
+// PerpPositionManager: LIQUIDATION_WARNING_THRESHOLD_BPS = 3000, MIN_COLLATERAL_RATIO_BPS = 2000
+const PRICE = priceE8(130_000_000n);
+
+/** A 5x long of 100 USDC notional on 20 USDC collateral, marked at 1.30 */
+function position(overrides: Partial<PerpPosition>): PerpPosition {
+  return {
+    blockNumber: 1n,
+    timestamp: 1_750_000_000,
+    notional: usdc(100_000_000n),
+    collateral: usdc(20_000_000n),
+    size: usdc(100_000_000n),
+    pnl: usdc(0n),
+    value: usdc(20_000_000n),
+    healthFactorBps: bps(10_000n),
+    gbpUsdPrice: PRICE,
+    liquidationThresholdBps: bps(3_000n),
+    minCollateralRatioBps: bps(2_000n),
+    ...overrides,
+  };
+}
+
+describe('liquidationPrice', () => {
+  it('is undefined with no position or no oracle price', () => {
+    expect(liquidationPrice(position({ size: usdc(0n), collateral: usdc(0n), value: usdc(0n) }))).toBeUndefined();
+    expect(liquidationPrice(position({ gbpUsdPrice: undefined }))).toBeUndefined();
+  });
+
+  it('finds the price where health reaches the threshold', () => {
+    // Health 30% leaves 6 of the 20 USDC: a 14 USDC loss on 100 notional, so 14% below 1.30
+    expect(liquidationPrice(position({}))).toBe(111_800_000n);
+    // At 20% the loss can reach 16 USDC: 16% below
+    expect(liquidationPrice(position({}), bps(2_000n))).toBe(109_200_000n);
+  });
+
+  it('measures from the open price when the position is in profit', () => {
+    // +5 USDC on 100 notional at 1.30 means it opened at 1.30 / 1.05; the threshold is 14% below that
+    expect(liquidationPrice(position({ pnl: usdc(5_000_000n), value: usdc(25_000_000n) }))).toBe(106_476_190n);
+  });
+
+  it('gives a price above the current one once health is already under the threshold', () => {
+    // -25 USDC: underwater on 20 collateral, and the 30% line was at -14, which needs a price 11/75 higher
+    const price = liquidationPrice(position({ pnl: usdc(-25_000_000n), value: usdc(0n), healthFactorBps: bps(0n) }));
+    expect(price).toBe(149_066_666n);
+    expect(price).toBeGreaterThan(PRICE);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityEntry } from '../src/activity';
+import { buildPortfolio, type PortfolioBalances } from '../src/portfolio';
+import { gbpb, priceE8, sGbpbShares, usdc } from '../src/units';
+
+/** What a test writes for each entry, per kind; the rest is filled in */
+type EntryFields<Entry extends ActivityEntry = ActivityEntry> = Entry extends ActivityEntry
+  ? Omit<Entry, 'id' | 'transactionHash' | 'blockNumber' | 'logIndex' | 'timestamp'>
+  : never;
+
+const PRICE = priceE8(130_000_000n);
+const E18 = 10n ** 18n;
+
+let block = 0n;
+/** Entries one block apart at 1.30, in the order they're written */
+function entry(fields: EntryFields): ActivityEntry {
+  block += 1n;
+  return {
+    id: `0x${block.toString(16).padStart(64, '0')}:0`,
+    transactionHash: `0x${block.toString(16).padStart(64, '0')}`,
+    blockNumber: block,
+    logIndex: 0,
+    timestamp: 1_750_000_000 + Number(block) * 3_600,
+    gbpUsdPrice: PRICE,
+    ...fields,
+  };
+}
+
+function balances(overrides: Partial<PortfolioBalances>): PortfolioBalances {
+  return {
+    blockNumber: 100n,
+    gbpbBalance: gbpb(0n),
+    shares: sGbpbShares(0n),
+    stakedValue: gbpb(0n),
+    sharePrice: gbpb(E18),
+    cooldown: gbpb(0n),
+    gbpUsdPrice: PRICE,
+    ...overrides,
+  };
+}
+
+// 100 USDC minted at 1.30 with 5x leverage: 30_000 opening fee, 76.9 GBPb (see quote.test.ts)
+const mint = () =>
+  entry({ kind: 'mint', usdcAmount: usdc(100_000_000n), gbpbAmount: gbpb(76_900_000_000_000_000_000n), fee: usdc(30_000n) });
+
+describe('buildPortfolio', () => {
+  it('realises the pending cooldown as a loss when a second unstake overwrites it', () => {
+    const entries = [
+      mint(),
+      entry({ kind: 'stake', gbpbAmount: gbpb(76_900_000_000_000_000_000n), shares: sGbpbShares(76_900_000_000_000_000_000n) }),
+      // Half the shares out at a share price that has risen: 38.45 shares -> 40 GBPb
+      entry({ kind: 'unstake', gbpbAmount: gbpb(40n * E18), shares: sGbpbShares(38_450_000_000_000_000_000n) }),
+      // The rest out before claiming: the first 40 GBPb is forfeited
+      entry({ kind: 'unstake', gbpbAmount: gbpb(40n * E18), shares: sGbpbShares(38_450_000_000_000_000_000n) }),
+    ];
+
+    const portfolio = buildPortfolio(entries, balances({ cooldown: gbpb(40n * E18) }));
+
+    // Each unstake locks in 1.55 GBPb of yield, 2.015 USDC at 1.30
+    expect(portfolio.realised.yieldGbp).toBe(3_100_000_000_000_000_000n);
+    expect(portfolio.realised.yieldUsd).toBe(4_030_000n);
+    expect(portfolio.realised.fxUsd).toBe(0n);
+    // The forfeited cooldown's whole basis: half the mint (50 USDC, 100 / 1.30 / 2 in GBP) plus the first yield
+    expect(portfolio.realised.costsUsd).toBe(52_015_000n);
+    expect(portfolio.realised.costsGbp).toBe(38_461_538_461_538_461_538n + 1_550_000_000_000_000_000n);
+    expect(portfolio.realised.totalUsd).toBe(4_030_000n - 52_015_000n);
+
+    const [wallet, staked, cooldown] = portfolio.holdings;
+    expect(wallet.basis.units).toBe(0n);
+    expect(staked.basis.units).toBe(0n);
+    expect(cooldown.value).toBe(40n * E18);
+    expect(cooldown.basis).toEqual({
+      units: 40n * E18,
+      usd: 52_015_000n,
+      gbp: 40_011_538_461_538_461_538n,
+      usdAtEntry: 52_000_000n,
+    });
+    // Nothing has moved since the unstake, so all that's left unrealised is the other half of the opening fee
+    expect(cooldown.unrealised.yieldGbp).toBe(0n);
+    expect(cooldown.unrealised.fxUsd).toBe(0n);
+    expect(cooldown.unrealised.costsUsd).toBe(15_000n);
+    expect(portfolio.untracked).toBe(0n);
+    expect(portfolio.estimatedEntries).toBe(0);
+  });
+
+  it('claims a cooldown into the wallet at its basis and redeems it at average cost', () => {
+    const entries = [
+      mint(),
+      entry({ kind: 'stake', gbpbAmount: gbpb(76_900_000_000_000_000_000n), shares: sGbpbShares(76_900_000_000_000_000_000n) }),
+      entry({ kind: 'unstake', gbpbAmount: gbpb(80n * E18), shares: sGbpbShares(76_900_000_000_000_000_000n) }),
+      entry({ kind: 'claim', gbpbAmount: gbpb(80n * E18) }),
+      // 80 GBPb at 1.30 = 104 USDC, less the 20 bps fee of 208_000
+      entry({ kind: 'redeem', gbpbAmount: gbpb(80n * E18), usdcAmount: usdc(103_792_000n), fee: usdc(208_000n) }),
+    ];
+
+    const portfolio = buildPortfolio(entries, balances({}));
+
+    expect(portfolio.realised.yieldGbp).toBe(3_100_000_000_000_000_000n);
+    expect(portfolio.realised.yieldUsd).toBe(4_030_000n);
+    // Mint opening fee (30_000) plus the redeem fee (208_000)
+    expect(portfolio.realised.costsUsd).toBe(238_000n);
+    expect(portfolio.realised.totalUsd).toBe(103_792_000n - 100_000_000n);
+    expect(portfolio.value).toBe(0n);
+    expect(portfolio.basis.units).toBe(0n);
+  });
+
+  it('gives balance the history does not explain a basis at today\'s rate, and counts unpriced entries', () => {
+    const { gbpUsdPrice: _, ...unpriced } = mint();
+    const portfolio = buildPortfolio([unpriced], balances({ gbpbBalance: gbpb(100n * E18) }));
+
+    expect(portfolio.estimatedEntries).toBe(1);
+    expect(portfolio.untracked).toBe(23_100_000_000_000_000_000n);
+    const [wallet] = portfolio.holdings;
+    expect(wallet.basis.units).toBe(100n * E18);
+    expect(wallet.basis.usd).toBe(100_000_000n + 30_030_000n);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { bps, gbpb, priceE8, usdc } from '../src/units';
+import { minimumOut, mulDiv, quoteMint, quoteRedeem } from '../src/quote';
+
+// test/GBPbMinter.t.sol setUp: MockChainlinkOracle at 1.30, GBPbMinter's constructor leverage of 5x,
+// and the 100 USDC deposit its mint tests use with a 70 GBPb minimum
+const PRICE = priceE8(130_000_000n);
+const LEVERAGE = 5n;
+const DEPOSIT = usdc(100_000_000n);
+
+describe('mulDiv', () => {
+  it('floors by default and rounds up only when there is a remainder', () => {
+    expect(mulDiv(10n, 3n, 4n)).toBe(7n);
+    expect(mulDiv(10n, 3n, 4n, 'ceil')).toBe(8n);
+    expect(mulDiv(12n, 3n, 4n, 'ceil')).toBe(9n);
+  });
+
+  it('throws on a zero denominator', () => {
+    expect(() => mulDiv(1n, 1n, 0n)).toThrow(RangeError);
+  });
+});
+
+describe('quoteMint', () => {
+  it('matches test_VULN19_UserPaysOpeningFee', () => {
+    const quote = quoteMint(DEPOSIT, PRICE, LEVERAGE);
+
+    // perpAmount = 100e6 * 2000 / 10000; notionalSize = perpAmount * 5; openingFee = notional * 3 / 10000
+    expect(quote.notionalSize).toBe(100_000_000n);
+    expect(quote.openingFee).toBe(30_000n);
+    expect(quote.backingAmount).toBe(99_970_000n);
+    expect(quote.lendingAmount).toBe(79_976_000n);
+    expect(quote.perpAmount).toBe(19_994_000n);
+    // 99.97 USDC / 1.30 = 76.9 GBPb, clearing the tests' 70e18 minimum
+    expect(quote.gbpAmount).toBe(76_900_000_000_000_000_000n);
+    expect(quote.gbpAmount).toBeGreaterThanOrEqual(70n * 10n ** 18n);
+    expect(quote.isReasonable).toBe(true);
+  });
+
+  it('rounds the opening fee up like Math.Rounding.Ceil', () => {
+    // perp leg floors to 25_000_000, so notional = 125_000_000 and the fee is exactly 37_500
+    expect(quoteMint(usdc(125_000_001n), PRICE, LEVERAGE).openingFee).toBe(37_500n);
+    // perp leg 25_000_001, notional 125_000_005; 125_000_005 * 3 / 10000 = 37_500.0015 -> 37_501
+    expect(quoteMint(usdc(125_000_005n), PRICE, LEVERAGE).openingFee).toBe(37_501n);
+  });
+
+  it('flags conversions outside 0.70-0.90 GBPb per USDC as UnreasonableConversion', () => {
+    // At 1.00 a dollar buys a pound: ~1 GBPb per USDC, above the 0.90 ceiling
+    expect(quoteMint(DEPOSIT, priceE8(100_000_000n), LEVERAGE).isReasonable).toBe(false);
+    // At 1.50 it buys ~0.67, under the 0.70 floor
+    expect(quoteMint(DEPOSIT, priceE8(150_000_000n), LEVERAGE).isReasonable).toBe(false);
+  });
+});
+
+describe('quoteRedeem', () => {
+  it('matches test_RedeemAfterHoldTime redeeming the 100 USDC mint', () => {
+    const quote = quoteRedeem(gbpb(76_900_000_000_000_000_000n), PRICE);
+
+    // 76.9 GBPb * 1.30 = 99.97 USDC, withdrawn 80/20
+    expect(quote.usdcGross).toBe(99_970_000n);
+    expect(quote.lendingAmount).toBe(79_976_000n);
+    expect(quote.perpAmount).toBe(19_994_000n);
+    // REDEEM_FEE_BPS = 20 on the total withdrawn
+    expect(quote.fee).toBe(199_940n);
+    expect(quote.usdcAmount).toBe(99_770_060n);
+  });
+
+  it('floors each leg, then rounds the fee up on what was withdrawn', () => {
+    // 1.000003 USDC gross splits into 800_002 + 200_000 (each floored), so 1_000_002 is withdrawn;
+    // 20 bps of that is 2_000.004, rounded up to 2_001
+    const quote = quoteRedeem(gbpb(769_233_076_923_076_924n), PRICE);
+    expect(quote.usdcGross).toBe(1_000_003n);
+    expect(quote.lendingAmount + quote.perpAmount).toBe(1_000_002n);
+    expect(quote.fee).toBe(2_001n);
+    expect(quote.usdcAmount).toBe(998_001n);
+  });
+
+  it('takes the live fee in place of the constant', () => {
+    expect(quoteRedeem(gbpb(76_900_000_000_000_000_000n), PRICE, bps(0n)).usdcAmount).toBe(99_970_000n);
+  });
+});
+
+describe('minimumOut', () => {
+  it('floors the slippage-adjusted amount', () => {
+    expect(minimumOut(usdc(99_770_060n), bps(100n))).toBe(98_772_359n);
+    expect(minimumOut(usdc(99_770_060n), bps(0n))).toBe(99_770_060n);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityEntry } from '../src/activity';
+import { buildTaxReport, ukDate, ukTaxYear, type TaxRow } from '../src/tax';
+import { gbpb, priceE8, usdc } from '../src/units';
+
+/** What a test writes for each entry, per kind; the rest is filled in */
+type EntryFields<Entry extends ActivityEntry = ActivityEntry> = Entry extends ActivityEntry
+  ? Omit<Entry, 'id' | 'transactionHash' | 'blockNumber' | 'logIndex' | 'timestamp'>
+  : never;
+
+// At 1.00 a USDC leg is worth the same in sterling, so every value below is whole pounds
+const PAR = priceE8(100_000_000n);
+const E18 = 10n ** 18n;
+const unix = (iso: string) => Date.parse(iso) / 1000;
+
+let block = 0n;
+function entry(at: string, fields: EntryFields): ActivityEntry {
+  block += 1n;
+  const hash = `0x${block.toString(16).padStart(64, '0')}` as const;
+  return { id: `${hash}:0`, transactionHash: hash, blockNumber: block, logIndex: 0, timestamp: unix(at), gbpUsdPrice: PAR, ...fields };
+}
+
+/** Mint `quantity` GBPb for `pounds` */
+const buy = (at: string, quantity: bigint, pounds: bigint) =>
+  entry(at, { kind: 'mint', gbpbAmount: gbpb(quantity * E18), usdcAmount: usdc(pounds * 1_000_000n), fee: usdc(0n) });
+
+/** Redeem `quantity` GBPb for `pounds` */
+const sell = (at: string, quantity: bigint, pounds: bigint) =>
+  entry(at, { kind: 'redeem', gbpbAmount: gbpb(quantity * E18), usdcAmount: usdc(pounds * 1_000_000n), fee: usdc(0n) });
+
+const disposals = (entries: ActivityEntry[]): TaxRow[] =>
+  buildTaxReport(entries).years.flatMap((year) => year.rows.filter((row) => row.type === 'disposal'));
+
+describe('ukDate and ukTaxYear', () => {
+  it('splits the tax year between 5 and 6 April', () => {
+    expect(ukTaxYear('2026-04-05')).toBe('2025/26');
+    expect(ukTaxYear('2026-04-06')).toBe('2026/27');
+    expect(ukTaxYear('2026-12-31')).toBe('2026/27');
+    expect(ukTaxYear('2027-01-01')).toBe('2026/27');
+    expect(ukTaxYear('2099-04-06')).toBe('2099/00');
+  });
+
+  it('dates by London time, which runs an hour ahead of UTC in summer', () => {
+    // 23:30 UTC on 5 April 2026 is 00:30 BST on the 6th, the first day of 2026/27
+    expect(ukDate(unix('2026-04-05T23:30:00Z'))).toBe('2026-04-06');
+    expect(ukDate(unix('2026-04-05T22:59:59Z'))).toBe('2026-04-05');
+    // In winter London is on GMT, so UTC midnight is the day boundary
+    expect(ukDate(unix('2026-01-05T23:30:00Z'))).toBe('2026-01-05');
+    expect(ukDate(unix('2026-01-06T00:00:00Z'))).toBe('2026-01-06');
+  });
+
+  it('puts a disposal just after UTC 23:00 on 5 April in the new tax year', () => {
+    const report = buildTaxReport([buy('2025-12-01T12:00:00Z', 10n, 10n), sell('2026-04-05T23:30:00Z', 10n, 12n)]);
+
+    expect(report.years.map((year) => year.taxYear)).toEqual(['2025/26', '2026/27']);
+    const [, year] = report.years;
+    expect(year.start).toBe('2026-04-06');
+    expect(year.end).toBe('2027-04-05');
+    expect(year.disposals).toBe(1);
+    expect(year.gains).toBe(2n * E18);
+  });
+});
+
+describe('buildTaxReport matching', () => {
+  it('matches a disposal to acquisitions the same day first, whatever the order', () => {
+    const [disposal] = disposals([
+      buy('2025-05-01T12:00:00Z', 10n, 10n),
+      sell('2025-06-10T09:00:00Z', 10n, 13n),
+      buy('2025-06-10T15:00:00Z', 10n, 12n),
+    ]);
+
+    expect(disposal.matches).toEqual([{ rule: 'same-day', quantity: 10n * E18, cost: 12n * E18 }]);
+    expect(disposal.cost).toBe(12n * E18);
+    expect(disposal.gain).toBe(1n * E18);
+  });
+
+  it('matches to an acquisition within the next 30 days before the pool', () => {
+    const [disposal] = disposals([
+      buy('2025-05-01T12:00:00Z', 10n, 10n),
+      sell('2025-06-10T12:00:00Z', 10n, 9n),
+      buy('2025-07-10T12:00:00Z', 10n, 8n),
+    ]);
+
+    expect(disposal.matches).toEqual([
+      { rule: 'bed-and-breakfast', quantity: 10n * E18, cost: 8n * E18, acquiredOn: '2025-07-10' },
+    ]);
+    expect(disposal.gain).toBe(1n * E18);
+  });
+
+  it('leaves an acquisition 31 days later to the pool', () => {
+    const [disposal] = disposals([
+      buy('2025-05-01T12:00:00Z', 10n, 10n),
+      sell('2025-06-10T12:00:00Z', 10n, 9n),
+      buy('2025-07-11T12:00:00Z', 10n, 8n),
+    ]);
+
+    expect(disposal.matches).toEqual([{ rule: 'section-104', quantity: 10n * E18, cost: 10n * E18 }]);
+    expect(disposal.gain).toBe(-1n * E18);
+  });
+
+  it('costs section 104 disposals at the pool average and carries the rest forward', () => {
+    const [first, second] = disposals([
+      buy('2025-01-10T12:00:00Z', 10n, 10n),
+      buy('2025-02-10T12:00:00Z', 10n, 14n),
+      // 20 in the pool for £24: £1.20 each
+      sell('2025-03-20T12:00:00Z', 5n, 7n),
+      sell('2025-05-20T12:00:00Z', 15n, 15n),
+    ]);
+
+    expect(first.matches).toEqual([{ rule: 'section-104', quantity: 5n * E18, cost: 6n * E18 }]);
+    expect(first.gain).toBe(1n * E18);
+    expect(second.cost).toBe(18n * E18);
+    expect(second.gain).toBe(-3n * E18);
+    expect(second.unmatched).toBeUndefined();
+  });
+
+  it('applies the rules in order within one disposal and reports what nothing matches', () => {
+    const [disposal] = disposals([
+      buy('2025-05-01T12:00:00Z', 4n, 4n),
+      buy('2025-06-10T08:00:00Z', 3n, 6n),
+      sell('2025-06-10T12:00:00Z', 12n, 12n),
+      buy('2025-06-20T12:00:00Z', 2n, 3n),
+    ]);
+
+    expect(disposal.matches).toEqual([
+      { rule: 'same-day', quantity: 3n * E18, cost: 6n * E18 },
+      { rule: 'bed-and-breakfast', quantity: 2n * E18, cost: 3n * E18, acquiredOn: '2025-06-20' },
+      { rule: 'section-104', quantity: 4n * E18, cost: 4n * E18 },
+    ]);
+    expect(disposal.unmatched).toBe(3n * E18);
+    // The 3 unmatched are costed at zero
+    expect(disposal.gain).toBe((12n - 6n - 3n - 4n) * E18);
+  });
+});
@@ -0,0 +1,29 @@
+import { decodeFunctionData, type Address } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { erc20Abi } from '../src/abis';
+import type { AddressBook } from '../src/deployments';
+import { gbpb } from '../src/units';
+import { zapOutCalls } from '../src/zap';
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}` as Address;
+const addresses = { minter: address(1), gbpb: address(2), sGBPb: address(3), usdc: address(4) } as AddressBook;
+const AMOUNT = gbpb(40n * 10n ** 18n);
+
+describe('zapOutCalls', () => {
+  it('approves the minter for exactly the claimed GBPb between the claim and the redeem', () => {
+    const calls = zapOutCalls(addresses, AMOUNT);
+
+    expect(calls.map((call) => call.step)).toEqual(['cooldownWithdraw', 'approveGbpbForRedeem', 'redeem']);
+    const approve = calls[1];
+    expect(approve.to).toBe(addresses.gbpb);
+    expect(decodeFunctionData({ abi: erc20Abi, data: approve.data })).toEqual({
+      functionName: 'approve',
+      args: [addresses.minter, AMOUNT],
+    });
+  });
+
+  it('leaves the approval out when the allowance already covers the redeem', () => {
+    expect(zapOutCalls(addresses, AMOUNT, { gbpb: AMOUNT }).map((call) => call.step)).toEqual(['cooldownWithdraw', 'redeem']);
+    expect(zapOutCalls(addresses, AMOUNT, { gbpb: AMOUNT - 1n }).map((call) => call.step)).toContain('approveGbpbForRedeem');
+  });
+});
@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useTheme } from '@/lib/contexts/ThemeContext';
+import { BackgroundWrapper } from '@/components/BackgroundWrapper';
+import { Header } from '@/components/Header';
+import { ActivityList } from '@/components/ActivityList';
+import { TaxExport } from '@/components/TaxExport';
+import { useActivity } from '@/lib/hooks/useActivity';
+
+export default function ActivityPage() {
+  const { theme } = useTheme();
+  const { address } = useAccount();
+  const { entries, progress, isLoading, error, reload } = useActivity(address);
+
+  return (
+    <main className={`relative min-h-screen overflow-hidden ${theme === 'night' ? 'night-mode' : ''}`}>
+      {/* Background Image */}
+      <BackgroundWrapper />
+
+      {/* Header with sGBPb APY */}
+      <Header activePage="activity" />
+
+      {/* Main Content */}
+      <div className="relative z-10 container mx-auto px-4 py-12 pb-24 md:pb-12">
+        <div className="glass-card p-6 md:p-8 rounded-3xl max-w-3xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-white text-xl font-bold">Activity</h3>
+            {address && (
+              <button
+                onClick={reload}
+                disabled={isLoading}
+                className="text-white/60 hover:text-white disabled:opacity-40 transition-colors"
+                aria-label="Reload activity"
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
+
+          {!address ? (
+            <p className="text-white/60 text-sm">Connect a wallet to see its mints, redemptions, stakes and transfers.</p>
+          ) : (
+            <>
+              {/* Scan progress - history is read from chain events, newest first */}
+              {isLoading && (
+                <div className="mb-4">
+                  <div className="flex items-center gap-2 text-white/60 text-xs mb-2">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Scanning history... {Math.floor(progress * 100)}%
+                  </div>
+                  <div className="w-full bg-white/10 rounded-full h-1">
+                    <div className="bg-blue-400 h-1 rounded-full transition-all" style={{ width: `${progress * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-xs text-red-400">
+                  Couldn&apos;t load all activity: {error.message}
+                </div>
+              )}
+
+              {entries.length > 0 && <TaxExport entries={entries} isComplete={!isLoading && !error} />}
+
+              {entries.length > 0 ? (
+                <ActivityList entries={entries} />
+              ) : (
+                !isLoading && <p className="text-white/60 text-sm">No activity for this wallet yet.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Mobile Bottom Navigation */}
+      <nav className="md:hidden fixed bottom-0 left-0 right-0 z-20 border-t border-white/10 bg-white/5 backdrop-blur-lg">
+        <div className="flex items-center justify-around px-4 py-3">
+          <Link href="/" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-xs font-medium">Mint</span>
+          </Link>
+
+          <Link href="/staking" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+            </svg>
+            <span className="text-xs font-medium">Stake</span>
+          </Link>
+
+          <Link href="/portfolio" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+            </svg>
+            <span className="text-xs font-medium">Portfolio</span>
+          </Link>
+
+          <Link href="/analytics" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            <span className="text-xs font-medium">Analytics</span>
+          </Link>
+
+          <Link href="/health" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            <span className="text-xs font-medium">Health</span>
+          </Link>
+
+          <Link href="/activity" className="flex flex-col items-center gap-1 text-white/90">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-xs font-medium">Activity</span>
+          </Link>
+        </div>
+      </nav>
+    </main>
+  );
+}
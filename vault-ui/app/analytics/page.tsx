@@ -6,42 +6,35 @@ import { BackgroundWrapper } from '@/components/BackgroundWrapper';
 import { AnimatedNumber } from '@/components/AnimatedNumber';
 import { Header } from '@/components/Header';
 import { VaultStats } from '@/components/VaultStats';
+import { ProtocolHistory } from '@/components/ProtocolHistory';
+import { PerpHedgePanel } from '@/components/PerpHedgePanel';
+import { RedemptionCapacityPanel } from '@/components/RedemptionCapacityPanel';
 import { useVaultMetrics } from '@/lib/hooks/useVaultMetrics';
-import { useSGBPbAPY } from '@/lib/hooks/useSGBPbAPY';
-import { useReadContract } from 'wagmi';
-import { CONTRACTS } from '@/lib/contracts';
-import { formatNumber } from '@/lib/utils';
+import { useProtocolHealth } from '@/lib/hooks/useProtocolHealth';
+import { usePerpHedge } from '@/lib/hooks/usePerpHedge';
+import { formatUnitsFixed, ratioBps, usdc, type Bps } from '@blendra/sdk';
+import { formatBps, formatGBPb, formatUSDC } from '@/lib/utils';
 
 export default function AnalyticsPage() {
   const { theme } = useTheme();
 
-  // Real-time data from contracts
+  // Real-time data from contracts, all from one block
   const vaultMetrics = useVaultMetrics();
-  const { apy: sGBPbAPY } = useSGBPbAPY();
-
-  // Fetch GBPb backing ratio
-  const { data: totalGBPbSupply } = useReadContract({
-    address: CONTRACTS.gbpb,
-    abi: [
-      {
-        inputs: [],
-        name: 'totalSupply',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'totalSupply',
-  });
-
-  // Calculate backing ratio (USDC backing vs GBPb supply)
-  const gbpbSupply = totalGBPbSupply ? Number(totalGBPbSupply) / 1e18 : 0;
-  const gbpbValueInUSD = gbpbSupply * vaultMetrics.gbpUsdPrice;
-  const backingRatio = gbpbValueInUSD > 0 ? (vaultMetrics.tvlUSD / gbpbValueInUSD) * 100 : 0;
+
+  // Backing as the minter's verifyGBPbBacking() reports it; the full set of health views is on /health
+  const { data: health } = useProtocolHealth();
+  const backing = health?.backing;
+  const gbpbSupply = vaultMetrics.totalGBPb;
+
+  // Live leverage of the hedge, from PerpPositionManager
+  const { position: perpPosition } = usePerpHedge();
 
   // Utilization: how much of deposited capital is actually deployed
-  const deployedCapital = vaultMetrics.morphoBalanceUSD + vaultMetrics.perpCollateralUSD;
-  const utilizationRate = vaultMetrics.tvlUSD > 0 ? (deployedCapital / vaultMetrics.tvlUSD) * 100 : 0;
+  const deployedCapital = usdc(vaultMetrics.morphoBalance + vaultMetrics.perpCollateral);
+  const utilizationBps = ratioBps(deployedCapital, vaultMetrics.tvl);
+
+  // Progress bar width, capped at 100%
+  const barWidth = (value: Bps) => formatBps(value > 10000n ? 10000n : value, 2);
 
   return (
     <main className={`relative min-h-screen overflow-hidden ${theme === 'night' ? 'night-mode' : ''}`}>
@@ -56,8 +49,17 @@ export default function AnalyticsPage() {
         {/* VaultStats Component - Main metrics grid */}
         <div className="max-w-5xl mx-auto">
           <VaultStats />
+          {vaultMetrics.blockNumber !== undefined && vaultMetrics.timestamp !== undefined && (
+            <p className="text-white/40 text-xs text-right mt-2">
+              As of block {vaultMetrics.blockNumber.toString()} ·{' '}
+              {new Date(vaultMetrics.timestamp * 1000).toLocaleTimeString()}
+            </p>
+          )}
         </div>
 
+        {/* Sampled history - settled points are cached in IndexedDB */}
+        <ProtocolHistory />
+
         {/* Capital Allocation */}
         <div className="glass-card p-8 rounded-3xl max-w-5xl mx-auto">
           <h3 className="text-white text-xl font-bold mb-6">Capital Allocation</h3>
@@ -70,13 +72,13 @@ export default function AnalyticsPage() {
                 <div className="text-white/90 text-sm font-semibold">Morpho Vault</div>
               </div>
               <div className="text-white text-3xl font-bold mb-2">
-                ${vaultMetrics.isLoading ? '...' : <AnimatedNumber value={vaultMetrics.morphoBalanceUSD} decimals={2} />}
+                ${vaultMetrics.isLoading ? '...' : <AnimatedNumber value={formatUSDC(vaultMetrics.morphoBalance)} decimals={2} />}
               </div>
               <div className="text-white/60 text-sm mb-3">
-                <AnimatedNumber value={vaultMetrics.morphoAllocation} decimals={1} suffix="%" /> of total capital
+                <AnimatedNumber value={formatBps(vaultMetrics.morphoAllocationBps, 1).slice(0, -1)} decimals={1} suffix="%" /> of total capital
               </div>
               <div className="text-blue-400 text-sm font-semibold">
-                <AnimatedNumber value={vaultMetrics.morphoAPYPercent} decimals={1} suffix="%" /> APY earning
+                <AnimatedNumber value={formatBps(vaultMetrics.morphoAPYBps, 1).slice(0, -1)} decimals={1} suffix="%" /> APY earning
               </div>
             </div>
 
@@ -87,38 +89,61 @@ export default function AnalyticsPage() {
                 <div className="text-white/90 text-sm font-semibold">Ostium Perpetuals</div>
               </div>
               <div className="text-white text-3xl font-bold mb-2">
-                ${vaultMetrics.isLoading ? '...' : <AnimatedNumber value={vaultMetrics.perpCollateralUSD} decimals={2} />}
+                ${vaultMetrics.isLoading ? '...' : <AnimatedNumber value={formatUSDC(vaultMetrics.perpCollateral)} decimals={2} />}
               </div>
               <div className="text-white/60 text-sm mb-3">
-                <AnimatedNumber value={vaultMetrics.perpAllocation} decimals={1} suffix="%" /> of total capital
+                <AnimatedNumber value={formatBps(vaultMetrics.perpAllocationBps, 1).slice(0, -1)} decimals={1} suffix="%" /> of total capital
               </div>
               <div className="text-purple-400 text-sm font-semibold">
-                5x GBP/USD long position
+                {perpPosition?.effectiveLeverageBps !== undefined
+                  ? `${formatUnitsFixed(perpPosition.effectiveLeverageBps, 4, 1)}x GBP/USD long position`
+                  : !perpPosition
+                    ? '...'
+                    : perpPosition.notional === 0n
+                      ? 'No position open'
+                      : 'GBP/USD long position underwater'}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Perp Hedge */}
+        <div className="glass-card p-8 rounded-3xl max-w-5xl mx-auto">
+          <h3 className="text-white text-xl font-bold mb-6">Perp Hedge</h3>
+          <PerpHedgePanel />
+        </div>
+
+        {/* Redemption Capacity */}
+        <div className="glass-card p-8 rounded-3xl max-w-5xl mx-auto">
+          <h3 className="text-white text-xl font-bold mb-6">Redemption Capacity</h3>
+          <RedemptionCapacityPanel />
+        </div>
+
         {/* Protocol Health */}
         <div className="glass-card p-8 rounded-3xl max-w-5xl mx-auto">
-          <h3 className="text-white text-xl font-bold mb-6">Protocol Health</h3>
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-white text-xl font-bold">Protocol Health</h3>
+            <Link href="/health" className="text-sm text-white/60 hover:text-white/90 transition-colors">
+              Full health report →
+            </Link>
+          </div>
 
           <div className="space-y-4">
             <div>
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-white/70">GBPb Backing Ratio</span>
-                <span className={`font-semibold ${backingRatio >= 100 ? 'text-green-400' : 'text-orange-400'}`}>
-                  {vaultMetrics.isLoading ? '...' : `${formatNumber(backingRatio, 1)}%`}
+                <span className={`font-semibold ${!backing || backing.isBackedProperly ? 'text-green-400' : 'text-orange-400'}`}>
+                  {backing ? formatBps(backing.backingRatioBps) : '...'}
                 </span>
               </div>
               <div className="w-full bg-white/10 rounded-full h-2">
                 <div
-                  className={`h-2 rounded-full ${backingRatio >= 100 ? 'bg-gradient-to-r from-green-400 to-green-300' : 'bg-gradient-to-r from-orange-400 to-orange-300'}`}
-                  style={{ width: `${Math.min(backingRatio, 100)}%` }}
+                  className={`h-2 rounded-full ${!backing || backing.isBackedProperly ? 'bg-gradient-to-r from-green-400 to-green-300' : 'bg-gradient-to-r from-orange-400 to-orange-300'}`}
+                  style={{ width: backing ? barWidth(backing.backingRatioBps) : '0%' }}
                 />
               </div>
               <p className="text-xs text-white/50 mt-1">
-                {backingRatio >= 100 ? '✅ Fully backed' : '⚠️ Undercollateralized'}
+                {!health ? 'Reading verifyGBPbBacking()...' : !backing ? 'Unavailable while the oracle price is unusable' : backing.isBackedProperly ? '✅ Fully backed' : '⚠️ Undercollateralized'}
               </p>
             </div>
 
@@ -126,17 +151,17 @@ export default function AnalyticsPage() {
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-white/70">Capital Utilization</span>
                 <span className="text-white font-semibold">
-                  {vaultMetrics.isLoading ? '...' : `${formatNumber(utilizationRate, 1)}%`}
+                  {vaultMetrics.isLoading ? '...' : formatBps(utilizationBps)}
                 </span>
               </div>
               <div className="w-full bg-white/10 rounded-full h-2">
                 <div
                   className="bg-gradient-to-r from-blue-400 to-blue-300 h-2 rounded-full"
-                  style={{ width: `${utilizationRate}%` }}
+                  style={{ width: barWidth(utilizationBps) }}
                 />
               </div>
               <p className="text-xs text-white/50 mt-1">
-                ${formatNumber(deployedCapital, 2)} of ${formatNumber(vaultMetrics.tvlUSD, 2)} deployed
+                ${formatUSDC(deployedCapital)} of ${formatUSDC(vaultMetrics.tvl)} deployed
               </p>
             </div>
 
@@ -144,17 +169,17 @@ export default function AnalyticsPage() {
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-white/70">Total GBPb Supply</span>
                 <span className="text-white font-semibold">
-                  {formatNumber(gbpbSupply, 0)} GBPb
+                  {formatGBPb(gbpbSupply, 0)} GBPb
                 </span>
               </div>
               <div className="w-full bg-white/10 rounded-full h-2">
                 <div
                   className="bg-gradient-to-r from-white/40 to-white/20 h-2 rounded-full"
-                  style={{ width: gbpbSupply > 0 ? '100%' : '0%' }}
+                  style={{ width: gbpbSupply > 0n ? '100%' : '0%' }}
                 />
               </div>
               <p className="text-xs text-white/50 mt-1">
-                ≈ ${formatNumber(gbpbValueInUSD, 2)} at current GBP/USD rate
+                ≈ ${backing ? formatUSDC(backing.gbpbValue) : '...'} at current GBP/USD rate
               </p>
             </div>
           </div>
@@ -178,12 +203,34 @@ export default function AnalyticsPage() {
             <span className="text-xs font-medium">Stake</span>
           </Link>
 
+          <Link href="/portfolio" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+            </svg>
+            <span className="text-xs font-medium">Portfolio</span>
+          </Link>
+
           <Link href="/analytics" className="flex flex-col items-center gap-1 text-white/90">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
             </svg>
             <span className="text-xs font-medium">Analytics</span>
           </Link>
+
+          <Link href="/health" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            <span className="text-xs font-medium">Health</span>
+          </Link>
+
+          <Link href="/activity" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-xs font-medium">Activity</span>
+          </Link>
         </div>
       </nav>
     </main>
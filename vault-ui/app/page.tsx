@@ -1,42 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import Link from 'next/link';
 import { useTheme } from '@/lib/contexts/ThemeContext';
 import { BackgroundWrapper } from '@/components/BackgroundWrapper';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Header } from '@/components/Header';
+import { ContractVerificationBanner } from '@/components/ContractVerificationBanner';
+import { MarketStatusBanner } from '@/components/MarketStatusBanner';
 import { MintRedeemForm } from '@/components/MintRedeemForm';
 
 export default function Home() {
   const [activeAction, setActiveAction] = useState<'mint' | 'redeem'>('mint');
   const { theme } = useTheme();
 
-  // Check if forex markets are closed (weekends)
-  const isMarketClosed = () => {
-    const now = new Date();
-    const day = now.getUTCDay(); // 0 = Sunday, 6 = Saturday
-    const hour = now.getUTCHours();
-
-    // Markets closed: Friday 22:00 UTC to Sunday 22:00 UTC
-    if (day === 6) return true; // Saturday - all day closed
-    if (day === 0 && hour < 22) return true; // Sunday before 22:00 UTC
-    if (day === 5 && hour >= 22) return true; // Friday after 22:00 UTC
-
-    return false;
-  };
-
-  const [marketClosed, setMarketClosed] = useState(isMarketClosed());
-
-  // Update market status every minute
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setMarketClosed(isMarketClosed());
-    }, 60000); // Check every minute
-
-    return () => clearInterval(interval);
-  }, []);
-
   return (
     <main className={`relative min-h-screen overflow-hidden ${theme === 'night' ? 'night-mode' : ''}`}>
       {/* Background Image */}
@@ -52,20 +29,13 @@ export default function Home() {
           {/* Theme Toggle */}
           <ThemeToggle />
 
-          {/* Market Closed Warning */}
-          {marketClosed && (
-            <div className="mb-6 p-4 bg-orange-500/10 border border-orange-500/30 rounded-xl">
-              <div className="flex items-start gap-3">
-                <div className="text-orange-400 text-xl flex-shrink-0">⚠️</div>
-                <div>
-                  <div className="text-orange-400 font-semibold text-sm mb-1">Markets Closed</div>
-                  <p className="text-white/80 text-xs leading-relaxed">
-                    Forex markets are currently closed for the weekend. Minting and redemptions are unavailable until markets reopen on Sunday at 22:00 UTC.
-                  </p>
-                </div>
-              </div>
-            </div>
-          )}
+          {/* Deployment verification */}
+          <div className="mt-4">
+            <ContractVerificationBanner />
+          </div>
+
+          {/* Market hours, from the minter's own weekend window */}
+          <MarketStatusBanner />
 
           {/* Mint/Redeem Buttons */}
           <div className="flex gap-3 mb-8 mt-12">
@@ -113,12 +83,34 @@ export default function Home() {
             <span className="text-xs font-medium">Stake</span>
           </Link>
 
+          <Link href="/portfolio" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+            </svg>
+            <span className="text-xs font-medium">Portfolio</span>
+          </Link>
+
           <Link href="/analytics" className="flex flex-col items-center gap-1 text-white/60">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
             </svg>
             <span className="text-xs font-medium">Analytics</span>
           </Link>
+
+          <Link href="/health" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            <span className="text-xs font-medium">Health</span>
+          </Link>
+
+          <Link href="/activity" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-xs font-medium">Activity</span>
+          </Link>
         </div>
       </nav>
     </main>
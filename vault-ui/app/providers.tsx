@@ -7,6 +7,10 @@ import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit';
 import { config } from '@/lib/wagmi';
 import { ReactNode } from 'react';
 import { ThemeProvider } from '@/lib/contexts/ThemeContext';
+import { NotificationProvider } from '@/lib/contexts/NotificationContext';
+import { TransactionProvider } from '@/lib/contexts/TransactionContext';
+import { NotificationWatcher } from '@/components/NotificationWatcher';
+import { TransactionToasts } from '@/components/TransactionToasts';
 
 const queryClient = new QueryClient();
 
@@ -16,7 +20,13 @@ export function Providers({ children }: { children: ReactNode }) {
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={darkTheme()}>
           <ThemeProvider>
-            {children}
+            <TransactionProvider>
+              <NotificationProvider>
+                {children}
+                <TransactionToasts />
+                <NotificationWatcher />
+              </NotificationProvider>
+            </TransactionProvider>
           </ThemeProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
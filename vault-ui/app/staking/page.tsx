@@ -7,19 +7,29 @@ import { BackgroundWrapper } from '@/components/BackgroundWrapper';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { AnimatedNumber } from '@/components/AnimatedNumber';
 import { Header } from '@/components/Header';
+import { ContractVerificationBanner } from '@/components/ContractVerificationBanner';
 import { StakeUnstakeForm } from '@/components/StakeUnstakeForm';
+import { ZapForm } from '@/components/ZapForm';
+import { RealisedApyTable } from '@/components/RealisedApyTable';
 import { useSGBPbAPY, useUserSGBPbPosition } from '@/lib/hooks/useSGBPbAPY';
+import { useFeeSchedule } from '@/lib/hooks/useFeeSchedule';
+import { usePortfolio } from '@/lib/hooks/usePortfolio';
 import { useAccount } from 'wagmi';
-import { formatNumber } from '@/lib/utils';
+import { formatBps, formatDuration, formatGBPb } from '@/lib/utils';
 
 export default function StakingPage() {
-  const [activeAction, setActiveAction] = useState<'stake' | 'unstake'>('stake');
+  const [activeAction, setActiveAction] = useState<'stake' | 'unstake' | 'zap'>('stake');
   const { theme } = useTheme();
   const { address } = useAccount();
 
   // Real data from contracts
-  const { apy, totalStaked } = useSGBPbAPY();
+  const { apyBps, formattedAPY, totalStaked } = useSGBPbAPY();
   const userPosition = useUserSGBPbPosition(address);
+  // Yield is measured against the GBPb staked, so it comes from the wallet's history
+  const { portfolio } = usePortfolio(address);
+  const stakingYield = portfolio?.holdings.find((holding) => holding.kind === 'staked')?.unrealised.yieldGbp ?? 0n;
+  // Performance fee, high-water mark and cooldown as currently set on sGBPb
+  const { data: fees } = useFeeSchedule();
 
   return (
     <main className={`relative min-h-screen overflow-hidden ${theme === 'night' ? 'night-mode' : ''}`}>
@@ -36,22 +46,30 @@ export default function StakingPage() {
           {/* Theme Toggle */}
           <ThemeToggle />
 
+          {/* Deployment verification */}
+          <div className="mt-4">
+            <ContractVerificationBanner />
+          </div>
+
           {/* Stats Row */}
           <div className="flex justify-between mb-6 mt-4">
             <div>
-              <div className="text-white/60 text-sm font-medium">Staking APY</div>
+              <div className="text-white/60 text-sm font-medium">Realised APY (30d)</div>
               <div className="text-white text-2xl font-bold">
-                <AnimatedNumber value={apy} decimals={1} suffix="%" />
+                {apyBps !== undefined ? <AnimatedNumber value={formattedAPY.slice(0, -1)} decimals={1} suffix="%" /> : formattedAPY}
               </div>
             </div>
             <div className="text-right">
               <div className="text-white/60 text-sm font-medium">Total Staked</div>
               <div className="text-white text-2xl font-bold">
-                <AnimatedNumber value={totalStaked} decimals={0} />
+                <AnimatedNumber value={formatGBPb(totalStaked, 0)} decimals={0} />
               </div>
             </div>
           </div>
 
+          {/* Realised APY per window vs the operator-set rate */}
+          <RealisedApyTable />
+
           {/* Stake/Unstake Buttons */}
           <div className="flex gap-3 mb-8 mt-12">
             <button
@@ -74,10 +92,20 @@ export default function StakingPage() {
             >
               Unstake
             </button>
+            <button
+              onClick={() => setActiveAction('zap')}
+              className={`flex-1 py-3 px-6 rounded-xl font-semibold transition-all ${
+                activeAction === 'zap'
+                  ? 'bg-white/20 text-white border-2 border-white/30'
+                  : 'bg-white/5 text-white/60 border-2 border-white/10 hover:bg-white/10 hover:text-white/80'
+              }`}
+            >
+              Zap
+            </button>
           </div>
 
-          {/* Functional Form Component */}
-          <StakeUnstakeForm activeAction={activeAction} />
+          {/* Functional Form Component; Zap goes straight from USDC and back */}
+          {activeAction === 'zap' ? <ZapForm /> : <StakeUnstakeForm activeAction={activeAction} />}
 
           {/* Staking Info */}
           <div className="mt-6 pt-6 border-t border-white/10">
@@ -85,23 +113,42 @@ export default function StakingPage() {
               <div className="flex justify-between">
                 <span>Your sGBPb Balance:</span>
                 <span className="text-white font-semibold">
-                  {address ? `${formatNumber(userPosition.sGBPbBalance, 2)} sGBPb` : '0.00 sGBPb'}
+                  {address ? `${formatGBPb(userPosition.sGBPbBalance)} sGBPb` : '0.00 sGBPb'}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>Underlying Value:</span>
-                <span className={`font-semibold ${userPosition.accruedProfit > 0 ? 'text-green-400' : 'text-white'}`}>
-                  {address ? `≈ ${formatNumber(userPosition.underlyingGBPbValue, 2)} GBPb` : '0.00 GBPb'}
+                <span className={`font-semibold ${stakingYield > 0n ? 'text-green-400' : 'text-white'}`}>
+                  {address ? `≈ ${formatGBPb(userPosition.underlyingGBPbValue)} GBPb` : '0.00 GBPb'}
                 </span>
               </div>
-              {address && userPosition.accruedProfit > 0 && (
+              {address && stakingYield > 0n && (
                 <div className="flex justify-between">
-                  <span>Profit:</span>
-                  <span className="text-green-400 font-semibold">
-                    +{formatNumber(userPosition.accruedProfit, 2)} GBPb
-                  </span>
+                  <span>Yield earned:</span>
+                  <Link href="/portfolio" className="text-green-400 font-semibold hover:underline">
+                    +{formatGBPb(stakingYield)} GBPb
+                  </Link>
                 </div>
               )}
+              <div className="flex justify-between">
+                <span>Performance fee:</span>
+                <span className="text-white font-semibold">{fees ? `${formatBps(fees.performanceFeeBps, 1)} of gains` : '...'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>High-water mark:</span>
+                <span className="text-white font-semibold">{fees ? `${formatGBPb(fees.highWaterMark, 4)} GBPb per sGBPb` : '...'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Unstake cooldown:</span>
+                <span className="text-white font-semibold">{fees ? formatDuration(fees.cooldownDuration) : '...'}</span>
+              </div>
+              {fees && (
+                <p className="text-white/50">
+                  {fees.pricePerShare > fees.highWaterMark
+                    ? `The fee applies to the share price's rise above the mark (now ${formatGBPb(fees.pricePerShare, 4)}) at the next harvest, which then raises the mark.`
+                    : `No performance fee is taken until the share price (now ${formatGBPb(fees.pricePerShare, 4)}) climbs back above the mark.`}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -124,12 +171,34 @@ export default function StakingPage() {
             <span className="text-xs font-medium">Stake</span>
           </Link>
 
+          <Link href="/portfolio" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 3.055A9.001 9.001 0 1020.945 13H11V3.055z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.488 9H15V3.512A9.025 9.025 0 0120.488 9z" />
+            </svg>
+            <span className="text-xs font-medium">Portfolio</span>
+          </Link>
+
           <Link href="/analytics" className="flex flex-col items-center gap-1 text-white/60">
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
             </svg>
             <span className="text-xs font-medium">Analytics</span>
           </Link>
+
+          <Link href="/health" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            <span className="text-xs font-medium">Health</span>
+          </Link>
+
+          <Link href="/activity" className="flex flex-col items-center gap-1 text-white/60">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-xs font-medium">Activity</span>
+          </Link>
         </div>
       </nav>
     </main>
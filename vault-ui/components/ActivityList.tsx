@@ -0,0 +1,93 @@
+'use client';
+
+import type { ActivityEntry, ActivityKind } from '@blendra/sdk';
+import { ExternalLink } from 'lucide-react';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { formatGBPb, formatPrice, formatUSDC, shortenAddress } from '@/lib/utils';
+
+const LABELS: Record<ActivityKind, string> = {
+  mint: 'Minted',
+  redeem: 'Redeemed',
+  stake: 'Staked',
+  unstake: 'Unstake started',
+  claim: 'Claimed unstake',
+  send: 'Sent',
+  receive: 'Received',
+};
+
+const DOTS: Record<ActivityKind, string> = {
+  mint: 'bg-green-400',
+  redeem: 'bg-orange-400',
+  stake: 'bg-blue-400',
+  unstake: 'bg-yellow-400',
+  claim: 'bg-yellow-400',
+  send: 'bg-white/40',
+  receive: 'bg-white/40',
+};
+
+const gbpbText = (amount?: bigint) => (amount !== undefined ? `${formatGBPb(amount, 4)} GBPb` : '?');
+const sharesText = (shares?: bigint) => (shares !== undefined ? `${formatGBPb(shares, 4)} sGBPb` : '?');
+
+function describeAmounts(entry: ActivityEntry): string {
+  switch (entry.kind) {
+    case 'mint':
+      return `${formatUSDC(entry.usdcAmount)} USDC → ${gbpbText(entry.gbpbAmount)}`;
+    case 'redeem':
+      return `${gbpbText(entry.gbpbAmount)} → ${formatUSDC(entry.usdcAmount)} USDC`;
+    case 'stake':
+      return `${gbpbText(entry.gbpbAmount)} → ${sharesText(entry.shares)}`;
+    case 'unstake':
+      return `${sharesText(entry.shares)} → ${gbpbText(entry.gbpbAmount)}`;
+    case 'claim':
+      return gbpbText(entry.gbpbAmount);
+    case 'send':
+    case 'receive': {
+      const amount =
+        entry.token === 'GBPb'
+          ? gbpbText(entry.gbpbAmount)
+          : `${sharesText(entry.shares)}${entry.gbpbAmount !== undefined ? ` (≈ ${gbpbText(entry.gbpbAmount)})` : ''}`;
+      return `${amount} ${entry.kind === 'send' ? 'to' : 'from'} ${shortenAddress(entry.counterparty)}`;
+    }
+  }
+}
+
+export function ActivityList({ entries }: { entries: ActivityEntry[] }) {
+  const { explorerUrl } = useDeployment();
+
+  return (
+    <ul className="divide-y divide-white/10">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-4 flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3 min-w-0">
+            <div className={`w-2.5 h-2.5 rounded-full mt-1.5 flex-shrink-0 ${DOTS[entry.kind]}`} />
+            <div className="min-w-0">
+              <div className="text-white font-semibold text-sm">{LABELS[entry.kind]}</div>
+              <div className="text-white/80 text-sm break-words">{describeAmounts(entry)}</div>
+              <div className="text-white/50 text-xs mt-1 flex flex-wrap gap-x-3">
+                {entry.gbpUsdPrice !== undefined && <span>GBP/USD {formatPrice(entry.gbpUsdPrice)}</span>}
+                {(entry.kind === 'mint' || entry.kind === 'redeem') && entry.fee !== undefined && (
+                  <span>
+                    {entry.kind === 'mint' ? 'Opening fee' : 'Fee'} {formatUSDC(entry.fee)} USDC
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <div className="text-white/60 text-xs">{new Date(entry.timestamp * 1000).toLocaleString()}</div>
+            {explorerUrl && (
+              <a
+                href={`${explorerUrl}/tx/${entry.transactionHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-400 hover:underline inline-flex items-center gap-1 mt-1"
+              >
+                {shortenAddress(entry.transactionHash)} <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
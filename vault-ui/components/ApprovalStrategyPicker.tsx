@@ -0,0 +1,49 @@
+'use client';
+
+import type { ApprovalStrategy } from '@blendra/sdk';
+
+const OPTIONS: { strategy: ApprovalStrategy; label: string; description: string }[] = [
+  { strategy: 'exact', label: 'Exact', description: 'Approve just this amount; one approval per mint' },
+  { strategy: 'unlimited', label: 'Unlimited', description: 'Approve once; later mints skip the approval' },
+  { strategy: 'permit', label: 'Permit', description: 'Sign a permit instead; it lands in the same batch as the mint' },
+];
+
+interface ApprovalStrategyPickerProps {
+  strategy: ApprovalStrategy;
+  onChange: (strategy: ApprovalStrategy) => void;
+  /** Omit to hide the permit option entirely */
+  canPermit?: boolean;
+  permitUnavailableReason?: string;
+}
+
+/** Segmented choice of how USDC gets approved, remembered per wallet by useApprovalStrategy */
+export function ApprovalStrategyPicker({ strategy, onChange, canPermit, permitUnavailableReason }: ApprovalStrategyPickerProps) {
+  const options = canPermit === undefined ? OPTIONS.filter((option) => option.strategy !== 'permit') : OPTIONS;
+  const selected = OPTIONS.find((option) => option.strategy === strategy);
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        {options.map((option) => {
+          const disabled = option.strategy === 'permit' && !canPermit;
+          return (
+            <button
+              key={option.strategy}
+              onClick={() => onChange(option.strategy)}
+              disabled={disabled}
+              title={disabled ? permitUnavailableReason : option.description}
+              className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                strategy === option.strategy
+                  ? 'bg-white/20 text-white border border-white/30'
+                  : 'bg-white/5 text-white/60 border border-white/10 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+      {selected && <p className="text-xs text-white/50 mt-1">{selected.description}</p>}
+    </div>
+  );
+}
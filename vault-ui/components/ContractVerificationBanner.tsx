@@ -1,80 +1,122 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
-import { verifyAllContracts, type VerificationResult } from '@/lib/contractVerification';
+import { useChainId } from 'wagmi';
+import { CheckCircle, ChevronDown, XCircle } from 'lucide-react';
+import { verifyAllContracts, type DeploymentReport } from '@/lib/contractVerification';
+import { shortenAddress } from '@/lib/utils';
+
+// Hashes are long; show enough of both sides to tell them apart
+const shorten = (value?: string) =>
+  value && value.startsWith('0x') && value.length > 42 ? `${value.slice(0, 10)}...${value.slice(-8)}` : value;
 
 export function ContractVerificationBanner() {
+  const chainId = useChainId();
+  const [showDetails, setShowDetails] = useState(false);
   const [status, setStatus] = useState<{
-    vault: VerificationResult | null;
-    usdc: VerificationResult | null;
+    report: DeploymentReport | null;
+    error?: string;
     isLoading: boolean;
   }>({
-    vault: null,
-    usdc: null,
+    report: null,
     isLoading: true,
   });
 
   useEffect(() => {
+    let cancelled = false;
+    setStatus({ report: null, isLoading: true });
+
     async function verify() {
-      const results = await verifyAllContracts();
-      setStatus({
-        vault: results.vault,
-        usdc: results.usdc,
-        isLoading: false,
-      });
+      try {
+        const report = await verifyAllContracts(chainId);
+        if (!cancelled) setStatus({ report, isLoading: false });
+      } catch (error) {
+        if (!cancelled) {
+          setStatus({
+            report: null,
+            error: error instanceof Error ? error.message : 'Unknown verification error',
+            isLoading: false,
+          });
+        }
+      }
     }
 
     verify();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId]);
 
   if (status.isLoading) {
     return null; // Don't show anything while loading
   }
 
-  const hasErrors = !status.vault?.isValid || !status.usdc?.isValid;
+  const { report } = status;
 
-  if (!hasErrors) {
+  if (report?.isValid) {
     // Contracts verified successfully - show subtle success indicator
     return (
-      <div className="bg-green-500/10 border border-green-500/20 rounded-md p-2 mb-4">
-        <div className="flex items-center gap-2 text-sm text-green-600">
-          <CheckCircle className="h-4 w-4" />
-          <span>Contracts verified</span>
-        </div>
+      <div className="mb-4 p-2 bg-green-500/10 border border-green-500/20 rounded-xl">
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className="w-full flex items-center justify-between gap-2 text-xs text-green-400"
+        >
+          <span className="flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            All {report.contracts.length} contracts verified
+          </span>
+          <ChevronDown className={`h-3 w-3 transition-transform ${showDetails ? 'rotate-180' : ''}`} />
+        </button>
+        {showDetails && (
+          <ul className="mt-2 space-y-1 text-xs text-white/60">
+            {report.contracts.map((contract) => (
+              <li key={contract.name} className="flex justify-between">
+                <span>{contract.artifact ?? contract.name}</span>
+                <span className="font-mono">{shortenAddress(contract.address)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     );
   }
 
   // Show error banner if verification failed
   return (
-    <div className="bg-destructive/10 border border-destructive/20 rounded-md p-4 mb-4" role="alert">
+    <div className="mb-4 p-4 bg-red-500/10 border border-red-500/30 rounded-xl" role="alert">
       <div className="flex items-start gap-3">
-        <XCircle className="h-5 w-5 text-destructive mt-0.5" />
-        <div className="flex-1">
-          <h3 className="font-semibold text-destructive mb-2">Contract Verification Failed</h3>
+        <XCircle className="h-5 w-5 text-red-400 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-red-400 text-sm mb-2">Contract Verification Failed</h3>
 
-          {!status.vault?.isValid && (
-            <div className="text-sm text-destructive/90 mb-2">
-              <p className="font-medium">Vault Contract:</p>
-              <p className="text-xs">{status.vault?.error || 'Unknown error'}</p>
-            </div>
-          )}
+          {status.error && <p className="text-xs text-white/80 mb-2">{status.error}</p>}
 
-          {!status.usdc?.isValid && (
-            <div className="text-sm text-destructive/90 mb-2">
-              <p className="font-medium">USDC Contract:</p>
-              <p className="text-xs">{status.usdc?.error || 'Unknown error'}</p>
-            </div>
-          )}
+          {report?.contracts
+            .filter((contract) => !contract.isValid)
+            .map((contract) => (
+              <div key={contract.name} className="text-xs mb-2">
+                <p className="text-white font-medium">
+                  {contract.artifact ?? contract.name}{' '}
+                  <span className="text-white/50 font-mono">{shortenAddress(contract.address)}</span>
+                </p>
+                {contract.checks
+                  .filter((check) => !check.ok)
+                  .map((check) => (
+                    <p key={check.label} className="text-white/70 break-all">
+                      {check.label}: expected <span className="font-mono">{shorten(check.expected) ?? '-'}</span>, got{' '}
+                      <span className="font-mono text-red-300">{shorten(check.actual) ?? '-'}</span>
+                    </p>
+                  ))}
+              </div>
+            ))}
 
-          <p className="text-sm text-destructive/80 mt-3">
-            ⚠️ <strong>Do not deposit funds.</strong> The contracts at the configured addresses do not match the expected interfaces. This could indicate:
+          <p className="text-xs text-white/80 mt-3">
+            ⚠️ <strong>Do not deposit funds.</strong> The contracts at the configured addresses do not match this build. This could indicate:
           </p>
-          <ul className="text-xs text-destructive/80 list-disc list-inside mt-1 space-y-1">
-            <li>Wrong network (check you're on Arbitrum Sepolia)</li>
-            <li>Incorrect contract addresses in configuration</li>
-            <li>Contracts not deployed or upgraded</li>
+          <ul className="text-xs text-white/60 list-disc list-inside mt-1 space-y-1">
+            <li>Wrong network (check the network switcher matches your wallet)</li>
+            <li>Incorrect contract addresses in the deployment manifest</li>
+            <li>Contracts redeployed or rewired since this app was built</li>
             <li>Network connection issues</li>
           </ul>
         </div>
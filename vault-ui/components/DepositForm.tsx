@@ -5,19 +5,29 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { CONTRACTS, VAULT_ABI, ERC20_ABI } from '@/lib/contracts';
-import { formatUSDC } from '@/lib/utils';
+import { approvalAmount } from '@blendra/sdk';
+import { LEGACY_VAULT_ABI, ERC20_ABI } from '@/lib/contracts';
+import { useTrackTransaction } from '@/lib/contexts/TransactionContext';
+import { useApprovalStrategy } from '@/lib/hooks/useApprovalStrategy';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { ApprovalStrategyPicker } from '@/components/ApprovalStrategyPicker';
+import { describeError, formatUSDC } from '@/lib/utils';
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { parseUnits } from 'viem';
 import { ArrowDownCircle, Loader2, AlertCircle, CheckCircle2, ExternalLink } from 'lucide-react';
 
 export function DepositForm() {
+  const { contracts, explorerUrl } = useDeployment();
   const { address } = useAccount();
   const [amount, setAmount] = useState('');
   const [step, setStep] = useState<'approve' | 'deposit'>('approve');
   const [error, setError] = useState<string>('');
   const [validationError, setValidationError] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false); // FIX #1: Prevent double submissions
+  // The legacy vault's deposit is never batched, so only exact and unlimited apply here; a wallet
+  // that picked permit on the mint form approves (and sees) exact
+  const approval = useApprovalStrategy();
+  const approvalStrategy = approval.strategy === 'permit' ? 'exact' : approval.strategy;
 
   // FIX #3: Focus management refs
   const successMessageRef = useRef<HTMLDivElement>(null);
@@ -26,7 +36,7 @@ export function DepositForm() {
 
   // Read user's USDC balance
   const { data: usdcBalance, refetch: refetchBalance } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -37,10 +47,10 @@ export function DepositForm() {
 
   // Read current allowance
   const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: address ? [address, CONTRACTS.vault] : undefined,
+    args: address ? [address, contracts.minter] : undefined,
     query: {
       enabled: !!address,
     },
@@ -82,6 +92,9 @@ export function DepositForm() {
     hash: depositHash,
   });
 
+  useTrackTransaction(approveHash, `Approve ${amount} USDC`);
+  useTrackTransaction(depositHash, `Deposit ${amount} USDC to the vault`);
+
   // Handle approve success
   useEffect(() => {
     if (isApproveSuccess && step === 'approve') {
@@ -111,38 +124,29 @@ export function DepositForm() {
       setTimeout(() => {
         successMessageRef.current?.focus();
       }, 100);
-
-      // Reset after 5 seconds
-      setTimeout(() => {
-        resetDeposit();
-      }, 5000);
     }
-  }, [isDepositSuccess, refetchBalance, refetchAllowance, resetDeposit]);
+  }, [isDepositSuccess, refetchBalance, refetchAllowance]);
 
   // Handle errors
   useEffect(() => {
     if (approveError) {
-      setError(approveError.message.includes('User rejected')
-        ? 'Transaction rejected'
-        : 'Approval failed: ' + approveError.message);
+      setError(describeError(approveError));
       setIsSubmitting(false); // FIX #1: Reset on error
 
       // FIX #3: Focus on error message
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     } else if (depositError) {
-      setError(depositError.message.includes('User rejected')
-        ? 'Transaction rejected'
-        : 'Deposit failed: ' + depositError.message);
+      setError(describeError(depositError));
       setIsSubmitting(false); // FIX #1: Reset on error
 
       // FIX #3: Focus on error message
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     } else if (approveReceiptError) {
-      setError('Approval transaction failed on-chain');
+      setError('Approval transaction failed on-chain: ' + describeError(approveReceiptError));
       setIsSubmitting(false);
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     } else if (depositReceiptError) {
-      setError('Deposit transaction failed on-chain');
+      setError('Deposit transaction failed on-chain: ' + describeError(depositReceiptError));
       setIsSubmitting(false);
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     }
@@ -188,6 +192,8 @@ export function DepositForm() {
 
   const handleAmountChange = (value: string) => {
     setAmount(value);
+    // A new amount starts a new deposit; the last one stays in the transactions drawer
+    if (isDepositSuccess) resetDeposit();
     const error = validateAmount(value);
     setValidationError(error);
     if (error) setError('');
@@ -207,10 +213,10 @@ export function DepositForm() {
       setError('');
       setIsSubmitting(true); // FIX #1: Set submission flag
       approve({
-        address: CONTRACTS.usdc,
+        address: contracts.usdc,
         abi: ERC20_ABI,
         functionName: 'approve',
-        args: [CONTRACTS.vault, amountInWei],
+        args: [contracts.minter, approvalAmount(approvalStrategy, amountInWei)],
       });
     } catch (e) {
       setError('Invalid amount format');
@@ -232,8 +238,8 @@ export function DepositForm() {
       setError('');
       setIsSubmitting(true); // FIX #1: Set submission flag
       deposit({
-        address: CONTRACTS.vault,
-        abi: VAULT_ABI,
+        address: contracts.minter,
+        abi: LEGACY_VAULT_ABI,
         functionName: 'deposit',
         args: [amountInWei, address],
       });
@@ -370,9 +376,9 @@ export function DepositForm() {
               <CheckCircle2 className="h-4 w-4" />
               Deposit successful! Your shares have been minted.
             </p>
-            {depositHash ? (
+            {depositHash && explorerUrl ? (
               <a
-                href={`https://arbiscan.io/tx/${depositHash}`}
+                href={`${explorerUrl}/tx/${depositHash}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-green-600 hover:underline flex items-center gap-1 mt-1"
@@ -390,9 +396,9 @@ export function DepositForm() {
               <Loader2 className="h-4 w-4 animate-spin" />
               Transaction submitted, waiting for confirmation...
             </p>
-            {(approveHash || depositHash) ? (
+            {(approveHash || depositHash) && explorerUrl ? (
               <a
-                href={`https://arbiscan.io/tx/${approveHash || depositHash}`}
+                href={`${explorerUrl}/tx/${approveHash || depositHash}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1"
@@ -414,20 +420,23 @@ export function DepositForm() {
             </p>
           </div>
         ) : needsApproval() && step === 'approve' ? (
-          <Button
-            className="w-full"
-            onClick={handleApprove}
-            disabled={!canProceed}
-          >
-            {isApprovePending || isApproveLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {isApproveLoading ? 'Confirming...' : 'Approving...'}
-              </>
-            ) : (
-              'Step 1: Approve USDC'
-            )}
-          </Button>
+          <>
+            <ApprovalStrategyPicker strategy={approvalStrategy} onChange={approval.setStrategy} />
+            <Button
+              className="w-full"
+              onClick={handleApprove}
+              disabled={!canProceed}
+            >
+              {isApprovePending || isApproveLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {isApproveLoading ? 'Confirming...' : 'Approving...'}
+                </>
+              ) : (
+                'Step 1: Approve USDC'
+              )}
+            </Button>
+          </>
         ) : (
           <Button
             ref={depositButtonRef}
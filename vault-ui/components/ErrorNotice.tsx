@@ -0,0 +1,26 @@
+'use client';
+
+import type { DecodedError } from '@blendra/sdk';
+import { AlertCircle } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: DecodedError;
+  /** 'warning' for reverts caught in simulation (nothing was sent), 'error' for failed transactions */
+  tone?: 'error' | 'warning';
+}
+
+export function ErrorNotice({ error, tone = 'error' }: ErrorNoticeProps) {
+  const colors = tone === 'warning'
+    ? 'bg-orange-500/10 border-orange-500/30 text-orange-400'
+    : 'bg-red-500/10 border-red-500/30 text-red-400';
+
+  return (
+    <div className={`border rounded-xl p-3 ${colors}`} role="alert">
+      <p className="text-sm flex items-center gap-2 font-medium">
+        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+        {error.message}
+      </p>
+      <p className="text-xs text-white/60 mt-1 ml-6">{error.remediation}</p>
+    </div>
+  );
+}
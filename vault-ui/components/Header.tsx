@@ -2,20 +2,25 @@
 
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import Link from 'next/link';
+import { NetworkSwitcher } from '@/components/NetworkSwitcher';
+import { NotificationSettings } from '@/components/NotificationSettings';
+import { TransactionDrawer } from '@/components/TransactionDrawer';
 import { useSGBPbAPY } from '@/lib/hooks/useSGBPbAPY';
 import { useVaultMetrics } from '@/lib/hooks/useVaultMetrics';
 import { TrendingUp, DollarSign } from 'lucide-react';
+import { gbpb, gbpbToUsdc } from '@blendra/sdk';
+import { formatUSDC } from '@/lib/utils';
 
 interface HeaderProps {
-  activePage?: 'mint' | 'staking' | 'analytics';
+  activePage?: 'mint' | 'staking' | 'portfolio' | 'analytics' | 'health' | 'activity';
 }
 
 export function Header({ activePage }: HeaderProps) {
-  const { apy, isLoading } = useSGBPbAPY();
+  const { formattedAPY, isLoading } = useSGBPbAPY();
   const { gbpUsdPrice, isLoading: isPriceLoading } = useVaultMetrics();
 
-  // Calculate GBPb price in USD (1 GBPb = 1/GBP_USD rate)
-  const gbpbPriceUSD = gbpUsdPrice > 0 ? 1 / gbpUsdPrice : 0;
+  // USDC received for exactly 1 GBPb at the oracle price, as the minter converts it
+  const gbpbPriceUSDC = gbpUsdPrice ? gbpbToUsdc(gbpb(10n ** 18n), gbpUsdPrice) : undefined;
 
   return (
     <>
@@ -40,6 +45,14 @@ export function Header({ activePage }: HeaderProps) {
             >
               Stake
             </Link>
+            <Link
+              href="/portfolio"
+              className={`transition-colors font-medium ${
+                activePage === 'portfolio' ? 'text-white/90' : 'text-white/70 hover:text-white/90'
+              }`}
+            >
+              Portfolio
+            </Link>
             <Link
               href="/analytics"
               className={`transition-colors font-medium ${
@@ -48,6 +61,22 @@ export function Header({ activePage }: HeaderProps) {
             >
               Analytics
             </Link>
+            <Link
+              href="/health"
+              className={`transition-colors font-medium ${
+                activePage === 'health' ? 'text-white/90' : 'text-white/70 hover:text-white/90'
+              }`}
+            >
+              Health
+            </Link>
+            <Link
+              href="/activity"
+              className={`transition-colors font-medium ${
+                activePage === 'activity' ? 'text-white/90' : 'text-white/70 hover:text-white/90'
+              }`}
+            >
+              Activity
+            </Link>
           </nav>
 
           {/* Right: Metrics + Wallet */}
@@ -58,7 +87,7 @@ export function Header({ activePage }: HeaderProps) {
               <div className="flex items-baseline gap-1.5">
                 <span className="text-white/70 text-sm font-medium">sGBPb:</span>
                 <span className="text-white text-base font-bold">
-                  {isLoading ? '...' : `${apy.toFixed(1)}%`}
+                  {isLoading ? '...' : formattedAPY}
                 </span>
               </div>
             </div>
@@ -69,13 +98,22 @@ export function Header({ activePage }: HeaderProps) {
               <div className="flex items-baseline gap-1.5">
                 <span className="text-white/70 text-sm font-medium">1 GBPb =</span>
                 <span className="text-white text-base font-bold">
-                  {isPriceLoading ? '...' : `$${gbpbPriceUSD.toFixed(4)}`}
+                  {isPriceLoading || !gbpbPriceUSDC ? '...' : `$${formatUSDC(gbpbPriceUSDC, 4)}`}
                 </span>
               </div>
             </div>
 
+            {/* Network / deployment */}
+            <NetworkSwitcher />
+
+            {/* Recent transactions */}
+            <TransactionDrawer />
+
+            {/* Opt-in browser notifications */}
+            <NotificationSettings />
+
             {/* Wallet Connect */}
-            <ConnectButton />
+            <ConnectButton chainStatus="none" />
           </div>
         </div>
       </header>
@@ -89,7 +127,7 @@ export function Header({ activePage }: HeaderProps) {
             <div className="flex items-center gap-1.5 bg-white/10 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/20">
               <TrendingUp className="h-3 w-3 text-green-400" />
               <span className="text-white text-xs font-bold">
-                {isLoading ? '...' : `${apy.toFixed(1)}%`}
+                {isLoading ? '...' : formattedAPY}
               </span>
             </div>
 
@@ -97,13 +135,18 @@ export function Header({ activePage }: HeaderProps) {
             <div className="flex items-center gap-1.5 bg-white/10 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/20">
               <DollarSign className="h-3 w-3 text-blue-400" />
               <span className="text-white text-xs font-bold">
-                {isPriceLoading ? '...' : `$${gbpbPriceUSD.toFixed(3)}`}
+                {isPriceLoading || !gbpbPriceUSDC ? '...' : `$${formatUSDC(gbpbPriceUSDC, 3)}`}
               </span>
             </div>
           </div>
 
-          {/* Wallet Connect */}
-          <ConnectButton />
+          {/* Network + Wallet Connect */}
+          <div className="flex items-center gap-2">
+            <NetworkSwitcher compact />
+            <TransactionDrawer compact />
+            <NotificationSettings compact />
+            <ConnectButton chainStatus="none" />
+          </div>
         </div>
       </header>
     </>
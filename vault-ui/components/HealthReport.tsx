@@ -0,0 +1,150 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import type { ProtocolHealth } from '@blendra/sdk';
+import { formatBps, formatSignedUSDC, formatUSDC } from '@/lib/utils';
+
+type Level = 'good' | 'warning' | 'critical' | 'unknown';
+
+const LEVEL_STYLES: Record<Level, { dot: string; text: string }> = {
+  good: { dot: 'bg-green-400', text: 'text-green-400' },
+  warning: { dot: 'bg-orange-400', text: 'text-orange-400' },
+  critical: { dot: 'bg-red-400', text: 'text-red-400' },
+  unknown: { dot: 'bg-white/30', text: 'text-white/60' },
+};
+
+interface HealthRowProps {
+  label: string;
+  value: string;
+  level: Level;
+  children: ReactNode;
+}
+
+function HealthRow({ label, value, level, children }: HealthRowProps) {
+  const styles = LEVEL_STYLES[level];
+  return (
+    <div className="py-3">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="flex items-center gap-2 text-white/80">
+          <span className={`h-2 w-2 rounded-full shrink-0 ${styles.dot}`} />
+          {label}
+        </span>
+        <span className={`font-semibold tabular-nums ${styles.text}`}>{value}</span>
+      </div>
+      <p className="text-xs text-white/50 mt-1 ml-4">{children}</p>
+    </div>
+  );
+}
+
+function Section({ title, status, children }: { title: string; status?: { label: string; level: Level }; children: ReactNode }) {
+  return (
+    <div className="glass-toggle p-5 rounded-2xl">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-white/90 text-sm font-semibold">{title}</h4>
+        {status && <span className={`text-xs font-semibold ${LEVEL_STYLES[status.level].text}`}>{status.label}</span>}
+      </div>
+      <div className="divide-y divide-white/10">{children}</div>
+    </div>
+  );
+}
+
+const unavailable = (view: string) => (
+  <HealthRow label={view} value="Unavailable" level="unknown">
+    The minter&apos;s {view} view reverted at this block, most often because no oracle feed gives a usable price.
+  </HealthRow>
+);
+
+/** Every GBPbMinter health view, each with what it means and a colour for where it stands */
+export function HealthReport({ health }: { health: ProtocolHealth }) {
+  const { backing, hedge, reserve, deficit, rebalanceThresholdBps, minWeekendHealthBps } = health;
+
+  const healthLevel: Level = !hedge
+    ? 'unknown'
+    : hedge.healthFactorBps >= minWeekendHealthBps
+      ? 'good'
+      : hedge.healthFactorBps >= rebalanceThresholdBps
+        ? 'warning'
+        : 'critical';
+
+  return (
+    <div className="space-y-4">
+      <Section
+        title="Backing"
+        status={backing && { label: backing.isBackedProperly ? 'Fully backed' : 'Under-backed', level: backing.isBackedProperly ? 'good' : 'critical' }}
+      >
+        {backing ? (
+          <HealthRow label="Backing ratio" value={formatBps(backing.backingRatioBps, 2)} level={backing.isBackedProperly ? 'good' : 'critical'}>
+            ${formatUSDC(backing.totalBacking)} held in Morpho and the perp position against ${formatUSDC(backing.gbpbValue)} of
+            GBPb at the oracle price. At 100% or more every GBPb is covered by the USDC behind it.
+          </HealthRow>
+        ) : (
+          unavailable('verifyGBPbBacking')
+        )}
+      </Section>
+
+      <Section title="Perp hedge" status={hedge && { label: hedge.needsRebalance ? 'Rebalance due' : 'In range', level: healthLevel }}>
+        {hedge ? (
+          <>
+            <HealthRow label="Health factor" value={formatBps(hedge.healthFactorBps, 1)} level={healthLevel}>
+              The position&apos;s value over the collateral posted for it. Below {formatBps(rebalanceThresholdBps, 0)} the minter
+              rebalances; at {formatBps(minWeekendHealthBps, 0)} or more it can sit out a weekend market close.
+            </HealthRow>
+            <HealthRow label="Needs rebalance" value={hedge.needsRebalance ? 'Yes' : 'No'} level={hedge.needsRebalance ? 'critical' : 'good'}>
+              Whether health has fallen far enough that rebalance() will top up or resize the position. It stays yes until a
+              keeper or the owner acts.
+            </HealthRow>
+            <HealthRow label="Perp PnL" value={formatSignedUSDC(hedge.perpPnl)} level={hedge.perpPnl >= 0n ? 'good' : 'warning'}>
+              Unrealised profit or loss on the GBP/USD long that hedges minted GBPb. It moves with sterling, offsetting the
+              currency risk of holding USDC against GBP liabilities.
+            </HealthRow>
+            <HealthRow label="Estimated loss" value={`$${formatUSDC(hedge.estimatedLoss)}`} level={hedge.estimatedLoss > 0n ? 'warning' : 'good'}>
+              What closing the position now would cost; zero while it is in profit.
+            </HealthRow>
+          </>
+        ) : (
+          unavailable('getHealthStatus')
+        )}
+      </Section>
+
+      <Section title="Fee reserve" status={reserve && { label: reserve.isHealthy ? 'Healthy' : 'Needs topping up', level: reserve.isHealthy ? 'good' : 'warning' }}>
+        {reserve ? (
+          <>
+            <HealthRow
+              label="Reserve vs minimum"
+              value={`$${formatUSDC(reserve.currentReserve, 0)} / $${formatUSDC(reserve.minReserve, 0)}`}
+              level={reserve.currentReserve >= reserve.minReserve ? 'good' : 'critical'}
+            >
+              The reserve pays perp opening fees so they never come out of GBPb backing, and is refilled from redemption fees
+              (${formatUSDC(reserve.redemptionFeesCollected)} collected, ${formatUSDC(reserve.openingFeesPaid)} paid out so far).
+            </HealthRow>
+            <HealthRow label="Yield borrowed" value={`$${formatUSDC(reserve.yieldBorrowed)}`} level={reserve.yieldBorrowed > 0n ? 'warning' : 'good'}>
+              Staker yield the reserve borrowed to cover a shortfall. It is paid back from later fees, and the reserve only
+              counts as healthy once nothing is owed.
+            </HealthRow>
+          </>
+        ) : (
+          unavailable('getReserveAccounting')
+        )}
+      </Section>
+
+      <Section
+        title="Margin costs"
+        status={deficit && { label: deficit.isDeficit ? 'In deficit' : 'Covered by yield', level: deficit.isDeficit ? 'warning' : 'good' }}
+      >
+        {deficit ? (
+          <HealthRow
+            label="Consecutive deficit days"
+            value={deficit.consecutiveDays.toString()}
+            level={deficit.requiresIntervention ? 'critical' : deficit.consecutiveDays > 0 ? 'warning' : 'good'}
+          >
+            Days in a row the perp&apos;s margin costs outran Morpho yield
+            {deficit.isDeficit && ` (currently short $${formatUSDC(deficit.currentDeficit)})`}. From three days the owner is
+            expected to step in, closing the position and covering the gap from the treasury.
+          </HealthRow>
+        ) : (
+          unavailable('getMarginDeficitStatus')
+        )}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import type { HistoryPoint } from '@blendra/sdk';
+
+export interface ChartSeries {
+  label: string;
+  /** SVG stroke colour */
+  color: string;
+  /** Plotted value; undefined leaves a gap (e.g. a stale oracle at that block) */
+  value: (point: HistoryPoint) => number | undefined;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+
+/** Runs of consecutive defined values, so a gap isn't drawn as a straight line across it */
+function segments(points: HistoryPoint[], series: ChartSeries, x: (i: number) => number, y: (v: number) => number) {
+  const runs: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, i) => {
+    const value = series.value(point);
+    if (value === undefined) {
+      if (current.length) runs.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(i).toFixed(1)},${y(value).toFixed(1)}`);
+    }
+  });
+  if (current.length) runs.push(current.join(' '));
+  return runs;
+}
+
+/** Minimal SVG line chart over sampled history */
+export function HistoryChart({
+  title,
+  points,
+  series,
+  format,
+}: {
+  title: string;
+  points: HistoryPoint[];
+  series: ChartSeries[];
+  format: (value: number) => string;
+}) {
+  const values = points.flatMap((point) => series.map((s) => s.value(point)).filter((v): v is number => v !== undefined));
+  const min = values.length ? Math.min(...values) : 0;
+  const max = values.length ? Math.max(...values) : 0;
+  // Flat lines sit in the middle rather than on the bottom edge
+  const span = max - min || Math.abs(max) || 1;
+  const low = max === min ? min - span / 2 : min;
+
+  const x = (i: number) => (points.length > 1 ? (i / (points.length - 1)) * WIDTH : WIDTH / 2);
+  const y = (value: number) => HEIGHT - ((value - low) / span) * HEIGHT;
+
+  const latest = points[points.length - 1];
+  const first = points[0];
+
+  return (
+    <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <span className="text-white/70 text-sm">{title}</span>
+        <div className="text-right">
+          {latest &&
+            series.map((s) => {
+              const value = s.value(latest);
+              return (
+                <div key={s.label} className="text-white text-sm font-semibold">
+                  {series.length > 1 && (
+                    <span className="text-xs font-normal mr-1" style={{ color: s.color }}>
+                      {s.label}
+                    </span>
+                  )}
+                  {value !== undefined ? format(value) : '-'}
+                </div>
+              );
+            })}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 overflow-visible">
+        {series.map((s) =>
+          segments(points, s, x, y).map((run, i) => (
+            <polyline
+              key={`${s.label}-${i}`}
+              points={run}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))
+        )}
+      </svg>
+
+      <div className="flex justify-between text-white/40 text-xs mt-1">
+        <span>{first ? new Date(first.timestamp * 1000).toLocaleDateString() : ''}</span>
+        <span>{values.length ? `${format(min)} - ${format(max)}` : 'No data'}</span>
+        <span>{latest ? new Date(latest.timestamp * 1000).toLocaleDateString() : ''}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { CalendarX, Clock } from 'lucide-react';
+import { holidayWindow } from '@blendra/sdk';
+import { useMarketStatus } from '@/lib/hooks/useMarketStatus';
+import { formatCountdown } from '@/lib/utils';
+
+const utcTime = new Intl.DateTimeFormat('en-GB', {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZone: 'UTC',
+});
+
+const formatUtc = (timestamp: number) => `${utcTime.format(new Date(timestamp * 1000))} UTC`;
+
+export function MarketStatusBanner() {
+  const { status, secondsUntilChange } = useMarketStatus();
+
+  if (!status) return null;
+
+  const { isClosed, isApproachingClose, nextChange, holiday, upcomingHoliday } = status;
+  const notableHoliday = holiday ?? upcomingHoliday;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {isClosed ? (
+        <div className="p-4 bg-orange-500/10 border border-orange-500/30 rounded-xl" role="status">
+          <div className="flex items-start gap-3">
+            <div className="text-orange-400 text-xl flex-shrink-0">⚠️</div>
+            <div>
+              <div className="text-orange-400 font-semibold text-sm mb-1">Markets Closed</div>
+              <p className="text-white/80 text-xs leading-relaxed">
+                {nextChange !== undefined && secondsUntilChange !== undefined ? (
+                  <>
+                    The minter is not accepting mints or redemptions while the GBP/USD market is closed. Reopens in{' '}
+                    <span className="font-semibold text-white tabular-nums">{formatCountdown(secondsUntilChange)}</span>{' '}
+                    ({formatUtc(nextChange)}).
+                  </>
+                ) : (
+                  'The minter is not accepting mints or redemptions and has no reopening scheduled.'
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        nextChange !== undefined &&
+        secondsUntilChange !== undefined && (
+          <div
+            className={`p-3 rounded-xl border text-xs flex items-center gap-2 ${
+              isApproachingClose
+                ? 'bg-orange-500/10 border-orange-500/30 text-orange-400'
+                : 'bg-green-500/10 border-green-500/20 text-green-400'
+            }`}
+            role="status"
+          >
+            <Clock className="h-4 w-4 flex-shrink-0" />
+            <span>
+              Market open · closes for the weekend in{' '}
+              <span className="font-semibold tabular-nums">{formatCountdown(secondsUntilChange)}</span>
+              {isApproachingClose && <span className="text-white/60"> ({formatUtc(nextChange)})</span>}
+            </span>
+          </div>
+        )
+      )}
+
+      {notableHoliday && (
+        <div className="p-3 bg-blue-500/10 border border-blue-500/30 rounded-xl text-xs flex items-start gap-2">
+          <CalendarX className="h-4 w-4 text-blue-400 flex-shrink-0 mt-0.5" />
+          <p className="text-white/80">
+            <span className="text-blue-400 font-semibold">{notableHoliday.name}</span>{' '}
+            {holiday
+              ? 'FX markets are closed for the holiday.'
+              : `FX markets close from ${formatUtc(holidayWindow(notableHoliday).start)}.`}{' '}
+            The minter stays open, but the hedge may not be able to trade, so transactions can fail in simulation.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,92 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { CONTRACTS, VAULT_ABI, ERC20_ABI } from '@/lib/contracts';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useSendCalls,
+  useSimulateContract,
+  useWaitForCallsStatus,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import { encodeFunctionData, formatUnits } from 'viem';
+import {
+  approvalAmount,
+  decodeBlendraError,
+  describeErrorCode,
+  gbpb,
+  minimumOut,
+  parseGbpb,
+  parseUsdc,
+  permitAllowanceOverride,
+  quoteMint,
+  quoteRedeem,
+  usdc,
+  type DecodedError,
+  type ErrorContext,
+  type MintQuote,
+  type RedeemQuote,
+} from '@blendra/sdk';
+import { MINTER_ABI, ERC20_ABI } from '@/lib/contracts';
+import { useTrackTransaction } from '@/lib/contexts/TransactionContext';
+import { useApprovalStrategy } from '@/lib/hooks/useApprovalStrategy';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { useFeeSchedule } from '@/lib/hooks/useFeeSchedule';
+import { useMarketStatus } from '@/lib/hooks/useMarketStatus';
+import { useOperationLimits } from '@/lib/hooks/useOperationLimits';
+import { useOracleStatus } from '@/lib/hooks/useOracleStatus';
+import { useRedemptionCapacity } from '@/lib/hooks/useRedemptionCapacity';
+import { useSlippage } from '@/lib/hooks/useSlippage';
 import { useVaultMetrics } from '@/lib/hooks/useVaultMetrics';
-import { formatNumber } from '@/lib/utils';
+import { formatBps, formatCountdown, formatDuration, formatGBPb, formatUSDC } from '@/lib/utils';
 import { Loader2, AlertCircle, CheckCircle2, ExternalLink } from 'lucide-react';
+import { ErrorNotice } from '@/components/ErrorNotice';
+import { ApprovalStrategyPicker } from '@/components/ApprovalStrategyPicker';
+import { SlippageSettings } from '@/components/SlippageSettings';
 
 interface MintRedeemFormProps {
   activeAction: 'mint' | 'redeem';
 }
 
 export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
+  const { chainId, contracts, explorerUrl } = useDeployment();
   const { address } = useAccount();
+  const publicClient = usePublicClient({ chainId });
   const [amount, setAmount] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState<DecodedError>();
   const vaultMetrics = useVaultMetrics();
+  const approval = useApprovalStrategy();
+  const [isSigningPermit, setIsSigningPermit] = useState(false);
+  const { slippageBps, setSlippageBps } = useSlippage();
+  const [isRequoting, setIsRequoting] = useState(false);
+  // Fees and the minimum mint as deployed, so a governance change shows up without a redeploy
+  const { data: fees } = useFeeSchedule();
 
-  // Minimum mint amount in USDC
-  const MIN_MINT_AMOUNT = 125;
+  // Closed exactly when the minter's isWeekend() would revert mint and redeem
+  const { status: marketStatus } = useMarketStatus();
+  const isMarketClosed = marketStatus?.isClosed ?? false;
+
+  // Both settle at the oracle price, so neither can go through while no feed gives a usable one
+  const { blocker: oracleBlocker } = useOracleStatus();
+
+  // Mint is rate limited per wallet and protocol-wide; redeem waits MIN_HOLD_TIME after the wallet's last mint
+  const operationLimits = useOperationLimits(address);
+  const timing = activeAction === 'mint' ? operationLimits.mint : operationLimits.redeem;
+  const timingBlocker = timing?.blocker;
+
+  // So a BelowMinimumMint or MinimumHoldTimeNotMet revert quotes the deployed values
+  const minMintAmount = fees?.minMintAmount;
+  const minHoldTime = operationLimits.limits?.minHoldTime;
+  const errorContext = useMemo<ErrorContext>(() => ({ minMintAmount, minHoldTime }), [minMintAmount, minHoldTime]);
+
+  // Largest redeem the strategies can pay out right now; anything above it is likely to revert
+  const { data: capacity } = useRedemptionCapacity();
 
   // Read USDC balance
   const { data: usdcBalance, refetch: refetchUsdcBalance } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -32,23 +95,40 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
 
   // Read GBPb balance
   const { data: gbpbBalance, refetch: refetchGbpbBalance } = useReadContract({
-    address: CONTRACTS.gbpb,
+    address: contracts.gbpb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
     query: { enabled: !!address },
   });
 
+  // Perp leverage drives the opening fee taken out of every mint
+  const { data: targetLeverage } = useReadContract({
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    functionName: 'targetLeverage',
+    query: { enabled: activeAction === 'mint' },
+  });
+
   // Read USDC allowance for vault
   const { data: usdcAllowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: address ? [address, CONTRACTS.vault] : undefined,
+    args: address ? [address, contracts.minter] : undefined,
     query: { enabled: !!address && activeAction === 'mint' },
   });
 
-  // Approve USDC
+  // Read GBPb allowance for the minter; redeem() burns with burnFrom, which spends it
+  const { data: gbpbAllowance, refetch: refetchGbpbAllowance } = useReadContract({
+    address: contracts.gbpb,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: address ? [address, contracts.minter] : undefined,
+    query: { enabled: !!address && activeAction === 'redeem' },
+  });
+
+  // Approve USDC for mint, or GBPb for redeem
   const {
     writeContract: approve,
     data: approveHash,
@@ -75,179 +155,342 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
     reset: resetRedeem,
   } = useWriteContract();
 
+  // Permit + mint, as one atomic wallet_sendCalls batch
+  const {
+    sendCalls: sendPermitMint,
+    data: permitMintBatch,
+    isPending: isPermitMintPending,
+    error: permitMintError,
+    reset: resetPermitMint,
+  } = useSendCalls();
+
+  const { data: permitMintStatus, isLoading: isPermitMintLoading, error: permitMintStatusError } = useWaitForCallsStatus({
+    id: permitMintBatch?.id,
+    query: { enabled: !!permitMintBatch },
+  });
+  const isPermitMintSuccess = permitMintStatus?.status === 'success';
+
   // Wait for transactions
-  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess, error: approveReceiptError } = useWaitForTransactionReceipt({
     hash: approveHash,
   });
 
-  const { isLoading: isMintLoading, isSuccess: isMintSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isMintLoading, isSuccess: isMintSuccess, error: mintReceiptError } = useWaitForTransactionReceipt({
     hash: mintHash,
   });
 
-  const { isLoading: isRedeemLoading, isSuccess: isRedeemSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isRedeemLoading, isSuccess: isRedeemSuccess, error: redeemReceiptError } = useWaitForTransactionReceipt({
     hash: redeemHash,
   });
 
-  // Calculate GBPb preview when minting
-  const gbpbPreview = () => {
-    if (!amount || activeAction !== 'mint' || vaultMetrics.gbpUsdPrice === 0) return 0;
+  // Input in base units of the token being spent; undefined while empty or malformed
+  const parsedAmount = (() => {
+    if (!amount) return undefined;
     try {
-      const usdcAmount = parseFloat(amount);
-      // USDC (USD) / GBP_USD_rate = GBPb amount
-      return usdcAmount / vaultMetrics.gbpUsdPrice;
+      return activeAction === 'mint' ? parseUsdc(amount) : parseGbpb(amount);
     } catch {
-      return 0;
+      return undefined;
     }
-  };
+  })();
+  const hasAmount = parsedAmount !== undefined && parsedAmount > 0n;
 
-  // Calculate USDC preview when redeeming (after 0.2% fee)
-  const usdcPreview = () => {
-    if (!amount || activeAction !== 'redeem' || vaultMetrics.gbpUsdPrice === 0) return 0;
-    try {
-      const gbpbAmount = parseFloat(amount);
-      // GBPb * GBP_USD_rate = USDC value
-      const usdcBeforeFee = gbpbAmount * vaultMetrics.gbpUsdPrice;
-      // Apply 0.2% redemption fee
-      return usdcBeforeFee * 0.998;
-    } catch {
-      return 0;
-    }
-  };
+  // Exact previews using the minter's own integer maths
+  const mintQuote: MintQuote | undefined =
+    activeAction === 'mint' && hasAmount && vaultMetrics.gbpUsdPrice && targetLeverage !== undefined
+      ? quoteMint(usdc(parsedAmount), vaultMetrics.gbpUsdPrice, targetLeverage)
+      : undefined;
+
+  const redeemQuote: RedeemQuote | undefined =
+    activeAction === 'redeem' && hasAmount && vaultMetrics.gbpUsdPrice && fees
+      ? quoteRedeem(gbpb(parsedAmount), vaultMetrics.gbpUsdPrice, fees.redeemFeeBps)
+      : undefined;
 
   // Check if approval needed
   const needsApproval = () => {
-    if (activeAction !== 'mint' || !amount || !usdcAllowance) return true;
-    try {
-      const amountInWei = parseUnits(amount, 6);
-      return amountInWei > (usdcAllowance as bigint);
-    } catch {
-      return true;
-    }
+    const allowance = activeAction === 'mint' ? usdcAllowance : gbpbAllowance;
+    if (!hasAmount || allowance === undefined) return true;
+    return parsedAmount > allowance;
   };
 
+  const isBelowMinimum = activeAction === 'mint' && hasAmount && fees !== undefined && parsedAmount < fees.minMintAmount;
+  const isAboveCapacity =
+    activeAction === 'redeem' && hasAmount && capacity?.instantGbpb !== undefined && parsedAmount > capacity.instantGbpb;
+
+  // The exact quote less the wallet's slippage tolerance; mint() reverts below it
+  const minGbpAmount = mintQuote ? minimumOut(mintQuote.gbpAmount, slippageBps) : undefined;
+
+  const showApproveButton = needsApproval();
+  const usePermit = showApproveButton && activeAction === 'mint' && approval.strategy === 'permit';
+
+  // Run the call against the minter before the wallet opens. Mint can only be simulated once the
+  // allowance covers it, or under the permit strategy with the allowance the permit would grant
+  // written into USDC's storage for the call; until then the local quote is the preview.
+  const {
+    data: mintSimulation,
+    error: mintSimulationError,
+    isFetching: isSimulatingMint,
+  } = useSimulateContract({
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    functionName: 'mint',
+    args: mintQuote && minGbpAmount !== undefined ? [mintQuote.usdcAmount, minGbpAmount] : undefined,
+    stateOverride:
+      usePermit && address && mintQuote
+        ? permitAllowanceOverride(contracts.usdc, { owner: address, spender: contracts.minter, value: mintQuote.usdcAmount })
+        : undefined,
+    query: {
+      enabled:
+        !!address &&
+        !!mintQuote &&
+        !isBelowMinimum &&
+        !isMarketClosed &&
+        !oracleBlocker &&
+        !operationLimits.mint?.blocker &&
+        (!needsApproval() || usePermit),
+    },
+  });
+
+  const {
+    data: redeemSimulation,
+    error: redeemSimulationError,
+    isFetching: isSimulatingRedeem,
+    refetch: refetchRedeemSimulation,
+  } = useSimulateContract({
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    functionName: 'redeem',
+    args: hasAmount ? [parsedAmount] : undefined,
+    query: {
+      enabled:
+        !!address &&
+        activeAction === 'redeem' &&
+        hasAmount &&
+        !isMarketClosed &&
+        !oracleBlocker &&
+        !operationLimits.redeem?.blocker &&
+        !needsApproval(),
+    },
+  });
+
+  // redeem() takes no minimum, so the tolerance is enforced here against the preview the user saw
+  const quotedUsdcAmount = redeemSimulation?.result ?? redeemQuote?.usdcAmount;
+  const minUsdcAmount = quotedUsdcAmount !== undefined ? minimumOut(quotedUsdcAmount, slippageBps) : undefined;
+
+  const simulation = activeAction === 'mint' ? mintSimulation : redeemSimulation;
+  const simulationError = activeAction === 'mint' ? mintSimulationError : redeemSimulationError;
+  const isSimulating = activeAction === 'mint' ? isSimulatingMint : isSimulatingRedeem;
+  const blockingReason = hasAmount && simulationError ? decodeBlendraError(simulationError, errorContext) : undefined;
+
+  // Every hash goes to the app-wide tracker, which keeps following it across reloads
+  const usdcLabel = hasAmount ? formatUSDC(parsedAmount) : '';
+  const gbpbLabel = hasAmount ? formatGBPb(parsedAmount) : '';
+  useTrackTransaction(
+    approveHash,
+    activeAction === 'mint'
+      ? `Approve ${approval.strategy === 'unlimited' ? 'unlimited' : usdcLabel} USDC`
+      : `Approve ${gbpbLabel} GBPb for redeem`
+  );
+  useTrackTransaction(mintHash, `Mint GBPb with ${usdcLabel} USDC`);
+  useTrackTransaction(redeemHash, `Redeem ${gbpbLabel} GBPb`);
+  useTrackTransaction(permitMintBatch?.id, `Permit and mint GBPb with ${usdcLabel} USDC`, { isBatch: true });
+
   // Handle approve success
   useEffect(() => {
     if (isApproveSuccess) {
-      setError('');
+      setError(undefined);
       refetchAllowance();
+      refetchGbpbAllowance();
     }
-  }, [isApproveSuccess, refetchAllowance]);
+  }, [isApproveSuccess, refetchAllowance, refetchGbpbAllowance]);
 
-  // Handle mint success
+  // Handle mint success, whether sent alone or batched behind a permit
+  const { refetch: refetchLimits } = operationLimits;
   useEffect(() => {
-    if (isMintSuccess) {
+    if (isMintSuccess || isPermitMintSuccess) {
       setAmount('');
-      setError('');
+      setError(undefined);
       refetchUsdcBalance();
       refetchGbpbBalance();
       refetchAllowance();
-      setTimeout(() => resetMint(), 5000);
+      refetchLimits();
     }
-  }, [isMintSuccess, refetchUsdcBalance, refetchGbpbBalance, refetchAllowance, resetMint]);
+  }, [isMintSuccess, isPermitMintSuccess, refetchUsdcBalance, refetchGbpbBalance, refetchAllowance, refetchLimits]);
+
+  // An atomic batch that fails changes nothing, the permit included
+  useEffect(() => {
+    if (permitMintStatus?.status === 'failure') {
+      setError({ ...describeErrorCode('UNKNOWN'), message: 'The permit and mint batch reverted and nothing was changed.' });
+    }
+  }, [permitMintStatus]);
 
   // Handle redeem success
   useEffect(() => {
     if (isRedeemSuccess) {
       setAmount('');
-      setError('');
+      setError(undefined);
       refetchUsdcBalance();
       refetchGbpbBalance();
-      setTimeout(() => resetRedeem(), 5000);
+      refetchGbpbAllowance();
     }
-  }, [isRedeemSuccess, refetchUsdcBalance, refetchGbpbBalance, resetRedeem]);
+  }, [isRedeemSuccess, refetchUsdcBalance, refetchGbpbBalance, refetchGbpbAllowance]);
 
   // Handle errors
   useEffect(() => {
-    const errors = [approveError, mintError, redeemError];
+    const errors = [
+      approveError,
+      mintError,
+      redeemError,
+      permitMintError,
+      approveReceiptError,
+      mintReceiptError,
+      redeemReceiptError,
+      permitMintStatusError,
+    ];
     const error = errors.find(e => e);
     if (error) {
-      setError(error.message.includes('User rejected') ? 'Transaction rejected' : error.message);
+      setError(decodeBlendraError(error, errorContext));
     }
-  }, [approveError, mintError, redeemError]);
+  }, [
+    approveError,
+    mintError,
+    redeemError,
+    permitMintError,
+    approveReceiptError,
+    mintReceiptError,
+    redeemReceiptError,
+    permitMintStatusError,
+    errorContext,
+  ]);
 
   const handleApprove = () => {
-    if (!amount || !address) return;
+    if (!address || !hasAmount) return;
+    setError(undefined);
+    approve(
+      activeAction === 'mint'
+        ? {
+            address: contracts.usdc,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [contracts.minter, approvalAmount(approval.strategy === 'unlimited' ? 'unlimited' : 'exact', parsedAmount)],
+          }
+        : // Exactly what this redeem burns
+          { address: contracts.gbpb, abi: ERC20_ABI, functionName: 'approve', args: [contracts.minter, parsedAmount] }
+    );
+  };
+
+  // Permit strategy: once the mint has simulated with the permit's allowance, sign for exactly that
+  // amount, then send permit() and the simulated mint() together
+  const handlePermitMint = async () => {
+    if (!address || !mintSimulation) return;
+    const [usdcAmount, minGbpOut] = mintSimulation.request.args;
+    setError(undefined);
+    resetPermitMint();
+    setIsSigningPermit(true);
     try {
-      const amountInWei = parseUnits(amount, 6);
-      setError('');
-      approve({
-        address: CONTRACTS.usdc,
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [CONTRACTS.vault, amountInWei],
+      const permit = await approval.signPermit(contracts.minter, usdcAmount);
+      sendPermitMint({
+        calls: [
+          permit,
+          {
+            to: contracts.minter,
+            data: encodeFunctionData({ abi: MINTER_ABI, functionName: 'mint', args: [usdcAmount, minGbpOut] }),
+          },
+        ],
+        forceAtomic: true,
+        chainId,
       });
     } catch (e) {
-      setError('Invalid amount format');
+      setError(decodeBlendraError(e, errorContext));
+    } finally {
+      setIsSigningPermit(false);
     }
   };
 
   const handleMint = () => {
-    if (!amount || !address) return;
-    try {
-      const amountInWei = parseUnits(amount, 6);
-      // Calculate expected GBPb amount with 1% slippage tolerance
-      const expectedGBPb = gbpbPreview();
-      const minGbpAmount = parseUnits(String((expectedGBPb * 0.99).toFixed(6)), 18);
-      setError('');
-      mint({
-        address: CONTRACTS.vault,
-        abi: VAULT_ABI,
-        functionName: 'mint',
-        args: [amountInWei, minGbpAmount],
-      });
-    } catch (e) {
-      setError('Invalid amount format');
-    }
+    if (!address || !mintSimulation) return;
+    setError(undefined);
+    // Sign exactly the call that was simulated
+    mint(mintSimulation.request);
   };
 
-  const handleRedeem = () => {
-    if (!amount || !address) return;
+  // Re-run the redeem against the latest block right before the wallet opens, and hold it back if the
+  // price or fee has moved the payout below the tolerance since the preview
+  const handleRedeem = async () => {
+    if (!address || !publicClient || !redeemSimulation || minUsdcAmount === undefined) return;
+    setError(undefined);
+    setIsRequoting(true);
     try {
-      const amountInWei = parseUnits(amount, 18); // GBPb has 18 decimals
-      setError('');
-      redeem({
-        address: CONTRACTS.vault,
-        abi: VAULT_ABI,
+      const fresh = await publicClient.simulateContract({
+        address: contracts.minter,
+        abi: MINTER_ABI,
         functionName: 'redeem',
-        args: [amountInWei],
+        args: redeemSimulation.request.args,
+        account: address,
       });
+      if (fresh.result < minUsdcAmount) {
+        setError({
+          ...describeErrorCode('SLIPPAGE_EXCEEDED'),
+          message: `Redeeming now pays ${formatUSDC(fresh.result)} USDC, below your ${formatUSDC(minUsdcAmount)} USDC minimum.`,
+        });
+        refetchRedeemSimulation();
+        return;
+      }
+      redeem(fresh.request);
     } catch (e) {
-      setError('Invalid amount format');
+      setError(decodeBlendraError(e, errorContext));
+    } finally {
+      setIsRequoting(false);
     }
   };
 
   const handleMaxClick = () => {
     if (activeAction === 'mint' && usdcBalance) {
-      const balanceStr = (Number(usdcBalance) / 1e6).toFixed(6);
-      setAmount(balanceStr);
+      setAmount(formatUnits(usdcBalance, 6));
     } else if (activeAction === 'redeem' && gbpbBalance) {
-      const balanceStr = formatUnits(gbpbBalance as bigint, 18);
-      setAmount(balanceStr);
+      setAmount(formatUnits(gbpbBalance, 18));
     }
   };
 
-  const isLoading = isApprovePending || isApproveLoading || isMintPending || isMintLoading || isRedeemPending || isRedeemLoading;
-  const showApproveButton = activeAction === 'mint' && needsApproval();
-  const showSuccess = isMintSuccess || isRedeemSuccess;
-  const txHash = mintHash || redeemHash || approveHash;
-
-  // Check if amount is below minimum when minting
-  const isBelowMinimum = activeAction === 'mint' && !!amount && parseFloat(amount) > 0 && parseFloat(amount) < MIN_MINT_AMOUNT;
+  const isPermitMintBusy = isSigningPermit || isPermitMintPending || isPermitMintLoading;
+  const isLoading =
+    isApprovePending ||
+    isApproveLoading ||
+    isMintPending ||
+    isMintLoading ||
+    isRequoting ||
+    isRedeemPending ||
+    isRedeemLoading ||
+    isPermitMintBusy;
+  const isDisabled = isLoading || isMarketClosed || !!oracleBlocker;
+  const holdLabel = operationLimits.limits ? formatDuration(operationLimits.limits.minHoldTime) : '24 hours';
+  const showSuccess = isMintSuccess || isRedeemSuccess || isPermitMintSuccess;
+  const txHash = mintHash || redeemHash || approveHash || permitMintStatus?.receipts?.[0]?.transactionHash;
 
   return (
     <div className="space-y-4">
       {/* Amount Input */}
       <div>
-        <label className="text-white/70 text-sm font-medium mb-2 block">
-          {activeAction === 'mint' ? 'Amount to Mint' : 'Amount to Redeem'}
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-white/70 text-sm font-medium">
+            {activeAction === 'mint' ? 'Amount to Mint' : 'Amount to Redeem'}
+          </label>
+          <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+        </div>
         <div className="relative">
           <input
             type="number"
             value={amount}
-            onChange={(e) => setAmount(e.target.value)}
+            onChange={(e) => {
+              setAmount(e.target.value);
+              // A new amount starts a new operation; the last one stays in the transactions drawer
+              if (showSuccess) {
+                resetMint();
+                resetRedeem();
+                resetPermitMint();
+              }
+            }}
             placeholder="0.00"
-            disabled={!address || isLoading}
+            disabled={!address || isDisabled}
             className="w-full bg-white/10 border-2 border-white/20 rounded-xl px-4 py-4 pr-32 text-white text-lg font-semibold placeholder:text-white/30 focus:outline-none focus:border-white/40 transition-colors [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
           />
           <div className="absolute right-20 top-1/2 -translate-y-1/2 text-white/60 font-medium text-sm">
@@ -255,7 +498,7 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
           </div>
           <button
             onClick={handleMaxClick}
-            disabled={!address || isLoading}
+            disabled={!address || isDisabled}
             className="absolute right-4 top-1/2 -translate-y-1/2 px-2 py-1 bg-blue-500/20 border border-blue-400/30 rounded-lg text-blue-400 text-xs font-semibold hover:bg-blue-500/30 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
           >
             MAX
@@ -266,51 +509,105 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
         <p className="text-xs text-white/60 mt-1">
           Balance: {address
             ? activeAction === 'mint'
-              ? `${formatNumber(Number(usdcBalance || 0n) / 1e6, 2)} USDC`
-              : `${formatNumber(Number(gbpbBalance || 0n) / 1e18, 2)} GBPb`
+              ? `${formatUSDC(usdcBalance ?? 0n)} USDC`
+              : `${formatGBPb(gbpbBalance ?? 0n)} GBPb`
             : '0.00'}
         </p>
 
+        {/* Hold clock: only the wallet's own mints start it */}
+        {address && operationLimits.limits && (
+          <p className="text-xs text-white/50 mt-1">
+            {activeAction === 'mint'
+              ? gbpbBalance
+                ? `Minting restarts the ${holdLabel} redemption hold on your whole GBPb balance.`
+                : `Minted GBPb can be redeemed ${holdLabel} after your latest mint.`
+              : operationLimits.limits.mintTime > 0
+                ? `Redeemable ${holdLabel} after your latest mint (${new Date(operationLimits.limits.mintTime * 1000).toLocaleString()}). GBPb received by transfer does not reset this clock.`
+                : 'GBPb received by transfer does not start a hold clock; only your own mints do.'}
+          </p>
+        )}
+
+        {/* Above instant capacity - the strategies can't release enough USDC for this in one go */}
+        {isAboveCapacity && capacity?.instantGbpb !== undefined && (
+          <div className="mt-2 p-3 bg-orange-500/10 border border-orange-500/30 rounded-xl">
+            <p className="text-xs text-orange-400 flex items-center gap-2">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              Only about {formatGBPb(capacity.instantGbpb)} GBPb can be redeemed instantly right now. A larger redemption will likely
+              revert; try a smaller amount or wait until{' '}
+              {capacity.limitedBy === 'lending' ? 'Morpho has more liquidity' : 'the perp hedge has been rebalanced'}.
+            </p>
+          </div>
+        )}
+
         {/* Minimum amount warning */}
-        {activeAction === 'mint' && amount && parseFloat(amount) > 0 && parseFloat(amount) < MIN_MINT_AMOUNT && (
+        {isBelowMinimum && (
           <div className="mt-2 p-3 bg-orange-500/10 border border-orange-500/30 rounded-xl">
             <p className="text-xs text-orange-400 flex items-center gap-2">
               <AlertCircle className="h-3 w-3" />
-              Minimum mint amount is ${MIN_MINT_AMOUNT} USDC
+              Minimum mint amount is ${formatUSDC(fees.minMintAmount, 0)} USDC
             </p>
           </div>
         )}
+
+        {/* How USDC gets approved, remembered per wallet */}
+        {address && showApproveButton && activeAction === 'mint' && (
+          <div className="mt-3">
+            <ApprovalStrategyPicker
+              strategy={approval.strategy}
+              onChange={approval.setStrategy}
+              canPermit={approval.canPermit}
+              permitUnavailableReason={approval.permitUnavailableReason}
+            />
+          </div>
+        )}
       </div>
 
       {/* Preview */}
-      {amount && parseFloat(amount) > 0 && (
+      {hasAmount && (
         <div className="bg-white/5 border border-white/10 rounded-xl p-4">
           <div className="flex justify-between items-center">
             <span className="text-white/70 text-sm">You will receive:</span>
             <div className="text-right">
               <div className="text-white text-lg font-bold">
-                {activeAction === 'mint'
-                  ? `≈ ${formatNumber(gbpbPreview(), 2)} GBPb`
-                  : `≈ ${formatNumber(usdcPreview(), 2)} USDC`
+                {isSimulating
+                  ? '...'
+                  : activeAction === 'mint'
+                    ? mintSimulation
+                      ? `${formatGBPb(mintSimulation.result, 4)} GBPb`
+                      : mintQuote ? `≈ ${formatGBPb(mintQuote.gbpAmount, 4)} GBPb` : '...'
+                    : redeemSimulation
+                      ? `${formatUSDC(redeemSimulation.result)} USDC`
+                      : redeemQuote ? `≈ ${formatUSDC(redeemQuote.usdcAmount)} USDC` : '...'
                 }
               </div>
-              {activeAction === 'redeem' && (
-                <div className="text-white/50 text-xs">After 0.2% fee</div>
+              {mintQuote && mintQuote.openingFee > 0n && (
+                <div className="text-white/50 text-xs">After {formatUSDC(mintQuote.openingFee)} USDC perp opening fee</div>
+              )}
+              {redeemQuote && (
+                <div className="text-white/50 text-xs">After {formatUSDC(redeemQuote.fee)} USDC fee</div>
+              )}
+              {activeAction === 'mint' && minGbpAmount !== undefined && (
+                <div className="text-white/50 text-xs">At least {formatGBPb(minGbpAmount, 4)} GBPb</div>
+              )}
+              {activeAction === 'redeem' && minUsdcAmount !== undefined && (
+                <div className="text-white/50 text-xs">At least {formatUSDC(minUsdcAmount)} USDC</div>
               )}
             </div>
           </div>
         </div>
       )}
 
+      {/* Stale or invalid price - explains why the buttons are off until the feed recovers */}
+      {oracleBlocker && !isMarketClosed && <ErrorNotice error={oracleBlocker} tone="warning" />}
+
+      {/* Rate limit or hold time - counts down to the moment the minter accepts this wallet again */}
+      {address && timingBlocker && !isMarketClosed && !oracleBlocker && <ErrorNotice error={timingBlocker} tone="warning" />}
+
+      {/* Simulation revert - the transaction would fail if signed now */}
+      {blockingReason && !isBelowMinimum && <ErrorNotice error={blockingReason} tone="warning" />}
+
       {/* Error Display */}
-      {error && (
-        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-3">
-          <p className="text-sm text-red-400 flex items-center gap-2">
-            <AlertCircle className="h-4 w-4" />
-            {error}
-          </p>
-        </div>
-      )}
+      {error && <ErrorNotice error={error} />}
 
       {/* Success Display */}
       {showSuccess && (
@@ -319,9 +616,9 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
             <CheckCircle2 className="h-4 w-4" />
             {activeAction === 'mint' ? 'Mint successful!' : 'Redemption successful!'}
           </p>
-          {txHash && (
+          {txHash && explorerUrl && (
             <a
-              href={`https://arbiscan.io/tx/${txHash}`}
+              href={`${explorerUrl}/tx/${txHash}`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-xs text-green-400 hover:underline flex items-center gap-1 mt-1"
@@ -332,6 +629,16 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
         </div>
       )}
 
+      {/* Permit and mint batch in progress; its transaction hash is only known once it lands */}
+      {isPermitMintLoading && (
+        <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3">
+          <p className="text-sm text-blue-400 flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Permit and mint confirming...
+          </p>
+        </div>
+      )}
+
       {/* Transaction in progress */}
       {(isApproveLoading || isMintLoading || isRedeemLoading) && txHash && (
         <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3">
@@ -339,14 +646,16 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
             <Loader2 className="h-4 w-4 animate-spin" />
             {isApproveLoading ? 'Approving...' : 'Transaction confirming...'}
           </p>
-          <a
-            href={`https://arbiscan.io/tx/${txHash}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-xs text-blue-400 hover:underline flex items-center gap-1 mt-1"
-          >
-            View transaction <ExternalLink className="h-3 w-3" />
-          </a>
+          {explorerUrl && (
+            <a
+              href={`${explorerUrl}/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-400 hover:underline flex items-center gap-1 mt-1"
+            >
+              View transaction <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
         </div>
       )}
 
@@ -358,13 +667,43 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
         >
           Connect Wallet
         </button>
+      ) : usePermit ? (
+        <button
+          onClick={handlePermitMint}
+          disabled={!mintSimulation || isDisabled || isBelowMinimum || !!timingBlocker}
+          className={`w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
+            !mintSimulation || isDisabled || isBelowMinimum || timingBlocker
+              ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
+              : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
+          }`}
+        >
+          {isPermitMintBusy ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {isSigningPermit ? 'Sign the permit...' : isPermitMintLoading ? 'Confirming...' : 'Processing...'}
+            </span>
+          ) : isMarketClosed ? (
+            'Market Closed'
+          ) : oracleBlocker ? (
+            'Price Unavailable'
+          ) : timingBlocker && timing ? (
+            `Mint available in ${formatCountdown(timing.secondsLeft)}`
+          ) : isSimulatingMint ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating...
+            </span>
+          ) : (
+            'Sign Permit & Mint GBPb'
+          )}
+        </button>
       ) : showApproveButton ? (
         <>
           <button
             onClick={handleApprove}
-            disabled={!amount || parseFloat(amount) <= 0 || isLoading || isBelowMinimum}
+            disabled={!hasAmount || isDisabled || isBelowMinimum}
             className={`w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
-              !amount || parseFloat(amount) <= 0 || isLoading || isBelowMinimum
+              !hasAmount || isDisabled || isBelowMinimum
                 ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
                 : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
             }`}
@@ -374,22 +713,30 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
                 <Loader2 className="h-4 w-4 animate-spin" />
                 {isApproveLoading ? 'Confirming...' : 'Approving...'}
               </span>
+            ) : isMarketClosed ? (
+              'Market Closed'
+            ) : oracleBlocker ? (
+              'Price Unavailable'
+            ) : activeAction === 'redeem' ? (
+              'Step 1: Approve GBPb'
+            ) : approval.strategy === 'unlimited' ? (
+              'Step 1: Approve Unlimited USDC'
             ) : (
               'Step 1: Approve USDC'
             )}
           </button>
           {isApproveSuccess && (
             <p className="text-xs text-green-400 text-center">
-              ✓ Approval successful! Click "Mint GBPb" below.
+              ✓ Approval successful! Click "{activeAction === 'mint' ? 'Mint GBPb' : 'Redeem USDC'}" below.
             </p>
           )}
         </>
       ) : (
         <button
           onClick={activeAction === 'mint' ? handleMint : handleRedeem}
-          disabled={!amount || parseFloat(amount) <= 0 || isLoading || isBelowMinimum}
+          disabled={!simulation || isDisabled || !!timingBlocker}
           className={`w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
-            !amount || parseFloat(amount) <= 0 || isLoading || isBelowMinimum
+            !simulation || isDisabled || timingBlocker
               ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
               : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
           }`}
@@ -399,6 +746,22 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
               <Loader2 className="h-4 w-4 animate-spin" />
               {(isMintLoading || isRedeemLoading) ? 'Confirming...' : 'Processing...'}
             </span>
+          ) : isRequoting ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking latest price...
+            </span>
+          ) : isMarketClosed ? (
+            'Market Closed'
+          ) : oracleBlocker ? (
+            'Price Unavailable'
+          ) : timingBlocker && timing ? (
+            `${activeAction === 'mint' ? 'Mint' : 'Redeem'} available in ${formatCountdown(timing.secondsLeft)}`
+          ) : isSimulating ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating...
+            </span>
           ) : activeAction === 'mint' ? (
             showApproveButton ? 'Step 2: Mint GBPb' : 'Mint GBPb'
           ) : (
@@ -410,7 +773,11 @@ export function MintRedeemForm({ activeAction }: MintRedeemFormProps) {
       {/* Fee Information */}
       <div className="text-center mt-3">
         <p className="text-white/70 text-sm font-medium">
-          {activeAction === 'mint' ? '0% mint fee' : '0.2% redemption fee'}
+          {!fees
+            ? '...'
+            : activeAction === 'mint'
+              ? `${formatBps(fees.mintFeeBps, 2)} mint fee`
+              : `${formatBps(fees.redeemFeeBps, 2)} redemption fee`}
         </p>
       </div>
 
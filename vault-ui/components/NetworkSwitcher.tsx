@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+import { useSwitchChain } from 'wagmi';
+import { getDeployment } from '@blendra/sdk';
+import { Check, ChevronDown, Network } from 'lucide-react';
+import { SUPPORTED_CHAINS, type SupportedChainId } from '@/lib/networks';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { shortenAddress } from '@/lib/utils';
+
+interface NetworkSwitcherProps {
+  compact?: boolean;
+}
+
+export function NetworkSwitcher({ compact = false }: NetworkSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { chainId, chain, manifest, contracts } = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+
+  const handleSelect = (id: SupportedChainId) => {
+    setIsOpen(false);
+    if (id !== chainId) {
+      switchChain({ chainId: id });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isPending}
+        className={`flex items-center gap-2 bg-white/10 backdrop-blur-md rounded-full border border-white/20 hover:bg-white/15 transition-colors ${
+          compact ? 'px-3 py-1.5' : 'px-4 py-2'
+        }`}
+      >
+        <Network className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} text-purple-400`} />
+        <span className={`text-white font-bold ${compact ? 'text-xs' : 'text-sm'}`}>
+          {isPending ? 'Switching...' : chain?.name ?? `Chain ${chainId}`}
+        </span>
+        <ChevronDown className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} text-white/60`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 z-50 glass-card rounded-xl border border-white/20 bg-black/80 backdrop-blur-md p-2">
+          {/* Active deployment */}
+          <div className="px-3 py-2 mb-1 border-b border-white/10">
+            <p className="text-xs text-white/50">Active deployment</p>
+            <p className="text-sm text-white font-medium">{manifest}</p>
+            <p className="text-xs text-white/50 font-mono">Minter {shortenAddress(contracts.minter)}</p>
+          </div>
+
+          {SUPPORTED_CHAINS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => handleSelect(option.id)}
+              className="w-full flex items-center justify-between px-3 py-2 rounded-lg hover:bg-white/10 transition-colors text-left"
+            >
+              <div>
+                <p className="text-sm text-white font-medium">{option.name}</p>
+                <p className="text-xs text-white/50">{getDeployment(option.id).manifest}</p>
+              </div>
+              {option.id === chainId && <Check className="h-4 w-4 text-green-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { NOTIFICATION_KINDS, useNotifications, type NotificationKind } from '@/lib/contexts/NotificationContext';
+import { Bell, BellOff } from 'lucide-react';
+
+interface NotificationSettingsProps {
+  compact?: boolean;
+}
+
+/** Header button for the connected wallet's opt-in browser notifications and which events they cover */
+export function NotificationSettings({ compact = false }: NotificationSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const { address } = useAccount();
+  const { settings, permission, hasBackgroundSync, enable, disable, setKind } = useNotifications();
+
+  if (!address) return null;
+
+  const isOn = settings.enabled && permission === 'granted';
+  const Icon = isOn ? Bell : BellOff;
+
+  const handleEnable = async () => {
+    setIsRequesting(true);
+    try {
+      await enable();
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center bg-white/10 backdrop-blur-md rounded-full border border-white/20 hover:bg-white/15 transition-colors ${
+          compact ? 'p-1.5' : 'p-2'
+        }`}
+        aria-label="Notification settings"
+      >
+        <Icon className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} ${isOn ? 'text-white/80' : 'text-white/50'}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 z-50 glass-card rounded-xl border border-white/20 bg-black/80 backdrop-blur-md p-3 space-y-3">
+          <div>
+            <p className="text-sm text-white font-medium">Notifications</p>
+            <p className="text-xs text-white/50">
+              Sent by this browser while Blendra is open in a tab, even in the background. Your choices are saved for
+              this wallet on this device only; nothing is sent to a server.
+            </p>
+            {isOn && (
+              <p className="text-xs text-white/50 mt-1">
+                {hasBackgroundSync
+                  ? 'With Blendra closed, this browser still raises cooldown, hold and market-close reminders from what Blendra last saw, but only when it next wakes Blendra in the background, which can be hours late. Pause and hedge alerts need a tab open.'
+                  : "This browser doesn't let Blendra check in the background, so nothing arrives while it's closed."}
+              </p>
+            )}
+          </div>
+
+          {permission === 'unsupported' ? (
+            <p className="text-xs text-orange-400">This browser doesn&apos;t support notifications.</p>
+          ) : permission === 'denied' ? (
+            <p className="text-xs text-orange-400">
+              Notifications are blocked for this site. Allow them in your browser&apos;s site settings, then come back here.
+            </p>
+          ) : (
+            <button
+              onClick={isOn ? disable : handleEnable}
+              disabled={isRequesting}
+              className={`w-full py-2 rounded-lg text-xs font-semibold transition-all border ${
+                isOn
+                  ? 'bg-white/5 text-white/70 border-white/10 hover:bg-white/10'
+                  : 'bg-blue-500/20 text-blue-300 border-blue-400/30 hover:bg-blue-500/30'
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {isRequesting ? 'Waiting for permission...' : isOn ? 'Turn off notifications' : 'Turn on notifications'}
+            </button>
+          )}
+
+          <div className="space-y-2">
+            {(Object.keys(NOTIFICATION_KINDS) as NotificationKind[]).map((kind) => (
+              <label key={kind} className={`flex items-start gap-2 ${isOn ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={settings.kinds[kind]}
+                  onChange={(e) => setKind(kind, e.target.checked)}
+                  disabled={!isOn}
+                  className="mt-0.5 accent-blue-400"
+                />
+                <span>
+                  <span className="block text-xs text-white">{NOTIFICATION_KINDS[kind].label}</span>
+                  <span className="block text-xs text-white/50">{NOTIFICATION_KINDS[kind].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
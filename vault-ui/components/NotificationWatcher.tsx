@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAccount, useWatchContractEvent } from 'wagmi';
+import { useNotifications, type BlendraNotification, type ScheduledNotification } from '@/lib/contexts/NotificationContext';
+import { MINTER_ABI, PERP_MANAGER_ABI } from '@/lib/contracts';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { useMarketStatus } from '@/lib/hooks/useMarketStatus';
+import { useOperationLimits } from '@/lib/hooks/useOperationLimits';
+import { useUnstakeCooldown } from '@/lib/hooks/useUnstakeCooldown';
+import { formatBps, formatGBPb } from '@/lib/utils';
+
+// After a day away the user has most likely seen it in the app already; don't announce it late
+const STALE_AFTER_S = 86_400;
+
+// GBPbMinter.isApproachingWeekend(): the six hours before the weekend close
+const CLOSE_WARNING_S = 6 * 3_600;
+
+const isRecent = (timestamp: number) => Date.now() / 1000 - timestamp < STALE_AFTER_S;
+
+const cooldownNotification = (chainId: number, cooldownEnd: number, amount: bigint): BlendraNotification => ({
+  id: `cooldown:${chainId}:${cooldownEnd}`,
+  title: 'Unstake ready to claim',
+  body: `${formatGBPb(amount)} GBPb has finished its cooldown and can be claimed from sGBPb.`,
+  url: '/staking',
+});
+
+const holdNotification = (chainId: number, redeemableAt: number): BlendraNotification => ({
+  id: `hold:${chainId}:${redeemableAt}`,
+  title: 'GBPb redeemable',
+  body: 'The hold after your latest mint is over; your GBPb can now be redeemed for USDC.',
+  url: '/',
+});
+
+const closeNotification = (chainId: number, closesAt: number): BlendraNotification => ({
+  id: `close:${chainId}:${closesAt}`,
+  title: 'Market closing soon',
+  body: `Minting and redeeming pause at ${new Date(closesAt * 1000).toLocaleString()} until the FX market reopens.`,
+  url: '/',
+});
+
+/**
+ * Raises the opted-in notifications from the open app: claimable cooldowns, expired redemption holds and
+ * the approaching weekend close from state it already polls, pauses and hedge alerts from new contract events.
+ * The first three are also handed to the service worker ahead of time, as of the latest state the app saw,
+ * for when the app is closed by the time they fall due.
+ */
+export function NotificationWatcher() {
+  const { address } = useAccount();
+  const { chainId, contracts } = useDeployment();
+  const { settings, permission, notify, schedule } = useNotifications();
+  const isWatching = !!address && settings.enabled && permission === 'granted';
+
+  const unstakeCooldown = useUnstakeCooldown(isWatching ? address : undefined);
+  const operationLimits = useOperationLimits(isWatching ? address : undefined);
+  const { status: marketStatus } = useMarketStatus();
+
+  const cooldownEnd = unstakeCooldown.pending?.cooldownEnd;
+  const cooldownAmount = unstakeCooldown.pending?.amount;
+  const { isClaimable } = unstakeCooldown;
+  useEffect(() => {
+    if (!isWatching || cooldownEnd === undefined || cooldownAmount === undefined) return;
+    if (!isClaimable || !isRecent(cooldownEnd)) return;
+    notify('cooldownReady', cooldownNotification(chainId, cooldownEnd, cooldownAmount));
+  }, [isWatching, cooldownEnd, cooldownAmount, isClaimable, chainId, notify]);
+
+  // Only a wallet that has minted has a hold to wait out
+  const mintTime = operationLimits.limits?.mintTime ?? 0;
+  const redeemableAt = mintTime > 0 ? operationLimits.redeem?.availableAt : undefined;
+  const isRedeemable = operationLimits.redeem?.secondsLeft === 0;
+  useEffect(() => {
+    if (!isWatching || redeemableAt === undefined || !isRedeemable || !isRecent(redeemableAt)) return;
+    notify('holdExpired', holdNotification(chainId, redeemableAt));
+  }, [isWatching, redeemableAt, isRedeemable, chainId, notify]);
+
+  // While open, nextChange is the coming close
+  const nextClose = marketStatus && !marketStatus.isClosed ? marketStatus.nextChange : undefined;
+  const closesAt = marketStatus?.isApproachingClose ? nextClose : undefined;
+  useEffect(() => {
+    if (!isWatching || closesAt === undefined) return;
+    notify('marketClosing', closeNotification(chainId, closesAt));
+  }, [isWatching, closesAt, chainId, notify]);
+
+  // Rewritten whenever a deadline moves; cleared by schedule() itself once notifications are off
+  useEffect(() => {
+    if (!address) return;
+    const scheduled: ScheduledNotification[] = [];
+    if (cooldownEnd !== undefined && cooldownAmount !== undefined) {
+      scheduled.push({
+        ...cooldownNotification(chainId, cooldownEnd, cooldownAmount),
+        kind: 'cooldownReady',
+        at: cooldownEnd,
+        expiresAt: cooldownEnd + STALE_AFTER_S,
+      });
+    }
+    if (redeemableAt !== undefined) {
+      scheduled.push({
+        ...holdNotification(chainId, redeemableAt),
+        kind: 'holdExpired',
+        at: redeemableAt,
+        expiresAt: redeemableAt + STALE_AFTER_S,
+      });
+    }
+    if (nextClose !== undefined) {
+      scheduled.push({
+        ...closeNotification(chainId, nextClose),
+        kind: 'marketClosing',
+        at: nextClose - CLOSE_WARNING_S,
+        expiresAt: nextClose,
+      });
+    }
+    schedule(scheduled);
+  }, [address, cooldownEnd, cooldownAmount, redeemableAt, nextClose, chainId, schedule]);
+
+  // Protocol events: only logs from blocks after the app opened, one notification per log
+  useWatchContractEvent({
+    chainId,
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    eventName: 'Paused',
+    enabled: isWatching && settings.kinds.pauseChanged,
+    onLogs: (logs) =>
+      logs.forEach((log) =>
+        notify('pauseChanged', {
+          id: `paused:${log.transactionHash}:${log.logIndex}`,
+          title: 'Blendra paused',
+          body: 'The minter has been paused. Minting and redemptions are stopped until it is unpaused.',
+          url: '/health',
+        })
+      ),
+  });
+
+  useWatchContractEvent({
+    chainId,
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    eventName: 'Unpaused',
+    enabled: isWatching && settings.kinds.pauseChanged,
+    onLogs: (logs) =>
+      logs.forEach((log) =>
+        notify('pauseChanged', {
+          id: `unpaused:${log.transactionHash}:${log.logIndex}`,
+          title: 'Blendra unpaused',
+          body: 'The minter is running again. Minting and redemptions are open.',
+          url: '/',
+        })
+      ),
+  });
+
+  useWatchContractEvent({
+    chainId,
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    eventName: 'RebalanceRequired',
+    enabled: isWatching && settings.kinds.hedgeAlert,
+    onLogs: (logs) =>
+      logs.forEach((log) =>
+        notify('hedgeAlert', {
+          id: `rebalance:${log.transactionHash}:${log.logIndex}`,
+          title: 'Hedge rebalance required',
+          body: `The perp hedge's health fell to ${formatBps(log.args.healthFactor ?? 0n)} and needs a rebalance.`,
+          url: '/health',
+        })
+      ),
+  });
+
+  useWatchContractEvent({
+    chainId,
+    address: contracts.perpManager,
+    abi: PERP_MANAGER_ABI,
+    eventName: 'LiquidationWarning',
+    enabled: isWatching && settings.kinds.hedgeAlert,
+    onLogs: (logs) =>
+      logs.forEach((log) =>
+        notify('hedgeAlert', {
+          id: `liquidation:${log.transactionHash}:${log.logIndex}`,
+          title: 'Hedge liquidation warning',
+          body: `The perp hedge's health is down to ${formatBps(log.args.healthFactor ?? 0n)}, near its liquidation threshold.`,
+          url: '/analytics',
+        })
+      ),
+  });
+
+  return null;
+}
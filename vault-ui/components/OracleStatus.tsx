@@ -0,0 +1,47 @@
+'use client';
+
+import type { OracleState } from '@blendra/sdk';
+import { useOracleStatus } from '@/lib/hooks/useOracleStatus';
+import { formatDuration, formatPrice } from '@/lib/utils';
+
+const STATE_LABELS: Record<OracleState, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'text-green-400' },
+  backup: { label: 'Backup feed', className: 'text-orange-400' },
+  stale: { label: 'Stale', className: 'text-red-400' },
+  invalid: { label: 'Invalid', className: 'text-red-400' },
+};
+
+/** Where the GBP/USD price comes from and how far to trust it: feed in use, round age, bounds */
+export function OracleStatus() {
+  const { status, age } = useOracleStatus();
+
+  if (!status) return <p className="text-xs text-white/60">Checking Chainlink oracle...</p>;
+
+  const state = STATE_LABELS[status.state];
+
+  return (
+    <div className="space-y-0.5 text-xs text-white/60">
+      <p>
+        <span className={`font-semibold ${state.className}`}>{state.label}</span> Chainlink oracle
+        {age !== undefined && ` · updated ${formatDuration(age)} ago`}
+      </p>
+      <p>
+        {status.primaryError === 'ORACLE_STALE'
+          ? `Primary feed has not updated within ${formatDuration(status.maxPriceAge)}`
+          : status.primaryError
+            ? 'Primary feed price is outside its bounds or malformed'
+            : `Rejected once older than ${formatDuration(status.maxPriceAge)}`}
+      </p>
+      <p>
+        Bounds ${formatPrice(status.minPrice)} - ${formatPrice(status.maxPrice)}
+      </p>
+      <p>
+        {!status.backupFeed
+          ? 'No backup feed configured'
+          : status.state === 'backup'
+            ? 'Backup feed is pricing mints and redemptions'
+            : `Backup feed ${status.isBackupEnabled ? 'on standby' : 'configured but switched off'}`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { formatUnitsFixed, ratioBps, type PerpEvent } from '@blendra/sdk';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { usePerpHedge } from '@/lib/hooks/usePerpHedge';
+import { formatBps, formatPrice, formatSignedUSDC, formatUSDC } from '@/lib/utils';
+import { ExternalLink } from 'lucide-react';
+
+const EVENT_LABELS: Record<PerpEvent['kind'], { label: string; className: string }> = {
+  increased: { label: 'Position increased', className: 'text-green-400' },
+  decreased: { label: 'Position decreased', className: 'text-blue-400' },
+  liquidationWarning: { label: 'Liquidation warning', className: 'text-red-400' },
+};
+
+function describeEvent(event: PerpEvent): string {
+  switch (event.kind) {
+    case 'increased':
+      return `+$${formatUSDC(event.notional)} notional, $${formatUSDC(event.collateral)} collateral added`;
+    case 'decreased':
+      return `${formatUnitsFixed(event.shareRatio, 16, 2)}% closed: $${formatUSDC(event.notional)} notional, $${formatUSDC(event.collateral)} collateral released`;
+    case 'liquidationWarning':
+      return `Health ${formatBps(event.healthFactorBps)} at ${formatSignedUSDC(event.pnl)} PnL on $${formatUSDC(event.collateral)} collateral`;
+  }
+}
+
+function Stat({ label, value, detail, className = 'text-white' }: { label: string; value: string; detail?: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-white/60 text-xs mb-1">{label}</div>
+      <div className={`text-lg font-bold tabular-nums ${className}`}>{value}</div>
+      {detail && <div className="text-white/50 text-xs">{detail}</div>}
+    </div>
+  );
+}
+
+/** The GBP/USD long that hedges minted GBPb, read live from PerpPositionManager, with its recent history */
+export function PerpHedgePanel() {
+  const { explorerUrl } = useDeployment();
+  const { position, liquidationPrice, events, isLoadingEvents, error } = usePerpHedge();
+
+  if (error) {
+    return <p className="text-xs text-red-400">Couldn&apos;t read the perp position: {error.message}</p>;
+  }
+  if (!position) return <p className="text-white/60 text-sm">Reading the perp position...</p>;
+
+  const hasPosition = position.notional > 0n;
+  const healthClass =
+    position.healthFactorBps <= position.liquidationThresholdBps
+      ? 'text-red-400'
+      : position.healthFactorBps < 10_000n
+        ? 'text-orange-400'
+        : 'text-green-400';
+  // How far GBP/USD has to fall from here to reach the threshold
+  const cushionBps =
+    liquidationPrice && position.gbpUsdPrice ? ratioBps(position.gbpUsdPrice - liquidationPrice, position.gbpUsdPrice) : undefined;
+
+  return (
+    <div className="space-y-6">
+      {!hasPosition ? (
+        <p className="text-white/60 text-sm">No hedge is open right now; one opens with the first mint.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <Stat label="Notional" value={`$${formatUSDC(position.notional)}`} detail="As recorded by the manager" />
+            <Stat label="Collateral" value={`$${formatUSDC(position.collateral)}`} />
+            <Stat label="Size" value={`$${formatUSDC(position.size)}`} detail="As the perp venue reports it" />
+            <Stat
+              label="Effective leverage"
+              value={position.effectiveLeverageBps !== undefined ? `${formatUnitsFixed(position.effectiveLeverageBps, 4, 2)}x` : 'n/a'}
+              detail="Notional over collateral plus PnL"
+            />
+            <Stat
+              label="Unrealised PnL"
+              value={formatSignedUSDC(position.pnl)}
+              detail={position.gbpUsdPrice ? `Marked at $${formatPrice(position.gbpUsdPrice)}` : 'Oracle price unavailable'}
+              className={position.pnl < 0n ? 'text-red-400' : 'text-green-400'}
+            />
+            <Stat label="Health factor" value={formatBps(position.healthFactorBps)} detail="Position value over collateral" className={healthClass} />
+          </div>
+
+          <div className="p-4 bg-white/5 border border-white/10 rounded-xl text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-white/70">Liquidation threshold price</span>
+              <span className="text-white font-semibold tabular-nums">
+                {liquidationPrice ? `$${formatPrice(liquidationPrice)}` : 'n/a'}
+              </span>
+            </div>
+            <p className="text-white/50 text-xs mt-1">
+              GBP/USD at which health falls to {formatBps(position.liquidationThresholdBps, 0)} and the manager starts warning of
+              liquidation
+              {cushionBps !== undefined && `, ${formatBps(cushionBps)} below the current price`}. Estimated from the current PnL,
+              rounding towards caution.
+            </p>
+          </div>
+        </>
+      )}
+
+      <div>
+        <h4 className="text-white/90 text-sm font-semibold mb-2">Recent changes (30 days)</h4>
+        {isLoadingEvents ? (
+          <p className="text-white/50 text-xs">Loading events...</p>
+        ) : events.length === 0 ? (
+          <p className="text-white/50 text-xs">No position changes in the last 30 days.</p>
+        ) : (
+          <div className="divide-y divide-white/10">
+            {events.map((event) => (
+              <div key={`${event.transactionHash}-${event.kind}`} className="py-2 flex items-start justify-between gap-3 text-xs">
+                <div>
+                  <span className={`font-semibold ${EVENT_LABELS[event.kind].className}`}>{EVENT_LABELS[event.kind].label}</span>
+                  <p className="text-white/60">{describeEvent(event)}</p>
+                </div>
+                <div className="flex items-center gap-2 text-white/50 shrink-0">
+                  {new Date(event.timestamp * 1000).toLocaleString()}
+                  {explorerUrl && (
+                    <a href={`${explorerUrl}/tx/${event.transactionHash}`} target="_blank" rel="noopener noreferrer" className="hover:text-white/80">
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import type { HoldingKind, PnlBreakdown, Portfolio } from '@blendra/sdk';
+import { formatGBPb, formatPrice, formatSignedGBPb, formatSignedUSDC, formatUSDC } from '@/lib/utils';
+
+const HOLDING_LABELS: Record<HoldingKind, string> = {
+  wallet: 'GBPb in wallet',
+  staked: 'Staked sGBPb',
+  cooldown: 'Unstaking (cooldown)',
+};
+
+const tone = (value: bigint) => (value > 0n ? 'text-green-400' : value < 0n ? 'text-red-400' : 'text-white/60');
+
+function PnlRow({ label, gbp, usd }: { label: string; gbp?: bigint; usd: bigint }) {
+  return (
+    <div className="flex items-center justify-between py-2 text-sm">
+      <span className="text-white/70">{label}</span>
+      <span className="flex gap-4 font-mono">
+        <span className={`w-28 text-right ${gbp === undefined ? 'text-white/30' : tone(gbp)}`}>
+          {gbp === undefined ? '-' : formatSignedGBPb(gbp)}
+        </span>
+        <span className={`w-28 text-right ${tone(usd)}`}>{formatSignedUSDC(usd)}</span>
+      </span>
+    </div>
+  );
+}
+
+function PnlTable({ title, pnl }: { title: string; pnl: PnlBreakdown }) {
+  return (
+    <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-white font-semibold text-sm">{title}</span>
+        <span className="flex gap-4 text-white/50 text-xs">
+          <span className="w-28 text-right">GBP</span>
+          <span className="w-28 text-right">USD</span>
+        </span>
+      </div>
+      <div className="divide-y divide-white/10">
+        <PnlRow label="Staking yield" gbp={pnl.yieldGbp} usd={pnl.yieldUsd} />
+        {/* GBPb is GBP, so the exchange rate only moves the USD view */}
+        <PnlRow label="GBP/USD move" usd={pnl.fxUsd} />
+        <PnlRow label="Fees" gbp={-pnl.costsGbp} usd={-pnl.costsUsd} />
+        <PnlRow label="Total" gbp={pnl.totalGbp} usd={pnl.totalUsd} />
+      </div>
+    </div>
+  );
+}
+
+export function PortfolioBreakdown({ portfolio }: { portfolio: Portfolio }) {
+  const held = portfolio.holdings.filter((holding) => holding.value > 0n || holding.basis.units > 0n);
+
+  return (
+    <div className="space-y-6">
+      {/* Headline: value today against what was paid */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+          <div className="text-white/60 text-xs mb-1">Value today</div>
+          <div className="text-white text-2xl font-bold">£{formatGBPb(portfolio.value)}</div>
+          <div className="text-white/60 text-sm">≈ ${formatUSDC(portfolio.valueUsd)}</div>
+        </div>
+        <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+          <div className="text-white/60 text-xs mb-1">Cost basis</div>
+          <div className="text-white text-2xl font-bold">${formatUSDC(portfolio.basis.usd)}</div>
+          <div className="text-white/60 text-sm">≈ £{formatGBPb(portfolio.basis.gbp)} at the rates paid</div>
+        </div>
+      </div>
+
+      {/* Per holding */}
+      {held.length > 0 && (
+        <div className="divide-y divide-white/10">
+          {held.map((holding) => (
+            <div key={holding.kind} className="py-3 flex items-start justify-between gap-4">
+              <div>
+                <div className="text-white font-semibold text-sm">{HOLDING_LABELS[holding.kind]}</div>
+                <div className="text-white/50 text-xs mt-1">
+                  {holding.shares !== undefined && `${formatGBPb(holding.shares, 4)} sGBPb · `}
+                  Cost ${formatUSDC(holding.basis.usd)}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-white text-sm">
+                  £{formatGBPb(holding.value)} <span className="text-white/50">≈ ${formatUSDC(holding.valueUsd)}</span>
+                </div>
+                <div className={`text-xs mt-1 ${tone(holding.unrealised.totalUsd)}`}>
+                  {formatSignedUSDC(holding.unrealised.totalUsd)} ({formatSignedGBPb(holding.unrealised.totalGbp)})
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PnlTable title="Unrealised" pnl={portfolio.unrealised} />
+      <PnlTable title="Realised" pnl={portfolio.realised} />
+
+      <div className="text-white/50 text-xs space-y-1">
+        <p>
+          Valued at GBP/USD {formatPrice(portfolio.gbpUsdPrice)}. Cost is averaged across purchases; yield is realised when
+          sGBPb is unstaked, and GBPb sent to another wallet leaves at cost.
+        </p>
+        {portfolio.untracked > 0n && (
+          <p className="text-yellow-400">
+            £{formatGBPb(portfolio.untracked)} held today isn&apos;t explained by this wallet&apos;s history and is counted at
+            today&apos;s rate, with no gain or loss.
+          </p>
+        )}
+        {portfolio.estimatedEntries > 0 && (
+          <p className="text-yellow-400">
+            {portfolio.estimatedEntries} past transaction{portfolio.estimatedEntries === 1 ? '' : 's'} had no readable oracle
+            rate and {portfolio.estimatedEntries === 1 ? 'was' : 'were'} valued at today&apos;s rate.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { HistoryChart } from '@/components/HistoryChart';
+import { historyToCsv, historyToJson } from '@/lib/historyExport';
+import { useProtocolHistory, type HistoryRange } from '@/lib/hooks/useProtocolHistory';
+import { downloadFile, formatNumber } from '@/lib/utils';
+
+const RANGES: HistoryRange[] = ['7d', '30d', '90d', 'all'];
+
+// Chart-only conversions; every displayed figure elsewhere stays in bigint
+const usd = (value: bigint) => Number(value) / 1e6;
+const wad = (value: bigint) => Number(value) / 1e18;
+
+export function ProtocolHistory() {
+  const [range, setRange] = useState<HistoryRange>('30d');
+  const { data: points = [], isLoading, error } = useProtocolHistory(range);
+
+  return (
+    <div className="glass-card p-8 rounded-3xl max-w-5xl mx-auto">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-white text-xl font-bold">History</h3>
+        <div className="flex items-center gap-2">
+          {RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${
+                range === option ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              {option === 'all' ? 'All' : option}
+            </button>
+          ))}
+          <button
+            onClick={() => downloadFile(`blendra-history-${range}.csv`, historyToCsv(points), 'text/csv')}
+            disabled={points.length === 0}
+            className="flex items-center gap-1 px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-lg text-xs text-white transition-colors"
+          >
+            <Download className="h-3 w-3" /> CSV
+          </button>
+          <button
+            onClick={() => downloadFile(`blendra-history-${range}.json`, historyToJson(points), 'application/json')}
+            disabled={points.length === 0}
+            className="flex items-center gap-1 px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-lg text-xs text-white transition-colors"
+          >
+            <Download className="h-3 w-3" /> JSON
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-white/60 text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" /> Sampling historical blocks...
+        </div>
+      ) : error ? (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-xl text-xs text-red-400">
+          Couldn&apos;t load history: {error.message}
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          <HistoryChart
+            title="Total value locked"
+            points={points}
+            series={[{ label: 'TVL', color: '#60a5fa', value: (p) => usd(p.totalAssets) }]}
+            format={(v) => `$${formatNumber(v, 0)}`}
+          />
+          <HistoryChart
+            title="sGBPb share price"
+            points={points}
+            series={[{ label: 'GBPb per sGBPb', color: '#4ade80', value: (p) => wad(p.sharePrice) }]}
+            format={(v) => formatNumber(v, 4)}
+          />
+          <HistoryChart
+            title="GBPb supply"
+            points={points}
+            series={[{ label: 'Supply', color: '#f472b6', value: (p) => wad(p.gbpbSupply) }]}
+            format={(v) => `£${formatNumber(v, 0)}`}
+          />
+          <HistoryChart
+            title="Backing ratio"
+            points={points}
+            series={[
+              {
+                label: 'Backing',
+                color: '#facc15',
+                value: (p) => (p.backingRatioBps !== undefined ? Number(p.backingRatioBps) / 100 : undefined),
+              },
+            ]}
+            format={(v) => `${formatNumber(v, 1)}%`}
+          />
+          <HistoryChart
+            title="Allocation"
+            points={points}
+            series={[
+              { label: 'Morpho', color: '#60a5fa', value: (p) => usd(p.morphoBalance) },
+              { label: 'Perp', color: '#c084fc', value: (p) => usd(p.perpCollateral) },
+            ]}
+            format={(v) => `$${formatNumber(v, 0)}`}
+          />
+          <HistoryChart
+            title="Redemption capacity vs supply"
+            points={points}
+            series={[
+              { label: 'Supply', color: '#f472b6', value: (p) => wad(p.gbpbSupply) },
+              {
+                label: 'Instant capacity',
+                color: '#4ade80',
+                value: (p) => (p.redemptionCapacity !== undefined ? wad(p.redemptionCapacity) : undefined),
+              },
+            ]}
+            format={(v) => `£${formatNumber(v, 0)}`}
+          />
+          <HistoryChart
+            title="GBP/USD"
+            points={points}
+            series={[
+              {
+                label: 'GBP/USD',
+                color: '#ffffff',
+                value: (p) => (p.gbpUsdPrice !== undefined ? Number(p.gbpUsdPrice) / 1e8 : undefined),
+              },
+            ]}
+            format={(v) => formatNumber(v, 4)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import type { ApyWindow } from '@blendra/sdk';
+import { useSGBPbAPY } from '@/lib/hooks/useSGBPbAPY';
+import { formatBps, formatGBPb } from '@/lib/utils';
+
+const WINDOW_LABELS: Record<ApyWindow, string> = {
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  inception: 'Since launch',
+};
+
+/** Realised APY over each trailing window next to the operator-set rate */
+export function RealisedApyTable() {
+  const { windows, operatorApyBps, lastHarvestAt, isLoading } = useSGBPbAPY();
+
+  return (
+    <div className="mb-6 p-4 bg-white/5 border border-white/10 rounded-xl text-xs">
+      <div className="divide-y divide-white/10">
+        {isLoading && <div className="py-1.5 text-white/60">Reading share price history...</div>}
+        {windows.map((window) => (
+          <div key={window.window} className="flex justify-between py-1.5">
+            <span className="text-white/60">{WINDOW_LABELS[window.window]}</span>
+            <span className="text-white font-semibold" title={`${window.harvests} harvests, ${formatGBPb(window.gbpbHarvested)} GBPb`}>
+              {window.apyBps !== undefined ? formatBps(window.apyBps) : 'n/a'}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between py-1.5">
+          <span className="text-white/60">Operator-set Morpho APY</span>
+          <span className="text-white/80">{operatorApyBps !== undefined ? formatBps(operatorApyBps) : '...'}</span>
+        </div>
+      </div>
+      <p className="text-white/50 mt-2">
+        Realised figures come from the sGBPb share price, after perp funding and performance fees.
+        {lastHarvestAt !== undefined && ` Last harvest ${new Date(lastHarvestAt * 1000).toLocaleDateString()}.`}
+      </p>
+    </div>
+  );
+}
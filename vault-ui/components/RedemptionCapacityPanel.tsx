@@ -0,0 +1,77 @@
+'use client';
+
+import { ratioBps } from '@blendra/sdk';
+import { useRedemptionCapacity } from '@/lib/hooks/useRedemptionCapacity';
+import { formatBps, formatGBPb, formatUSDC } from '@/lib/utils';
+
+function SourceRow({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="py-2">
+      <div className="flex justify-between items-center text-sm">
+        <span className="text-white/80">{label}</span>
+        <span className="text-white font-semibold tabular-nums">{value}</span>
+      </div>
+      <p className="text-white/50 text-xs">{detail}</p>
+    </div>
+  );
+}
+
+/** How much GBPb one redeem can take right now, against supply, and the USDC sources behind the estimate */
+export function RedemptionCapacityPanel() {
+  const { data: capacity, error } = useRedemptionCapacity();
+
+  if (error) {
+    return <p className="text-xs text-red-400">Couldn&apos;t estimate redemption capacity: {error.message}</p>;
+  }
+  if (!capacity) return <p className="text-white/60 text-sm">Estimating redemption capacity...</p>;
+
+  const { instantGbpb, gbpbSupply } = capacity;
+  const coverageBps = instantGbpb !== undefined && gbpbSupply > 0n ? ratioBps(instantGbpb, gbpbSupply) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <div className="text-white/60 text-xs mb-1">Redeemable in one transaction</div>
+          <div className="text-white text-3xl font-bold tabular-nums">
+            {instantGbpb !== undefined ? `${formatGBPb(instantGbpb)} GBPb` : 'n/a'}
+          </div>
+          <div className="text-white/50 text-xs">
+            ${formatUSDC(capacity.instantUsdc)} before the redemption fee, limited by{' '}
+            {capacity.limitedBy === 'lending' ? 'Morpho liquidity' : 'the perp hedge'}
+          </div>
+        </div>
+        <div>
+          <div className="text-white/60 text-xs mb-1">Share of GBPb supply</div>
+          <div className="text-white text-3xl font-bold tabular-nums">
+            {coverageBps !== undefined ? formatBps(coverageBps, 1) : 'n/a'}
+          </div>
+          <div className="text-white/50 text-xs">Of {formatGBPb(gbpbSupply)} GBPb outstanding</div>
+        </div>
+      </div>
+
+      <div className="divide-y divide-white/10">
+        <SourceRow
+          label="Morpho withdrawable"
+          value={`$${formatUSDC(capacity.lendingWithdrawable)}`}
+          detail="What the lending vault will release right now. Each redemption takes 80% of its USDC from here."
+        />
+        <SourceRow
+          label="Perp withdrawable"
+          value={`$${formatUSDC(capacity.perpWithdrawable)}`}
+          detail="What closing the hedge would return. The other 20% comes from here, and only while the position holds at least 99% of its collateral."
+        />
+        <SourceRow
+          label="Fee reserve"
+          value={`$${formatUSDC(capacity.reserveBalance)}`}
+          detail="Held in the minter to pay perp opening fees; redemptions never draw on it."
+        />
+        <SourceRow
+          label="Idle USDC"
+          value={`$${formatUSDC(capacity.idleUsdc)}`}
+          detail="Any other USDC held by the minter outside the strategies. Redemptions don't draw on it either."
+        />
+      </div>
+    </div>
+  );
+}
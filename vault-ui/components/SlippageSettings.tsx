@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { bps, MAX_SLIPPAGE_BPS, type Bps } from '@blendra/sdk';
+import { formatBps } from '@/lib/utils';
+import { Settings } from 'lucide-react';
+
+const PRESETS = [bps(10n), bps(50n), bps(100n)];
+
+interface SlippageSettingsProps {
+  slippageBps: Bps;
+  onChange: (slippageBps: Bps) => void;
+}
+
+/** Gear button opening the slippage tolerance, in bps, remembered per wallet by useSlippage */
+export function SlippageSettings({ slippageBps, onChange }: SlippageSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+
+  const customBps = /^\d+$/.test(custom) ? BigInt(custom) : undefined;
+  const isCustomValid = customBps !== undefined && customBps > 0n && customBps <= MAX_SLIPPAGE_BPS;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-white/60 hover:text-white/90 transition-colors"
+        aria-label="Slippage settings"
+      >
+        <Settings className="h-3.5 w-3.5" />
+        {formatBps(slippageBps, 2)} slippage
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 z-50 glass-card rounded-xl border border-white/20 bg-black/80 backdrop-blur-md p-3 space-y-3">
+          <div>
+            <p className="text-sm text-white font-medium">Slippage tolerance</p>
+            <p className="text-xs text-white/50">
+              The least you accept is the quote less this much. Redemptions are re-quoted just before sending and held
+              back if the fresh quote falls below it.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.toString()}
+                onClick={() => onChange(preset)}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition-all ${
+                  slippageBps === preset
+                    ? 'bg-white/20 text-white border border-white/30'
+                    : 'bg-white/5 text-white/60 border border-white/10 hover:bg-white/10'
+                }`}
+              >
+                {preset.toString()} bps
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              value={custom}
+              onChange={(e) => setCustom(e.target.value)}
+              placeholder="Custom bps"
+              className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-1.5 text-white text-xs placeholder:text-white/30 focus:outline-none focus:border-white/40 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+            />
+            <button
+              onClick={() => {
+                if (customBps === undefined || !isCustomValid) return;
+                onChange(bps(customBps));
+                setCustom('');
+              }}
+              disabled={!isCustomValid}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/10 border border-white/20 text-white hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Set
+            </button>
+          </div>
+          {custom && !isCustomValid && (
+            <p className="text-xs text-orange-400">Enter 1 to {MAX_SLIPPAGE_BPS.toString()} bps.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
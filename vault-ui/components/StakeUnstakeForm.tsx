@@ -1,50 +1,37 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { CONTRACTS, ERC20_ABI } from '@/lib/contracts';
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useReadContract, useSimulateContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { formatUnits } from 'viem';
+import { decodeBlendraError, parseGbpb, parseSGbpbShares, type DecodedError } from '@blendra/sdk';
+import { ERC20_ABI, SGBPB_ABI } from '@/lib/contracts';
+import { useTrackTransaction } from '@/lib/contexts/TransactionContext';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { useFeeSchedule } from '@/lib/hooks/useFeeSchedule';
 import { useUserSGBPbPosition } from '@/lib/hooks/useSGBPbAPY';
-import { formatNumber } from '@/lib/utils';
-import { Loader2, AlertCircle, CheckCircle2, ExternalLink } from 'lucide-react';
+import { useUnstakeCooldown } from '@/lib/hooks/useUnstakeCooldown';
+import { formatCountdown, formatDuration, formatGBPb } from '@/lib/utils';
+import { Loader2, CheckCircle2, ExternalLink } from 'lucide-react';
+import { ErrorNotice } from '@/components/ErrorNotice';
+import { UnstakeCooldownCard } from '@/components/UnstakeCooldownCard';
 
 interface StakeUnstakeFormProps {
   activeAction: 'stake' | 'unstake';
 }
 
-const SGBPB_ABI = [
-  {
-    inputs: [{ name: 'assets', type: 'uint256' }],
-    name: 'deposit',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: 'shares', type: 'uint256' }],
-    name: 'redeem',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: 'shares', type: 'uint256' }],
-    name: 'previewRedeem',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
-
 export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
+  const { contracts, explorerUrl } = useDeployment();
   const { address } = useAccount();
   const [amount, setAmount] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState<DecodedError>();
   const userPosition = useUserSGBPbPosition(address);
+  const unstakeCooldown = useUnstakeCooldown(address);
+  // Same duration, but readable before a wallet connects
+  const { data: fees } = useFeeSchedule();
 
   // Read GBPb balance
   const { data: gbpbBalance, refetch: refetchGbpbBalance } = useReadContract({
-    address: CONTRACTS.gbpb,
+    address: contracts.gbpb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -53,7 +40,7 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
 
   // Read sGBPb balance
   const { data: sGbpbBalance, refetch: refetchSGbpbBalance } = useReadContract({
-    address: CONTRACTS.sGBPb,
+    address: contracts.sGBPb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -62,20 +49,40 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
 
   // Read GBPb allowance for sGBPb
   const { data: gbpbAllowance, refetch: refetchAllowance } = useReadContract({
-    address: CONTRACTS.gbpb,
+    address: contracts.gbpb,
     abi: ERC20_ABI,
     functionName: 'allowance',
-    args: address ? [address, CONTRACTS.sGBPb] : undefined,
+    args: address ? [address, contracts.sGBPb] : undefined,
     query: { enabled: !!address && activeAction === 'stake' },
   });
 
-  // Preview unstake amount
+  // Input in base units (GBPb when staking, sGBPb shares when unstaking); undefined while empty or malformed
+  const parsedAmount = (() => {
+    if (!amount) return undefined;
+    try {
+      return activeAction === 'stake' ? parseGbpb(amount) : parseSGbpbShares(amount);
+    } catch {
+      return undefined;
+    }
+  })();
+  const hasAmount = parsedAmount !== undefined && parsedAmount > 0n;
+
+  // Preview shares minted for a stake at the current share price
+  const { data: stakePreview } = useReadContract({
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
+    functionName: 'previewDeposit',
+    args: hasAmount ? [parsedAmount] : undefined,
+    query: { enabled: activeAction === 'stake' && hasAmount },
+  });
+
+  // Preview GBPb returned for unstaking shares
   const { data: unstakePreview } = useReadContract({
-    address: CONTRACTS.sGBPb,
+    address: contracts.sGBPb,
     abi: SGBPB_ABI,
     functionName: 'previewRedeem',
-    args: amount && parseFloat(amount) > 0 ? [parseUnits(amount, 18)] : undefined,
-    query: { enabled: activeAction === 'unstake' && !!amount && parseFloat(amount) > 0 },
+    args: hasAmount ? [parsedAmount] : undefined,
+    query: { enabled: activeAction === 'unstake' && hasAmount },
   });
 
   // Approve GBPb
@@ -96,7 +103,7 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
     reset: resetStake,
   } = useWriteContract();
 
-  // Unstake (redeem from sGBPb)
+  // Unstake (step 1 of 2: burn shares and start the cooldown)
   const {
     writeContract: unstake,
     data: unstakeHash,
@@ -106,51 +113,74 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
   } = useWriteContract();
 
   // Wait for transactions
-  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess, error: approveReceiptError } = useWaitForTransactionReceipt({
     hash: approveHash,
   });
 
-  const { isLoading: isStakeLoading, isSuccess: isStakeSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isStakeLoading, isSuccess: isStakeSuccess, error: stakeReceiptError } = useWaitForTransactionReceipt({
     hash: stakeHash,
   });
 
-  const { isLoading: isUnstakeLoading, isSuccess: isUnstakeSuccess } = useWaitForTransactionReceipt({
+  const { isLoading: isUnstakeLoading, isSuccess: isUnstakeSuccess, error: unstakeReceiptError } = useWaitForTransactionReceipt({
     hash: unstakeHash,
   });
 
-  // Calculate sGBPb preview when staking (1:1 on first stake, then based on share price)
-  const sGbpbPreview = () => {
-    if (!amount || activeAction !== 'stake') return 0;
-    try {
-      // For staking, it's approximately 1:1 initially, but share price increases over time
-      // We show approximate amount - actual will be slightly less as you get proportional shares
-      return parseFloat(amount);
-    } catch {
-      return 0;
-    }
-  };
-
-  // Calculate GBPb preview when unstaking
-  const gbpbPreviewValue = () => {
-    if (!unstakePreview || activeAction !== 'unstake') return 0;
-    return Number(formatUnits(unstakePreview as bigint, 18));
-  };
-
   // Check if approval needed
   const needsApproval = () => {
-    if (activeAction !== 'stake' || !amount || !gbpbAllowance) return true;
-    try {
-      const amountInWei = parseUnits(amount, 18);
-      return amountInWei > (gbpbAllowance as bigint);
-    } catch {
-      return true;
-    }
+    if (activeAction !== 'stake' || !hasAmount || gbpbAllowance === undefined) return true;
+    return parsedAmount > gbpbAllowance;
   };
 
+  // Run the call against sGBPb before the wallet opens. Stake can only be simulated once
+  // the allowance covers it; until then previewDeposit is the preview.
+  const {
+    data: stakeSimulation,
+    error: stakeSimulationError,
+    isFetching: isSimulatingStake,
+  } = useSimulateContract({
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
+    functionName: 'deposit',
+    args: hasAmount && address ? [parsedAmount, address] : undefined,
+    query: { enabled: !!address && hasAmount && !needsApproval() },
+  });
+
+  // unstake() overwrites any unclaimed cooldown, losing it, so a pending claim has to go first.
+  // Past that, the contract allows one unstake per cooldownDuration.
+  const hasPendingClaim = !!unstakeCooldown.pending;
+  const isUnstakeRateLimited = !!unstakeCooldown.secondsUntilUnstake;
+  const canUnstake = !hasPendingClaim && !isUnstakeRateLimited;
+
+  const {
+    data: unstakeSimulation,
+    error: unstakeSimulationError,
+    isFetching: isSimulatingUnstake,
+  } = useSimulateContract({
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
+    functionName: 'unstake',
+    args: hasAmount ? [parsedAmount] : undefined,
+    query: { enabled: !!address && activeAction === 'unstake' && hasAmount && canUnstake },
+  });
+
+  const simulation = activeAction === 'stake' ? stakeSimulation : unstakeSimulation;
+  const simulationError = activeAction === 'stake' ? stakeSimulationError : unstakeSimulationError;
+  const isSimulating = activeAction === 'stake' ? isSimulatingStake : isSimulatingUnstake;
+  const blockingReason = hasAmount && simulationError ? decodeBlendraError(simulationError) : undefined;
+
+  // Shares from the simulated deposit are exact; previewDeposit stands in until approval
+  const sharesOut = stakeSimulation?.result ?? stakePreview;
+
+  // Every hash goes to the app-wide tracker, which keeps following it across reloads
+  const amountLabel = hasAmount ? formatGBPb(parsedAmount) : '';
+  useTrackTransaction(approveHash, `Approve ${amountLabel} GBPb for staking`);
+  useTrackTransaction(stakeHash, `Stake ${amountLabel} GBPb`);
+  useTrackTransaction(unstakeHash, `Unstake ${amountLabel} sGBPb`);
+
   // Handle approve success
   useEffect(() => {
     if (isApproveSuccess) {
-      setError('');
+      setError(undefined);
       refetchAllowance();
     }
   }, [isApproveSuccess, refetchAllowance]);
@@ -159,99 +189,83 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
   useEffect(() => {
     if (isStakeSuccess) {
       setAmount('');
-      setError('');
+      setError(undefined);
       refetchGbpbBalance();
       refetchSGbpbBalance();
       refetchAllowance();
-      setTimeout(() => resetStake(), 5000);
     }
-  }, [isStakeSuccess, refetchGbpbBalance, refetchSGbpbBalance, refetchAllowance, resetStake]);
+  }, [isStakeSuccess, refetchGbpbBalance, refetchSGbpbBalance, refetchAllowance]);
 
   // Handle unstake success
+  const { refetch: refetchCooldown } = unstakeCooldown;
   useEffect(() => {
     if (isUnstakeSuccess) {
       setAmount('');
-      setError('');
-      refetchGbpbBalance();
+      setError(undefined);
       refetchSGbpbBalance();
-      setTimeout(() => resetUnstake(), 5000);
+      refetchCooldown();
     }
-  }, [isUnstakeSuccess, refetchGbpbBalance, refetchSGbpbBalance, resetUnstake]);
+  }, [isUnstakeSuccess, refetchSGbpbBalance, refetchCooldown]);
+
+  // Claimed GBPb lands in the wallet
+  const handleClaimed = useCallback(() => {
+    refetchGbpbBalance();
+  }, [refetchGbpbBalance]);
 
   // Handle errors
   useEffect(() => {
-    const errors = [approveError, stakeError, unstakeError];
+    const errors = [approveError, stakeError, unstakeError, approveReceiptError, stakeReceiptError, unstakeReceiptError];
     const error = errors.find(e => e);
     if (error) {
-      setError(error.message.includes('User rejected') ? 'Transaction rejected' : error.message);
+      setError(decodeBlendraError(error));
     }
-  }, [approveError, stakeError, unstakeError]);
+  }, [approveError, stakeError, unstakeError, approveReceiptError, stakeReceiptError, unstakeReceiptError]);
 
   const handleApprove = () => {
-    if (!amount || !address) return;
-    try {
-      const amountInWei = parseUnits(amount, 18);
-      setError('');
-      approve({
-        address: CONTRACTS.gbpb,
-        abi: ERC20_ABI,
-        functionName: 'approve',
-        args: [CONTRACTS.sGBPb, amountInWei],
-      });
-    } catch (e) {
-      setError('Invalid amount format');
-    }
+    if (!address || !hasAmount) return;
+    setError(undefined);
+    approve({
+      address: contracts.gbpb,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [contracts.sGBPb, parsedAmount],
+    });
   };
 
   const handleStake = () => {
-    if (!amount || !address) return;
-    try {
-      const amountInWei = parseUnits(amount, 18);
-      setError('');
-      stake({
-        address: CONTRACTS.sGBPb,
-        abi: SGBPB_ABI,
-        functionName: 'deposit',
-        args: [amountInWei],
-      });
-    } catch (e) {
-      setError('Invalid amount format');
-    }
+    if (!address || !stakeSimulation) return;
+    setError(undefined);
+    stake(stakeSimulation.request);
   };
 
   const handleUnstake = () => {
-    if (!amount || !address) return;
-    try {
-      const amountInWei = parseUnits(amount, 18);
-      setError('');
-      unstake({
-        address: CONTRACTS.sGBPb,
-        abi: SGBPB_ABI,
-        functionName: 'redeem',
-        args: [amountInWei],
-      });
-    } catch (e) {
-      setError('Invalid amount format');
-    }
+    if (!address || !unstakeSimulation) return;
+    setError(undefined);
+    unstake(unstakeSimulation.request);
   };
 
   const handleMaxClick = () => {
     if (activeAction === 'stake' && gbpbBalance) {
-      const balanceStr = formatUnits(gbpbBalance as bigint, 18);
-      setAmount(balanceStr);
+      setAmount(formatUnits(gbpbBalance, 18));
     } else if (activeAction === 'unstake' && sGbpbBalance) {
-      const balanceStr = formatUnits(sGbpbBalance as bigint, 18);
-      setAmount(balanceStr);
+      setAmount(formatUnits(sGbpbBalance, 18));
     }
   };
 
   const isLoading = isApprovePending || isApproveLoading || isStakePending || isStakeLoading || isUnstakePending || isUnstakeLoading;
+  const isUnstakeBlocked = activeAction === 'unstake' && !canUnstake;
   const showApproveButton = activeAction === 'stake' && needsApproval();
   const showSuccess = isStakeSuccess || isUnstakeSuccess;
   const txHash = stakeHash || unstakeHash || approveHash;
 
+  const cooldownDuration = unstakeCooldown.cooldownDuration ?? fees?.cooldownDuration;
+  const cooldownLabel = cooldownDuration !== undefined ? formatDuration(cooldownDuration) : 'the cooldown period';
+
   return (
     <div className="space-y-4">
+      {/* Pending unstake, restored from cooldowns(user) */}
+      <UnstakeCooldownCard onClaimed={handleClaimed} />
+
       {/* Amount Input */}
       <div>
         <label className="text-white/70 text-sm font-medium mb-2 block">
@@ -261,7 +275,14 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
           <input
             type="number"
             value={amount}
-            onChange={(e) => setAmount(e.target.value)}
+            onChange={(e) => {
+              setAmount(e.target.value);
+              // A new amount starts a new operation; the last one stays in the transactions drawer
+              if (showSuccess) {
+                resetStake();
+                resetUnstake();
+              }
+            }}
             placeholder="0.00"
             disabled={!address || isLoading}
             className="w-full bg-white/10 border-2 border-white/20 rounded-xl px-4 py-4 pr-32 text-white text-lg font-semibold placeholder:text-white/30 focus:outline-none focus:border-white/40 transition-colors [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
@@ -282,22 +303,24 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
         <p className="text-xs text-white/60 mt-1">
           Available: {address
             ? activeAction === 'stake'
-              ? `${formatNumber(Number(gbpbBalance || 0n) / 1e18, 2)} GBPb`
-              : `${formatNumber(Number(sGbpbBalance || 0n) / 1e18, 2)} sGBPb`
+              ? `${formatGBPb(gbpbBalance ?? 0n)} GBPb`
+              : `${formatGBPb(sGbpbBalance ?? 0n)} sGBPb`
             : '0.00'}
         </p>
       </div>
 
       {/* Preview */}
-      {amount && parseFloat(amount) > 0 && (
+      {hasAmount && (
         <div className="bg-white/5 border border-white/10 rounded-xl p-4">
           <div className="flex justify-between items-center">
-            <span className="text-white/70 text-sm">You will receive:</span>
+            <span className="text-white/70 text-sm">
+              {activeAction === 'stake' ? 'You will receive:' : 'Claimable after cooldown:'}
+            </span>
             <div className="text-right">
               <div className="text-white text-lg font-bold">
                 {activeAction === 'stake'
-                  ? `≈ ${formatNumber(sGbpbPreview(), 2)} sGBPb`
-                  : `≈ ${formatNumber(gbpbPreviewValue(), 2)} GBPb`
+                  ? sharesOut !== undefined ? `${formatGBPb(sharesOut, 4)} sGBPb` : '...'
+                  : unstakePreview !== undefined ? `${formatGBPb(unstakePreview, 4)} GBPb` : '...'
                 }
               </div>
               {activeAction === 'stake' && (
@@ -308,26 +331,22 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
         </div>
       )}
 
+      {/* Simulation revert - the transaction would fail if signed now */}
+      {blockingReason && <ErrorNotice error={blockingReason} tone="warning" />}
+
       {/* Error Display */}
-      {error && (
-        <div className="bg-red-500/10 border border-red-500/30 rounded-xl p-3">
-          <p className="text-sm text-red-400 flex items-center gap-2">
-            <AlertCircle className="h-4 w-4" />
-            {error}
-          </p>
-        </div>
-      )}
+      {error && <ErrorNotice error={error} />}
 
       {/* Success Display */}
       {showSuccess && (
         <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-3">
           <p className="text-sm text-green-400 flex items-center gap-2 font-medium">
             <CheckCircle2 className="h-4 w-4" />
-            {activeAction === 'stake' ? 'Staking successful!' : 'Unstake successful!'}
+            {activeAction === 'stake' ? 'Staking successful!' : 'Unstake started! Claim your GBPb when the cooldown ends.'}
           </p>
-          {txHash && (
+          {txHash && explorerUrl && (
             <a
-              href={`https://arbiscan.io/tx/${txHash}`}
+              href={`${explorerUrl}/tx/${txHash}`}
               target="_blank"
               rel="noopener noreferrer"
               className="text-xs text-green-400 hover:underline flex items-center gap-1 mt-1"
@@ -345,27 +364,35 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
             <Loader2 className="h-4 w-4 animate-spin" />
             {isApproveLoading ? 'Approving...' : 'Transaction confirming...'}
           </p>
-          <a
-            href={`https://arbiscan.io/tx/${txHash}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-xs text-blue-400 hover:underline flex items-center gap-1 mt-1"
-          >
-            View transaction <ExternalLink className="h-3 w-3" />
-          </a>
+          {explorerUrl && (
+            <a
+              href={`${explorerUrl}/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-400 hover:underline flex items-center gap-1 mt-1"
+            >
+              View transaction <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
         </div>
       )}
 
-      {/* Withdrawal Period Warning for Unstaking */}
+      {/* Two-step unstaking */}
       {activeAction === 'unstake' && (
         <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4">
           <div className="flex items-start gap-2">
             <div className="text-yellow-400 text-lg">⏱️</div>
             <div>
-              <div className="text-yellow-400 font-semibold text-sm">Instant Unstaking</div>
+              <div className="text-yellow-400 font-semibold text-sm">{cooldownLabel} cooldown</div>
               <p className="text-white/70 text-xs mt-1">
-                Unstaking is instant - you'll receive your GBPb immediately (including accrued yield).
+                Unstaking burns your sGBPb now and locks in the GBPb it is worth, including accrued yield. That GBPb
+                can be claimed after {cooldownLabel} and earns no further yield while it waits.
               </p>
+              {hasPendingClaim && (
+                <p className="text-orange-400 text-xs mt-2">
+                  Claim your pending unstake first - starting a new one would replace it and forfeit the unclaimed GBPb.
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -383,9 +410,9 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
         <>
           <button
             onClick={handleApprove}
-            disabled={!amount || parseFloat(amount) <= 0 || isLoading}
+            disabled={!hasAmount || isLoading}
             className={`w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
-              !amount || parseFloat(amount) <= 0 || isLoading
+              !hasAmount || isLoading
                 ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
                 : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
             }`}
@@ -408,9 +435,9 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
       ) : (
         <button
           onClick={activeAction === 'stake' ? handleStake : handleUnstake}
-          disabled={!amount || parseFloat(amount) <= 0 || isLoading}
+          disabled={!simulation || isLoading || isUnstakeBlocked}
           className={`w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
-            !amount || parseFloat(amount) <= 0 || isLoading
+            !simulation || isLoading || isUnstakeBlocked
               ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
               : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
           }`}
@@ -420,6 +447,15 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
               <Loader2 className="h-4 w-4 animate-spin" />
               {(isStakeLoading || isUnstakeLoading) ? 'Confirming...' : 'Processing...'}
             </span>
+          ) : isUnstakeBlocked ? (
+            hasPendingClaim
+              ? 'Claim pending unstake first'
+              : `Unstake available in ${formatCountdown(unstakeCooldown.secondsUntilUnstake ?? 0)}`
+          ) : isSimulating ? (
+            <span className="flex items-center justify-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating...
+            </span>
           ) : activeAction === 'stake' ? (
             'Stake GBPb → sGBPb'
           ) : (
@@ -432,7 +468,7 @@ export function StakeUnstakeForm({ activeAction }: StakeUnstakeFormProps) {
       <p className="text-white/50 text-xs text-center mt-2">
         {activeAction === 'stake'
           ? 'Stake your GBPb tokens to receive sGBPb and earn yield'
-          : 'Unstake your sGBPb to receive GBPb back (including accrued yield)'}
+          : `Unstake your sGBPb, then claim GBPb (including accrued yield) after ${cooldownLabel}`}
       </p>
     </div>
   );
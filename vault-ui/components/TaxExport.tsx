@@ -0,0 +1,84 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { buildTaxReport, type ActivityEntry } from '@blendra/sdk';
+import { Download } from 'lucide-react';
+import { taxYearToCsv, taxYearToJson } from '@/lib/taxExport';
+import { downloadFile, formatGBPb, formatSignedGBPb } from '@/lib/utils';
+
+/** Capital gains ledger for one UK tax year, downloaded as CSV or JSON */
+export function TaxExport({ entries, isComplete }: { entries: ActivityEntry[]; isComplete: boolean }) {
+  const report = useMemo(() => buildTaxReport(entries), [entries]);
+  const [selected, setSelected] = useState<string>();
+
+  if (report.years.length === 0) return null;
+
+  const year = report.years.find((candidate) => candidate.taxYear === selected) ?? report.years[report.years.length - 1];
+  const filename = `blendra-${year.taxYear.replace('/', '-')}`;
+
+  return (
+    <div className="mb-6 p-4 bg-white/5 border border-white/10 rounded-xl">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <span className="text-white font-semibold text-sm">Tax year export</span>
+        <select
+          value={year.taxYear}
+          onChange={(event) => setSelected(event.target.value)}
+          className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-sm text-white"
+        >
+          {report.years.map((candidate) => (
+            <option key={candidate.taxYear} value={candidate.taxYear} className="text-black">
+              {candidate.taxYear}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-xs mb-3">
+        <div>
+          <div className="text-white/50">Disposals</div>
+          <div className="text-white">{year.disposals}</div>
+        </div>
+        <div>
+          <div className="text-white/50">Proceeds</div>
+          <div className="text-white">£{formatGBPb(year.proceeds)}</div>
+        </div>
+        <div>
+          <div className="text-white/50">Net gain</div>
+          <div className={year.net < 0n ? 'text-red-400' : 'text-white'}>{formatSignedGBPb(year.net)}</div>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadFile(`${filename}.csv`, taxYearToCsv(year), 'text/csv')}
+          disabled={!isComplete}
+          className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-lg text-xs text-white transition-colors"
+        >
+          <Download className="h-3 w-3" /> CSV
+        </button>
+        <button
+          onClick={() => downloadFile(`${filename}.json`, taxYearToJson(year), 'application/json')}
+          disabled={!isComplete}
+          className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-40 rounded-lg text-xs text-white transition-colors"
+        >
+          <Download className="h-3 w-3" /> JSON
+        </button>
+      </div>
+
+      <div className="text-white/50 text-xs mt-3 space-y-1">
+        <p>
+          {year.start} to {year.end}. Sterling values use the Chainlink GBP/USD rate at each transaction&apos;s block; stakes
+          and unstakes are treated as disposals. Disposals are matched same-day, then within 30 days, then against the
+          section 104 pool. USDC spent on mints is not included. Not tax advice.
+        </p>
+        {!isComplete && <p className="text-yellow-400">Wait for the full history to load - matching needs every earlier acquisition.</p>}
+        {report.unpricedEntries > 0 && (
+          <p className="text-yellow-400">
+            {report.unpricedEntries} mint/redeem transaction{report.unpricedEntries === 1 ? '' : 's'} had no readable oracle rate,
+            so the USDC side has no sterling value.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useTransactions } from '@/lib/contexts/TransactionContext';
+import { TransactionItem } from '@/components/TransactionItem';
+import { History } from 'lucide-react';
+
+interface TransactionDrawerProps {
+  compact?: boolean;
+}
+
+/** Header button opening the connected wallet's recent transactions, with a count of those still pending */
+export function TransactionDrawer({ compact = false }: TransactionDrawerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { address } = useAccount();
+  const { transactions, clearFinished } = useTransactions();
+
+  const mine = transactions.filter((tx) => !address || tx.account?.toLowerCase() === address.toLowerCase());
+  const pending = mine.filter((tx) => tx.status === 'pending').length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative flex items-center bg-white/10 backdrop-blur-md rounded-full border border-white/20 hover:bg-white/15 transition-colors ${
+          compact ? 'p-1.5' : 'p-2'
+        }`}
+        aria-label="Recent transactions"
+      >
+        <History className={`${compact ? 'h-3 w-3' : 'h-4 w-4'} text-white/80`} />
+        {pending > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-blue-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {pending}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 z-50 glass-card rounded-xl border border-white/20 bg-black/80 backdrop-blur-md p-2">
+          <div className="flex items-center justify-between px-3 py-2 mb-1 border-b border-white/10">
+            <p className="text-sm text-white font-medium">Recent transactions</p>
+            {mine.length > pending && (
+              <button onClick={clearFinished} className="text-xs text-white/50 hover:text-white/80">
+                Clear finished
+              </button>
+            )}
+          </div>
+
+          {mine.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-white/50 text-center">Transactions you send from this browser show up here.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-white/10">
+              {mine.map((tx) => (
+                <div key={tx.id} className="px-3 py-2">
+                  <TransactionItem tx={tx} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import type { TrackedTransaction, TransactionStatus } from '@/lib/contexts/TransactionContext';
+import { getExplorerUrl } from '@/lib/networks';
+import { AlertCircle, CheckCircle2, ExternalLink, Loader2, XCircle } from 'lucide-react';
+
+const STATUS_TEXT: Record<TransactionStatus, string> = {
+  pending: 'Confirming...',
+  confirmed: 'Confirmed',
+  failed: 'Failed on-chain',
+  replaced: 'Replaced by another transaction',
+  cancelled: 'Cancelled in wallet',
+  dropped: 'Dropped - never mined',
+};
+
+function StatusIcon({ status }: { status: TransactionStatus }) {
+  if (status === 'pending') return <Loader2 className="h-4 w-4 text-blue-400 animate-spin shrink-0" />;
+  if (status === 'confirmed') return <CheckCircle2 className="h-4 w-4 text-green-400 shrink-0" />;
+  if (status === 'failed') return <XCircle className="h-4 w-4 text-red-400 shrink-0" />;
+  return <AlertCircle className="h-4 w-4 text-orange-400 shrink-0" />;
+}
+
+/** One tracked transaction: what it was, where it stands, and an explorer link to whatever landed */
+export function TransactionItem({ tx }: { tx: TrackedTransaction }) {
+  const explorerUrl = getExplorerUrl(tx.chainId);
+  // A sped-up or replaced transaction is findable under its replacement's hash
+  const hash = tx.replacedBy ?? tx.hash;
+
+  return (
+    <div className="flex items-start gap-2">
+      <StatusIcon status={tx.status} />
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-white font-medium truncate">{tx.label}</p>
+        <p className="text-xs text-white/60">
+          {STATUS_TEXT[tx.status]}
+          {tx.spedUp && ' (sped up)'}
+          {' · '}
+          {new Date(tx.submittedAt).toLocaleTimeString()}
+        </p>
+      </div>
+      {hash && explorerUrl && (
+        <a href={`${explorerUrl}/tx/${hash}`} target="_blank" rel="noopener noreferrer" className="text-white/50 hover:text-white/80">
+          <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      )}
+    </div>
+  );
+}
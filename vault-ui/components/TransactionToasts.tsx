@@ -0,0 +1,30 @@
+'use client';
+
+import { useTransactions } from '@/lib/contexts/TransactionContext';
+import { TransactionItem } from '@/components/TransactionItem';
+import { X } from 'lucide-react';
+
+/** Toasts for transactions as they are sent and settle; sits above the mobile bottom nav */
+export function TransactionToasts() {
+  const { transactions, toasts, dismissToast } = useTransactions();
+  const shown = toasts
+    .map((id) => transactions.find((tx) => tx.id === id))
+    .filter((tx): tx is NonNullable<typeof tx> => tx !== undefined);
+
+  if (!shown.length) return null;
+
+  return (
+    <div className="fixed z-50 right-4 bottom-24 md:bottom-6 w-80 max-w-[calc(100vw-2rem)] space-y-2">
+      {shown.map((tx) => (
+        <div key={tx.id} className="glass-card rounded-xl border border-white/20 bg-black/80 backdrop-blur-md p-3 flex gap-2" role="status">
+          <div className="flex-1 min-w-0">
+            <TransactionItem tx={tx} />
+          </div>
+          <button onClick={() => dismissToast(tx.id)} className="text-white/40 hover:text-white/80 self-start" aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
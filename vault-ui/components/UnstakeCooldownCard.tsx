@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useSimulateContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { decodeBlendraError, type DecodedError } from '@blendra/sdk';
+import { SGBPB_ABI } from '@/lib/contracts';
+import { useTrackTransaction } from '@/lib/contexts/TransactionContext';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { useUnstakeCooldown } from '@/lib/hooks/useUnstakeCooldown';
+import { formatCountdown, formatGBPb } from '@/lib/utils';
+import { Loader2, CheckCircle2, ExternalLink, Clock } from 'lucide-react';
+import { ErrorNotice } from '@/components/ErrorNotice';
+
+interface UnstakeCooldownCardProps {
+  /** Called once the claim is confirmed, to refresh balances held by the parent; must be stable */
+  onClaimed?: () => void;
+}
+
+/**
+ * Pending unstake (step 2 of 2): GBPb locked in sGBPb until cooldownEnd, then claimed with cooldownWithdraw()
+ */
+export function UnstakeCooldownCard({ onClaimed }: UnstakeCooldownCardProps) {
+  const { contracts, explorerUrl } = useDeployment();
+  const { address } = useAccount();
+  const [error, setError] = useState<DecodedError>();
+  // Cooldown being claimed, so the card doesn't flash back while cooldowns(user) refetches
+  const [claimedCooldownEnd, setClaimedCooldownEnd] = useState<number>();
+  const { pending, secondsUntilClaim, isClaimable, unstakeTxHash, refetch } = useUnstakeCooldown(address);
+
+  const {
+    data: claimSimulation,
+    error: claimSimulationError,
+    isFetching: isSimulatingClaim,
+  } = useSimulateContract({
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
+    functionName: 'cooldownWithdraw',
+    query: { enabled: !!address && isClaimable },
+  });
+
+  const {
+    writeContract: claim,
+    data: claimHash,
+    isPending: isClaimPending,
+    error: claimError,
+    reset: resetClaim,
+  } = useWriteContract();
+
+  const { isLoading: isClaimLoading, isSuccess: isClaimSuccess, error: claimReceiptError } = useWaitForTransactionReceipt({
+    hash: claimHash,
+  });
+
+  useTrackTransaction(claimHash, `Claim ${pending ? formatGBPb(pending.amount) : ''} unstaked GBPb`);
+
+  useEffect(() => {
+    if (isClaimSuccess) {
+      setError(undefined);
+      refetch();
+      onClaimed?.();
+    }
+  }, [isClaimSuccess, refetch, onClaimed]);
+
+  useEffect(() => {
+    const error = claimError || claimReceiptError;
+    if (error) {
+      setError(decodeBlendraError(error));
+    }
+  }, [claimError, claimReceiptError]);
+
+  const handleClaim = () => {
+    if (!claimSimulation || !pending) return;
+    setError(undefined);
+    resetClaim();
+    setClaimedCooldownEnd(pending.cooldownEnd);
+    claim(claimSimulation.request);
+  };
+
+  const isClaimed = isClaimSuccess && (!pending || pending.cooldownEnd === claimedCooldownEnd);
+
+  if (isClaimed && claimHash) {
+    return (
+      <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-3">
+        <p className="text-sm text-green-400 flex items-center gap-2 font-medium">
+          <CheckCircle2 className="h-4 w-4" />
+          Unstaked GBPb claimed!
+        </p>
+        {explorerUrl && (
+          <a
+            href={`${explorerUrl}/tx/${claimHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-green-400 hover:underline flex items-center gap-1 mt-1"
+          >
+            View transaction <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+    );
+  }
+
+  if (!pending) return null;
+
+  const isLoading = isClaimPending || isClaimLoading;
+  const blockingReason = isClaimable && claimSimulationError ? decodeBlendraError(claimSimulationError) : undefined;
+
+  return (
+    <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-yellow-400 font-semibold text-sm flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Pending Unstake
+          </div>
+          <p className="text-white text-lg font-bold mt-1">{formatGBPb(pending.amount, 4)} GBPb</p>
+          <p className="text-xs text-white/50 flex items-center gap-1">
+            Unstaked {new Date(pending.startedAt * 1000).toLocaleString()}
+            {unstakeTxHash && explorerUrl && (
+              <a href={`${explorerUrl}/tx/${unstakeTxHash}`} target="_blank" rel="noopener noreferrer" className="hover:text-white/80">
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-white/60 text-xs">{isClaimable ? 'Ready' : 'Claimable in'}</div>
+          {!isClaimable && secondsUntilClaim !== undefined && (
+            <div className="text-white font-semibold tabular-nums">{formatCountdown(secondsUntilClaim)}</div>
+          )}
+        </div>
+      </div>
+
+      {blockingReason && <ErrorNotice error={blockingReason} tone="warning" />}
+      {error && <ErrorNotice error={error} />}
+
+      <button
+        onClick={handleClaim}
+        disabled={!claimSimulation || isLoading}
+        className={`w-full border-2 text-white font-bold py-3 px-6 rounded-xl transition-all ${
+          !claimSimulation || isLoading
+            ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
+            : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
+        }`}
+      >
+        {isLoading ? (
+          <span className="flex items-center justify-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {isClaimLoading ? 'Confirming...' : 'Processing...'}
+          </span>
+        ) : isClaimable && isSimulatingClaim ? (
+          <span className="flex items-center justify-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Simulating...
+          </span>
+        ) : isClaimable ? (
+          'Claim GBPb'
+        ) : (
+          `Claim in ${formatCountdown(secondsUntilClaim ?? 0)}`
+        )}
+      </button>
+    </div>
+  );
+}
@@ -1,18 +1,27 @@
 'use client';
 
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { formatNumber } from '@/lib/utils';
+import { gbpbToUsdc } from '@blendra/sdk';
+import { formatBps, formatGBPb, formatPrice, formatSignedUSDC, formatUSDC } from '@/lib/utils';
 import { useAccount } from 'wagmi';
 import { TrendingUp, Wallet, PiggyBank, DollarSign, Activity, Percent } from 'lucide-react';
 import { useVaultMetrics, useUserVaultData } from '@/lib/hooks/useVaultMetrics';
+import { usePortfolio } from '@/lib/hooks/usePortfolio';
+import { useSGBPbAPY } from '@/lib/hooks/useSGBPbAPY';
+import { OracleStatus } from '@/components/OracleStatus';
 
 export function VaultStats() {
   const { address } = useAccount();
   const vaultMetrics = useVaultMetrics();
+  const apy = useSGBPbAPY();
   const userData = useUserVaultData(address);
+  const { portfolio } = usePortfolio(address);
 
-  // User's total holdings value in USD
-  const userValueUSD = userData.totalGBPbHoldings * vaultMetrics.gbpUsdPrice;
+  // User's total holdings value in USDC at the oracle price
+  const userValueUSDC = vaultMetrics.gbpUsdPrice
+    ? gbpbToUsdc(userData.totalGBPbHoldings, vaultMetrics.gbpUsdPrice)
+    : undefined;
 
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -24,26 +33,24 @@ export function VaultStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            ${vaultMetrics.isLoading ? '...' : formatNumber(vaultMetrics.tvlUSD, 2)}
+            ${vaultMetrics.isLoading ? '...' : formatUSDC(vaultMetrics.tvl)}
           </div>
           <p className="text-xs text-white/60">
-            ≈ £{formatNumber(vaultMetrics.tvlGBP, 2)}
+            ≈ £{formatGBPb(vaultMetrics.tvlGBP)}
           </p>
         </CardContent>
       </Card>
 
-      {/* Net APY */}
+      {/* Realised APY */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Estimated Net APY</CardTitle>
+          <CardTitle className="text-sm font-medium">Realised APY (30d)</CardTitle>
           <TrendingUp className="h-4 w-4 text-white/60" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">
-            {vaultMetrics.isLoading ? '...' : `${formatNumber(vaultMetrics.netAPY, 1)}%`}
-          </div>
+          <div className="text-2xl font-bold">{apy.isLoading ? '...' : apy.formattedAPY}</div>
           <p className="text-xs text-white/60">
-            Morpho {formatNumber(vaultMetrics.morphoAPYPercent, 1)}% - Funding ~10%
+            From the sGBPb share price · operator-set Morpho {apy.operatorApyBps !== undefined ? formatBps(apy.operatorApyBps) : '...'}
           </p>
         </CardContent>
       </Card>
@@ -56,11 +63,20 @@ export function VaultStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            {address ? formatNumber(userData.totalGBPbHoldings, 2) : '0.00'}
+            {address ? formatGBPb(userData.totalGBPbHoldings) : '0.00'}
           </div>
           <p className="text-xs text-white/60">
-            ≈ ${formatNumber(userValueUSD, 2)}
+            ≈ ${userValueUSDC !== undefined ? formatUSDC(userValueUSDC) : '...'}
           </p>
+          {/* Spot value alone says nothing about what the holdings cost */}
+          {portfolio && portfolio.basis.usd > 0n && (
+            <Link href="/portfolio" className="text-xs text-white/60 hover:underline">
+              Cost ${formatUSDC(portfolio.basis.usd)} ·{' '}
+              <span className={portfolio.unrealised.totalUsd < 0n ? 'text-red-400' : 'text-green-400'}>
+                {formatSignedUSDC(portfolio.unrealised.totalUsd)}
+              </span>
+            </Link>
+          )}
         </CardContent>
       </Card>
 
@@ -72,9 +88,9 @@ export function VaultStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            ${formatNumber(vaultMetrics.gbpUsdPrice, 4)}
+            ${vaultMetrics.gbpUsdPrice ? formatPrice(vaultMetrics.gbpUsdPrice) : '...'}
           </div>
-          <p className="text-xs text-white/60">Live Chainlink oracle</p>
+          <OracleStatus />
         </CardContent>
       </Card>
 
@@ -86,7 +102,7 @@ export function VaultStats() {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">
-            {formatNumber(vaultMetrics.totalGBPb, 0)}
+            {formatGBPb(vaultMetrics.totalGBPb, 0)}
           </div>
           <p className="text-xs text-white/60">GBPb tokens in circulation</p>
         </CardContent>
@@ -102,11 +118,11 @@ export function VaultStats() {
           <div className="space-y-1">
             <div className="flex justify-between text-sm">
               <span className="text-white/60">Morpho:</span>
-              <span className="font-semibold">{formatNumber(vaultMetrics.morphoAllocation, 1)}%</span>
+              <span className="font-semibold">{formatBps(vaultMetrics.morphoAllocationBps)}</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-white/60">Perp:</span>
-              <span className="font-semibold">{formatNumber(vaultMetrics.perpAllocation, 1)}%</span>
+              <span className="font-semibold">{formatBps(vaultMetrics.perpAllocationBps)}</span>
             </div>
           </div>
         </CardContent>
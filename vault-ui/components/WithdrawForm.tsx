@@ -5,13 +5,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { CONTRACTS, VAULT_ABI } from '@/lib/contracts';
-import { formatNumber } from '@/lib/utils';
+import { LEGACY_VAULT_ABI } from '@/lib/contracts';
+import { useTrackTransaction } from '@/lib/contexts/TransactionContext';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { describeError, formatNumber } from '@/lib/utils';
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { parseUnits } from 'viem';
 import { ArrowUpCircle, Loader2, AlertCircle, CheckCircle2, ExternalLink, Info } from 'lucide-react';
 
 export function WithdrawForm() {
+  const { contracts, explorerUrl } = useDeployment();
   const { address } = useAccount();
   const [shares, setShares] = useState('');
   const [error, setError] = useState<string>('');
@@ -24,8 +27,8 @@ export function WithdrawForm() {
 
   // Read user's share balance
   const { data: userShares, refetch: refetchShares } = useReadContract({
-    address: CONTRACTS.vault,
-    abi: VAULT_ABI,
+    address: contracts.minter,
+    abi: LEGACY_VAULT_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
     query: {
@@ -35,8 +38,8 @@ export function WithdrawForm() {
 
   // Read how much USDC the shares are worth
   const { data: previewRedeem } = useReadContract({
-    address: CONTRACTS.vault,
-    abi: VAULT_ABI,
+    address: contracts.minter,
+    abi: LEGACY_VAULT_ABI,
     functionName: 'previewRedeem',
     args: shares && Number(shares) > 0 ? [parseUnits(shares, 18)] : undefined,
     query: {
@@ -62,6 +65,8 @@ export function WithdrawForm() {
     hash: redeemHash,
   });
 
+  useTrackTransaction(redeemHash, `Withdraw ${shares} vault shares`);
+
   // Handle redeem success
   useEffect(() => {
     if (isRedeemSuccess) {
@@ -74,26 +79,19 @@ export function WithdrawForm() {
       setTimeout(() => {
         successMessageRef.current?.focus();
       }, 100);
-
-      // Reset after 5 seconds
-      setTimeout(() => {
-        resetRedeem();
-      }, 5000);
     }
-  }, [isRedeemSuccess, refetchShares, resetRedeem]);
+  }, [isRedeemSuccess, refetchShares]);
 
   // Handle errors
   useEffect(() => {
     if (redeemError) {
-      setError(redeemError.message.includes('User rejected')
-        ? 'Transaction rejected'
-        : 'Withdrawal failed: ' + redeemError.message);
+      setError(describeError(redeemError));
       setIsSubmitting(false); // FIX #1: Reset on error
 
       // FIX #3: Focus on error message
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     } else if (redeemReceiptError) {
-      setError('Withdrawal transaction failed on-chain');
+      setError('Withdrawal transaction failed on-chain: ' + describeError(redeemReceiptError));
       setIsSubmitting(false);
       setTimeout(() => errorMessageRef.current?.focus(), 100);
     }
@@ -134,6 +132,8 @@ export function WithdrawForm() {
 
   const handleSharesChange = (value: string) => {
     setShares(value);
+    // A new amount starts a new withdrawal; the last one stays in the transactions drawer
+    if (isRedeemSuccess) resetRedeem();
     const error = validateShares(value);
     setValidationError(error);
     if (error) setError('');
@@ -153,8 +153,8 @@ export function WithdrawForm() {
       setError('');
       setIsSubmitting(true); // FIX #1: Set submission flag
       redeem({
-        address: CONTRACTS.vault,
-        abi: VAULT_ABI,
+        address: contracts.minter,
+        abi: LEGACY_VAULT_ABI,
         functionName: 'redeem',
         args: [sharesInWei, address, address],
       });
@@ -290,9 +290,9 @@ export function WithdrawForm() {
               <CheckCircle2 className="h-4 w-4" />
               Withdrawal successful! USDC has been sent to your wallet.
             </p>
-            {redeemHash ? (
+            {redeemHash && explorerUrl ? (
               <a
-                href={`https://sepolia.arbiscan.io/tx/${redeemHash}`}
+                href={`${explorerUrl}/tx/${redeemHash}`}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-xs text-green-600 hover:underline flex items-center gap-1 mt-1"
@@ -310,14 +310,16 @@ export function WithdrawForm() {
               <Loader2 className="h-4 w-4 animate-spin" />
               Transaction submitted, waiting for confirmation...
             </p>
-            <a
-              href={`https://sepolia.arbiscan.io/tx/${redeemHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1"
-            >
-              View transaction <ExternalLink className="h-3 w-3" />
-            </a>
+            {explorerUrl && (
+              <a
+                href={`${explorerUrl}/tx/${redeemHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1"
+              >
+                View transaction <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
           </div>
         ) : null}
 
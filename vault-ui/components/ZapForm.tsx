@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount, useReadContract } from 'wagmi';
+import { formatUnits } from 'viem';
+import { minimumOut, parseUsdc, quoteMint, quoteRedeem, usdc, type MintQuote } from '@blendra/sdk';
+import { ERC20_ABI, MINTER_ABI } from '@/lib/contracts';
+import { useDeployment } from '@/lib/hooks/useDeployment';
+import { useFeeSchedule } from '@/lib/hooks/useFeeSchedule';
+import { useMarketStatus } from '@/lib/hooks/useMarketStatus';
+import { useOperationLimits } from '@/lib/hooks/useOperationLimits';
+import { useOracleStatus } from '@/lib/hooks/useOracleStatus';
+import { useSlippage } from '@/lib/hooks/useSlippage';
+import { useUnstakeCooldown } from '@/lib/hooks/useUnstakeCooldown';
+import { useVaultMetrics } from '@/lib/hooks/useVaultMetrics';
+import { ZAP_STEP_LABELS, useZap } from '@/lib/hooks/useZap';
+import { formatCountdown, formatGBPb, formatUSDC } from '@/lib/utils';
+import { Loader2, AlertCircle, CheckCircle2, Circle, ExternalLink, Zap } from 'lucide-react';
+import { ErrorNotice } from '@/components/ErrorNotice';
+import { SlippageSettings } from '@/components/SlippageSettings';
+
+const buttonClass = (disabled: boolean) =>
+  `w-full border-2 text-white font-bold py-4 px-6 rounded-xl transition-all ${
+    disabled
+      ? 'bg-white/10 border-white/20 text-white/40 cursor-not-allowed'
+      : 'bg-white/20 hover:bg-white/30 border-white/30 hover:scale-[1.02] active:scale-[0.98]'
+  }`;
+
+/** Checklist of a step-by-step zap, with each landed step linked to its transaction */
+function ZapSteps({ zap }: { zap: ReturnType<typeof useZap> }) {
+  const { explorerUrl } = useDeployment();
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-2">
+      {zap.steps.map(({ step, isDone, isSkipped, hash }, i) => (
+        <div key={step} className="flex items-center justify-between text-sm">
+          <span className={`flex items-center gap-2 ${isDone ? 'text-green-400' : step === zap.currentStep ? 'text-white' : 'text-white/50'}`}>
+            {isDone ? (
+              <CheckCircle2 className="h-4 w-4" />
+            ) : step === zap.currentStep && zap.isBusy ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Circle className="h-4 w-4" />
+            )}
+            {i + 1}. {ZAP_STEP_LABELS[step]}
+          </span>
+          {isSkipped ? (
+            <span className="text-white/40 text-xs">Already approved</span>
+          ) : (
+            hash &&
+            explorerUrl && (
+              <a href={`${explorerUrl}/tx/${hash}`} target="_blank" rel="noopener noreferrer" className="text-white/50 hover:text-white/80">
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Success notice once a zap has landed, dismissed back to the form */
+function ZapDone({ zap, message }: { zap: ReturnType<typeof useZap>; message: string }) {
+  const { explorerUrl } = useDeployment();
+
+  return (
+    <div className="bg-green-500/10 border border-green-500/30 rounded-xl p-3 space-y-1">
+      <p className="text-sm text-green-400 flex items-center gap-2 font-medium">
+        <CheckCircle2 className="h-4 w-4" />
+        {message}
+      </p>
+      {zap.transactionHash && explorerUrl && (
+        <a
+          href={`${explorerUrl}/tx/${zap.transactionHash}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-green-400 hover:underline flex items-center gap-1"
+        >
+          View transaction <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+      <button onClick={zap.clear} className="text-xs text-white/60 hover:text-white underline">
+        Done
+      </button>
+    </div>
+  );
+}
+
+/**
+ * USDC -> sGBPb in one go (approve, mint, approve, stake), and the way back for a finished unstake
+ * (claim, redeem). One signature on wallets with atomic batching; a resumable checklist otherwise.
+ */
+export function ZapForm() {
+  const { contracts } = useDeployment();
+  const { address } = useAccount();
+  const [amount, setAmount] = useState('');
+  const vaultMetrics = useVaultMetrics();
+  const zapIn = useZap('in');
+  const zapOut = useZap('out');
+  const { slippageBps, setSlippageBps } = useSlippage();
+
+  // The zap's mint and redeem face the same gates as the mint page
+  const { status: marketStatus } = useMarketStatus();
+  const isMarketClosed = marketStatus?.isClosed ?? false;
+  const { blocker: oracleBlocker } = useOracleStatus();
+  const operationLimits = useOperationLimits(address);
+  const unstakeCooldown = useUnstakeCooldown(address);
+  const { data: fees } = useFeeSchedule();
+
+  const { data: usdcBalance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address },
+  });
+
+  const { data: targetLeverage } = useReadContract({
+    address: contracts.minter,
+    abi: MINTER_ABI,
+    functionName: 'targetLeverage',
+  });
+
+  const parsedAmount = (() => {
+    if (!amount) return undefined;
+    try {
+      return parseUsdc(amount);
+    } catch {
+      return undefined;
+    }
+  })();
+  const hasAmount = parsedAmount !== undefined && parsedAmount > 0n;
+
+  const mintQuote: MintQuote | undefined =
+    hasAmount && vaultMetrics.gbpUsdPrice && targetLeverage !== undefined
+      ? quoteMint(usdc(parsedAmount), vaultMetrics.gbpUsdPrice, targetLeverage)
+      : undefined;
+
+  // The wallet's slippage tolerance on the exact quote, as on the mint page
+  const minGbpAmount = mintQuote ? minimumOut(mintQuote.gbpAmount, slippageBps) : undefined;
+
+  const isBelowMinimum = hasAmount && fees !== undefined && parsedAmount < fees.minMintAmount;
+  const isOverBalance = hasAmount && usdcBalance !== undefined && parsedAmount > usdcBalance;
+  // An unusable oracle price stops both ahead of the timing rules
+  const mintBlocker = oracleBlocker ?? operationLimits.mint?.blocker;
+  const redeemBlocker = oracleBlocker ?? operationLimits.redeem?.blocker;
+
+  // A batch stakes the mint floor; the wizard stakes exactly what was minted
+  const stakedAmount = zapIn.mode === 'batch' ? zapIn.amounts.minGbpAmount : (zapIn.amounts.gbpAmount ?? zapIn.amounts.minGbpAmount);
+
+  const handleZapIn = () => {
+    if (!mintQuote || minGbpAmount === undefined) return;
+    zapIn.start({ usdcAmount: mintQuote.usdcAmount, minGbpAmount });
+    setAmount('');
+  };
+
+  // Exit: only a cooldown that has run out can be claimed, and the redeem then needs the hold time to have passed
+  const pending = unstakeCooldown.pending;
+  const exitAmount = zapOut.amounts.gbpAmount ?? pending?.amount;
+  const exitQuote =
+    exitAmount && vaultMetrics.gbpUsdPrice && fees ? quoteRedeem(exitAmount, vaultMetrics.gbpUsdPrice, fees.redeemFeeBps) : undefined;
+  const showExit = !!pending || zapOut.isActive || zapOut.isComplete;
+
+  // cooldowns(user) is only re-read on demand, so refresh it once the claim has landed
+  const exitClaimed = zapOut.steps[0].isDone;
+  const { refetch: refetchCooldown } = unstakeCooldown;
+  useEffect(() => {
+    if (exitClaimed) refetchCooldown();
+  }, [exitClaimed, refetchCooldown]);
+
+  const handleZapOut = () => {
+    if (!pending) return;
+    zapOut.start({ gbpAmount: pending.amount });
+  };
+
+  // A wizard step that mints or redeems waits on the same gates as starting one
+  const zapInStepBlocked = zapIn.currentStep === 'mint' && (isMarketClosed || !!mintBlocker);
+  const zapOutStepBlocked = zapOut.currentStep === 'redeem' && (isMarketClosed || !!redeemBlocker);
+
+  if (!address) {
+    return (
+      <button disabled className={buttonClass(true)}>
+        Connect Wallet
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* USDC -> sGBPb */}
+      <div className="space-y-4">
+        {zapIn.isComplete ? (
+          <ZapDone
+            zap={zapIn}
+            message={stakedAmount !== undefined ? `Staked ${formatGBPb(stakedAmount, 4)} GBPb as sGBPb!` : 'Staked as sGBPb!'}
+          />
+        ) : zapIn.isActive ? (
+          <>
+            <p className="text-white/70 text-sm">
+              Zapping {zapIn.amounts.usdcAmount !== undefined ? formatUSDC(zapIn.amounts.usdcAmount) : ''} USDC into sGBPb
+            </p>
+            {zapIn.mode === 'steps' ? (
+              <ZapSteps zap={zapIn} />
+            ) : (
+              <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3">
+                <p className="text-sm text-blue-400 flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Waiting for the batch to land...
+                </p>
+              </div>
+            )}
+            {zapInStepBlocked && mintBlocker && !isMarketClosed && <ErrorNotice error={mintBlocker} tone="warning" />}
+            {zapIn.error && <ErrorNotice error={zapIn.error} />}
+            {zapIn.mode === 'steps' && (
+              <button
+                onClick={zapIn.continue}
+                disabled={zapIn.isBusy || zapInStepBlocked}
+                className={buttonClass(zapIn.isBusy || zapInStepBlocked)}
+              >
+                {zapIn.isBusy ? (
+                  <span className="flex items-center justify-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {zapIn.isWaitingForWallet ? 'Confirm in wallet...' : 'Confirming...'}
+                  </span>
+                ) : zapIn.currentStep === 'mint' && isMarketClosed ? (
+                  'Market Closed'
+                ) : zapIn.currentStep === 'mint' && oracleBlocker ? (
+                  'Price Unavailable'
+                ) : zapIn.currentStep === 'mint' && mintBlocker && operationLimits.mint ? (
+                  `Mint available in ${formatCountdown(operationLimits.mint.secondsLeft)}`
+                ) : (
+                  `Continue: ${zapIn.currentStep ? ZAP_STEP_LABELS[zapIn.currentStep] : ''}`
+                )}
+              </button>
+            )}
+            <button
+              onClick={zapIn.clear}
+              disabled={zapIn.isBusy && !zapIn.isWaitingForBatch}
+              className="w-full text-xs text-white/50 hover:text-white/80 disabled:opacity-50"
+            >
+              {zapIn.isWaitingForBatch ? 'Stop waiting (the batch may still land)' : 'Stop here (steps already done stay done)'}
+            </button>
+          </>
+        ) : (
+          <>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-white/70 text-sm font-medium">USDC to zap into sGBPb</label>
+                <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+              </div>
+              <div className="relative">
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  disabled={isMarketClosed}
+                  className="w-full bg-white/10 border-2 border-white/20 rounded-xl px-4 py-4 pr-32 text-white text-lg font-semibold placeholder:text-white/30 focus:outline-none focus:border-white/40 transition-colors [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                />
+                <div className="absolute right-20 top-1/2 -translate-y-1/2 text-white/60 font-medium text-sm">USDC</div>
+                <button
+                  onClick={() => usdcBalance && setAmount(formatUnits(usdcBalance, 6))}
+                  disabled={isMarketClosed}
+                  className="absolute right-4 top-1/2 -translate-y-1/2 px-2 py-1 bg-blue-500/20 border border-blue-400/30 rounded-lg text-blue-400 text-xs font-semibold hover:bg-blue-500/30 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  MAX
+                </button>
+              </div>
+              <p className="text-xs text-white/60 mt-1">Balance: {formatUSDC(usdcBalance ?? 0n)} USDC</p>
+
+              {isBelowMinimum && (
+                <div className="mt-2 p-3 bg-orange-500/10 border border-orange-500/30 rounded-xl">
+                  <p className="text-xs text-orange-400 flex items-center gap-2">
+                    <AlertCircle className="h-3 w-3" />
+                    Minimum mint amount is ${formatUSDC(fees.minMintAmount, 0)} USDC
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {mintQuote && minGbpAmount !== undefined && (
+              <div className="bg-white/5 border border-white/10 rounded-xl p-4 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-white/70">GBPb minted</span>
+                  <span className="text-white font-semibold">≈ {formatGBPb(mintQuote.gbpAmount, 4)} GBPb</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-white/70">Staked</span>
+                  <span className="text-white font-semibold">
+                    {zapIn.canBatch ? `${formatGBPb(minGbpAmount, 4)} GBPb` : 'All of it'}
+                  </span>
+                </div>
+                <p className="text-white/50 text-xs pt-1">
+                  {zapIn.canBatch
+                    ? 'A batch is signed before the mint runs, so it stakes the slippage floor; anything minted above it stays in your wallet as GBPb.'
+                    : 'Your wallet can\'t batch calls, so this runs as up to four transactions. Progress is saved if you leave the page.'}
+                </p>
+              </div>
+            )}
+
+            {mintBlocker && !isMarketClosed && <ErrorNotice error={mintBlocker} tone="warning" />}
+            {zapIn.error && <ErrorNotice error={zapIn.error} />}
+
+            <button
+              onClick={handleZapIn}
+              disabled={!mintQuote || isBelowMinimum || isOverBalance || isMarketClosed || !!mintBlocker || zapIn.isBusy}
+              className={buttonClass(!mintQuote || isBelowMinimum || isOverBalance || isMarketClosed || !!mintBlocker || zapIn.isBusy)}
+            >
+              {zapIn.isBusy ? (
+                <span className="flex items-center justify-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Confirm in wallet...
+                </span>
+              ) : isMarketClosed ? (
+                'Market Closed'
+              ) : isOverBalance ? (
+                'Insufficient USDC'
+              ) : oracleBlocker ? (
+                'Price Unavailable'
+              ) : mintBlocker && operationLimits.mint ? (
+                `Mint available in ${formatCountdown(operationLimits.mint.secondsLeft)}`
+              ) : (
+                <span className="flex items-center justify-center gap-2">
+                  <Zap className="h-4 w-4" />
+                  {zapIn.isCheckingCapabilities ? 'Zap to sGBPb' : zapIn.canBatch ? 'Zap to sGBPb (one signature)' : 'Zap to sGBPb (step by step)'}
+                </span>
+              )}
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Claimed cooldown -> USDC */}
+      {showExit && (
+        <div className="pt-6 border-t border-white/10 space-y-4">
+          <div>
+            <div className="text-white/70 text-sm font-medium">Exit to USDC</div>
+            <p className="text-white/50 text-xs mt-1">
+              Claim your unstaked {exitAmount ? formatGBPb(exitAmount, 4) : ''} GBPb and redeem it
+              {exitQuote ? ` for ≈ ${formatUSDC(exitQuote.usdcAmount)} USDC after the ${formatUSDC(exitQuote.fee)} USDC fee` : ''}.
+            </p>
+          </div>
+
+          {zapOut.isComplete ? (
+            <ZapDone zap={zapOut} message="Redeemed to USDC!" />
+          ) : (
+            <>
+              {zapOut.mode === 'steps' && <ZapSteps zap={zapOut} />}
+              {zapOut.mode === 'batch' && (
+                <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-3">
+                  <p className="text-sm text-blue-400 flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Waiting for the batch to land...
+                  </p>
+                  {zapOut.isWaitingForBatch && (
+                    <button onClick={zapOut.clear} className="text-xs text-white/50 hover:text-white/80 mt-1">
+                      Stop waiting (the batch may still land)
+                    </button>
+                  )}
+                </div>
+              )}
+              {redeemBlocker && !isMarketClosed && (!zapOut.isActive || zapOutStepBlocked) && (
+                <ErrorNotice error={redeemBlocker} tone="warning" />
+              )}
+              {zapOut.error && <ErrorNotice error={zapOut.error} />}
+
+              {zapOut.isActive ? (
+                zapOut.mode === 'steps' && (
+                  <button
+                    onClick={zapOut.continue}
+                    disabled={zapOut.isBusy || zapOutStepBlocked}
+                    className={buttonClass(zapOut.isBusy || zapOutStepBlocked)}
+                  >
+                    {zapOut.isBusy ? (
+                      <span className="flex items-center justify-center gap-2">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        {zapOut.isWaitingForWallet ? 'Confirm in wallet...' : 'Confirming...'}
+                      </span>
+                    ) : zapOut.currentStep === 'redeem' && isMarketClosed ? (
+                      'Market Closed'
+                    ) : zapOut.currentStep === 'redeem' && oracleBlocker ? (
+                      'Price Unavailable'
+                    ) : (
+                      `Continue: ${zapOut.currentStep ? ZAP_STEP_LABELS[zapOut.currentStep] : ''}`
+                    )}
+                  </button>
+                )
+              ) : (
+                <button
+                  onClick={handleZapOut}
+                  disabled={!unstakeCooldown.isClaimable || isMarketClosed || !!redeemBlocker || zapOut.isBusy}
+                  className={buttonClass(!unstakeCooldown.isClaimable || isMarketClosed || !!redeemBlocker || zapOut.isBusy)}
+                >
+                  {zapOut.isBusy ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Confirm in wallet...
+                    </span>
+                  ) : !unstakeCooldown.isClaimable ? (
+                    `Claimable in ${formatCountdown(unstakeCooldown.secondsUntilClaim ?? 0)}`
+                  ) : isMarketClosed ? (
+                    'Market Closed'
+                  ) : oracleBlocker ? (
+                    'Price Unavailable'
+                  ) : redeemBlocker && operationLimits.redeem ? (
+                    `Redeem available in ${formatCountdown(operationLimits.redeem.secondsLeft)}`
+                  ) : (
+                    'Claim and redeem to USDC'
+                  )}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// IndexedDB stores for data rebuilt from chain history - scanned activity pages, sampled protocol
+// history and contract deployment blocks - so each is only fetched from the RPC once. Falls back to
+// no caching where IndexedDB is unavailable (server render, some private windows).
+
+import type { PublicClient, Address } from 'viem';
+import {
+  findDeploymentBlock,
+  type ActivityCache,
+  type ActivityEntry,
+  type HistoryCache,
+  type HistoryPoint,
+} from '@blendra/sdk';
+
+const DB_NAME = 'blendra';
+const DB_VERSION = 2;
+const PAGES = 'activityPages';
+const DEPLOYMENT_BLOCKS = 'deploymentBlocks';
+const HISTORY_POINTS = 'historyPoints';
+
+let db: Promise<IDBDatabase | undefined> | undefined;
+
+function openDb(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(undefined);
+
+  db ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      // Stores are only ever added, one version at a time
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore(PAGES);
+        request.result.createObjectStore(DEPLOYMENT_BLOCKS);
+      }
+      if (event.oldVersion < 2) request.result.createObjectStore(HISTORY_POINTS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+  return db;
+}
+
+async function read<T>(store: string, key: string): Promise<T | undefined> {
+  const database = await openDb();
+  if (!database) return undefined;
+
+  return new Promise((resolve) => {
+    const request = database.transaction(store, 'readonly').objectStore(store).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function write(store: string, key: string, value: unknown): Promise<void> {
+  const database = await openDb();
+  if (!database) return;
+
+  return new Promise((resolve) => {
+    const request = database.transaction(store, 'readwrite').objectStore(store).put(value, key);
+    request.onsuccess = () => resolve();
+    // A full or blocked store only costs a rescan later
+    request.onerror = () => resolve();
+  });
+}
+
+export const activityCache: ActivityCache = {
+  get: (key) => read<ActivityEntry[]>(PAGES, key),
+  set: (key, entries) => write(PAGES, key, entries),
+};
+
+export const historyCache: HistoryCache = {
+  get: (key) => read<HistoryPoint>(HISTORY_POINTS, key),
+  set: (key, point) => write(HISTORY_POINTS, key, point),
+};
+
+/** Where a contract's history starts; found once by binary search, then remembered */
+export async function getDeploymentBlock(client: PublicClient, chainId: number, address: Address): Promise<bigint> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const cached = await read<bigint>(DEPLOYMENT_BLOCKS, key);
+  if (cached !== undefined) return cached;
+
+  const block = await findDeploymentBlock(client, address);
+  // 0 means the node couldn't answer; try again next time rather than pinning a full scan
+  if (block > 0n) await write(DEPLOYMENT_BLOCKS, key, block);
+  return block;
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import { claimNotification, writeSchedule } from '../notificationStore';
+
+export type NotificationKind = 'cooldownReady' | 'holdExpired' | 'pauseChanged' | 'hedgeAlert' | 'marketClosing';
+
+export const NOTIFICATION_KINDS: Record<NotificationKind, { label: string; description: string }> = {
+  cooldownReady: { label: 'Unstake ready', description: 'Your sGBPb cooldown has ended and the GBPb can be claimed' },
+  holdExpired: { label: 'Redemption hold over', description: 'GBPb from your latest mint can be redeemed' },
+  pauseChanged: { label: 'Protocol paused or unpaused', description: 'The minter stopped or resumed minting and redemptions' },
+  hedgeAlert: { label: 'Hedge alerts', description: 'LiquidationWarning or RebalanceRequired was emitted' },
+  marketClosing: { label: 'Market closing', description: 'Minting and redeeming pause for the weekend within hours' },
+};
+
+export interface NotificationSettings {
+  enabled: boolean;
+  kinds: Record<NotificationKind, boolean>;
+}
+
+export interface BlendraNotification {
+  /** Shown at most once per wallet, and the same id replaces rather than stacks across tabs */
+  id: string;
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked */
+  url: string;
+}
+
+/** A notification whose time is known in advance, for the service worker to raise if the app is closed by then */
+export interface ScheduledNotification extends BlendraNotification {
+  kind: NotificationKind;
+  /** Unix seconds from which it is due */
+  at: number;
+  /** Unix seconds after which it is no longer worth showing */
+  expiresAt: number;
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+interface NotificationContextType {
+  /** The connected wallet's choices; everything off without a wallet */
+  settings: NotificationSettings;
+  permission: NotificationPermissionState;
+  /** The browser lets the service worker wake periodically, so scheduled notifications arrive with the app closed */
+  hasBackgroundSync: boolean;
+  /** Ask the browser for permission if needed, then switch notifications on for this wallet */
+  enable: () => Promise<void>;
+  disable: () => void;
+  setKind: (kind: NotificationKind, on: boolean) => void;
+  /** Show a notification if this wallet opted in to `kind` and hasn't already seen `notification.id` */
+  notify: (kind: NotificationKind, notification: BlendraNotification) => void;
+  /** Replace this wallet's scheduled notifications; only opted-in kinds are kept, and none while switched off */
+  schedule: (notifications: ScheduledNotification[]) => void;
+}
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  enabled: false,
+  kinds: { cooldownReady: true, holdExpired: true, pauseChanged: true, hedgeAlert: true, marketClosing: true },
+};
+
+const WORKER_URL = '/notifications-sw.js';
+// Must match SYNC_TAG in the worker
+const SYNC_TAG = 'blendra-scheduled-notifications';
+// What we ask for; browsers wake the worker far less often than this (Chrome: about every 12 hours at best)
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+// Periodic Background Sync is Chromium-only and missing from the DOM typings
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+const settingsKey = (address: string) => `blendra-notifications:${address.toLowerCase()}`;
+
+function loadSettings(address?: string): NotificationSettings {
+  if (!address) return DEFAULT_SETTINGS;
+  try {
+    const saved = localStorage.getItem(settingsKey(address));
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved) as Partial<NotificationSettings>;
+    return { enabled: parsed.enabled === true, kinds: { ...DEFAULT_SETTINGS.kinds, ...parsed.kinds } };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+function readPermission(): NotificationPermissionState {
+  return typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+/** Ask for periodic wake-ups; true when the browser agrees. Chrome only grants it to an installed app */
+async function registerBackgroundSync(worker: PeriodicSyncRegistration): Promise<boolean> {
+  if (!worker.periodicSync) return false;
+  try {
+    const { state } = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (state !== 'granted') return false;
+    await worker.periodicSync.register(SYNC_TAG, { minInterval: SYNC_INTERVAL_MS });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opt-in browser notifications, chosen per wallet and kept in localStorage. There is no push server:
+ * NotificationWatcher raises them from the open app, which browsers keep polling in a background tab,
+ * and a small service worker shows them and brings the app back on click. Where the browser allows
+ * Periodic Background Sync, the worker also raises the ones NotificationWatcher scheduled with the app closed.
+ */
+export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { address } = useAccount();
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_SETTINGS);
+  const [permission, setPermission] = useState<NotificationPermissionState>('default');
+  const [hasBackgroundSync, setHasBackgroundSync] = useState(false);
+  const registration = useRef<Promise<ServiceWorkerRegistration | undefined>>();
+
+  const registerWorker = useCallback(() => {
+    registration.current ??=
+      'serviceWorker' in navigator ? navigator.serviceWorker.register(WORKER_URL).catch(() => undefined) : Promise.resolve(undefined);
+    return registration.current;
+  }, []);
+
+  useEffect(() => {
+    setPermission(readPermission());
+    setSettings(loadSettings(address));
+  }, [address]);
+
+  // Another tab changed this wallet's settings
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (address && event.key === settingsKey(address)) setSettings(loadSettings(address));
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [address]);
+
+  useEffect(() => {
+    if (!settings.enabled || permission !== 'granted') return;
+    registerWorker().then(async (worker) => setHasBackgroundSync(!!worker && (await registerBackgroundSync(worker))));
+  }, [settings.enabled, permission, registerWorker]);
+
+  const save = useCallback(
+    (next: NotificationSettings) => {
+      setSettings(next);
+      if (address) localStorage.setItem(settingsKey(address), JSON.stringify(next));
+    },
+    [address]
+  );
+
+  const enable = useCallback(async () => {
+    if (!address || readPermission() === 'unsupported') return;
+    const granted = Notification.permission === 'granted' ? 'granted' : await Notification.requestPermission();
+    setPermission(granted);
+    if (granted !== 'granted') return;
+    await registerWorker();
+    save({ ...settings, enabled: true });
+  }, [address, settings, save, registerWorker]);
+
+  const disable = useCallback(() => save({ ...settings, enabled: false }), [settings, save]);
+
+  const setKind = useCallback(
+    (kind: NotificationKind, on: boolean) => save({ ...settings, kinds: { ...settings.kinds, [kind]: on } }),
+    [settings, save]
+  );
+
+  const notify = useCallback(
+    (kind: NotificationKind, { id, title, body, url }: BlendraNotification) => {
+      if (!address || !settings.enabled || !settings.kinds[kind] || readPermission() !== 'granted') return;
+
+      const options: NotificationOptions = { body, tag: id, icon: '/blendra-icon.svg', data: { url } };
+      claimNotification(address, id)
+        .then(async (isNew) => {
+          if (!isNew) return;
+          const worker = await registerWorker();
+          if (worker) return worker.showNotification(title, options);
+          const notification = new Notification(title, options);
+          notification.onclick = () => {
+            window.focus();
+            window.location.assign(url);
+          };
+        })
+        // new Notification() throws where only the worker may notify (Android Chrome) and showNotification() can
+        // reject; either way this one is lost, which is no reason for an unhandled rejection
+        .catch(() => undefined);
+    },
+    [address, settings, registerWorker]
+  );
+
+  const schedule = useCallback(
+    (notifications: ScheduledNotification[]) => {
+      if (!address) return;
+      const isOn = settings.enabled && readPermission() === 'granted';
+      writeSchedule(address, isOn ? notifications.filter(({ kind }) => settings.kinds[kind]) : []);
+    },
+    [address, settings]
+  );
+
+  return (
+    <NotificationContext.Provider value={{ settings, permission, hasBackgroundSync, enable, disable, setKind, notify, schedule }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
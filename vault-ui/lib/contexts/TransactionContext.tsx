@@ -0,0 +1,268 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAccount, useConfig, type Config } from 'wagmi';
+import { getAccount, getPublicClient, waitForCallsStatus } from 'wagmi/actions';
+import {
+  TransactionNotFoundError,
+  WaitForCallsStatusTimeoutError,
+  WaitForTransactionReceiptTimeoutError,
+  type Address,
+  type Hash,
+  type ReplacementReturnType,
+} from 'viem';
+import { useDeployment } from '../hooks/useDeployment';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'dropped';
+
+export interface TrackedTransaction {
+  /** The transaction hash, or the wallet_sendCalls id for a batch */
+  id: string;
+  /** Known from the start for a transaction; for a batch, once it lands */
+  hash?: Hash;
+  isBatch?: boolean;
+  chainId: number;
+  account?: Address;
+  /** What the user did, e.g. "Mint 500.00 USDC" */
+  label: string;
+  /** Unix ms it was handed to the wallet */
+  submittedAt: number;
+  status: TransactionStatus;
+  /** Nonce once a node has seen it, so a replacement mined while the page was closed is still recognised */
+  nonce?: number;
+  /** The transaction that took this one's nonce */
+  replacedBy?: Hash;
+  /** The replacement was a speed-up of the same call, so `status` is still this call's outcome */
+  spedUp?: boolean;
+}
+
+export interface TrackOptions {
+  hash?: Hash;
+  batchId?: string;
+  label: string;
+}
+
+interface TransactionContextType {
+  transactions: TrackedTransaction[];
+  /** Ids with a toast showing, newest last */
+  toasts: string[];
+  /** Start following a transaction or batch; tracking the same one twice is a no-op */
+  track: (options: TrackOptions) => void;
+  dismissToast: (id: string) => void;
+  /** Forget everything no longer pending */
+  clearFinished: () => void;
+}
+
+const STORAGE_KEY = 'blendra-transactions';
+const RECENT_LIMIT = 25;
+// Each wait gives up after this long, then checks whether the nonce went to another transaction
+const WATCH_TIMEOUT_MS = 2 * 60_000;
+// A transaction no node has heard of this long after sending was dropped from the mempool
+const DROP_AFTER_MS = 30 * 60_000;
+const RETRY_DELAY_MS = 15_000;
+const TOAST_MS = 6_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function loadTransactions(): TrackedTransaction[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as TrackedTransaction[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+type Update = (changes: Partial<TrackedTransaction>) => void;
+
+/** Follow one transaction until it is mined, replaced or dropped */
+async function watchTransaction(config: Config, tx: TrackedTransaction, update: Update, isStopped: () => boolean) {
+  const client = getPublicClient(config, { chainId: tx.chainId });
+  if (!client || !tx.hash) return;
+  const hash = tx.hash;
+
+  let { nonce, account } = tx;
+  while (!isStopped()) {
+    if (nonce === undefined) {
+      const seen = await client.getTransaction({ hash }).catch(() => undefined);
+      if (seen) {
+        ({ nonce, from: account } = seen);
+        update({ nonce, account });
+      }
+    }
+
+    let replacement: ReplacementReturnType | undefined;
+    try {
+      const receipt = await client.waitForTransactionReceipt({
+        hash,
+        timeout: WATCH_TIMEOUT_MS,
+        onReplaced: (replaced) => (replacement = replaced),
+      });
+      const outcome = receipt.status === 'success' ? 'confirmed' : 'failed';
+      if (!replacement) return update({ status: outcome });
+      return update({
+        status: replacement.reason === 'repriced' ? outcome : replacement.reason,
+        replacedBy: replacement.transaction.hash,
+        spedUp: replacement.reason === 'repriced',
+      });
+    } catch (error) {
+      if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+        await sleep(RETRY_DELAY_MS);
+        continue;
+      }
+    }
+
+    // Not mined yet. viem only spots a replacement it saw happen; after a reload, the nonce is the tell
+    if (nonce !== undefined && account) {
+      const used = await client.getTransactionCount({ address: account, blockTag: 'latest' }).catch(() => undefined);
+      if (used !== undefined && used > nonce) {
+        const receipt = await client.getTransactionReceipt({ hash }).catch(() => undefined);
+        if (receipt) return update({ status: receipt.status === 'success' ? 'confirmed' : 'failed' });
+        return update({ status: 'replaced' });
+      }
+    }
+
+    // Unmined with its nonce unused: once the node no longer knows the hash, long after sending, it has left the mempool
+    if (Date.now() - tx.submittedAt > DROP_AFTER_MS) {
+      // Only "not found" counts; a flaky RPC just means another round of waiting
+      const forgotten = await client.getTransaction({ hash }).then(
+        () => false,
+        (error) => error instanceof TransactionNotFoundError
+      );
+      if (forgotten) return update({ status: 'dropped' });
+    }
+  }
+}
+
+/** Follow a wallet_sendCalls batch; needs the wallet that sent it to be connected */
+async function watchBatch(config: Config, tx: TrackedTransaction, update: Update, isStopped: () => boolean) {
+  while (!isStopped()) {
+    try {
+      const { status, receipts } = await waitForCallsStatus(config, { id: tx.id, timeout: WATCH_TIMEOUT_MS });
+      return update({
+        status: status === 'success' ? 'confirmed' : 'failed',
+        hash: receipts?.[0]?.transactionHash,
+      });
+    } catch (error) {
+      if (error instanceof WaitForCallsStatusTimeoutError) continue;
+      // A disconnected wallet can't be asked, so wait for it to come back; a connected one that
+      // still can't find the batch long after it was sent has lost it
+      if (getAccount(config).isConnected && Date.now() - tx.submittedAt > DROP_AFTER_MS) {
+        return update({ status: 'dropped' });
+      }
+      await sleep(RETRY_DELAY_MS);
+    }
+  }
+}
+
+const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
+
+/**
+ * App-wide record of the transactions this browser sent, kept in localStorage so pending ones are
+ * picked up again after a reload or navigation, with a toast for each one as it settles
+ */
+export function TransactionProvider({ children }: { children: ReactNode }) {
+  const config = useConfig();
+  // Every form sends on the deployment's chain, so that is where the watcher has to look
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [toasts, setToasts] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const watching = useRef(new Set<string>());
+  const stopped = useRef(false);
+
+  useEffect(() => {
+    stopped.current = false;
+    return () => {
+      stopped.current = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    setTransactions(loadTransactions());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  }, [transactions, loaded]);
+
+  const dismissToast = useCallback((id: string) => setToasts((current) => current.filter((toast) => toast !== id)), []);
+
+  const update = useCallback(
+    (id: string, changes: Partial<TrackedTransaction>) => {
+      setTransactions((current) => current.map((tx) => (tx.id === id ? { ...tx, ...changes } : tx)));
+      if (changes.status && changes.status !== 'pending') {
+        // Bring the toast back for the outcome, then let it go
+        setToasts((current) => [...current.filter((toast) => toast !== id), id]);
+        setTimeout(() => dismissToast(id), TOAST_MS);
+      }
+    },
+    [dismissToast]
+  );
+
+  // Watch every pending transaction once, including those restored from storage
+  useEffect(() => {
+    for (const tx of transactions) {
+      if (tx.status !== 'pending' || watching.current.has(tx.id)) continue;
+      watching.current.add(tx.id);
+      const watch = tx.isBatch ? watchBatch : watchTransaction;
+      watch(config, tx, (changes) => update(tx.id, changes), () => stopped.current).finally(() =>
+        watching.current.delete(tx.id)
+      );
+    }
+  }, [transactions, config, update]);
+
+  const track = useCallback(
+    ({ hash, batchId, label }: TrackOptions) => {
+      const id = hash ?? batchId;
+      if (!id) return;
+      setTransactions((current) => {
+        if (current.some((tx) => tx.id === id)) return current;
+        const tx: TrackedTransaction = {
+          id,
+          hash,
+          isBatch: !hash,
+          chainId,
+          account: address,
+          label,
+          submittedAt: Date.now(),
+          status: 'pending',
+        };
+        return [tx, ...current].slice(0, RECENT_LIMIT);
+      });
+      setToasts((current) => (current.includes(id) ? current : [...current, id]));
+    },
+    [chainId, address]
+  );
+
+  const clearFinished = useCallback(() => setTransactions((current) => current.filter((tx) => tx.status === 'pending')), []);
+
+  return (
+    <TransactionContext.Provider value={{ transactions, toasts, track, dismissToast, clearFinished }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionContext);
+  if (context === undefined) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+}
+
+/** Track a transaction hash (or batch id) in the app-wide store as soon as the wallet returns it */
+export function useTrackTransaction(id: string | undefined, label: string, options: { isBatch?: boolean } = {}) {
+  const { track } = useTransactions();
+  const { isBatch } = options;
+  // The label is read when the hash first appears; later changes (e.g. the form clearing) don't matter
+  const labelRef = useRef(label);
+  labelRef.current = label;
+
+  useEffect(() => {
+    if (id) track(isBatch ? { batchId: id, label: labelRef.current } : { hash: id as Hash, label: labelRef.current });
+  }, [id, isBatch, track]);
+}
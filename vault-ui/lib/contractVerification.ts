@@ -1,157 +1,19 @@
-// FIX #4: Contract Verification
-// This module verifies that deployed contracts match expected bytecode/interfaces
+// Verifies that every contract in the active address book is the code we built and
+// that the contracts point at each other, before the app lets anyone deposit.
 
-import { createPublicClient, http, getContract } from 'viem';
-import { arbitrumSepolia, arbitrum } from 'viem/chains';
-import { CONTRACTS, VAULT_ABI, ERC20_ABI } from './contracts';
+import { getPublicClient } from 'wagmi/actions';
+import { getAddressBook, verifyDeployment, type DeploymentReport } from '@blendra/sdk';
+import type { SupportedChainId } from './networks';
+import { config } from './wagmi';
 
-const EXPECTED_CONTRACT_SIGNATURES = {
-  vault: {
-    functions: [
-      'deposit(uint256,address)',
-      'redeem(uint256,address,address)',
-      'totalAssets()',
-      'sharePriceGBP()',
-      'balanceOf(address)',
-    ],
-    name: 'GBPYieldVaultV2Secure',
-  },
-  usdc: {
-    functions: [
-      'balanceOf(address)',
-      'allowance(address,address)',
-      'approve(address,uint256)',
-      'transfer(address,uint256)',
-    ],
-    name: 'MockUSDC / USDC',
-  },
-};
+export type { ContractReport, DeploymentReport, VerificationCheck } from '@blendra/sdk';
 
-export interface VerificationResult {
-  isValid: boolean;
-  contractName: string;
-  missingFunctions?: string[];
-  error?: string;
-}
-
-export async function verifyContract(
-  contractAddress: `0x${string}`,
-  contractType: 'vault' | 'usdc',
-  chainId: number = 421614 // Arbitrum Sepolia
-): Promise<VerificationResult> {
-  try {
-    const chain = chainId === 42161 ? arbitrum : arbitrumSepolia;
-    const publicClient = createPublicClient({
-      chain,
-      transport: http(),
-    });
-
-    // Check if contract exists (has code)
-    const bytecode = await publicClient.getBytecode({
-      address: contractAddress,
-    });
-
-    if (!bytecode || bytecode === '0x') {
-      return {
-        isValid: false,
-        contractName: EXPECTED_CONTRACT_SIGNATURES[contractType].name,
-        error: 'No contract code found at address',
-      };
-    }
-
-    // Check if contract has expected functions
-    const expected = EXPECTED_CONTRACT_SIGNATURES[contractType];
-    const abi = contractType === 'vault' ? VAULT_ABI : ERC20_ABI;
-
-    const contract = getContract({
-      address: contractAddress,
-      abi,
-      client: publicClient,
-    });
-
-    // Try to call a view function to verify the interface
-    try {
-      if (contractType === 'vault') {
-        // Call totalAssets() to verify vault interface
-        await contract.read.totalAssets();
-      } else {
-        // Call name() or symbol() to verify ERC20 interface
-        await publicClient.readContract({
-          address: contractAddress,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: ['0x0000000000000000000000000000000000000000'],
-        });
-      }
-
-      return {
-        isValid: true,
-        contractName: expected.name,
-      };
-    } catch (functionError) {
-      return {
-        isValid: false,
-        contractName: expected.name,
-        error: `Contract interface mismatch: ${functionError instanceof Error ? functionError.message : 'Unknown error'}`,
-      };
-    }
-  } catch (error) {
-    return {
-      isValid: false,
-      contractName: EXPECTED_CONTRACT_SIGNATURES[contractType].name,
-      error: error instanceof Error ? error.message : 'Unknown verification error',
-    };
+// Verify all contracts on app load
+export async function verifyAllContracts(chainId: number): Promise<DeploymentReport> {
+  const publicClient = getPublicClient(config, { chainId: chainId as SupportedChainId });
+  if (!publicClient) {
+    throw new Error(`Chain ${chainId} is not configured`);
   }
-}
-
-// Verify all critical contracts on app load
-export async function verifyAllContracts(chainId: number = 421614): Promise<{
-  vault: VerificationResult;
-  usdc: VerificationResult;
-  allValid: boolean;
-}> {
-  const [vaultResult, usdcResult] = await Promise.all([
-    verifyContract(CONTRACTS.vault, 'vault', chainId),
-    verifyContract(CONTRACTS.usdc, 'usdc', chainId),
-  ]);
-
-  return {
-    vault: vaultResult,
-    usdc: usdcResult,
-    allValid: vaultResult.isValid && usdcResult.isValid,
-  };
-}
 
-// Hook to verify contracts on app load
-export function useContractVerification(chainId?: number) {
-  const [verificationStatus, setVerificationStatus] = React.useState<{
-    vault: VerificationResult | null;
-    usdc: VerificationResult | null;
-    isVerified: boolean;
-    isLoading: boolean;
-  }>({
-    vault: null,
-    usdc: null,
-    isVerified: false,
-    isLoading: true,
-  });
-
-  React.useEffect(() => {
-    async function verify() {
-      const results = await verifyAllContracts(chainId);
-      setVerificationStatus({
-        vault: results.vault,
-        usdc: results.usdc,
-        isVerified: results.allValid,
-        isLoading: false,
-      });
-    }
-
-    verify();
-  }, [chainId]);
-
-  return verificationStatus;
+  return verifyDeployment(publicClient, getAddressBook(chainId));
 }
-
-// Runtime import for React (this file is used in client components)
-import * as React from 'react';
@@ -0,0 +1,30 @@
+// CSV/JSON serialisation of sampled protocol history, at full precision like the tax export
+
+import { formatUnits } from 'viem';
+import { GBPB_DECIMALS, PRICE_DECIMALS, USDC_DECIMALS, type HistoryPoint } from '@blendra/sdk';
+import { toCsv } from './utils';
+
+function pointRecord(point: HistoryPoint): Record<string, string> {
+  return {
+    block: point.blockNumber.toString(),
+    timestamp: new Date(point.timestamp * 1000).toISOString(),
+    totalAssetsUsdc: formatUnits(point.totalAssets, USDC_DECIMALS),
+    sharePriceGbpb: formatUnits(point.sharePrice, GBPB_DECIMALS),
+    gbpbSupply: formatUnits(point.gbpbSupply, GBPB_DECIMALS),
+    backingRatioBps: point.backingRatioBps?.toString() ?? '',
+    morphoUsdc: formatUnits(point.morphoBalance, USDC_DECIMALS),
+    perpCollateralUsdc: formatUnits(point.perpCollateral, USDC_DECIMALS),
+    gbpUsd: point.gbpUsdPrice !== undefined ? formatUnits(point.gbpUsdPrice, PRICE_DECIMALS) : '',
+    redemptionCapacityGbpb: point.redemptionCapacity !== undefined ? formatUnits(point.redemptionCapacity, GBPB_DECIMALS) : '',
+  };
+}
+
+export function historyToCsv(points: HistoryPoint[]): string {
+  const records = points.map(pointRecord);
+  const header = Object.keys(records[0] ?? {});
+  return toCsv([header, ...records.map((record) => header.map((key) => record[key]))]);
+}
+
+export function historyToJson(points: HistoryPoint[]): string {
+  return JSON.stringify(points.map(pointRecord), null, 2);
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { scanActivity, type ActivityEntry } from '@blendra/sdk';
+import { activityCache, getDeploymentBlock } from '../chainCache';
+import { useDeployment } from './useDeployment';
+
+interface ActivityState {
+  entries: ActivityEntry[];
+  /** Share of the block range scanned so far, 0-1 */
+  progress: number;
+  isLoading: boolean;
+  error?: Error;
+}
+
+/**
+ * Hook for the wallet's protocol history, rebuilt from events
+ * Pages stream in newest first; settled pages are served from IndexedDB on later visits
+ */
+export function useActivity(address?: Address) {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const [state, setState] = useState<ActivityState>({ entries: [], progress: 0, isLoading: false });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!publicClient || !address) {
+      setState({ entries: [], progress: 0, isLoading: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ entries: [], progress: 0, isLoading: true });
+
+    async function load() {
+      try {
+        const [fromBlock, toBlock] = await Promise.all([
+          getDeploymentBlock(publicClient!, chainId, contracts.minter),
+          publicClient!.getBlockNumber(),
+        ]);
+
+        await scanActivity(publicClient!, chainId, contracts, address!, {
+          fromBlock,
+          toBlock,
+          cache: activityCache,
+          signal: controller.signal,
+          onPage: (page, { scanned, total }) => {
+            if (controller.signal.aborted) return;
+            setState((previous) => ({
+              ...previous,
+              entries: [...previous.entries, ...page],
+              progress: total > 0n ? Number((scanned * 1000n) / total) / 1000 : 1,
+            }));
+          },
+        });
+
+        if (!controller.signal.aborted) {
+          setState((previous) => ({ ...previous, progress: 1, isLoading: false }));
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setState((previous) => ({
+            ...previous,
+            isLoading: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          }));
+        }
+      }
+    }
+
+    load();
+    return () => controller.abort();
+  }, [publicClient, chainId, contracts, address, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { ...state, reload };
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAccount, usePublicClient, useSignTypedData } from 'wagmi';
+import type { Address } from 'viem';
+import { eip2612Abi, permitCall, permitTypedData, readPermitDomain, type ApprovalStrategy } from '@blendra/sdk';
+import { useAtomicBatching } from './useAtomicBatching';
+import { useDeployment } from './useDeployment';
+
+// Long enough to confirm in a hardware wallet, short enough that a leaked signature soon expires
+const PERMIT_TTL_SECONDS = 30 * 60;
+
+const storageKey = (address: string) => `blendra-approval:${address.toLowerCase()}`;
+
+/**
+ * Hook for how the connected wallet approves USDC: exact amount, unlimited, or an EIP-2612 permit batched with the call
+ * The choice is remembered per wallet. Permit needs both a token that supports it and a wallet that batches atomically,
+ * so a remembered permit falls back to exact where either is missing
+ */
+export function useApprovalStrategy() {
+  const { chainId, contracts } = useDeployment();
+  const { address } = useAccount();
+  const publicClient = usePublicClient({ chainId });
+  const { canBatch } = useAtomicBatching();
+  const { signTypedDataAsync } = useSignTypedData();
+  const [preferred, setPreferred] = useState<ApprovalStrategy>('exact');
+
+  useEffect(() => {
+    const saved = address ? localStorage.getItem(storageKey(address)) : null;
+    setPreferred(saved === 'unlimited' || saved === 'permit' ? saved : 'exact');
+  }, [address]);
+
+  // The token's EIP-712 domain never changes; null when it has no permit
+  const { data: permitDomain, isLoading: isCheckingPermit } = useQuery({
+    queryKey: ['permitDomain', chainId, contracts.usdc],
+    queryFn: async () => (await readPermitDomain(publicClient!, contracts.usdc)) ?? null,
+    enabled: !!publicClient,
+    staleTime: Infinity,
+  });
+
+  const canPermit = !!permitDomain && canBatch;
+
+  const setStrategy = (next: ApprovalStrategy) => {
+    setPreferred(next);
+    if (address) localStorage.setItem(storageKey(address), next);
+  };
+
+  /** Sign a permit letting `spender` pull `value` USDC and return the permit() call to put ahead of it in a batch */
+  const signPermit = async (spender: Address, value: bigint) => {
+    if (!address || !publicClient || !permitDomain) throw new Error('USDC permit is not available');
+
+    const params = {
+      owner: address,
+      spender,
+      value,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS),
+    };
+    const nonce = await publicClient.readContract({
+      address: contracts.usdc,
+      abi: eip2612Abi,
+      functionName: 'nonces',
+      args: [address],
+    });
+    const signature = await signTypedDataAsync(permitTypedData(permitDomain, params, nonce));
+    return permitCall(contracts.usdc, params, signature);
+  };
+
+  return {
+    /** The strategy in effect */
+    strategy: preferred === 'permit' && !canPermit ? ('exact' as const) : preferred,
+    preferred,
+    setStrategy,
+    canPermit,
+    /** Why permit is unavailable, for the picker; undefined while checking or when it is available */
+    permitUnavailableReason:
+      isCheckingPermit || canPermit
+        ? undefined
+        : !permitDomain
+          ? 'USDC on this network does not support permits'
+          : 'Your wallet cannot batch the permit with the mint',
+    signPermit,
+  };
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useAccount, useCapabilities } from 'wagmi';
+import { useDeployment } from './useDeployment';
+
+/**
+ * Hook for whether the connected wallet can run an EIP-5792 wallet_sendCalls batch atomically on this chain
+ * Wallets that would split a batch into separate transactions count as unable, since the flows that batch rely
+ * on all-or-nothing execution
+ */
+export function useAtomicBatching() {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+
+  const { data: capabilities, isLoading } = useCapabilities({
+    account: address,
+    chainId,
+    query: { enabled: !!address, retry: false },
+  });
+  const status = capabilities?.atomic?.status;
+
+  return {
+    canBatch: status === 'supported' || status === 'ready',
+    isLoading,
+  };
+}
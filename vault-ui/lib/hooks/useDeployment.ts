@@ -0,0 +1,24 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { getDeployment } from '@blendra/sdk';
+import { getChain, getExplorerUrl } from '../networks';
+
+/**
+ * Hook for the deployment on the currently selected chain
+ * Contract addresses follow the network switcher / wallet chain
+ */
+export function useDeployment() {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    const deployment = getDeployment(chainId);
+
+    return {
+      ...deployment,
+      chain: getChain(chainId),
+      explorerUrl: getExplorerUrl(chainId),
+    };
+  }, [chainId]);
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { readFeeSchedule, type FeeSchedule } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// Fees only move with a governance call or a redeploy; a minute is plenty to pick one up
+const FEES_REFRESH_MS = 60_000;
+
+/**
+ * Hook for the live fee schedule: the minter's mint/redemption fees and minimum mint, and sGBPb's
+ * performance fee, high-water mark and cooldown. Forms render these rather than hard-coded copy
+ */
+export function useFeeSchedule() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<FeeSchedule>({
+    queryKey: ['feeSchedule', chainId, contracts.minter, contracts.sGBPb],
+    queryFn: () => readFeeSchedule(publicClient!, contracts),
+    enabled: !!publicClient,
+    staleTime: FEES_REFRESH_MS,
+    refetchInterval: FEES_REFRESH_MS,
+  });
+}
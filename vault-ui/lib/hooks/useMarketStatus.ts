@@ -0,0 +1,38 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { getMarketStatus, readWeekendConfig, type MarketStatus, type WeekendConfig } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+import { useNow } from './useNow';
+
+// The window only changes through an owner transaction; a minute is plenty
+const CONFIG_REFRESH_MS = 60_000;
+
+/**
+ * Hook for whether the minter accepts mint/redeem right now, from its own weekend configuration
+ * Re-evaluated every second so the countdown to the next close or reopen stays live
+ */
+export function useMarketStatus() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const now = useNow();
+
+  const { data: config, isLoading, error } = useQuery<WeekendConfig>({
+    queryKey: ['weekendConfig', chainId, contracts.minter],
+    queryFn: () => readWeekendConfig(publicClient!, contracts.minter),
+    enabled: !!publicClient,
+    refetchInterval: CONFIG_REFRESH_MS,
+  });
+
+  const status: MarketStatus | undefined = config ? getMarketStatus(config, now) : undefined;
+
+  return {
+    status,
+    config,
+    /** Seconds until the market next closes or reopens */
+    secondsUntilChange: status?.nextChange !== undefined ? status.nextChange - now : undefined,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Hook for the current unix time in seconds, ticking once a second
+ * Drives live countdowns (market hours, unstake cooldowns)
+ */
+export function useNow() {
+  const [now, setNow] = useState(nowSeconds);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import {
+  describeErrorCode,
+  mintWindow,
+  readOperationLimits,
+  redeemWindow,
+  type DecodedError,
+  type OperationLimits,
+  type OperationWindow,
+} from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+import { useNow } from './useNow';
+
+// Other wallets' mints move lastGlobalOperation, so keep it about as fresh as the snapshot
+const LIMITS_REFRESH_MS = 12_000;
+
+function describeWindow(window: OperationWindow, limits: OperationLimits, now: number) {
+  const secondsLeft = Math.max(0, window.availableAt - now);
+  const blocker: DecodedError | undefined = window.blockedBy
+    ? describeErrorCode(window.blockedBy, { retryInSeconds: secondsLeft, minHoldTime: limits.minHoldTime })
+    : undefined;
+  return { availableAt: window.availableAt, secondsLeft, blocker };
+}
+
+/**
+ * Hook for when the connected wallet can next mint (rate limits) and redeem (minimum hold time)
+ * Mirrors the minter's own checks so the form can count down instead of letting the call revert
+ */
+export function useOperationLimits(address?: Address) {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const now = useNow();
+
+  const { data: limits, refetch } = useQuery<OperationLimits>({
+    queryKey: ['operationLimits', chainId, contracts.minter, address],
+    queryFn: () => readOperationLimits(publicClient!, contracts, address!),
+    enabled: !!publicClient && !!address,
+    refetchInterval: LIMITS_REFRESH_MS,
+  });
+
+  return {
+    limits,
+    mint: limits ? describeWindow(mintWindow(limits, now), limits, now) : undefined,
+    redeem: limits ? describeWindow(redeemWindow(limits, now), limits, now) : undefined,
+    refetch,
+  };
+}
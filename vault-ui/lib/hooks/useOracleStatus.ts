@@ -0,0 +1,36 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { describeErrorCode, readOracleStatus, type OracleStatus } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+import { useNow } from './useNow';
+
+// Same cadence as the snapshot, whose price this explains
+const ORACLE_REFRESH_MS = 12_000;
+
+/**
+ * Hook for the GBP/USD oracle's price, freshness, bounds and backup feed
+ * `blocker` is set exactly when the minter would revert mint and redeem on the price
+ */
+export function useOracleStatus() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const now = useNow();
+
+  const { data: status, isLoading, error } = useQuery<OracleStatus>({
+    queryKey: ['oracleStatus', chainId, contracts.oracle],
+    queryFn: () => readOracleStatus(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: ORACLE_REFRESH_MS,
+  });
+
+  return {
+    status,
+    /** Seconds since the primary feed's round, ticking between reads */
+    age: status?.updatedAt !== undefined ? Math.max(0, now - status.updatedAt) : undefined,
+    blocker: status?.blockedBy ? describeErrorCode(status.blockedBy) : undefined,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import {
+  liquidationPrice,
+  readPerpPosition,
+  readRecentPerpEvents,
+  type PerpEvent,
+  type PerpPosition,
+} from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// PnL is marked at the oracle price, so follow it at the snapshot's cadence
+const POSITION_REFRESH_MS = 12_000;
+// The position only changes on mints, redemptions and rebalances
+const EVENTS_REFRESH_MS = 60_000;
+
+/**
+ * Hook for the GBP/USD hedge held by PerpPositionManager: the live position, the price at which it
+ * would reach its liquidation threshold, and its recent increases, decreases and liquidation warnings
+ */
+export function usePerpHedge() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  const { data: position, isLoading, error } = useQuery<PerpPosition>({
+    queryKey: ['perpPosition', chainId, contracts.perpManager],
+    queryFn: () => readPerpPosition(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: POSITION_REFRESH_MS,
+  });
+
+  const { data: events, isLoading: isLoadingEvents } = useQuery<PerpEvent[]>({
+    queryKey: ['perpEvents', chainId, contracts.perpManager],
+    queryFn: () => readRecentPerpEvents(publicClient!, contracts),
+    enabled: !!publicClient,
+    staleTime: EVENTS_REFRESH_MS,
+    refetchInterval: EVENTS_REFRESH_MS,
+  });
+
+  return {
+    position,
+    liquidationPrice: position ? liquidationPrice(position) : undefined,
+    events: events ?? [],
+    isLoading,
+    isLoadingEvents,
+    error,
+  };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { buildPortfolio, readPortfolioBalances, type PortfolioBalances } from '@blendra/sdk';
+import { useActivity } from './useActivity';
+import { useDeployment } from './useDeployment';
+
+const BALANCES_REFRESH_MS = 30_000;
+
+/**
+ * Hook for the wallet's portfolio: cost basis replayed from its activity, valued at today's
+ * share price and oracle rate, with realised and unrealised PnL split into yield, FX and fees
+ */
+export function usePortfolio(address?: Address) {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const activity = useActivity(address);
+
+  const {
+    data: balances,
+    error: balancesError,
+    refetch,
+  } = useQuery<PortfolioBalances>({
+    queryKey: ['portfolioBalances', chainId, contracts.sGBPb, address],
+    queryFn: () => readPortfolioBalances(publicClient!, contracts, address!),
+    enabled: !!publicClient && !!address,
+    refetchInterval: BALANCES_REFRESH_MS,
+  });
+
+  // A partial history would give a wrong basis, so wait for the whole scan
+  const portfolio = useMemo(
+    () => (balances && !activity.isLoading && !activity.error ? buildPortfolio(activity.entries, balances) : undefined),
+    [activity.entries, activity.isLoading, activity.error, balances]
+  );
+
+  return {
+    portfolio,
+    progress: activity.progress,
+    isLoading: activity.isLoading || (!!address && !balances && !balancesError),
+    error: activity.error ?? (balancesError instanceof Error ? balancesError : undefined),
+    reload: () => {
+      activity.reload();
+      refetch();
+    },
+  };
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { readProtocolHealth, type ProtocolHealth } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// Same cadence as the snapshot; the perp PnL behind the health factor moves with every price update
+const HEALTH_REFRESH_MS = 12_000;
+
+/**
+ * Hook for the minter's own health views (backing, hedge, reserve, margin deficit), read at one block
+ * These are the values the protocol acts on, so the UI shows them rather than recomputing its own
+ */
+export function useProtocolHealth() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<ProtocolHealth>({
+    queryKey: ['protocolHealth', chainId, contracts.minter],
+    queryFn: () => readProtocolHealth(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: HEALTH_REFRESH_MS,
+  });
+}
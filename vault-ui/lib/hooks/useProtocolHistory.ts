@@ -0,0 +1,49 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { findBlockAtTimestamp, sampleHistory, type HistoryPoint } from '@blendra/sdk';
+import { getDeploymentBlock, historyCache } from '../chainCache';
+import { useDeployment } from './useDeployment';
+
+export type HistoryRange = '7d' | '30d' | '90d' | 'all';
+
+const RANGE_DAYS: Record<Exclude<HistoryRange, 'all'>, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+// Only the newest point is read fresh on a revisit, so refreshing is cheap
+const HISTORY_REFRESH_MS = 5 * 60_000;
+
+/**
+ * Hook for sampled protocol history over a range, for the analytics charts
+ * Settled points are served from IndexedDB, so a revisit only reads the latest block
+ */
+export function useProtocolHistory(range: HistoryRange) {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<HistoryPoint[]>({
+    queryKey: ['protocolHistory', chainId, contracts.minter, range],
+    queryFn: async ({ signal }) => {
+      const [deploymentBlock, head] = await Promise.all([
+        getDeploymentBlock(publicClient!, chainId, contracts.minter),
+        publicClient!.getBlock(),
+      ]);
+
+      let fromBlock = deploymentBlock;
+      if (range !== 'all') {
+        const rangeStart = await findBlockAtTimestamp(publicClient!, head.timestamp - BigInt(RANGE_DAYS[range] * 86400));
+        if (rangeStart > fromBlock) fromBlock = rangeStart;
+      }
+
+      return sampleHistory(publicClient!, chainId, contracts, {
+        fromBlock,
+        toBlock: head.number,
+        cache: historyCache,
+        signal,
+      });
+    },
+    enabled: !!publicClient,
+    staleTime: HISTORY_REFRESH_MS,
+    refetchInterval: HISTORY_REFRESH_MS,
+  });
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { readProtocolSnapshot, type ProtocolSnapshot } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// Arbitrum produces several blocks a second; refreshing per block would only burn RPC
+const SNAPSHOT_REFRESH_MS = 12_000;
+
+/**
+ * Hook for the block-consistent protocol snapshot (TVL, supplies, strategy balances, price, config)
+ * Every component calling it shares one cached query per chain, read through Multicall3
+ */
+export function useProtocolSnapshot() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<ProtocolSnapshot>({
+    queryKey: ['protocolSnapshot', chainId, contracts.minter],
+    queryFn: () => readProtocolSnapshot(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: SNAPSHOT_REFRESH_MS,
+  });
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { readRedemptionCapacity, type RedemptionCapacity } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+
+// Morpho liquidity and the hedge's PnL both move block to block; follow them at the snapshot's cadence
+const CAPACITY_REFRESH_MS = 12_000;
+
+/**
+ * Hook for how much GBPb a single redeem can take right now before one of the minter's withdrawals
+ * comes back short and the transaction reverts with InsufficientLiquidity
+ */
+export function useRedemptionCapacity() {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  return useQuery<RedemptionCapacity>({
+    queryKey: ['redemptionCapacity', chainId, contracts.minter],
+    queryFn: () => readRedemptionCapacity(publicClient!, contracts),
+    enabled: !!publicClient,
+    refetchInterval: CAPACITY_REFRESH_MS,
+  });
+}
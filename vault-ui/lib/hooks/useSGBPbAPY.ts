@@ -1,107 +1,64 @@
 'use client';
 
-import { useReadContract } from 'wagmi';
-import { CONTRACTS } from '../contracts';
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient, useReadContract } from 'wagmi';
+import { gbpb, readRealisedApy, sGbpbShares, type ApyReport } from '@blendra/sdk';
+import { SGBPB_ABI } from '../contracts';
+import { getDeploymentBlock } from '../chainCache';
+import { formatBps } from '../utils';
+import { useDeployment } from './useDeployment';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
 
-// Hyperithm Morpho Vault ABI for APY calculation
-const MORPHO_VAULT_ABI = [
-  {
-    inputs: [],
-    name: 'totalAssets',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [],
-    name: 'totalSupply',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: 'shares', type: 'uint256' }],
-    name: 'convertToAssets',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
-
-const HYPERITHM_VAULT = '0x4B6F1C9E5d470b97181786b26da0d0945A7cf027' as const;
+// Harvests are at most daily, so the realised figures barely move within the hour
+const APY_REFRESH_MS = 10 * 60_000;
 
 /**
- * Hook to fetch real sGBPb APY from Morpho strategy
- * sGBPb earns the Morpho vault APY (from Hyperithm)
+ * Hook for sGBPb's realised APY, computed from the on-chain share price
+ * The headline is the trailing 30 days (since inception while sGBPb is younger); the
+ * operator-set MorphoStrategyAdapter.currentAPY is returned alongside so the gap is visible
  */
 export function useSGBPbAPY() {
-  // Get the APY from MorphoStrategyAdapter (manually set by operator)
-  const { data: strategyAPY, isLoading } = useReadContract({
-    address: CONTRACTS.morphoStrategy,
-    abi: [
-      {
-        inputs: [],
-        name: 'currentAPY',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'currentAPY',
-  });
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  // Total staked comes from the shared snapshot
+  const { data: snapshot } = useProtocolSnapshot();
 
-  // Also fetch total staked in sGBPb vault
-  const { data: totalStaked } = useReadContract({
-    address: CONTRACTS.sGBPb,
-    abi: [
-      {
-        inputs: [],
-        name: 'totalAssets',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'totalAssets',
+  const { data: report, isLoading } = useQuery<ApyReport | null>({
+    queryKey: ['realisedApy', chainId, contracts.sGBPb],
+    queryFn: async () => {
+      const inceptionBlock = await getDeploymentBlock(publicClient!, chainId, contracts.sGBPb);
+      // 0 means the lookup failed; no realised figures rather than a scan from genesis
+      return inceptionBlock > 0n ? readRealisedApy(publicClient!, contracts, inceptionBlock) : null;
+    },
+    enabled: !!publicClient,
+    staleTime: APY_REFRESH_MS,
+    refetchInterval: APY_REFRESH_MS,
   });
 
-  // Convert APY from basis points to percentage
-  // 500 basis points = 5%
-  let apyPercent = strategyAPY ? Number(strategyAPY) / 100 : 0;
-
-  // Fallback to approximate APY if contract returns 0
-  // Based on typical Hyperithm Morpho vault performance
-  if (apyPercent === 0 && !isLoading) {
-    apyPercent = 6.5; // Approximate Morpho lending APY
-  }
-
-  // Total staked in GBPb (18 decimals)
-  const totalStakedGBPb = totalStaked ? Number(totalStaked) / 1e18 : 0;
+  // Undefined until sGBPb has a day of history (or when the node can't read past blocks or find its deployment)
+  const apyBps = report?.windows.find((window) => window.window === '30d')?.apyBps;
 
   return {
-    apy: apyPercent,
-    totalStaked: totalStakedGBPb,
+    apyBps,
+    windows: report?.windows ?? [],
+    operatorApyBps: report?.operatorApyBps ?? snapshot?.morphoAPYBps,
+    lastHarvestAt: report?.lastHarvestAt,
+    totalStaked: snapshot?.sGbpbTotalAssets ?? gbpb(0n),
     isLoading,
-    formattedAPY: `${apyPercent.toFixed(1)}%`,
+    formattedAPY: apyBps !== undefined ? formatBps(apyBps) : 'n/a',
   };
 }
 
 /**
  * Hook to fetch user's sGBPb position details
+ * Profit needs what the shares cost, not their count - see usePortfolio
  */
 export function useUserSGBPbPosition(userAddress?: `0x${string}`) {
+  const { contracts } = useDeployment();
   // User's sGBPb balance
   const { data: sGBPbBalance } = useReadContract({
-    address: CONTRACTS.sGBPb,
-    abi: [
-      {
-        inputs: [{ name: 'account', type: 'address' }],
-        name: 'balanceOf',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
     functionName: 'balanceOf',
     args: userAddress ? [userAddress] : undefined,
     query: {
@@ -111,30 +68,17 @@ export function useUserSGBPbPosition(userAddress?: `0x${string}`) {
 
   // Convert sGBPb to underlying GBPb value
   const { data: underlyingValue } = useReadContract({
-    address: CONTRACTS.sGBPb,
-    abi: [
-      {
-        inputs: [{ name: 'shares', type: 'uint256' }],
-        name: 'convertToAssets',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
     functionName: 'convertToAssets',
-    args: sGBPbBalance ? [sGBPbBalance as bigint] : undefined,
+    args: sGBPbBalance ? [sGBPbBalance] : undefined,
     query: {
       enabled: !!sGBPbBalance,
     },
   });
 
-  const sGBPb = sGBPbBalance ? Number(sGBPbBalance) / 1e18 : 0;
-  const gbpbValue = underlyingValue ? Number(underlyingValue) / 1e18 : 0;
-  const accruedValue = gbpbValue - sGBPb; // Profit from staking
-
   return {
-    sGBPbBalance: sGBPb,
-    underlyingGBPbValue: gbpbValue,
-    accruedProfit: accruedValue,
+    sGBPbBalance: sGbpbShares(sGBPbBalance ?? 0n),
+    underlyingGBPbValue: gbpb(underlyingValue ?? 0n),
   };
 }
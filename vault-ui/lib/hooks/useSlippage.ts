@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { bps, DEFAULT_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS, type Bps } from '@blendra/sdk';
+
+const storageKey = (address: string) => `blendra-slippage:${address.toLowerCase()}`;
+
+function parseSaved(saved: string | null): Bps {
+  if (!saved || !/^\d+$/.test(saved)) return DEFAULT_SLIPPAGE_BPS;
+  const value = BigInt(saved);
+  return value > 0n && value <= MAX_SLIPPAGE_BPS ? bps(value) : DEFAULT_SLIPPAGE_BPS;
+}
+
+/**
+ * Hook for the connected wallet's slippage tolerance in bps, remembered per wallet
+ * Mint and redeem minimums are the quoted amount less this tolerance
+ */
+export function useSlippage() {
+  const { address } = useAccount();
+  const [slippageBps, setSlippage] = useState<Bps>(DEFAULT_SLIPPAGE_BPS);
+
+  useEffect(() => {
+    setSlippage(parseSaved(address ? localStorage.getItem(storageKey(address)) : null));
+  }, [address]);
+
+  const setSlippageBps = (next: Bps) => {
+    if (next <= 0n || next > MAX_SLIPPAGE_BPS) return;
+    setSlippage(next);
+    if (address) localStorage.setItem(storageKey(address), next.toString());
+  };
+
+  return { slippageBps, setSlippageBps };
+}
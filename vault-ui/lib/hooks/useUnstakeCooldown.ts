@@ -0,0 +1,48 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import { findUnstakeTransaction, readUnstakeState, type UnstakeState } from '@blendra/sdk';
+import { useDeployment } from './useDeployment';
+import { useNow } from './useNow';
+
+/**
+ * Hook for the user's sGBPb unstake cooldown (unstake -> wait cooldownDuration -> cooldownWithdraw)
+ * State comes from cooldowns(user) on every load, so a pending claim survives reloads and other devices
+ */
+export function useUnstakeCooldown(address?: Address) {
+  const { chainId, contracts } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const now = useNow();
+
+  const { data: state, isLoading, refetch } = useQuery<UnstakeState>({
+    queryKey: ['unstakeCooldown', chainId, contracts.sGBPb, address],
+    queryFn: () => readUnstakeState(publicClient!, contracts.sGBPb, address!),
+    enabled: !!publicClient && !!address,
+  });
+
+  const pending = state?.pending;
+
+  // The unstake transaction, from its CooldownStarted log; a cooldown never changes once started
+  const { data: unstakeTxHash } = useQuery({
+    queryKey: ['unstakeTransaction', chainId, contracts.sGBPb, address, pending?.startedAt, pending?.cooldownEnd],
+    queryFn: async () => (await findUnstakeTransaction(publicClient!, contracts.sGBPb, address!, pending!)) ?? null,
+    enabled: !!publicClient && !!address && !!pending,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return {
+    pending,
+    cooldownDuration: state?.cooldownDuration,
+    /** Seconds left before cooldownWithdraw() succeeds */
+    secondsUntilClaim: pending ? Math.max(0, pending.cooldownEnd - now) : undefined,
+    isClaimable: !!pending && now >= pending.cooldownEnd,
+    /** Seconds before unstake() can be called again (the contract's per-user unstake rate limit) */
+    secondsUntilUnstake: state ? Math.max(0, state.nextUnstakeAt - now) : undefined,
+    unstakeTxHash: unstakeTxHash ?? undefined,
+    isLoading,
+    refetch,
+  };
+}
@@ -1,12 +1,14 @@
 import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { CONTRACTS, VAULT_ABI, ERC20_ABI } from '../contracts';
+import { LEGACY_VAULT_ABI, ERC20_ABI } from '../contracts';
+import { useDeployment } from './useDeployment';
 import { parseUnits, formatUnits } from 'viem';
 
 // Hook to read vault TVL
 export function useVaultTVL() {
+  const { contracts } = useDeployment();
   const { data, isLoading, error } = useReadContract({
-    address: CONTRACTS.vault,
-    abi: VAULT_ABI,
+    address: contracts.minter,
+    abi: LEGACY_VAULT_ABI,
     functionName: 'totalAssets',
   });
 
@@ -19,9 +21,10 @@ export function useVaultTVL() {
 
 // Hook to read current APY
 export function useVaultAPY() {
+  const { contracts } = useDeployment();
   const { data, isLoading, error } = useReadContract({
-    address: CONTRACTS.vault,
-    abi: VAULT_ABI,
+    address: contracts.minter,
+    abi: LEGACY_VAULT_ABI,
     functionName: 'getCurrentAPY',
   });
 
@@ -34,8 +37,9 @@ export function useVaultAPY() {
 
 // Hook to read user's USDC balance
 export function useUSDCBalance(address?: `0x${string}`) {
+  const { contracts } = useDeployment();
   const { data, isLoading, error } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -50,8 +54,9 @@ export function useUSDCBalance(address?: `0x${string}`) {
 
 // Hook to read user's GBPb balance
 export function useGBPbBalance(address?: `0x${string}`) {
+  const { contracts } = useDeployment();
   const { data, isLoading, error } = useReadContract({
-    address: CONTRACTS.gbpb,
+    address: contracts.gbpb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -66,6 +71,7 @@ export function useGBPbBalance(address?: `0x${string}`) {
 
 // Hook to deposit USDC
 export function useDeposit() {
+  const { contracts } = useDeployment();
   const { writeContract, data: hash, isPending, error } = useWriteContract();
 
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
@@ -76,8 +82,8 @@ export function useDeposit() {
     const amountInWei = parseUnits(amount, 6); // USDC has 6 decimals
 
     writeContract({
-      address: CONTRACTS.vault,
-      abi: VAULT_ABI,
+      address: contracts.minter,
+      abi: LEGACY_VAULT_ABI,
       functionName: 'deposit',
       args: [amountInWei],
     });
@@ -95,16 +101,17 @@ export function useDeposit() {
 
 // Hook to approve USDC spending
 export function useApproveUSDC() {
+  const { contracts } = useDeployment();
   const { writeContract, data: hash, isPending, error } = useWriteContract();
 
   const approve = (amount: string) => {
     const amountInWei = parseUnits(amount, 6);
 
     writeContract({
-      address: CONTRACTS.usdc,
+      address: contracts.usdc,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [CONTRACTS.vault, amountInWei],
+      args: [contracts.minter, amountInWei],
     });
   };
 
@@ -1,128 +1,52 @@
 'use client';
 
 import { useReadContract } from 'wagmi';
-import { CONTRACTS, VAULT_ABI, ERC20_ABI } from '../contracts';
-import { formatUnits } from 'viem';
+import { bps, gbpb, ratioBps, sGbpbShares, usdc, usdcToGbpb } from '@blendra/sdk';
+import { ERC20_ABI, SGBPB_ABI } from '../contracts';
+import { useDeployment } from './useDeployment';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
 
 /**
  * Hook to fetch comprehensive vault metrics
+ * Derived from the block-consistent protocol snapshot, so allocations always add up
  */
 export function useVaultMetrics() {
-  // Total TVL in USDC
-  const { data: totalAssets, isLoading: isLoadingTVL } = useReadContract({
-    address: CONTRACTS.vault,
-    abi: VAULT_ABI,
-    functionName: 'totalAssets',
-  });
-
-  // Total GBPb supply
-  const { data: totalGBPbSupply } = useReadContract({
-    address: CONTRACTS.gbpb,
-    abi: ERC20_ABI,
-    functionName: 'totalSupply',
-  });
-
-  // Morpho strategy balance
-  const { data: morphoBalance } = useReadContract({
-    address: CONTRACTS.morphoStrategy,
-    abi: [
-      {
-        inputs: [],
-        name: 'totalAssets',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'totalAssets',
-  });
-
-  // Morpho strategy APY (manually set)
-  const { data: morphoAPY } = useReadContract({
-    address: CONTRACTS.morphoStrategy,
-    abi: [
-      {
-        inputs: [],
-        name: 'currentAPY',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'currentAPY',
-  });
-
-  // Perp manager collateral
-  const { data: perpCollateral } = useReadContract({
-    address: CONTRACTS.perpManager,
-    abi: [
-      {
-        inputs: [],
-        name: 'currentCollateral',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'currentCollateral',
-  });
-
-  // GBP/USD exchange rate
-  const { data: gbpUsdRate } = useReadContract({
-    address: CONTRACTS.oracle,
-    abi: [
-      {
-        inputs: [],
-        name: 'getGBPUSDPrice',
-        outputs: [{ name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function',
-      },
-    ] as const,
-    functionName: 'getGBPUSDPrice',
-  });
+  const { data: snapshot, isLoading } = useProtocolSnapshot();
 
-  // Calculate metrics
-  const tvlUSD = totalAssets ? Number(formatUnits(totalAssets as bigint, 6)) : 0;
-  const morphoBalanceUSD = morphoBalance ? Number(formatUnits(morphoBalance as bigint, 6)) : 0;
-  const perpCollateralUSD = perpCollateral ? Number(formatUnits(perpCollateral as bigint, 6)) : 0;
+  // Calculate metrics - all amounts stay in on-chain units (see @blendra/sdk quote/units)
+  const tvl = snapshot?.totalAssets ?? usdc(0n);
+  const morphoBalance = snapshot?.morphoBalance ?? usdc(0n);
+  const perpCollateral = snapshot?.perpCollateral ?? usdc(0n);
 
-  // Allocation percentages
-  const morphoAllocation = tvlUSD > 0 ? (morphoBalanceUSD / tvlUSD) * 100 : 0;
-  const perpAllocation = tvlUSD > 0 ? (perpCollateralUSD / tvlUSD) * 100 : 0;
+  // Allocation in bps of TVL
+  const morphoAllocationBps = ratioBps(morphoBalance, tvl);
+  const perpAllocationBps = ratioBps(perpCollateral, tvl);
 
-  // Estimated net APY calculation
-  // Morpho APY is in basis points (500 = 5%)
-  // Assume perp funding cost ~5-15% annualized (conservative estimate)
-  const morphoAPYPercent = morphoAPY ? Number(morphoAPY) / 100 : 5; // Default 5%
-  const estimatedPerpFundingCost = 10; // 10% funding cost estimate
+  // Operator-set Morpho APY in basis points (500 = 5%); realised sGBPb APY is in useSGBPbAPY
+  const morphoAPYBps = snapshot?.morphoAPYBps ?? bps(0n);
 
-  // Net APY = (Morpho APY * Morpho allocation) - (Funding cost * Perp allocation)
-  const netAPY = (morphoAPYPercent * morphoAllocation / 100) - (estimatedPerpFundingCost * perpAllocation / 100);
-
-  // GBP/USD rate (8 decimals from Chainlink)
-  const gbpUsdPrice = gbpUsdRate ? Number(gbpUsdRate) / 1e8 : 1.30;
+  // GBP/USD rate (8 decimals from Chainlink); undefined until read, and while no feed is usable (see useOracleStatus)
+  const gbpUsdPrice = snapshot?.gbpUsdPrice;
 
   // Total GBPb in circulation
-  const totalGBPb = totalGBPbSupply ? Number(formatUnits(totalGBPbSupply as bigint, 18)) : 0;
+  const totalGBPb = snapshot?.gbpbSupply ?? gbpb(0n);
 
-  // TVL in GBP terms
-  const tvlGBP = tvlUSD / gbpUsdPrice;
+  // TVL in GBP terms, converted exactly like the minter does
+  const tvlGBP = gbpUsdPrice ? usdcToGbpb(tvl, gbpUsdPrice) : gbpb(0n);
 
   return {
     // TVL metrics
-    tvlUSD,
+    tvl,
     tvlGBP,
-    morphoBalanceUSD,
-    perpCollateralUSD,
+    morphoBalance,
+    perpCollateral,
 
     // Allocations
-    morphoAllocation,
-    perpAllocation,
+    morphoAllocationBps,
+    perpAllocationBps,
 
     // APY
-    netAPY,
-    morphoAPYPercent,
+    morphoAPYBps,
 
     // Exchange rate
     gbpUsdPrice,
@@ -130,8 +54,12 @@ export function useVaultMetrics() {
     // Supply
     totalGBPb,
 
+    // Block the values were read at
+    blockNumber: snapshot?.blockNumber,
+    timestamp: snapshot?.timestamp,
+
     // Loading state
-    isLoading: isLoadingTVL,
+    isLoading,
   };
 }
 
@@ -139,9 +67,10 @@ export function useVaultMetrics() {
  * Hook to fetch user-specific vault data
  */
 export function useUserVaultData(userAddress?: `0x${string}`) {
+  const { contracts } = useDeployment();
   // User's GBPb balance
   const { data: gbpbBalance } = useReadContract({
-    address: CONTRACTS.gbpb,
+    address: contracts.gbpb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: userAddress ? [userAddress] : undefined,
@@ -152,7 +81,7 @@ export function useUserVaultData(userAddress?: `0x${string}`) {
 
   // User's USDC balance
   const { data: usdcBalance } = useReadContract({
-    address: CONTRACTS.usdc,
+    address: contracts.usdc,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: userAddress ? [userAddress] : undefined,
@@ -163,7 +92,7 @@ export function useUserVaultData(userAddress?: `0x${string}`) {
 
   // User's sGBPb (staked) balance
   const { data: sGBPbBalance } = useReadContract({
-    address: CONTRACTS.sGBPb,
+    address: contracts.sGBPb,
     abi: ERC20_ABI,
     functionName: 'balanceOf',
     args: userAddress ? [userAddress] : undefined,
@@ -172,14 +101,27 @@ export function useUserVaultData(userAddress?: `0x${string}`) {
     },
   });
 
-  const gbpb = gbpbBalance ? Number(formatUnits(gbpbBalance as bigint, 18)) : 0;
-  const usdc = usdcBalance ? Number(formatUnits(usdcBalance as bigint, 6)) : 0;
-  const sGBPb = sGBPbBalance ? Number(formatUnits(sGBPbBalance as bigint, 18)) : 0;
+  // GBPb the staked shares redeem for; shares and GBPb are different units and only add up after this
+  const { data: stakedGbpb } = useReadContract({
+    address: contracts.sGBPb,
+    abi: SGBPB_ABI,
+    functionName: 'convertToAssets',
+    args: sGBPbBalance !== undefined ? [sGBPbBalance] : undefined,
+    query: {
+      enabled: !!userAddress && sGBPbBalance !== undefined,
+    },
+  });
+
+  const gbpbAmount = gbpb(gbpbBalance ?? 0n);
+  const usdcAmount = usdc(usdcBalance ?? 0n);
+  const sGBPbAmount = sGbpbShares(sGBPbBalance ?? 0n);
+  const stakedGbpbAmount = gbpb(stakedGbpb ?? 0n);
 
   return {
-    gbpbBalance: gbpb,
-    usdcBalance: usdc,
-    sGBPbBalance: sGBPb,
-    totalGBPbHoldings: gbpb + sGBPb,
+    gbpbBalance: gbpbAmount,
+    usdcBalance: usdcAmount,
+    sGBPbBalance: sGBPbAmount,
+    stakedGBPbValue: stakedGbpbAmount,
+    totalGBPbHoldings: gbpb(gbpbAmount + stakedGbpbAmount),
   };
 }
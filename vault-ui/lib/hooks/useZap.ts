@@ -0,0 +1,377 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useSendCalls,
+  useSendTransaction,
+  useWaitForCallsStatus,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import type { Hash, Log } from 'viem';
+import {
+  ZAP_IN_STEPS,
+  ZAP_OUT_STEPS,
+  decodeBlendraError,
+  describeErrorCode,
+  gbpb,
+  mintedAmount,
+  usdc,
+  zapInCall,
+  zapInCalls,
+  zapOutCall,
+  zapOutCalls,
+  type DecodedError,
+  type ErrorContext,
+  type Gbpb,
+  type Usdc,
+  type ZapInStep,
+  type ZapOutStep,
+} from '@blendra/sdk';
+import { ERC20_ABI } from '../contracts';
+import { useTransactions } from '../contexts/TransactionContext';
+import { formatGBPb, formatUSDC } from '../utils';
+import { useAtomicBatching } from './useAtomicBatching';
+import { useDeployment } from './useDeployment';
+import { useFeeSchedule } from './useFeeSchedule';
+import { useOperationLimits } from './useOperationLimits';
+
+export type ZapDirection = 'in' | 'out';
+export type ZapStep = ZapInStep | ZapOutStep;
+export type ZapMode = 'batch' | 'steps';
+
+/** What a zap was started with and how far it got; amounts are decimal strings since bigint doesn't survive JSON */
+interface ZapProgress {
+  mode: ZapMode;
+  /** In: USDC spent and the mint floor */
+  usdcAmount?: string;
+  minGbpAmount?: string;
+  /** In: GBPb minted, once the mint has landed. Out: the cooldown amount being claimed and redeemed */
+  gbpAmount?: string;
+  /** wallet_sendCalls id while a batch is outstanding */
+  batchId?: string;
+  /** Hash of each wizard step sent; a step is done once it is in `confirmed` */
+  hashes: Partial<Record<ZapStep, Hash>>;
+  /** Steps that landed, or were skipped because the allowance already covered them */
+  confirmed: ZapStep[];
+  /** The batch's transaction, for the explorer link */
+  batchHash?: Hash;
+}
+
+export const ZAP_STEP_LABELS: Record<ZapStep, string> = {
+  approveUsdc: 'Approve USDC',
+  mint: 'Mint GBPb',
+  approveGbpb: 'Approve GBPb',
+  deposit: 'Stake GBPb',
+  cooldownWithdraw: 'Claim unstaked GBPb',
+  approveGbpbForRedeem: 'Approve GBPb for redeem',
+  redeem: 'Redeem to USDC',
+};
+
+export interface ZapAmounts {
+  usdcAmount?: Usdc;
+  minGbpAmount?: Gbpb;
+  gbpAmount?: Gbpb;
+}
+
+// How long to poll a signed batch before giving up on it; viem's default of a minute is short for a slow wallet
+const BATCH_TIMEOUT_MS = 10 * 60 * 1000;
+
+const storageKey = (chainId: number, address: string, direction: ZapDirection) =>
+  `blendra-zap:${chainId}:${address.toLowerCase()}:${direction}`;
+
+function loadProgress(key: string): ZapProgress | undefined {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? (JSON.parse(saved) as ZapProgress) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hook for the USDC -> sGBPb zap ('in') and the claimed cooldown -> USDC exit ('out')
+ * Wallets with EIP-5792 atomic batching sign one wallet_sendCalls; others walk the steps one transaction
+ * at a time. Either way progress is kept in localStorage per chain and wallet, so a reload resumes it.
+ */
+export function useZap(direction: ZapDirection) {
+  const { chainId, contracts } = useDeployment();
+  const { address } = useAccount();
+  const publicClient = usePublicClient({ chainId });
+  const [progress, setProgress] = useState<ZapProgress>();
+  const [error, setError] = useState<DecodedError>();
+  const [isPreparing, setIsPreparing] = useState(false);
+  const { track } = useTransactions();
+
+  // The zap mints or redeems, so its reverts can be BelowMinimumMint or MinimumHoldTimeNotMet
+  const { data: fees } = useFeeSchedule();
+  const { limits } = useOperationLimits(address);
+  const minMintAmount = fees?.minMintAmount;
+  const minHoldTime = limits?.minHoldTime;
+  const errorContext = useMemo<ErrorContext>(() => ({ minMintAmount, minHoldTime }), [minMintAmount, minHoldTime]);
+
+  const steps: readonly ZapStep[] = direction === 'in' ? ZAP_IN_STEPS : ZAP_OUT_STEPS;
+  const key = address ? storageKey(chainId, address, direction) : undefined;
+
+  useEffect(() => {
+    setProgress(key ? loadProgress(key) : undefined);
+    setError(undefined);
+  }, [key]);
+
+  const save = useCallback(
+    (next: ZapProgress | undefined) => {
+      setProgress(next);
+      if (!key) return;
+      if (next) localStorage.setItem(key, JSON.stringify(next));
+      else localStorage.removeItem(key);
+    },
+    [key]
+  );
+
+  // A wallet that would split the calls into separate transactions gets the wizard instead
+  const { canBatch, isLoading: isCheckingCapabilities } = useAtomicBatching();
+
+  const { data: usdcAllowance, refetch: refetchUsdcAllowance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: address ? [address, contracts.minter] : undefined,
+    query: { enabled: !!address && direction === 'in' },
+  });
+
+  // The zap in approves GBPb to sGBPb for the deposit; the exit approves it to the minter, whose redeem() burns with burnFrom
+  const { data: gbpbAllowance, refetch: refetchGbpbAllowance } = useReadContract({
+    address: contracts.gbpb,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: address ? [address, direction === 'in' ? contracts.sGBPb : contracts.minter] : undefined,
+    query: { enabled: !!address },
+  });
+
+  const currentStep = progress ? steps.find((step) => !progress.confirmed.includes(step)) : undefined;
+  const currentHash = progress?.mode === 'steps' && currentStep ? progress.hashes[currentStep] : undefined;
+  const isComplete = !!progress && !currentStep;
+
+  const callFor = (step: ZapStep, state: ZapProgress) =>
+    direction === 'in'
+      ? zapInCall(contracts, step as ZapInStep, {
+          usdcAmount: usdc(BigInt(state.usdcAmount!)),
+          minGbpAmount: gbpb(BigInt(state.minGbpAmount!)),
+          gbpbAmount: gbpb(BigInt(state.gbpAmount ?? state.minGbpAmount!)),
+          receiver: address!,
+        })
+      : zapOutCall(contracts, step as ZapOutStep, gbpb(BigInt(state.gbpAmount!)));
+
+  // ============ Batch ============
+
+  const { sendCalls, isPending: isBatchPending, reset: resetBatch } = useSendCalls();
+
+  const { data: batchStatus, error: batchStatusError } = useWaitForCallsStatus({
+    id: progress?.batchId,
+    timeout: BATCH_TIMEOUT_MS,
+    query: { enabled: !!progress?.batchId },
+  });
+
+  useEffect(() => {
+    if (!progress?.batchId || !batchStatus || batchStatus.status === 'pending') return;
+
+    if (batchStatus.status === 'success') {
+      const logs = (batchStatus.receipts ?? []).flatMap((receipt) => receipt.logs) as Log[];
+      const minted = direction === 'in' && address ? mintedAmount(logs, contracts.minter, address) : undefined;
+      save({
+        ...progress,
+        batchId: undefined,
+        batchHash: batchStatus.receipts?.[0]?.transactionHash,
+        gbpAmount: minted !== undefined ? minted.toString() : progress.gbpAmount,
+        confirmed: [...steps],
+      });
+      refetchUsdcAllowance();
+      refetchGbpbAllowance();
+    } else {
+      // An atomic batch that fails leaves nothing behind, so there is nothing to resume
+      setError({ ...describeErrorCode('UNKNOWN'), message: 'The batch reverted and nothing was changed.' });
+      save(undefined);
+    }
+  }, [progress, batchStatus, direction, address, contracts.minter, steps, save, refetchUsdcAllowance, refetchGbpbAllowance]);
+
+  // Timed out, or the wallet no longer knows the id: stop waiting rather than keep the form busy for good.
+  // The batch may still land, so the user is told to check before zapping again
+  useEffect(() => {
+    if (!batchStatusError || !progress?.batchId) return;
+    setError({
+      ...decodeBlendraError(batchStatusError, errorContext),
+      message: 'Could not confirm the batch',
+      remediation: 'It may still land. Check your wallet and balances before zapping again.',
+    });
+    save(undefined);
+  }, [batchStatusError, progress?.batchId, errorContext, save]);
+
+  // ============ Step by step ============
+
+  const { sendTransaction, isPending: isStepPending, reset: resetStep } = useSendTransaction();
+
+  const { data: stepReceipt, error: stepReceiptError } = useWaitForTransactionReceipt({ hash: currentHash, chainId });
+
+  useEffect(() => {
+    if (!progress || !currentStep || !currentHash || stepReceipt?.transactionHash !== currentHash) return;
+
+    const minted =
+      currentStep === 'mint' && address ? mintedAmount(stepReceipt.logs, contracts.minter, address) : undefined;
+    save({
+      ...progress,
+      gbpAmount: minted !== undefined ? minted.toString() : progress.gbpAmount,
+      confirmed: [...progress.confirmed, currentStep],
+    });
+    if (currentStep === 'approveUsdc') refetchUsdcAllowance();
+    if (currentStep === 'approveGbpb' || currentStep === 'approveGbpbForRedeem') refetchGbpbAllowance();
+  }, [progress, currentStep, currentHash, stepReceipt, address, contracts.minter, save, refetchUsdcAllowance, refetchGbpbAllowance]);
+
+  // A reverted step is forgotten so it can be sent again; the steps before it still stand
+  useEffect(() => {
+    if (!stepReceiptError || !progress || !currentStep || !currentHash) return;
+    setError(decodeBlendraError(stepReceiptError, errorContext));
+    const hashes = { ...progress.hashes };
+    delete hashes[currentStep];
+    save({ ...progress, hashes });
+  }, [stepReceiptError, progress, currentStep, currentHash, save, errorContext]);
+
+  // Approvals the wallet already has are skipped rather than signed again
+  useEffect(() => {
+    if (progress?.mode !== 'steps' || !currentStep || currentHash) return;
+    const covered =
+      (currentStep === 'approveUsdc' && usdcAllowance !== undefined && usdcAllowance >= BigInt(progress.usdcAmount!)) ||
+      (currentStep === 'approveGbpb' &&
+        gbpbAllowance !== undefined &&
+        gbpbAllowance >= BigInt(progress.gbpAmount ?? progress.minGbpAmount!)) ||
+      (currentStep === 'approveGbpbForRedeem' && gbpbAllowance !== undefined && gbpbAllowance >= BigInt(progress.gbpAmount!));
+    if (covered) save({ ...progress, confirmed: [...progress.confirmed, currentStep] });
+  }, [progress, currentStep, currentHash, usdcAllowance, gbpbAllowance, save]);
+
+  /** Send the next wizard step, after checking it against the chain so a revert shows before the wallet opens */
+  const sendNextStep = async (state: ZapProgress = progress!) => {
+    const step = steps.find((s) => !state.confirmed.includes(s));
+    if (!address || !publicClient || !step) return;
+    setError(undefined);
+
+    const { to, data } = callFor(step, state);
+    setIsPreparing(true);
+    try {
+      await publicClient.call({ account: address, to, data });
+    } catch (e) {
+      setError(decodeBlendraError(e, errorContext));
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+
+    sendTransaction(
+      { to, data, chainId },
+      {
+        onSuccess: (hash) => {
+          save({ ...state, hashes: { ...state.hashes, [step]: hash } });
+          track({ hash, label: `Zap: ${ZAP_STEP_LABELS[step]}` });
+        },
+        onError: (e) => setError(decodeBlendraError(e, errorContext)),
+      }
+    );
+  };
+
+  /** Begin a zap: one batch where the wallet supports it, otherwise the first wizard step */
+  const start = (amounts: ZapAmounts) => {
+    if (!address) return;
+    setError(undefined);
+    resetBatch();
+    resetStep();
+
+    const base: ZapProgress = {
+      mode: canBatch ? 'batch' : 'steps',
+      usdcAmount: amounts.usdcAmount?.toString(),
+      minGbpAmount: amounts.minGbpAmount?.toString(),
+      gbpAmount: amounts.gbpAmount?.toString(),
+      hashes: {},
+      // Sent without an approval the wallet doesn't need; a batch leaves it out the same way
+      confirmed:
+        direction === 'in'
+          ? amounts.usdcAmount !== undefined && (usdcAllowance ?? 0n) >= amounts.usdcAmount
+            ? ['approveUsdc']
+            : []
+          : amounts.gbpAmount !== undefined && (gbpbAllowance ?? 0n) >= amounts.gbpAmount
+            ? ['approveGbpbForRedeem']
+            : [],
+    };
+
+    if (!canBatch) {
+      save(base);
+      sendNextStep(base);
+      return;
+    }
+
+    const calls =
+      direction === 'in'
+        ? zapInCalls(
+            contracts,
+            { usdcAmount: amounts.usdcAmount!, minGbpAmount: amounts.minGbpAmount!, receiver: address },
+            { usdc: usdcAllowance, gbpb: gbpbAllowance }
+          )
+        : zapOutCalls(contracts, amounts.gbpAmount!, { gbpb: gbpbAllowance });
+
+    sendCalls(
+      { calls: calls.map(({ to, data }) => ({ to, data })), forceAtomic: true, chainId },
+      {
+        onSuccess: ({ id }) => {
+          save({ ...base, batchId: id });
+          track({
+            batchId: id,
+            label:
+              direction === 'in'
+                ? `Zap ${formatUSDC(amounts.usdcAmount!)} USDC into sGBPb`
+                : `Claim and redeem ${formatGBPb(amounts.gbpAmount!)} GBPb`,
+          });
+        },
+        onError: (e) => setError(decodeBlendraError(e, errorContext)),
+      }
+    );
+  };
+
+  /** Forget the zap, finished or abandoned; steps that already landed stay on chain */
+  const clear = () => {
+    setError(undefined);
+    resetBatch();
+    resetStep();
+    save(undefined);
+  };
+
+  return {
+    canBatch,
+    isCheckingCapabilities,
+    /** How the saved zap is being run; undefined when none is in progress */
+    mode: progress?.mode,
+    steps: steps.map((step) => ({
+      step,
+      isDone: !!progress?.confirmed.includes(step),
+      /** Done without a transaction because the allowance already covered it */
+      isSkipped: !!progress?.confirmed.includes(step) && progress.mode === 'steps' && !progress.hashes[step],
+      hash: progress?.hashes[step],
+    })),
+    currentStep,
+    amounts: {
+      usdcAmount: progress?.usdcAmount !== undefined ? usdc(BigInt(progress.usdcAmount)) : undefined,
+      minGbpAmount: progress?.minGbpAmount !== undefined ? gbpb(BigInt(progress.minGbpAmount)) : undefined,
+      gbpAmount: progress?.gbpAmount !== undefined ? gbpb(BigInt(progress.gbpAmount)) : undefined,
+    },
+    isActive: !!progress && !isComplete,
+    isComplete,
+    /** Wallet open, or a transaction or batch waiting to land */
+    isBusy: isPreparing || isBatchPending || isStepPending || !!progress?.batchId || !!currentHash,
+    isWaitingForWallet: isBatchPending || isStepPending,
+    /** Only waiting on a signed batch, which clear() can walk away from */
+    isWaitingForBatch: !!progress?.batchId,
+    transactionHash: progress?.batchHash ?? currentHash ?? (progress ? progress.hashes[steps[steps.length - 1]] : undefined),
+    error,
+    start,
+    continue: () => sendNextStep(),
+    clear,
+  };
+}
@@ -0,0 +1,88 @@
+// IndexedDB record of each wallet's notifications, shared with public/notifications-sw.js: what is due
+// and when, so the worker can raise it with the app closed, and which ids have been shown, so neither
+// side shows one twice. The worker opens the same database by hand; keep the two in step.
+
+import type { ScheduledNotification } from './contexts/NotificationContext';
+
+const DB_NAME = 'blendra-notifications';
+const DB_VERSION = 1;
+const WALLETS = 'wallets';
+// Ids already shown per wallet; only the newest are kept
+const SHOWN_LIMIT = 100;
+
+export interface WalletNotifications {
+  scheduled: ScheduledNotification[];
+  shown: string[];
+}
+
+const EMPTY: WalletNotifications = { scheduled: [], shown: [] };
+const shownKey = (address: string) => `blendra-notified:${address.toLowerCase()}`;
+
+let db: Promise<IDBDatabase | undefined> | undefined;
+
+function openDb(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(undefined);
+
+  db ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(WALLETS);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+  return db;
+}
+
+/** Read the wallet's record and write back `change(record)` in one transaction, so tabs and the worker don't race */
+async function update(
+  address: string,
+  change: (record: WalletNotifications) => WalletNotifications | undefined
+): Promise<void> {
+  const database = await openDb();
+  if (!database) return;
+
+  return new Promise((resolve) => {
+    const store = database.transaction(WALLETS, 'readwrite').objectStore(WALLETS);
+    const key = address.toLowerCase();
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const next = change((request.result as WalletNotifications | undefined) ?? EMPTY);
+      if (!next) return resolve();
+      const put = store.put(next, key);
+      put.onsuccess = () => resolve();
+      // A full or blocked store at worst repeats a notification
+      put.onerror = () => resolve();
+    };
+    request.onerror = () => resolve();
+  });
+}
+
+/** Replace what the worker should raise for this wallet if the app is closed when it falls due */
+export function writeSchedule(address: string, scheduled: ScheduledNotification[]): Promise<void> {
+  return update(address, (record) => ({ ...record, scheduled }));
+}
+
+/**
+ * Mark `id` shown for this wallet; true only the first time, for whichever tab or worker gets there first.
+ * Without IndexedDB there is no worker to share with, so the record falls back to localStorage.
+ */
+export async function claimNotification(address: string, id: string): Promise<boolean> {
+  if (await openDb()) {
+    let isNew = false;
+    await update(address, (record) => {
+      if (record.shown.includes(id)) return undefined;
+      isNew = true;
+      return { ...record, shown: [...record.shown, id].slice(-SHOWN_LIMIT) };
+    });
+    return isNew;
+  }
+
+  let shown: string[] = [];
+  try {
+    shown = JSON.parse(localStorage.getItem(shownKey(address)) ?? '[]') as string[];
+  } catch {
+    // Corrupt record: start again
+  }
+  if (shown.includes(id)) return false;
+  localStorage.setItem(shownKey(address), JSON.stringify([...shown, id].slice(-SHOWN_LIMIT)));
+  return true;
+}
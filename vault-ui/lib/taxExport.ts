@@ -0,0 +1,78 @@
+// CSV/JSON serialisation of a tax year from `buildTaxReport`. Amounts are written at full precision
+// with no thousands separators so spreadsheets and tax software read them as numbers.
+
+import { formatUnits } from 'viem';
+import { GBPB_DECIMALS, PRICE_DECIMALS, USDC_DECIMALS, type MatchingRule, type TaxRow, type TaxYearSummary } from '@blendra/sdk';
+import { toCsv } from './utils';
+
+const sterling = (value: bigint) => formatUnits(value, GBPB_DECIMALS);
+const quantity = (value: bigint) => formatUnits(value, GBPB_DECIMALS);
+
+function matched(row: TaxRow, rule: MatchingRule) {
+  const matches = row.matches?.filter((match) => match.rule === rule) ?? [];
+  return {
+    quantity: matches.length ? quantity(matches.reduce((sum, match) => sum + match.quantity, 0n)) : '',
+    cost: matches.length ? sterling(matches.reduce((sum, match) => sum + match.cost, 0n)) : '',
+    acquiredOn: matches.map((match) => match.acquiredOn).filter(Boolean).join(' '),
+  };
+}
+
+function rowRecord(row: TaxRow): Record<string, string> {
+  const sameDay = matched(row, 'same-day');
+  const bedAndBreakfast = matched(row, 'bed-and-breakfast');
+  const section104 = matched(row, 'section-104');
+
+  return {
+    date: row.date,
+    taxYear: row.taxYear,
+    type: row.type,
+    activity: row.kind,
+    asset: row.asset,
+    quantity: quantity(row.quantity),
+    valueGbp: sterling(row.value),
+    feeGbp: sterling(row.fee),
+    feeUsdc: row.feeUsd !== undefined ? formatUnits(row.feeUsd, USDC_DECIMALS) : '',
+    gbpUsd: row.gbpUsdPrice !== undefined ? formatUnits(row.gbpUsdPrice, PRICE_DECIMALS) : '',
+    gbpUsdUpdatedAt: row.gbpUsdPriceUpdatedAt !== undefined ? new Date(row.gbpUsdPriceUpdatedAt * 1000).toISOString() : '',
+    allowableCostGbp: row.cost !== undefined ? sterling(row.cost) : '',
+    gainGbp: row.gain !== undefined ? sterling(row.gain) : '',
+    sameDayQuantity: sameDay.quantity,
+    sameDayCostGbp: sameDay.cost,
+    bedAndBreakfastQuantity: bedAndBreakfast.quantity,
+    bedAndBreakfastCostGbp: bedAndBreakfast.cost,
+    bedAndBreakfastAcquiredOn: bedAndBreakfast.acquiredOn,
+    section104Quantity: section104.quantity,
+    section104CostGbp: section104.cost,
+    unmatchedQuantity: row.unmatched !== undefined ? quantity(row.unmatched) : '',
+    counterparty: row.counterparty ?? '',
+    transaction: row.transactionHash,
+    block: row.blockNumber.toString(),
+    timestamp: new Date(row.timestamp * 1000).toISOString(),
+  };
+}
+
+export function taxYearToCsv(year: TaxYearSummary): string {
+  // A tax year only exists because it has rows, so the first one gives the columns
+  const records = year.rows.map(rowRecord);
+  const header = Object.keys(records[0] ?? {});
+  return toCsv([header, ...records.map((record) => header.map((key) => record[key]))]);
+}
+
+export function taxYearToJson(year: TaxYearSummary): string {
+  return JSON.stringify(
+    {
+      taxYear: year.taxYear,
+      start: year.start,
+      end: year.end,
+      disposals: year.disposals,
+      proceedsGbp: sterling(year.proceeds),
+      allowableCostsGbp: sterling(year.allowableCosts),
+      gainsGbp: sterling(year.gains),
+      lossesGbp: sterling(year.losses),
+      netGbp: sterling(year.net),
+      rows: year.rows.map(rowRecord),
+    },
+    null,
+    2
+  );
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { decodeBlendraError, formatUnitsFixed } from "@blendra/sdk"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -13,9 +14,34 @@ export function formatNumber(value: number | bigint, decimals: number = 2): stri
   }).format(num)
 }
 
-export function formatUSDC(value: bigint): string {
+export function formatUSDC(value: bigint, displayDecimals: number = 2): string {
   // USDC has 6 decimals
-  return formatNumber(Number(value) / 1e6, 2)
+  return formatUnitsFixed(value, 6, displayDecimals)
+}
+
+export function formatGBPb(value: bigint, displayDecimals: number = 2): string {
+  // GBPb and sGBPb have 18 decimals
+  return formatUnitsFixed(value, 18, displayDecimals)
+}
+
+/** Gain/loss form with an explicit sign: "+$12.34", "-$0.50" */
+export function formatSignedUSDC(value: bigint): string {
+  return `${value < 0n ? '-' : '+'}$${formatUSDC(value < 0n ? -value : value)}`
+}
+
+/** Gain/loss form with an explicit sign: "+£12.34", "-£0.50" */
+export function formatSignedGBPb(value: bigint): string {
+  return `${value < 0n ? '-' : '+'}£${formatGBPb(value < 0n ? -value : value)}`
+}
+
+export function formatPrice(value: bigint, displayDecimals: number = 4): string {
+  // Chainlink GBP/USD has 8 decimals
+  return formatUnitsFixed(value, 8, displayDecimals)
+}
+
+export function formatBps(value: bigint, displayDecimals: number = 1): string {
+  // 10000 bps = 100.00%
+  return `${formatUnitsFixed(value, 2, displayDecimals)}%`
 }
 
 export function formatPercentage(value: number): string {
@@ -25,3 +51,47 @@ export function formatPercentage(value: number): string {
 export function shortenAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`
 }
+
+/** One-line form of a decoded protocol error, for places that show errors as plain text */
+export function describeError(error: unknown): string {
+  const { message, remediation } = decodeBlendraError(error)
+  return `${message}. ${remediation}`
+}
+
+/** Live countdown form: "2d 4h 03m", "4h 03m 12s", "3m 12s" */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds))
+  const days = Math.floor(s / 86400)
+  const hours = Math.floor((s % 86400) / 3600)
+  const minutes = String(Math.floor((s % 3600) / 60)).padStart(2, '0')
+  const secs = String(s % 60).padStart(2, '0')
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`
+  if (hours > 0) return `${hours}h ${minutes}m ${secs}s`
+  return `${Number(minutes)}m ${secs}s`
+}
+
+/** Coarse duration for copy: "1 day", "12 hours", "1 day 6 hours", "45 minutes" */
+export function formatDuration(seconds: number): string {
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  if (days > 0) return hours > 0 ? `${plural(days, 'day')} ${plural(hours, 'hour')}` : plural(days, 'day')
+  if (hours > 0) return plural(hours, 'hour')
+  return plural(Math.ceil(seconds / 60), 'minute')
+}
+
+/** Join rows into CSV, quoting cells that contain commas, quotes or newlines */
+export function toCsv(rows: string[][]): string {
+  const cell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+  return rows.map((cells) => cells.map(cell).join(",")).join("\n")
+}
+
+/** Hand a generated file to the browser as a download */
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
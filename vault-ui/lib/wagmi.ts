@@ -1,11 +1,11 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { arbitrum } from 'wagmi/chains';
 import { createStorage } from 'wagmi';
+import { SUPPORTED_CHAINS } from './networks';
 
 export const config = getDefaultConfig({
   appName: 'GBP Yield Vault',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
-  chains: [arbitrum],
+  chains: SUPPORTED_CHAINS,
   ssr: true,
   storage: createStorage({
     storage: typeof window !== 'undefined' ? window.localStorage : undefined,
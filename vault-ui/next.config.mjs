@@ -1,12 +1,28 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+// Optional local anvil deployment (git-ignored), see packages/sdk/README.md
+const localManifest = new URL('../deployments/local.json', import.meta.url);
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  env: existsSync(localManifest)
+    ? { NEXT_PUBLIC_LOCAL_DEPLOYMENT: readFileSync(localManifest, 'utf8') }
+    : {},
+  // @blendra/sdk ships TypeScript sources
+  transpilePackages: ['@blendra/sdk'],
   webpack: (config) => {
     config.resolve.fallback = { fs: false, net: false, tls: false };
     config.externals.push('pino-pretty', 'lokijs', 'encoding');
     config.resolve.alias = {
       ...config.resolve.alias,
       '@react-native-async-storage/async-storage': false,
+      // One viem for the app and the linked SDK, even when packages/sdk has its own install for its tests;
+      // two copies would break decodeBlendraError()'s instanceof checks on errors thrown by wagmi
+      viem: fileURLToPath(new URL('./node_modules/viem', import.meta.url)),
     };
+    // Resolve the linked SDK's other imports from this app's node_modules
+    config.resolve.symlinks = false;
     return config;
   },
 };
@@ -0,0 +1,83 @@
+// Service worker behind vault-ui's opt-in notifications (see lib/contexts/NotificationContext.tsx).
+// While Blendra is open the page decides what to show and calls registration.showNotification(); this worker
+// exists so notifications work where `new Notification()` doesn't (Android Chrome) and so a click brings
+// Blendra back. Where the browser grants Periodic Background Sync it also wakes the worker now and then to
+// raise what the page scheduled (cooldown end, hold expiry, weekend close) if the app is closed by then.
+
+// Must match lib/notificationStore.ts and SYNC_TAG in NotificationContext.tsx
+const DB_NAME = 'blendra-notifications';
+const DB_VERSION = 1;
+const WALLETS = 'wallets';
+const SHOWN_LIMIT = 100;
+const SYNC_TAG = 'blendra-scheduled-notifications';
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(WALLETS);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Claim every due notification in one transaction, so a tab open at the same moment can't show it as well
+function claimDue(database, now) {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(WALLETS, 'readwrite');
+    const store = transaction.objectStore(WALLETS);
+    const due = [];
+
+    const cursor = store.openCursor();
+    cursor.onsuccess = () => {
+      const entry = cursor.result;
+      if (!entry) return;
+      const record = entry.value;
+      const fresh = record.scheduled.filter(
+        (notification) => notification.at <= now && now < notification.expiresAt && !record.shown.includes(notification.id)
+      );
+      if (fresh.length > 0) {
+        due.push(...fresh);
+        entry.update({ ...record, shown: [...record.shown, ...fresh.map(({ id }) => id)].slice(-SHOWN_LIMIT) });
+      }
+      entry.continue();
+    };
+    transaction.oncomplete = () => resolve(due);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function showDue() {
+  const database = await openDb();
+  const due = await claimDue(database, Date.now() / 1000);
+  database.close();
+
+  await Promise.all(
+    due.map(({ id, title, body, url }) =>
+      self.registration.showNotification(title, { body, tag: id, icon: '/blendra-icon.svg', data: { url } })
+    )
+  );
+}
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(showDue());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (!open) return self.clients.openWindow(url);
+      // navigate() only works on pages this worker controls; anything else gets a fresh window
+      return open
+        .focus()
+        .then((client) => (client.url === url ? client : client.navigate(url)))
+        .catch(() => self.clients.openWindow(url));
+    })
+  );
+});